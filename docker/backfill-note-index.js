@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+/**
+ * Backfill the note index keys on existing note items: the clinic feed (GSI1) and the
+ * noteId lookup (GSI2).
+ *
+ * Usage:
+ *   node docker/backfill-note-index.js [exportFile] [--out <file>]
+ *       Rewrite a dynamodb-export.json-shaped file (defaults to ../dynamodb-export.json, in place)
+ *   node docker/backfill-note-index.js --table
+ *       Update items in the live table (TABLE_NAME, DYNAMODB_ENDPOINT, AWS_REGION)
+ *
+ * Only note items (PK = CLINIC#<id>#PATIENT#<id>, SK = NOTE#<date>#<noteId>) are touched;
+ * items whose index keys are already current are left as they are, so the script is safe
+ * to re-run. Seed items with the older status-partitioned GSI1 keys
+ * (CLINIC#<id>#STATUS#<status>) are moved to the clinic feed partition.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const TABLE_NAME = process.env.TABLE_NAME || 'SnoreMDNotes-dev';
+const REGION = process.env.AWS_REGION || 'us-east-1';
+const ENDPOINT = process.env.DYNAMODB_ENDPOINT;
+const DEFAULT_EXPORT_FILE = path.join(__dirname, '..', 'dynamodb-export.json');
+
+const PATIENT_PK_PATTERN = /^CLINIC#[^#]+#PATIENT#[^#]+$/;
+const FEED_PK_SUFFIX = '#NOTES';
+
+/**
+ * True for note items in DynamoDB attribute-value format (as found in the export file)
+ */
+function isNoteItem(item) {
+  const pk = item.PK && item.PK.S;
+  const sk = item.SK && item.SK.S;
+  const noteId = item.noteId && item.noteId.S;
+  return Boolean(pk && sk && noteId && PATIENT_PK_PATTERN.test(pk) && sk.startsWith('NOTE#'));
+}
+
+/**
+ * Index keys a note item should carry, in attribute-value format
+ */
+function noteIndexKeys(item) {
+  const clinicId = item.PK.S.split('#')[1];
+  const studyDate = item.SK.S.split('#')[1];
+  return {
+    GSI1PK: { S: `CLINIC#${clinicId}${FEED_PK_SUFFIX}` },
+    GSI1SK: { S: `DATE#${studyDate}#NOTE#${item.noteId.S}` },
+    GSI2PK: { S: `NOTE#${item.noteId.S}` },
+    GSI2SK: { S: item.PK.S },
+  };
+}
+
+/**
+ * Return the item with its index keys set when it is a note whose keys are missing or stale
+ */
+function withNoteIndexKeys(item) {
+  if (!isNoteItem(item)) {
+    return item;
+  }
+  const keys = noteIndexKeys(item);
+  const current = Object.keys(keys).every(name => item[name] && item[name].S === keys[name].S);
+  return current ? item : { ...item, ...keys };
+}
+
+function backfillFile(inputFile, outputFile) {
+  console.log(`Reading export: ${inputFile}`);
+  const data = JSON.parse(fs.readFileSync(inputFile, 'utf8'));
+  const items = data.Items || [];
+
+  let updated = 0;
+  const backfilled = items.map(item => {
+    const result = withNoteIndexKeys(item);
+    if (result !== item) {
+      updated++;
+    }
+    return result;
+  });
+
+  fs.writeFileSync(outputFile, JSON.stringify({ ...data, Items: backfilled }, null, 2) + '\n');
+  console.log(`Backfilled ${updated} of ${items.length} items -> ${outputFile}`);
+}
+
+async function backfillTable() {
+  const { DynamoDBClient, ScanCommand, UpdateItemCommand } = require('@aws-sdk/client-dynamodb');
+
+  const client = new DynamoDBClient({
+    region: REGION,
+    ...(ENDPOINT && {
+      endpoint: ENDPOINT,
+      credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+    }),
+  });
+
+  console.log(`Backfilling note index keys in table: ${TABLE_NAME}`);
+
+  let exclusiveStartKey;
+  let scanned = 0;
+  let updated = 0;
+  let failed = 0;
+
+  do {
+    const page = await client.send(
+      new ScanCommand({
+        TableName: TABLE_NAME,
+        FilterExpression:
+          'begins_with(SK, :note) AND (attribute_not_exists(GSI2PK) OR attribute_not_exists(GSI1PK) OR NOT contains(GSI1PK, :feed))',
+        ExpressionAttributeValues: { ':note': { S: 'NOTE#' }, ':feed': { S: FEED_PK_SUFFIX } },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    scanned += page.ScannedCount || 0;
+
+    for (const item of page.Items || []) {
+      if (withNoteIndexKeys(item) === item) {
+        continue;
+      }
+      const keys = noteIndexKeys(item);
+      try {
+        await client.send(
+          new UpdateItemCommand({
+            TableName: TABLE_NAME,
+            Key: { PK: item.PK, SK: item.SK },
+            UpdateExpression:
+              'SET GSI1PK = :gsi1pk, GSI1SK = :gsi1sk, GSI2PK = :gsi2pk, GSI2SK = :gsi2sk',
+            // Skip items deleted since the scan read them
+            ConditionExpression: 'attribute_exists(PK)',
+            ExpressionAttributeValues: {
+              ':gsi1pk': keys.GSI1PK,
+              ':gsi1sk': keys.GSI1SK,
+              ':gsi2pk': keys.GSI2PK,
+              ':gsi2sk': keys.GSI2SK,
+            },
+          })
+        );
+        updated++;
+      } catch (error) {
+        if (error.name !== 'ConditionalCheckFailedException') {
+          console.error(`\nFailed to update ${item.PK.S} ${item.SK.S}: ${error.message}`);
+          failed++;
+        }
+      }
+    }
+
+    process.stdout.write(`\rScanned ${scanned} items, updated ${updated}`);
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`\n\nBackfill complete: ${updated} notes updated, ${failed} failed.`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--table')) {
+    await backfillTable();
+    return;
+  }
+
+  const outIndex = args.indexOf('--out');
+  const outputFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+  const positional = args.filter(
+    (arg, i) => !arg.startsWith('--') && (outIndex < 0 || i !== outIndex + 1)
+  );
+  const inputFile = positional[0] || DEFAULT_EXPORT_FILE;
+
+  backfillFile(inputFile, outputFile || inputFile);
+}
+
+module.exports = { isNoteItem, withNoteIndexKeys };
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Failed:', err.message);
+    process.exit(1);
+  });
+}
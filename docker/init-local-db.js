@@ -7,6 +7,7 @@
 const { DynamoDBClient, CreateTableCommand, ListTablesCommand, BatchWriteItemCommand } = require('@aws-sdk/client-dynamodb');
 const fs = require('fs');
 const path = require('path');
+const { withNoteIndexKeys } = require('./backfill-note-index');
 
 const ENDPOINT = process.env.DYNAMODB_ENDPOINT || 'http://localhost:8000';
 const TABLE_NAME = process.env.TABLE_NAME || 'SnoreMDNotes-dev';
@@ -52,11 +53,45 @@ async function createTable() {
       AttributeDefinitions: [
         { AttributeName: 'PK', AttributeType: 'S' },
         { AttributeName: 'SK', AttributeType: 'S' },
+        { AttributeName: 'GSI1PK', AttributeType: 'S' },
+        { AttributeName: 'GSI1SK', AttributeType: 'S' },
+        { AttributeName: 'GSI2PK', AttributeType: 'S' },
+        { AttributeName: 'GSI2SK', AttributeType: 'S' },
+        { AttributeName: 'updatedAt', AttributeType: 'S' },
       ],
       KeySchema: [
         { AttributeName: 'PK', KeyType: 'HASH' },
         { AttributeName: 'SK', KeyType: 'RANGE' },
       ],
+      GlobalSecondaryIndexes: [
+        {
+          // Clinic-wide note feed and patient list - keep in sync with infra/template.yaml
+          IndexName: 'GSI1',
+          KeySchema: [
+            { AttributeName: 'GSI1PK', KeyType: 'HASH' },
+            { AttributeName: 'GSI1SK', KeyType: 'RANGE' },
+          ],
+          Projection: { ProjectionType: 'ALL' },
+        },
+        {
+          // Direct note lookup by noteId - keep in sync with infra/template.yaml
+          IndexName: 'GSI2',
+          KeySchema: [
+            { AttributeName: 'GSI2PK', KeyType: 'HASH' },
+            { AttributeName: 'GSI2SK', KeyType: 'RANGE' },
+          ],
+          Projection: { ProjectionType: 'KEYS_ONLY' },
+        },
+        {
+          // Patient notes by updatedAt - keep in sync with infra/template.yaml
+          IndexName: 'GSI3',
+          KeySchema: [
+            { AttributeName: 'PK', KeyType: 'HASH' },
+            { AttributeName: 'updatedAt', KeyType: 'RANGE' },
+          ],
+          Projection: { ProjectionType: 'ALL' },
+        },
+      ],
       BillingMode: 'PAY_PER_REQUEST',
     });
 
@@ -84,7 +119,8 @@ async function importData() {
   console.log(`\nImporting data from: ${EXPORT_FILE}`);
 
   const data = JSON.parse(fs.readFileSync(EXPORT_FILE, 'utf8'));
-  const items = data.Items || [];
+  // Older exports predate the note indexes, so set their keys on the way in
+  const items = (data.Items || []).map(withNoteIndexKeys);
 
   if (items.length === 0) {
     console.log('No items to import.');
@@ -0,0 +1,61 @@
+import {
+  DeleteObjectsCommand,
+  ListObjectVersionsCommand,
+  ObjectIdentifier,
+} from '@aws-sdk/client-s3';
+import { logger } from '../lib/logger';
+import { buildS3NotePrefix } from './keys';
+import { s3Client, ATTACHMENTS_BUCKET } from './s3-client';
+
+/**
+ * Permanently removes every object stored under a note's attachment prefix.
+ * The bucket is versioned, so all versions and delete markers are removed, not just
+ * the latest object. Safe to call repeatedly; returns the number of versions removed.
+ */
+export async function deleteNoteObjects(
+  clinicId: string,
+  patientId: string,
+  noteId: string
+): Promise<number> {
+  const prefix = buildS3NotePrefix(clinicId, patientId, noteId);
+  let removed = 0;
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+
+  do {
+    const listing = await s3Client.send(
+      new ListObjectVersionsCommand({
+        Bucket: ATTACHMENTS_BUCKET,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        VersionIdMarker: versionIdMarker,
+      })
+    );
+
+    const objects: ObjectIdentifier[] = [
+      ...(listing.Versions ?? []),
+      ...(listing.DeleteMarkers ?? []),
+    ].flatMap((entry) => (entry.Key ? [{ Key: entry.Key, VersionId: entry.VersionId }] : []));
+
+    if (objects.length > 0) {
+      const result = await s3Client.send(
+        new DeleteObjectsCommand({
+          Bucket: ATTACHMENTS_BUCKET,
+          Delete: { Objects: objects, Quiet: true },
+        })
+      );
+
+      if (result.Errors && result.Errors.length > 0) {
+        throw new Error(`Failed to delete ${result.Errors.length} attachment object(s)`);
+      }
+
+      removed += objects.length;
+    }
+
+    keyMarker = listing.IsTruncated ? listing.NextKeyMarker : undefined;
+    versionIdMarker = listing.IsTruncated ? listing.NextVersionIdMarker : undefined;
+  } while (keyMarker);
+
+  logger.info('Attachment objects deleted', { clinicId, patientId, noteId, removed });
+  return removed;
+}
@@ -1,5 +1,5 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
 
 const isLocal = process.env.AWS_SAM_LOCAL === 'true' || process.env.IS_LOCAL === 'true';
 
@@ -25,3 +25,19 @@ export const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
 });
 
 export const TABLE_NAME = process.env.TABLE_NAME ?? 'SnoreMDNotes';
+
+// One write of a TransactWriteCommand, for writes built by one repository and sent by another
+export type TransactWriteItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+// Sparse index over live and soft-deleted note items, keyed by noteId
+export const NOTE_ID_INDEX_NAME = 'GSI2';
+
+// Clinic-wide note feed, keyed by clinic and ordered by studyDate
+export const CLINIC_NOTE_FEED_INDEX_NAME = 'GSI1';
+
+// A clinic's patients; same index as the note feed, in a partition of their own
+export const CLINIC_PATIENTS_INDEX_NAME = 'GSI1';
+
+// A patient's notes ordered by updatedAt; keyed on the table PK, so notes need no extra
+// attributes to appear in it
+export const NOTE_UPDATED_INDEX_NAME = 'GSI3';
@@ -9,6 +9,8 @@ export interface Clinic {
   phone?: string;
   email?: string;
   timezone?: string;
+  /** Days a soft-deleted note is kept before the purge job removes it permanently */
+  deletedNoteRetentionDays?: number;
   createdAt: string;
   updatedAt: string;
   status: 'active' | 'inactive';
@@ -23,6 +25,7 @@ interface DynamoDBClinicItem {
   phone?: string;
   email?: string;
   timezone?: string;
+  deletedNoteRetentionDays?: number;
   createdAt: string;
   updatedAt: string;
   status: string;
@@ -37,6 +40,7 @@ function toClinic(item: DynamoDBClinicItem): Clinic {
     phone: item.phone,
     email: item.email,
     timezone: item.timezone,
+    deletedNoteRetentionDays: item.deletedNoteRetentionDays,
     createdAt: item.createdAt,
     updatedAt: item.updatedAt,
     status: item.status as 'active' | 'inactive',
@@ -57,6 +61,7 @@ export async function create(clinic: Omit<Clinic, 'createdAt' | 'updatedAt'>): P
     phone: clinic.phone,
     email: clinic.email,
     timezone: clinic.timezone || 'America/New_York',
+    deletedNoteRetentionDays: clinic.deletedNoteRetentionDays,
     createdAt: now,
     updatedAt: now,
     status: clinic.status || 'active',
@@ -0,0 +1,106 @@
+import { BatchWriteCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { ComplianceRecord } from '../types';
+import { docClient, TABLE_NAME } from './client';
+import { buildComplianceSK, buildPK } from './keys';
+
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
+
+interface DynamoDBComplianceItem extends ComplianceRecord {
+  PK: string;
+  SK: string;
+  entityType: string;
+  clinicId: string;
+  patientId: string;
+  importedAt: string;
+  importedBy: string;
+}
+
+type PutRequest = { PutRequest: { Item: Record<string, unknown> } };
+
+function itemToRecord(item: DynamoDBComplianceItem): ComplianceRecord {
+  return {
+    date: item.date,
+    usageMinutes: item.usageMinutes,
+    residualAhi: item.residualAhi,
+    leak: item.leak,
+    pressure: item.pressure,
+  };
+}
+
+/**
+ * Writes one item per night. A night that is already stored is replaced, so a device
+ * export can be imported again after a correction.
+ */
+export async function putMany(
+  clinicId: string,
+  patientId: string,
+  records: ComplianceRecord[],
+  importedBy: string
+): Promise<void> {
+  const importedAt = new Date().toISOString();
+  const requests: PutRequest[] = records.map((record) => ({
+    PutRequest: {
+      Item: {
+        PK: buildPK(clinicId, patientId),
+        SK: buildComplianceSK(record.date),
+        entityType: 'COMPLIANCE',
+        clinicId,
+        patientId,
+        ...record,
+        importedAt,
+        importedBy,
+      },
+    },
+  }));
+
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    let pending = requests.slice(i, i + BATCH_WRITE_SIZE);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_ATTEMPTS) {
+        throw new Error(`Compliance import left ${pending.length} unprocessed items`);
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [TABLE_NAME]: pending } })
+      );
+      pending = (result.UnprocessedItems?.[TABLE_NAME] ?? []) as PutRequest[];
+      if (pending.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+    }
+  }
+}
+
+/**
+ * The patient's nights from `from` to `to` (inclusive), oldest first.
+ */
+export async function listByDateRange(
+  clinicId: string,
+  patientId: string,
+  from: string,
+  to: string
+): Promise<ComplianceRecord[]> {
+  const records: ComplianceRecord[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :skStart AND :skEnd',
+        ExpressionAttributeValues: {
+          ':pk': buildPK(clinicId, patientId),
+          ':skStart': buildComplianceSK(from),
+          ':skEnd': buildComplianceSK(to),
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+        ScanIndexForward: true,
+      })
+    );
+    records.push(...((result.Items ?? []) as DynamoDBComplianceItem[]).map(itemToRecord));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return records;
+}
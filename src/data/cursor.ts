@@ -1,36 +1,333 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+
+const CURSOR_VERSION = 'v1';
+
+/** Cursors expire a day after they are issued */
+export const CURSOR_TTL_SECONDS = 24 * 60 * 60;
+
+const isLocal =
+  process.env.AWS_SAM_LOCAL === 'true' ||
+  process.env.IS_LOCAL === 'true' ||
+  process.env.NODE_ENV === 'test';
+
+// Only used by SAM local and tests; deployed stacks must set CURSOR_SIGNING_SECRET
+const LOCAL_SIGNING_SECRET = 'local-cursor-signing-secret';
+
+/**
+ * What a cursor is valid for: the clinic and patient it was issued to, the list that
+ * produced it and that list's filters. A cursor only decodes against the same binding.
+ */
+export interface CursorBinding {
+  clinicId: string;
+  patientId?: string;
+  list: string;
+  filters?: Record<string, unknown>;
+}
+
+interface SignedCursorPayload {
+  /** Position within the list */
+  data: unknown;
+  /** Hash of the CursorBinding, so filter values are not exposed in the cursor */
+  bind: string;
+  /** Expiry, seconds since epoch */
+  exp: number;
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.CURSOR_SIGNING_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (isLocal) {
+    return LOCAL_SIGNING_SECRET;
+  }
+  throw new Error('CURSOR_SIGNING_SECRET is not configured');
+}
+
+/**
+ * JSON with object keys sorted and undefined members dropped, so equal bindings always
+ * hash the same regardless of how the filter object was built.
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, member]) => member !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, member]) => `${JSON.stringify(key)}:${canonicalize(member)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function hashBinding(binding: CursorBinding): string {
+  return createHash('sha256').update(canonicalize(binding)).digest('base64url');
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', getSigningSecret()).update(`${CURSOR_VERSION}.${payload}`).digest();
+}
+
+/**
+ * Wraps a list position in a signed, expiring cursor: `v1.<payload>.<signature>`.
+ */
+export function signCursor(data: unknown, binding: CursorBinding, now = Date.now()): string {
+  const payload: SignedCursorPayload = {
+    data,
+    bind: hashBinding(binding),
+    exp: Math.floor(now / 1000) + CURSOR_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+  return `${CURSOR_VERSION}.${encoded}.${sign(encoded).toString('base64url')}`;
+}
+
+/**
+ * Returns the position carried by a cursor issued by signCursor for the same binding.
+ * Throws ValidationError for tampered, expired, unsigned or foreign cursors.
+ */
+export function verifyCursor(cursor: string, binding: CursorBinding, now = Date.now()): unknown {
+  const [version, encoded, signature, ...rest] = cursor.split('.');
+
+  if (version !== CURSOR_VERSION || !encoded || !signature || rest.length > 0) {
+    // Unsigned cursors issued before signing was introduced end up here
+    logger.info('Rejected cursor in an unsupported format', { list: binding.list });
+    throw new ValidationError('Cursor is no longer valid; request the first page again');
+  }
+
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  let payload: SignedCursorPayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf-8')
+    ) as SignedCursorPayload;
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (payload.bind !== hashBinding(binding)) {
+    throw new ValidationError('Cursor does not match this query');
+  }
+  if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now) {
+    throw new ValidationError('Cursor has expired; request the first page again');
+  }
+
+  return payload.data;
+}
+
 interface CursorData {
   PK: string;
   SK: string;
+  /** Index sort key, present when the list was read from the updatedAt index */
+  updatedAt?: string;
 }
 
-export function encodeCursor(lastEvaluatedKey: Record<string, unknown>): string {
+export function encodeCursor(
+  lastEvaluatedKey: Record<string, unknown>,
+  binding: CursorBinding
+): string {
   const cursorData: CursorData = {
     PK: lastEvaluatedKey['PK'] as string,
     SK: lastEvaluatedKey['SK'] as string,
   };
-  const json = JSON.stringify(cursorData);
-  return Buffer.from(json, 'utf-8').toString('base64url');
+  if (typeof lastEvaluatedKey['updatedAt'] === 'string') {
+    cursorData.updatedAt = lastEvaluatedKey['updatedAt'];
+  }
+  return signCursor(cursorData, binding);
 }
 
-export function decodeCursor(cursor: string): Record<string, string> | undefined {
-  try {
-    const json = Buffer.from(cursor, 'base64url').toString('utf-8');
-    const cursorData = JSON.parse(json) as CursorData;
-
-    if (
-      typeof cursorData.PK !== 'string' ||
-      typeof cursorData.SK !== 'string' ||
-      !cursorData.PK.startsWith('CLINIC#') ||
-      !cursorData.SK.startsWith('NOTE#')
-    ) {
-      return undefined;
-    }
-
-    return {
-      PK: cursorData.PK,
-      SK: cursorData.SK,
-    };
-  } catch {
-    return undefined;
+export function decodeCursor(cursor: string, binding: CursorBinding): Record<string, string> {
+  const cursorData = verifyCursor(cursor, binding) as Partial<CursorData> | null;
+
+  if (
+    typeof cursorData?.PK !== 'string' ||
+    typeof cursorData.SK !== 'string' ||
+    !cursorData.PK.startsWith('CLINIC#') ||
+    !cursorData.SK.startsWith('NOTE#') ||
+    (cursorData.updatedAt !== undefined && typeof cursorData.updatedAt !== 'string')
+  ) {
+    throw new ValidationError('Invalid cursor');
   }
+
+  return {
+    PK: cursorData.PK,
+    SK: cursorData.SK,
+    ...(cursorData.updatedAt !== undefined && { updatedAt: cursorData.updatedAt }),
+  };
+}
+
+export interface SearchCursorPosition {
+  score: number;
+  studyDate: string;
+  noteId: string;
+}
+
+/**
+ * Search results are ordered by (score desc, studyDate desc, noteId asc); the cursor is
+ * the position of the last returned hit, so later pages start strictly after it.
+ */
+export function encodeSearchCursor(position: SearchCursorPosition, binding: CursorBinding): string {
+  return signCursor(
+    { score: position.score, studyDate: position.studyDate, noteId: position.noteId },
+    binding
+  );
+}
+
+export function decodeSearchCursor(cursor: string, binding: CursorBinding): SearchCursorPosition {
+  const position = verifyCursor(cursor, binding) as Partial<SearchCursorPosition> | null;
+
+  if (
+    typeof position?.score !== 'number' ||
+    typeof position.studyDate !== 'string' ||
+    typeof position.noteId !== 'string'
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  return {
+    score: position.score,
+    studyDate: position.studyDate,
+    noteId: position.noteId,
+  };
+}
+
+interface ClinicFeedCursorData {
+  PK: string;
+  SK: string;
+  GSI1PK: string;
+  GSI1SK: string;
+}
+
+/**
+ * Clinic feed pages come from the GSI1 index, so the cursor carries both the table key
+ * and the index key of the last evaluated item.
+ */
+export function encodeClinicFeedCursor(
+  lastEvaluatedKey: Record<string, unknown>,
+  binding: CursorBinding
+): string {
+  const cursorData: ClinicFeedCursorData = {
+    PK: lastEvaluatedKey['PK'] as string,
+    SK: lastEvaluatedKey['SK'] as string,
+    GSI1PK: lastEvaluatedKey['GSI1PK'] as string,
+    GSI1SK: lastEvaluatedKey['GSI1SK'] as string,
+  };
+  return signCursor(cursorData, binding);
+}
+
+export function decodeClinicFeedCursor(
+  cursor: string,
+  binding: CursorBinding
+): Record<string, string> {
+  const cursorData = verifyCursor(cursor, binding) as Partial<ClinicFeedCursorData> | null;
+
+  if (
+    typeof cursorData?.PK !== 'string' ||
+    typeof cursorData.SK !== 'string' ||
+    typeof cursorData.GSI1PK !== 'string' ||
+    typeof cursorData.GSI1SK !== 'string' ||
+    !cursorData.SK.startsWith('NOTE#')
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  return {
+    PK: cursorData.PK,
+    SK: cursorData.SK,
+    GSI1PK: cursorData.GSI1PK,
+    GSI1SK: cursorData.GSI1SK,
+  };
+}
+
+interface PatientListCursorData {
+  PK: string;
+  SK: string;
+  GSI1PK: string;
+  GSI1SK: string;
+}
+
+/**
+ * Patient list pages come from the GSI1 index as well, so the cursor carries both keys
+ * of the last evaluated patient.
+ */
+export function encodePatientListCursor(
+  lastEvaluatedKey: Record<string, unknown>,
+  binding: CursorBinding
+): string {
+  const cursorData: PatientListCursorData = {
+    PK: lastEvaluatedKey['PK'] as string,
+    SK: lastEvaluatedKey['SK'] as string,
+    GSI1PK: lastEvaluatedKey['GSI1PK'] as string,
+    GSI1SK: lastEvaluatedKey['GSI1SK'] as string,
+  };
+  return signCursor(cursorData, binding);
+}
+
+export function decodePatientListCursor(
+  cursor: string,
+  binding: CursorBinding
+): Record<string, string> {
+  const cursorData = verifyCursor(cursor, binding) as Partial<PatientListCursorData> | null;
+
+  if (
+    typeof cursorData?.PK !== 'string' ||
+    typeof cursorData.SK !== 'string' ||
+    typeof cursorData.GSI1PK !== 'string' ||
+    typeof cursorData.GSI1SK !== 'string' ||
+    !cursorData.GSI1SK.startsWith('PATIENT#')
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  return {
+    PK: cursorData.PK,
+    SK: cursorData.SK,
+    GSI1PK: cursorData.GSI1PK,
+    GSI1SK: cursorData.GSI1SK,
+  };
+}
+
+export interface PatientSearchCursorPosition {
+  score: number;
+  name: string;
+  patientId: string;
+}
+
+/**
+ * Patient search results are ordered by (score desc, name asc, patientId asc); the cursor
+ * is the position of the last returned patient.
+ */
+export function encodePatientSearchCursor(
+  position: PatientSearchCursorPosition,
+  binding: CursorBinding
+): string {
+  return signCursor(
+    { score: position.score, name: position.name, patientId: position.patientId },
+    binding
+  );
+}
+
+export function decodePatientSearchCursor(
+  cursor: string,
+  binding: CursorBinding
+): PatientSearchCursorPosition {
+  const position = verifyCursor(cursor, binding) as Partial<PatientSearchCursorPosition> | null;
+
+  if (
+    typeof position?.score !== 'number' ||
+    typeof position.name !== 'string' ||
+    typeof position.patientId !== 'string'
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  return { score: position.score, name: position.name, patientId: position.patientId };
 }
@@ -6,6 +6,39 @@ export function buildSK(studyDate: string, noteId: string): string {
   return `NOTE#${studyDate}#${noteId}`;
 }
 
+// Note revision keys live in the patient partition. The HISTORY# prefix sorts before
+// NOTE# so date-range queries on notes never pick up revision items.
+export function buildNoteRevisionSKPrefix(noteId: string): string {
+  return `HISTORY#${noteId}#`;
+}
+
+export function buildNoteRevisionSK(noteId: string, version: number): string {
+  return `${buildNoteRevisionSKPrefix(noteId)}${String(version).padStart(10, '0')}`;
+}
+
+// PAP compliance records live in the patient partition, one item per night. COMPLIANCE#
+// sorts before NOTE#, so note queries never pick them up, and a date range of nights is
+// a single BETWEEN query.
+export function buildComplianceSK(date: string): string {
+  return `COMPLIANCE#${date}`;
+}
+
+// Note lookup index (GSI2). Keyed by noteId with the patient partition as the sort key,
+// so a lookup is always scoped to the caller's clinic and patient.
+export function buildNoteIdIndexPK(noteId: string): string {
+  return `NOTE#${noteId}`;
+}
+
+// Clinic note feed index (GSI1). All notes of a clinic share one index partition,
+// ordered by study date.
+export function buildClinicNoteFeedPK(clinicId: string): string {
+  return `CLINIC#${clinicId}#NOTES`;
+}
+
+export function buildClinicNoteFeedSK(studyDate: string, noteId: string): string {
+  return `DATE#${studyDate}#NOTE#${noteId}`;
+}
+
 export interface ParsedSK {
   studyDate: string;
   noteId: string;
@@ -46,7 +79,50 @@ export function buildS3Key(
   fileName: string
 ): string {
   const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
-  return `clinic/${clinicId}/patient/${patientId}/note/${noteId}/${attachmentId}/${sanitizedFileName}`;
+  return `${buildS3NotePrefix(clinicId, patientId, noteId)}${attachmentId}/${sanitizedFileName}`;
+}
+
+export function buildS3NotePrefix(clinicId: string, patientId: string, noteId: string): string {
+  return `clinic/${clinicId}/patient/${patientId}/note/${noteId}/`;
+}
+
+// Search index keys. Each patient has its own index partition next to (not inside) the
+// notes partition, so index items never show up in note queries.
+export function buildSearchIndexPK(clinicId: string, patientId: string): string {
+  return `${buildPK(clinicId, patientId)}#SEARCH`;
+}
+
+export function buildSearchTermSKPrefix(term: string): string {
+  return `TERM#${term}#`;
+}
+
+export function buildSearchTermSK(term: string, noteId: string): string {
+  return `${buildSearchTermSKPrefix(term)}${noteId}`;
+}
+
+export function buildSearchDocumentSK(noteId: string): string {
+  return `DOC#${noteId}`;
+}
+
+export function buildSearchStatsSK(): string {
+  return 'STATS';
+}
+
+export function buildSearchPendingSKPrefix(): string {
+  return 'PENDING#';
+}
+
+export function buildSearchPendingSK(noteId: string): string {
+  return `${buildSearchPendingSKPrefix()}${noteId}`;
+}
+
+// Note counters, kept next to the notes partition for the same reason as the search index
+export function buildNoteCountsPK(clinicId: string, patientId: string): string {
+  return `${buildPK(clinicId, patientId)}#COUNTS`;
+}
+
+export function buildNoteCountsSK(): string {
+  return 'NOTES';
 }
 
 // Clinic keys (single-table design)
@@ -58,6 +134,16 @@ export function buildClinicSK(): string {
   return 'METADATA';
 }
 
+// Note templates live in the clinic partition next to its METADATA item, grouped by
+// note type so the templates for one type are a single prefix query
+export function buildNoteTemplateSKPrefix(noteType?: string): string {
+  return noteType === undefined ? 'TEMPLATE#' : `TEMPLATE#${noteType}#`;
+}
+
+export function buildNoteTemplateSK(noteType: string, templateId: string): string {
+  return `${buildNoteTemplateSKPrefix(noteType)}${templateId}`;
+}
+
 // Patient keys (single-table design)
 export function buildPatientPK(clinicId: string, patientId: string): string {
   return `CLINIC#${clinicId}#PATIENT#${patientId}`;
@@ -67,6 +153,49 @@ export function buildPatientSK(): string {
   return 'METADATA';
 }
 
+// Clinic patient list (GSI1, next to the note feed). All patients of a clinic share one
+// index partition, ordered by patientId.
+export function buildClinicPatientsPK(clinicId: string): string {
+  return `CLINIC#${clinicId}#PATIENTS`;
+}
+
+export function buildClinicPatientsSK(patientId: string): string {
+  return `PATIENT#${patientId}`;
+}
+
+// Patient search index. One partition per clinic next to the patient items:
+// `{field}#{value}#{patientId}` term items and a STATE item recording the index version.
+export function buildPatientSearchPK(clinicId: string): string {
+  return `CLINIC#${clinicId}#PATIENT_SEARCH`;
+}
+
+export function buildPatientSearchTermSK(term: string, patientId: string): string {
+  return `${term}#${patientId}`;
+}
+
+export function buildPatientSearchStateSK(): string {
+  return 'STATE';
+}
+
+// Tombstone keys for permanently purged notes (single-table design)
+export function buildTombstonePK(clinicId: string): string {
+  return `CLINIC#${clinicId}#TOMBSTONES`;
+}
+
+export function buildTombstoneSK(noteId: string): string {
+  return `NOTE#${noteId}`;
+}
+
+// Co-signature queue keys: one item per note awaiting a physician co-signature,
+// ordered oldest request first (single-table design)
+export function buildCosignQueuePK(clinicId: string): string {
+  return `CLINIC#${clinicId}#COSIGN_QUEUE`;
+}
+
+export function buildCosignQueueSK(requestedAt: string, noteId: string): string {
+  return `NOTE#${requestedAt}#${noteId}`;
+}
+
 // User keys (single-table design)
 export function buildUserPK(clinicId: string, userId: string): string {
   return `CLINIC#${clinicId}#USER#${userId}`;
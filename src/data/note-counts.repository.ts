@@ -0,0 +1,180 @@
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import type { Note, NoteFacets } from '../types';
+import { logger } from '../lib/logger';
+import { docClient, TABLE_NAME, TransactWriteItem } from './client';
+import { buildNoteCountsPK, buildNoteCountsSK } from './keys';
+
+const TOTAL_COUNTER = 'total';
+
+/** The fields a note is counted by */
+export type CountedNote = Pick<Note, 'noteType' | 'tags' | 'studyDate'>;
+
+export interface NoteCounts {
+  /** Live notes of the patient */
+  total: number;
+  facets: NoteFacets;
+}
+
+interface DynamoDBNoteCountsItem {
+  PK: string;
+  SK: string;
+  entityType: string;
+  /** Set when the counters were built from the patient's notes */
+  initializedAt?: string;
+  /** Note writes applied to the counters; guards the build against concurrent writes */
+  changeCount?: number;
+  [counter: string]: unknown;
+}
+
+/**
+ * Counters are top-level number attributes (`total`, `noteType:{type}`, `tag:{tag}`,
+ * `year:{yyyy}`) so a single ADD creates or adjusts any of them.
+ */
+function countersOf(note: CountedNote): string[] {
+  return [
+    TOTAL_COUNTER,
+    ...(note.noteType ? [`noteType:${note.noteType}`] : []),
+    ...[...new Set(note.tags ?? [])].map((tag) => `tag:${tag}`),
+    `year:${note.studyDate.slice(0, 4)}`,
+  ];
+}
+
+function keyOf(clinicId: string, patientId: string): { PK: string; SK: string } {
+  return { PK: buildNoteCountsPK(clinicId, patientId), SK: buildNoteCountsSK() };
+}
+
+function itemToCounts(item: Record<string, unknown>): NoteCounts {
+  const counts: NoteCounts = { total: 0, facets: { noteType: {}, tag: {}, year: {} } };
+
+  for (const [name, value] of Object.entries(item)) {
+    if (typeof value !== 'number') {
+      continue;
+    }
+    if (name === TOTAL_COUNTER) {
+      counts.total = Math.max(value, 0);
+      continue;
+    }
+    const separator = name.indexOf(':');
+    const facet = name.slice(0, separator);
+    // Counters that dropped to zero are left behind by deletes and edits
+    if (
+      separator > 0 &&
+      value > 0 &&
+      (facet === 'noteType' || facet === 'tag' || facet === 'year')
+    ) {
+      counts.facets[facet][name.slice(separator + 1)] = value;
+    }
+  }
+
+  return counts;
+}
+
+export interface NoteCountsState {
+  /** Undefined until the counters have been built */
+  counts?: NoteCounts;
+  /** Note writes applied to the counters so far; see {@link replace} */
+  changeCount: number;
+}
+
+export async function get(clinicId: string, patientId: string): Promise<NoteCountsState> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: keyOf(clinicId, patientId),
+      ConsistentRead: true,
+    })
+  );
+  const item = result.Item as DynamoDBNoteCountsItem | undefined;
+
+  return {
+    counts: item?.initializedAt ? itemToCounts(item) : undefined,
+    changeCount: item?.changeCount ?? 0,
+  };
+}
+
+/**
+ * The counter update that moves a note's contribution from its old to its new state, to
+ * be sent in the same transaction as the note write. `before` is absent for a new or
+ * restored note, `after` for a deleted one. Undefined when no counter changes.
+ */
+export function buildChange(
+  clinicId: string,
+  patientId: string,
+  before: CountedNote | undefined,
+  after: CountedNote | undefined
+): TransactWriteItem | undefined {
+  const deltas = new Map<string, number>();
+  for (const counter of before ? countersOf(before) : []) {
+    deltas.set(counter, (deltas.get(counter) ?? 0) - 1);
+  }
+  for (const counter of after ? countersOf(after) : []) {
+    deltas.set(counter, (deltas.get(counter) ?? 0) + 1);
+  }
+
+  const changed = [...deltas].filter(([, delta]) => delta !== 0);
+  if (changed.length === 0) {
+    return undefined;
+  }
+
+  return {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: keyOf(clinicId, patientId),
+      UpdateExpression:
+        `ADD ${changed.map((_, i) => `#counter${i} :delta${i}`).join(', ')}, ` + 'changeCount :one',
+      ExpressionAttributeNames: Object.fromEntries(
+        changed.map(([counter], i) => [`#counter${i}`, counter])
+      ),
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(changed.map(([, delta], i) => [`:delta${i}`, delta])),
+        ':one': 1,
+      },
+    },
+  };
+}
+
+/**
+ * Replaces every counter with the counts of the given notes. Used for the initial build,
+ * with the `changeCount` read before the notes were listed: the write only goes through if
+ * no note write has touched the counters since, otherwise the counts are returned without
+ * being stored and the next request builds them again.
+ */
+export async function replace(
+  clinicId: string,
+  patientId: string,
+  notes: CountedNote[],
+  changeCount: number
+): Promise<NoteCounts> {
+  const item: DynamoDBNoteCountsItem = {
+    ...keyOf(clinicId, patientId),
+    entityType: 'NOTE_COUNTS',
+    initializedAt: new Date().toISOString(),
+    changeCount,
+    [TOTAL_COUNTER]: 0,
+  };
+  for (const note of notes) {
+    for (const counter of countersOf(note)) {
+      item[counter] = ((item[counter] as number | undefined) ?? 0) + 1;
+    }
+  }
+
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: item,
+        ConditionExpression:
+          'attribute_not_exists(initializedAt) AND ' +
+          '(attribute_not_exists(changeCount) OR changeCount = :changeCount)',
+        ExpressionAttributeValues: { ':changeCount': changeCount },
+      })
+    );
+  } catch (err) {
+    if ((err as { name?: string }).name !== 'ConditionalCheckFailedException') {
+      throw err;
+    }
+    logger.info('Note counters changed while being built; not stored', { patientId });
+  }
+
+  return itemToCounts(item);
+}
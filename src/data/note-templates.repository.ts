@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DeleteCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { CreateNoteTemplateInput, NoteTemplate, UpdateNoteTemplateInput } from '../types';
+import { NotFoundError, VersionConflictError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { docClient, TABLE_NAME } from './client';
+import { buildClinicPK, buildNoteTemplateSK, buildNoteTemplateSKPrefix } from './keys';
+
+interface DynamoDBNoteTemplateItem {
+  PK: string;
+  SK: string;
+  templateId: string;
+  clinicId: string;
+  noteType: string;
+  name: string;
+  title?: string;
+  content: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+  version: number;
+  entityType: string;
+}
+
+function itemToTemplate(item: DynamoDBNoteTemplateItem): NoteTemplate {
+  return {
+    templateId: item.templateId,
+    clinicId: item.clinicId,
+    noteType: item.noteType,
+    name: item.name,
+    title: item.title,
+    content: item.content,
+    tags: item.tags,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    createdBy: item.createdBy,
+    updatedBy: item.updatedBy,
+    version: item.version,
+  };
+}
+
+/**
+ * Reads the clinic's templates, optionally of one note type. A clinic has a handful of
+ * templates, so all pages are followed.
+ */
+async function queryTemplates(
+  clinicId: string,
+  noteType?: string,
+  templateId?: string
+): Promise<DynamoDBNoteTemplateItem[]> {
+  const items: DynamoDBNoteTemplateItem[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+        ...(templateId !== undefined && { FilterExpression: 'templateId = :templateId' }),
+        ExpressionAttributeValues: {
+          ':pk': buildClinicPK(clinicId),
+          ':skPrefix': buildNoteTemplateSKPrefix(noteType),
+          ...(templateId !== undefined && { ':templateId': templateId }),
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    items.push(...((result.Items ?? []) as DynamoDBNoteTemplateItem[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+    // A lookup by id can stop at the page with the match
+  } while (exclusiveStartKey && (templateId === undefined || items.length === 0));
+
+  return items;
+}
+
+export async function create(
+  clinicId: string,
+  userId: string,
+  input: CreateNoteTemplateInput
+): Promise<NoteTemplate> {
+  const templateId = uuidv4();
+  const now = new Date().toISOString();
+
+  const item: DynamoDBNoteTemplateItem = {
+    PK: buildClinicPK(clinicId),
+    SK: buildNoteTemplateSK(input.noteType, templateId),
+    templateId,
+    clinicId,
+    noteType: input.noteType,
+    name: input.name,
+    title: input.title,
+    content: input.content,
+    tags: input.tags ?? [],
+    createdAt: now,
+    updatedAt: now,
+    createdBy: userId,
+    updatedBy: userId,
+    version: 1,
+    entityType: 'NOTE_TEMPLATE',
+  };
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+      ConditionExpression: 'attribute_not_exists(PK)',
+    })
+  );
+
+  logger.info('Note template created', { clinicId, templateId, noteType: input.noteType });
+  return itemToTemplate(item);
+}
+
+/**
+ * Finds a template by id alone. The note type in its key is unknown here, so the clinic's
+ * templates are searched.
+ */
+export async function findById(clinicId: string, templateId: string): Promise<NoteTemplate | null> {
+  const [item] = await queryTemplates(clinicId, undefined, templateId);
+
+  return item ? itemToTemplate(item) : null;
+}
+
+export async function list(clinicId: string, noteType?: string): Promise<NoteTemplate[]> {
+  const items = await queryTemplates(clinicId, noteType);
+
+  return items.map(itemToTemplate).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * @throws VersionConflictError if the template is no longer at input.version
+ */
+export async function update(
+  template: NoteTemplate,
+  userId: string,
+  input: UpdateNoteTemplateInput
+): Promise<NoteTemplate> {
+  const setExpressions = [
+    'updatedAt = :updatedAt',
+    'updatedBy = :updatedBy',
+    'version = version + :inc',
+  ];
+  const removeExpressions: string[] = [];
+  const expressionNames: Record<string, string> = {};
+  const expressionValues: Record<string, unknown> = {
+    ':updatedAt': new Date().toISOString(),
+    ':updatedBy': userId,
+    ':inc': 1,
+    ':expectedVersion': input.version,
+  };
+
+  if (input.name !== undefined) {
+    setExpressions.push('#name = :name');
+    expressionNames['#name'] = 'name';
+    expressionValues[':name'] = input.name;
+  }
+
+  // null removes the default title; undefined leaves it as it is
+  if (input.title === null) {
+    removeExpressions.push('title');
+  } else if (input.title !== undefined) {
+    setExpressions.push('title = :title');
+    expressionValues[':title'] = input.title;
+  }
+
+  if (input.content !== undefined) {
+    setExpressions.push('#content = :content');
+    expressionNames['#content'] = 'content';
+    expressionValues[':content'] = input.content;
+  }
+
+  if (input.tags !== undefined) {
+    setExpressions.push('tags = :tags');
+    expressionValues[':tags'] = input.tags;
+  }
+
+  try {
+    const result = await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: buildClinicPK(template.clinicId),
+          SK: buildNoteTemplateSK(template.noteType, template.templateId),
+        },
+        UpdateExpression:
+          `SET ${setExpressions.join(', ')}` +
+          (removeExpressions.length > 0 ? ` REMOVE ${removeExpressions.join(', ')}` : ''),
+        ConditionExpression: 'attribute_exists(PK) AND version = :expectedVersion',
+        ...(Object.keys(expressionNames).length > 0 && {
+          ExpressionAttributeNames: expressionNames,
+        }),
+        ExpressionAttributeValues: expressionValues,
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+
+    return itemToTemplate(result.Attributes as DynamoDBNoteTemplateItem);
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      throw new VersionConflictError(input.version);
+    }
+    throw err;
+  }
+}
+
+/**
+ * @throws NotFoundError if the template does not exist
+ */
+export async function remove(template: NoteTemplate): Promise<void> {
+  try {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: buildClinicPK(template.clinicId),
+          SK: buildNoteTemplateSK(template.noteType, template.templateId),
+        },
+        ConditionExpression: 'attribute_exists(PK)',
+      })
+    );
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      throw new NotFoundError('Note template', template.templateId);
+    }
+    throw err;
+  }
+
+  logger.info('Note template deleted', {
+    clinicId: template.clinicId,
+    templateId: template.templateId,
+  });
+}
@@ -1,17 +1,83 @@
 import {
+  BatchGetCommand,
+  BatchGetCommandOutput,
   DeleteCommand,
   GetCommand,
-  PutCommand,
   QueryCommand,
+  ScanCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
-import { Note, CreateNoteInput, UpdateNoteInput, PaginatedResponse, Attachment } from '../types';
-import { ConflictError, NotFoundError } from '../lib/errors';
+import {
+  Note,
+  NoteAddendum,
+  NoteCosignature,
+  CosignQueueEntry,
+  NoteRevision,
+  NoteSignature,
+  NoteSnapshot,
+  CreateNoteInput,
+  UpdateNoteInput,
+  PaginatedResponse,
+  Attachment,
+  StudyMetrics,
+  NoteListSort,
+  TagMatch,
+  toNoteSnapshot,
+} from '../types';
+import { ConflictError, NotFoundError, VersionConflictError } from '../lib/errors';
 import { logger } from '../lib/logger';
-import { docClient, TABLE_NAME } from './client';
-import { buildPK, buildSK } from './keys';
-import { encodeCursor, decodeCursor } from './cursor';
+import { isEqual } from '../lib/note-merge';
+import { matchesSearchQuery, SearchQuery } from '../lib/text-search';
+import {
+  docClient,
+  CLINIC_NOTE_FEED_INDEX_NAME,
+  NOTE_ID_INDEX_NAME,
+  NOTE_UPDATED_INDEX_NAME,
+  TABLE_NAME,
+  TransactWriteItem,
+} from './client';
+import * as noteCountsRepository from './note-counts.repository';
+import * as searchPendingRepository from './search-pending.repository';
+import { isConditionFailure, sendTransaction } from './transactions';
+import {
+  buildPK,
+  buildSK,
+  buildNoteIdIndexPK,
+  buildClinicNoteFeedPK,
+  buildClinicNoteFeedSK,
+  buildNoteRevisionSK,
+  buildNoteRevisionSKPrefix,
+  buildCosignQueuePK,
+  buildCosignQueueSK,
+} from './keys';
+import {
+  CursorBinding,
+  encodeCursor,
+  decodeCursor,
+  encodeClinicFeedCursor,
+  decodeClinicFeedCursor,
+} from './cursor';
+
+// Read by every list query, whatever the caller projects: keys for the cursor (updatedAt
+// is the GSI3 sort key) and the note's identity
+const LIST_KEY_ATTRIBUTES = [
+  'PK',
+  'SK',
+  'noteId',
+  'clinicId',
+  'patientId',
+  'studyDate',
+  'updatedAt',
+];
+
+// Items evaluated per clinic feed query, and queries per request
+const CLINIC_FEED_QUERY_LIMIT = 100;
+const CLINIC_FEED_MAX_QUERIES = 10;
+
+// Lookups through the noteId index, and the pause that lets the index catch up between them
+const NOTE_ID_INDEX_ATTEMPTS = 2;
+const NOTE_ID_INDEX_RETRY_DELAY_MS = 200;
 
 interface DynamoDBNoteItem {
   PK: string;
@@ -25,6 +91,7 @@ interface DynamoDBNoteItem {
   noteType?: string;
   tags?: string[];
   attachments: Attachment[];
+  studyMetrics?: StudyMetrics;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
@@ -34,9 +101,18 @@ interface DynamoDBNoteItem {
   version: number;
   deletedAt?: string;
   deletedBy?: string;
+  restoredAt?: string;
+  restoredBy?: string;
+  /** Set when the retention purge starts removing the note; it can no longer be restored */
+  purgingAt?: string;
+  signature?: NoteSignature;
+  addenda?: NoteAddendum[];
+  cosignature?: NoteCosignature;
   entityType: string;
   GSI1PK?: string;
   GSI1SK?: string;
+  GSI2PK?: string;
+  GSI2SK?: string;
 }
 
 function itemToNote(item: DynamoDBNoteItem): Note {
@@ -50,6 +126,7 @@ function itemToNote(item: DynamoDBNoteItem): Note {
     noteType: item.noteType,
     tags: item.tags ?? [],
     attachments: item.attachments ?? [],
+    studyMetrics: item.studyMetrics,
     createdAt: item.createdAt,
     updatedAt: item.updatedAt,
     createdBy: item.createdBy,
@@ -59,15 +136,212 @@ function itemToNote(item: DynamoDBNoteItem): Note {
     version: item.version,
     deletedAt: item.deletedAt,
     deletedBy: item.deletedBy,
+    restoredAt: item.restoredAt,
+    restoredBy: item.restoredBy,
+    signature: item.signature,
+    addenda: item.addenda ?? [],
+    cosignature: item.cosignature,
+  };
+}
+
+interface DynamoDBCosignQueueItem extends CosignQueueEntry {
+  PK: string;
+  SK: string;
+  entityType: string;
+}
+
+function buildCosignQueueItem(note: Note, requestedAt: string): DynamoDBCosignQueueItem {
+  return {
+    PK: buildCosignQueuePK(note.clinicId),
+    SK: buildCosignQueueSK(requestedAt, note.noteId),
+    noteId: note.noteId,
+    clinicId: note.clinicId,
+    patientId: note.patientId,
+    studyDate: note.studyDate,
+    title: note.title,
+    noteType: note.noteType,
+    createdBy: note.createdBy,
+    createdByName: note.createdByName,
+    requestedAt,
+    entityType: 'COSIGN_QUEUE_ENTRY',
+  };
+}
+
+function itemToCosignQueueEntry(item: DynamoDBCosignQueueItem): CosignQueueEntry {
+  return {
+    noteId: item.noteId,
+    clinicId: item.clinicId,
+    patientId: item.patientId,
+    studyDate: item.studyDate,
+    title: item.title,
+    noteType: item.noteType,
+    createdBy: item.createdBy,
+    createdByName: item.createdByName,
+    requestedAt: item.requestedAt,
+  };
+}
+
+function signedNoteError(noteId: string): ConflictError {
+  return new ConflictError(
+    `Note ${noteId} is signed and can no longer be edited; add an addendum instead`
+  );
+}
+
+// Signing locks the note, so it waits for the co-signer: a rejection must still be fixable
+function awaitingCosignatureError(noteId: string): ConflictError {
+  return new ConflictError(`Note ${noteId} must be co-signed before it can be signed`);
+}
+
+/**
+ * Writes kept in step with a note and sent in the note's own transaction: the patient's
+ * note counters and the search index marker. Omit `before` for new or restored notes and
+ * `after` for deleted ones.
+ */
+function noteChangeWrites(before: Note | undefined, after: Note | undefined): TransactWriteItem[] {
+  const note = after ?? before;
+  if (!note) {
+    return [];
+  }
+  const counters = noteCountsRepository.buildChange(note.clinicId, note.patientId, before, after);
+  return [...(counters ? [counters] : []), searchPendingRepository.buildPendingWrite(note)];
+}
+
+interface DynamoDBNoteRevisionItem {
+  PK: string;
+  SK: string;
+  noteId: string;
+  clinicId: string;
+  patientId: string;
+  version: number;
+  changedAt: string;
+  changedBy: string;
+  changedByName: string;
+  changedFields: string[];
+  previous: NoteSnapshot;
+  entityType: string;
+}
+
+function buildRevisionItem(
+  existing: Note,
+  changedFields: string[],
+  userId: string,
+  username: string,
+  changedAt: string
+): DynamoDBNoteRevisionItem {
+  const version = existing.version + 1;
+  return {
+    PK: buildPK(existing.clinicId, existing.patientId),
+    SK: buildNoteRevisionSK(existing.noteId, version),
+    noteId: existing.noteId,
+    clinicId: existing.clinicId,
+    patientId: existing.patientId,
+    version,
+    changedAt,
+    changedBy: userId,
+    changedByName: username,
+    changedFields,
+    previous: toNoteSnapshot(existing),
+    entityType: 'NOTE_REVISION',
+  };
+}
+
+/**
+ * Copy of a note item under the sort key for note.studyDate, carrying the updated fields.
+ * Index keys follow the new date; attributes not modelled on Note (entityType, seed-data
+ * extras) are kept.
+ */
+function buildRekeyedNoteItem(existingItem: DynamoDBNoteItem, note: Note): DynamoDBNoteItem {
+  return {
+    ...existingItem,
+    SK: buildSK(note.studyDate, note.noteId),
+    studyDate: note.studyDate,
+    title: note.title,
+    content: note.content,
+    noteType: note.noteType,
+    tags: note.tags,
+    attachments: note.attachments,
+    studyMetrics: note.studyMetrics,
+    cosignature: note.cosignature,
+    updatedAt: note.updatedAt,
+    updatedBy: note.updatedBy,
+    updatedByName: note.updatedByName,
+    version: note.version,
+    GSI1PK: buildClinicNoteFeedPK(note.clinicId),
+    GSI1SK: buildClinicNoteFeedSK(note.studyDate, note.noteId),
+    GSI2PK: buildNoteIdIndexPK(note.noteId),
+    GSI2SK: existingItem.PK,
+  };
+}
+
+function itemToRevision(item: DynamoDBNoteRevisionItem): NoteRevision {
+  return {
+    noteId: item.noteId,
+    clinicId: item.clinicId,
+    patientId: item.patientId,
+    version: item.version,
+    changedAt: item.changedAt,
+    changedBy: item.changedBy,
+    changedByName: item.changedByName,
+    changedFields: item.changedFields ?? [],
+    previous: item.previous,
   };
 }
 
-export interface ListNotesOptions {
+export interface NoteListFilters {
+  studyDateFrom?: string;
+  studyDateTo?: string;
+  noteType?: string;
+  createdBy?: string;
+  /** Required tag, on top of any tags/tagMatch filter */
+  tag?: string;
+  tags?: string[];
+  /** How tags are combined; defaults to any */
+  tagMatch?: TagMatch;
+  hasAttachments?: boolean;
+  /** List soft-deleted notes instead of live ones */
+  deleted?: boolean;
+}
+
+export interface ListNotesOptions extends NoteListFilters {
+  cursor?: string;
+  limit: number;
+  /** Defaults to -studyDate (newest study first) */
+  sort?: NoteListSort;
+  /**
+   * Attributes to read (ProjectionExpression). Notes in the page carry only these plus
+   * their keys; all attributes are read when omitted.
+   */
+  attributes?: string[];
+}
+
+export interface ListClinicNotesOptions {
   cursor?: string;
   limit: number;
+  noteType?: string;
   studyDateFrom?: string;
   studyDateTo?: string;
+  createdBy?: string;
   tag?: string;
+  /** Text query applied to each candidate note; the feed stays in studyDate order */
+  search?: SearchQuery;
+}
+
+export interface ListCosignQueueOptions {
+  cursor?: string;
+  limit: number;
+}
+
+export interface CosignReview {
+  status: 'cosigned' | 'rejected';
+  reviewedAt: string;
+  reviewedBy: string;
+  reviewedByName: string;
+  reason?: string;
+}
+
+export interface DeletedNotesPage {
+  items: Note[];
+  lastEvaluatedKey?: Record<string, unknown>;
 }
 
 export async function create(
@@ -75,7 +349,8 @@ export async function create(
   patientId: string,
   userId: string,
   username: string,
-  input: CreateNoteInput
+  input: CreateNoteInput,
+  requiresCosignature = false
 ): Promise<Note> {
   const noteId = uuidv4();
   const now = new Date().toISOString();
@@ -94,6 +369,7 @@ export async function create(
     noteType: input.noteType,
     tags: input.tags ?? [],
     attachments: input.attachments ?? [],
+    studyMetrics: input.studyMetrics,
     createdAt: now,
     updatedAt: now,
     createdBy: userId,
@@ -102,25 +378,56 @@ export async function create(
     updatedByName: username,
     version: 1,
     entityType: 'NOTE',
+    GSI1PK: buildClinicNoteFeedPK(clinicId),
+    GSI1SK: buildClinicNoteFeedSK(input.studyDate, noteId),
+    GSI2PK: buildNoteIdIndexPK(noteId),
+    GSI2SK: pk,
   };
 
-  await docClient.send(
-    new PutCommand({
-      TableName: TABLE_NAME,
-      Item: item,
-      ConditionExpression: 'attribute_not_exists(PK)',
-    })
-  );
+  if (requiresCosignature) {
+    item.cosignature = { status: 'pending', requestedAt: now };
+  }
+  const note = itemToNote(item);
 
-  logger.info('Note created', { clinicId, patientId, noteId });
-  return itemToNote(item);
+  // The note, its co-signature queue entry, its counters and its search index marker are
+  // written together
+  await sendTransaction({
+    TransactItems: [
+      {
+        Put: {
+          TableName: TABLE_NAME,
+          Item: item,
+          ConditionExpression: 'attribute_not_exists(PK)',
+        },
+      },
+      ...(requiresCosignature
+        ? [
+            {
+              Put: {
+                TableName: TABLE_NAME,
+                Item: buildCosignQueueItem(note, now),
+              },
+            },
+          ]
+        : []),
+      ...noteChangeWrites(undefined, note),
+    ],
+  });
+
+  logger.info(requiresCosignature ? 'Note created pending co-signature' : 'Note created', {
+    clinicId,
+    patientId,
+    noteId,
+  });
+  return note;
 }
 
 export async function findById(
   clinicId: string,
   patientId: string,
   noteId: string,
-  studyDate: string
+  studyDate: string,
+  consistentRead = false
 ): Promise<Note | null> {
   const pk = buildPK(clinicId, patientId);
   const sk = buildSK(studyDate, noteId);
@@ -129,6 +436,7 @@ export async function findById(
     new GetCommand({
       TableName: TABLE_NAME,
       Key: { PK: pk, SK: sk },
+      ...(consistentRead && { ConsistentRead: true }),
     })
   );
 
@@ -145,49 +453,168 @@ export async function findById(
   return itemToNote(item);
 }
 
+/**
+ * Resolve a note item by noteId through the noteId index. The index only projects keys,
+ * so the item itself is read back from the table with a consistent read.
+ *
+ * The index is eventually consistent: a note created or moved to another studyDate a
+ * moment ago may be missing or still point at the old key, so a miss is retried once.
+ */
+async function findNoteItemByNoteId(
+  clinicId: string,
+  patientId: string,
+  noteId: string
+): Promise<DynamoDBNoteItem | null> {
+  const pk = buildPK(clinicId, patientId);
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: NOTE_ID_INDEX_NAME,
+        KeyConditionExpression: 'GSI2PK = :gsi2pk AND GSI2SK = :pk',
+        ExpressionAttributeValues: {
+          ':gsi2pk': buildNoteIdIndexPK(noteId),
+          ':pk': pk,
+        },
+        Limit: 1,
+      })
+    );
+
+    const key = result.Items?.[0] as Pick<DynamoDBNoteItem, 'PK' | 'SK'> | undefined;
+    if (key) {
+      const item = await docClient.send(
+        new GetCommand({
+          TableName: TABLE_NAME,
+          Key: { PK: key.PK, SK: key.SK },
+          ConsistentRead: true,
+        })
+      );
+      if (item.Item) {
+        return item.Item as DynamoDBNoteItem;
+      }
+    }
+
+    if (attempt >= NOTE_ID_INDEX_ATTEMPTS) {
+      return null;
+    }
+    await new Promise((resolve) => setTimeout(resolve, NOTE_ID_INDEX_RETRY_DELAY_MS));
+  }
+}
+
 export async function findByIdWithoutStudyDate(
   clinicId: string,
   patientId: string,
   noteId: string
 ): Promise<Note | null> {
-  const pk = buildPK(clinicId, patientId);
+  const item = await findNoteItemByNoteId(clinicId, patientId, noteId);
 
-  // Note: Do not use Limit here - DynamoDB applies Limit BEFORE FilterExpression,
-  // which would cause the query to miss items if the first scanned item doesn't match
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
-      FilterExpression: 'noteId = :noteId AND attribute_not_exists(deletedAt)',
-      ExpressionAttributeValues: {
-        ':pk': pk,
-        ':skPrefix': 'NOTE#',
-        ':noteId': noteId,
-      },
-    })
-  );
+  if (!item || item.deletedAt) {
+    return null;
+  }
+
+  return itemToNote(item);
+}
+
+export async function findDeletedByIdWithoutStudyDate(
+  clinicId: string,
+  patientId: string,
+  noteId: string
+): Promise<Note | null> {
+  const item = await findNoteItemByNoteId(clinicId, patientId, noteId);
 
-  if (!result.Items || result.Items.length === 0) {
+  if (!item || !item.deletedAt) {
     return null;
   }
 
-  return itemToNote(result.Items[0] as DynamoDBNoteItem);
+  return itemToNote(item);
 }
 
-export async function list(
+/**
+ * Batch read of live notes by key. Missing and soft-deleted notes are left out, and the
+ * result keeps the order of the keys passed in.
+ */
+export async function findManyByIds(
   clinicId: string,
   patientId: string,
-  options: ListNotesOptions
-): Promise<PaginatedResponse<Note>> {
+  keys: { noteId: string; studyDate: string }[]
+): Promise<Note[]> {
   const pk = buildPK(clinicId, patientId);
-  const { cursor, limit, studyDateFrom, studyDateTo, tag } = options;
+  const found = new Map<string, DynamoDBNoteItem>();
+
+  // BatchGetItem reads at most 100 keys per request
+  for (let i = 0; i < keys.length; i += 100) {
+    let pending: Record<string, unknown>[] | undefined = keys
+      .slice(i, i + 100)
+      .map((key) => ({ PK: pk, SK: buildSK(key.studyDate, key.noteId) }));
+
+    while (pending && pending.length > 0) {
+      const result: BatchGetCommandOutput = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: { [TABLE_NAME]: { Keys: pending, ConsistentRead: true } },
+        })
+      );
+      for (const item of (result.Responses?.[TABLE_NAME] ?? []) as DynamoDBNoteItem[]) {
+        found.set(item.noteId, item);
+      }
+      pending = result.UnprocessedKeys?.[TABLE_NAME]?.Keys;
+    }
+  }
+
+  return keys
+    .map((key) => found.get(key.noteId))
+    .filter((item): item is DynamoDBNoteItem => item !== undefined && !item.deletedAt)
+    .map(itemToNote);
+}
+
+interface NoteListQuery {
+  keyCondition: string;
+  filterExpression: string;
+  expressionValues: Record<string, unknown>;
+}
+
+/**
+ * Key condition and filters over one patient partition. Without the updatedAt index the
+ * study date range is a key condition on SK; every other filter is a FilterExpression.
+ */
+function buildListQuery(pk: string, filters: NoteListFilters, byUpdatedAt: boolean): NoteListQuery {
+  const {
+    studyDateFrom,
+    studyDateTo,
+    noteType,
+    createdBy,
+    tag,
+    tags,
+    tagMatch = 'any',
+    hasAttachments,
+    deleted,
+  } = filters;
 
   let keyCondition: string;
   const expressionValues: Record<string, unknown> = {
     ':pk': pk,
   };
 
-  if (studyDateFrom && studyDateTo) {
+  // Build filter expression
+  const filterConditions: string[] = [
+    deleted ? 'attribute_exists(deletedAt)' : 'attribute_not_exists(deletedAt)',
+  ];
+
+  if (byUpdatedAt) {
+    // The index holds every item of the partition that has an updatedAt, not just notes
+    keyCondition = 'PK = :pk';
+    filterConditions.push('begins_with(SK, :skPrefix)');
+    expressionValues[':skPrefix'] = 'NOTE#';
+
+    if (studyDateFrom) {
+      filterConditions.push('studyDate >= :studyDateFrom');
+      expressionValues[':studyDateFrom'] = studyDateFrom;
+    }
+    if (studyDateTo) {
+      filterConditions.push('studyDate <= :studyDateTo');
+      expressionValues[':studyDateTo'] = studyDateTo;
+    }
+  } else if (studyDateFrom && studyDateTo) {
     keyCondition = 'PK = :pk AND SK BETWEEN :skStart AND :skEnd';
     expressionValues[':skStart'] = `NOTE#${studyDateFrom}`;
     expressionValues[':skEnd'] = `NOTE#${studyDateTo}~`;
@@ -203,42 +630,144 @@ export async function list(
     expressionValues[':skPrefix'] = 'NOTE#';
   }
 
-  // Build filter expression
-  const filterConditions: string[] = ['attribute_not_exists(deletedAt)'];
+  if (noteType) {
+    filterConditions.push('noteType = :noteType');
+    expressionValues[':noteType'] = noteType;
+  }
+
+  if (createdBy) {
+    filterConditions.push('createdBy = :createdBy');
+    expressionValues[':createdBy'] = createdBy;
+  }
 
   if (tag) {
     filterConditions.push('contains(tags, :tag)');
     expressionValues[':tag'] = tag;
   }
 
-  const filterExpression = filterConditions.join(' AND ');
-  const exclusiveStartKey = cursor ? decodeCursor(cursor) : undefined;
+  if (tags && tags.length > 0) {
+    const tagConditions = tags.map((value, i) => {
+      expressionValues[`:tag${i}`] = value;
+      return `contains(tags, :tag${i})`;
+    });
+    filterConditions.push(
+      tagMatch === 'all' ? tagConditions.join(' AND ') : `(${tagConditions.join(' OR ')})`
+    );
+  }
+
+  if (hasAttachments !== undefined) {
+    filterConditions.push(
+      hasAttachments
+        ? 'size(attachments) > :zero'
+        : '(attribute_not_exists(attachments) OR size(attachments) = :zero)'
+    );
+    expressionValues[':zero'] = 0;
+  }
 
-  const result = await docClient.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: keyCondition,
-      FilterExpression: filterExpression,
-      ExpressionAttributeValues: expressionValues,
-      Limit: limit + 1,
-      ExclusiveStartKey: exclusiveStartKey,
-      ScanIndexForward: false,
-    })
+  return { keyCondition, filterExpression: filterConditions.join(' AND '), expressionValues };
+}
+
+/**
+ * One patient's notes. studyDate order reads the table's sort key directly; updatedAt order
+ * reads the GSI3 index (table PK, updatedAt). Filters run as a FilterExpression, so a query
+ * can return fewer matches than it read; queries continue until the page is full or the
+ * partition is exhausted, and the cursor is the key of the last note returned.
+ */
+export async function list(
+  clinicId: string,
+  patientId: string,
+  options: ListNotesOptions
+): Promise<PaginatedResponse<Note>> {
+  const pk = buildPK(clinicId, patientId);
+  const {
+    cursor,
+    limit,
+    sort = '-studyDate',
+    studyDateFrom,
+    studyDateTo,
+    noteType,
+    createdBy,
+    tag,
+    tags,
+    tagMatch = 'any',
+    hasAttachments,
+    deleted,
+    attributes,
+  } = options;
+  const byUpdatedAt = sort === 'updatedAt' || sort === '-updatedAt';
+  const { keyCondition, filterExpression, expressionValues } = buildListQuery(
+    pk,
+    options,
+    byUpdatedAt
   );
 
-  const items = (result.Items ?? []) as DynamoDBNoteItem[];
-  const hasMore = items.length > limit;
+  const cursorBinding: CursorBinding = {
+    clinicId,
+    patientId,
+    list: deleted ? 'deleted-notes' : 'notes',
+    filters: {
+      sort: options.sort,
+      studyDateFrom,
+      studyDateTo,
+      noteType,
+      createdBy,
+      tag,
+      tags,
+      tagMatch: tags ? tagMatch : undefined,
+      hasAttachments,
+    },
+  };
+  let exclusiveStartKey: Record<string, unknown> | undefined = cursor
+    ? decodeCursor(cursor, cursorBinding)
+    : undefined;
 
-  if (hasMore) {
-    items.pop();
-  }
+  // Filters are evaluated before the projection, so filtered attributes need not be read
+  const projectedAttributes = attributes && [...new Set([...LIST_KEY_ATTRIBUTES, ...attributes])];
+  const projection = projectedAttributes && {
+    ProjectionExpression: projectedAttributes.map((_, i) => `#attr${i}`).join(', '),
+    ExpressionAttributeNames: Object.fromEntries(
+      projectedAttributes.map((name, i) => [`#attr${i}`, name])
+    ),
+  };
 
-  let nextCursor: string | undefined;
-  if (hasMore && items.length > 0) {
-    const lastItem = items[items.length - 1];
-    if (lastItem) {
-      nextCursor = encodeCursor({ PK: lastItem.PK, SK: lastItem.SK });
+  const matched: DynamoDBNoteItem[] = [];
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        ...(byUpdatedAt && { IndexName: NOTE_UPDATED_INDEX_NAME }),
+        KeyConditionExpression: keyCondition,
+        FilterExpression: filterExpression,
+        ExpressionAttributeValues: expressionValues,
+        ...projection,
+        Limit: limit + 1,
+        ExclusiveStartKey: exclusiveStartKey,
+        ScanIndexForward: !sort.startsWith('-'),
+      })
+    );
+    exclusiveStartKey = result.LastEvaluatedKey;
+
+    for (const item of (result.Items ?? []) as DynamoDBNoteItem[]) {
+      matched.push(item);
+      if (matched.length > limit) {
+        break;
+      }
     }
+  } while (matched.length <= limit && exclusiveStartKey);
+
+  const items = matched.slice(0, limit);
+  const hasMore = matched.length > limit;
+
+  let nextCursor: string | undefined;
+  const lastItem = items[items.length - 1];
+  if (hasMore && lastItem) {
+    nextCursor = encodeCursor(
+      byUpdatedAt
+        ? { PK: lastItem.PK, SK: lastItem.SK, updatedAt: lastItem.updatedAt }
+        : { PK: lastItem.PK, SK: lastItem.SK },
+      cursorBinding
+    );
   }
 
   return {
@@ -248,77 +777,770 @@ export async function list(
   };
 }
 
-export async function update(
+/**
+ * Clinic-wide note feed from the GSI1 index, newest study date first. Filters other than
+ * the date range (and the text query) are applied after the read, so a page can take
+ * several queries; the work per request is capped and a short page with a cursor is
+ * returned when the cap is reached.
+ */
+export async function listByClinic(
   clinicId: string,
-  patientId: string,
-  noteId: string,
-  studyDate: string,
-  userId: string,
-  username: string,
-  input: UpdateNoteInput
-): Promise<Note> {
-  const pk = buildPK(clinicId, patientId);
-  const sk = buildSK(studyDate, noteId);
-  const now = new Date().toISOString();
+  options: ListClinicNotesOptions
+): Promise<PaginatedResponse<Note>> {
+  const feedPK = buildClinicNoteFeedPK(clinicId);
+  const { cursor, limit, noteType, studyDateFrom, studyDateTo, createdBy, tag, search } = options;
 
-  const updateExpressions: string[] = ['updatedAt = :updatedAt', 'updatedBy = :updatedBy', 'updatedByName = :updatedByName', 'version = version + :inc'];
+  let keyCondition: string;
   const expressionValues: Record<string, unknown> = {
-    ':updatedAt': now,
-    ':updatedBy': userId,
-    ':updatedByName': username,
-    ':inc': 1,
-    ':expectedVersion': input.version,
+    ':pk': feedPK,
   };
-  const expressionNames: Record<string, string> = {};
 
-  if (input.title !== undefined) {
-    updateExpressions.push('title = :title');
-    expressionValues[':title'] = input.title;
+  if (studyDateFrom && studyDateTo) {
+    keyCondition = 'GSI1PK = :pk AND GSI1SK BETWEEN :skStart AND :skEnd';
+    expressionValues[':skStart'] = `DATE#${studyDateFrom}`;
+    expressionValues[':skEnd'] = `DATE#${studyDateTo}~`;
+  } else if (studyDateFrom) {
+    keyCondition = 'GSI1PK = :pk AND GSI1SK >= :skStart';
+    expressionValues[':skStart'] = `DATE#${studyDateFrom}`;
+  } else if (studyDateTo) {
+    keyCondition = 'GSI1PK = :pk AND GSI1SK BETWEEN :skPrefix AND :skEnd';
+    expressionValues[':skPrefix'] = 'DATE#';
+    expressionValues[':skEnd'] = `DATE#${studyDateTo}~`;
+  } else {
+    keyCondition = 'GSI1PK = :pk AND begins_with(GSI1SK, :skPrefix)';
+    expressionValues[':skPrefix'] = 'DATE#';
   }
 
-  if (input.content !== undefined) {
-    updateExpressions.push('#content = :content');
-    expressionValues[':content'] = input.content;
-    expressionNames['#content'] = 'content';
+  const filterConditions: string[] = ['attribute_not_exists(deletedAt)'];
+
+  if (noteType) {
+    filterConditions.push('noteType = :noteType');
+    expressionValues[':noteType'] = noteType;
   }
 
-  if (input.attachments !== undefined) {
-    updateExpressions.push('attachments = :attachments');
-    expressionValues[':attachments'] = input.attachments;
+  if (createdBy) {
+    filterConditions.push('createdBy = :createdBy');
+    expressionValues[':createdBy'] = createdBy;
   }
 
-  try {
+  if (tag) {
+    filterConditions.push('contains(tags, :tag)');
+    expressionValues[':tag'] = tag;
+  }
+
+  const cursorBinding: CursorBinding = {
+    clinicId,
+    list: 'clinic-notes',
+    filters: { noteType, studyDateFrom, studyDateTo, createdBy, tag, search },
+  };
+  let exclusiveStartKey: Record<string, unknown> | undefined = cursor
+    ? decodeClinicFeedCursor(cursor, cursorBinding)
+    : undefined;
+
+  const matched: DynamoDBNoteItem[] = [];
+  let queries = 0;
+
+  do {
     const result = await docClient.send(
-      new UpdateCommand({
+      new QueryCommand({
         TableName: TABLE_NAME,
-        Key: { PK: pk, SK: sk },
-        UpdateExpression: `SET ${updateExpressions.join(', ')}`,
-        ConditionExpression:
-          'attribute_exists(PK) AND attribute_not_exists(deletedAt) AND version = :expectedVersion',
+        IndexName: CLINIC_NOTE_FEED_INDEX_NAME,
+        KeyConditionExpression: keyCondition,
+        FilterExpression: filterConditions.join(' AND '),
         ExpressionAttributeValues: expressionValues,
-        ExpressionAttributeNames: Object.keys(expressionNames).length > 0 ? expressionNames : undefined,
-        ReturnValues: 'ALL_NEW',
+        Limit: CLINIC_FEED_QUERY_LIMIT,
+        ExclusiveStartKey: exclusiveStartKey,
+        ScanIndexForward: false,
       })
     );
+    queries++;
+    exclusiveStartKey = result.LastEvaluatedKey;
 
-    if (!result.Attributes) {
-      throw new NotFoundError('Note', noteId);
-    }
-
-    logger.info('Note updated', { clinicId, patientId, noteId });
-    return itemToNote(result.Attributes as DynamoDBNoteItem);
-  } catch (err) {
-    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
-      const existing = await findById(clinicId, patientId, noteId, studyDate);
-      if (!existing) {
-        throw new NotFoundError('Note', noteId);
+    for (const item of (result.Items ?? []) as DynamoDBNoteItem[]) {
+      if (search && !matchesSearchQuery(search, itemToNote(item))) {
+        continue;
+      }
+      matched.push(item);
+      if (matched.length > limit) {
+        break;
       }
-      throw new ConflictError(
-        `Version conflict: expected ${input.version}, current is ${existing.version}`
-      );
+    }
+  } while (matched.length <= limit && exclusiveStartKey && queries < CLINIC_FEED_MAX_QUERIES);
+
+  const items = matched.slice(0, limit);
+  const lastItem = items[items.length - 1];
+
+  let nextCursor: string | undefined;
+  if (matched.length > limit && lastItem) {
+    nextCursor = encodeClinicFeedCursor(
+      {
+        PK: lastItem.PK,
+        SK: lastItem.SK,
+        GSI1PK: lastItem.GSI1PK,
+        GSI1SK: lastItem.GSI1SK,
+      },
+      cursorBinding
+    );
+  } else if (exclusiveStartKey) {
+    // Read cap reached before the page filled up; continue after the last item read
+    nextCursor = encodeClinicFeedCursor(exclusiveStartKey, cursorBinding);
+  }
+
+  logger.info('Clinic note feed listed', {
+    clinicId,
+    returned: items.length,
+    queries,
+  });
+
+  return {
+    items: items.map(itemToNote),
+    nextCursor,
+    hasMore: nextCursor !== undefined,
+  };
+}
+
+export async function update(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  studyDate: string,
+  userId: string,
+  username: string,
+  input: UpdateNoteInput
+): Promise<Note> {
+  const pk = buildPK(clinicId, patientId);
+  const sk = buildSK(studyDate, noteId);
+  const now = new Date().toISOString();
+
+  // Read the current item first so the revision can capture the values being replaced
+  const current = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      ConsistentRead: true,
+    })
+  );
+
+  const existingItem = current.Item as DynamoDBNoteItem | undefined;
+
+  if (!existingItem || existingItem.deletedAt) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (existingItem.signature) {
+    throw signedNoteError(noteId);
+  }
+
+  if (existingItem.version !== input.version) {
+    throw new VersionConflictError(input.version, existingItem.version);
+  }
+
+  const existing = itemToNote(existingItem);
+
+  const updateExpressions: string[] = [
+    'updatedAt = :updatedAt',
+    'updatedBy = :updatedBy',
+    'updatedByName = :updatedByName',
+    'version = version + :inc',
+  ];
+  const expressionValues: Record<string, unknown> = {
+    ':updatedAt': now,
+    ':updatedBy': userId,
+    ':updatedByName': username,
+    ':inc': 1,
+    ':expectedVersion': input.version,
+  };
+  const expressionNames: Record<string, string> = {};
+  const removeExpressions: string[] = [];
+  const changes: Partial<
+    Pick<
+      Note,
+      'studyDate' | 'title' | 'content' | 'noteType' | 'tags' | 'attachments' | 'studyMetrics'
+    >
+  > = {};
+
+  if (input.studyDate !== undefined) {
+    changes.studyDate = input.studyDate;
+  }
+
+  if (input.title !== undefined) {
+    updateExpressions.push('title = :title');
+    expressionValues[':title'] = input.title;
+    changes.title = input.title;
+  }
+
+  if (input.content !== undefined) {
+    updateExpressions.push('#content = :content');
+    expressionValues[':content'] = input.content;
+    expressionNames['#content'] = 'content';
+    changes.content = input.content;
+  }
+
+  // null clears the note type; undefined leaves it as it is
+  if (input.noteType === null) {
+    removeExpressions.push('noteType');
+    changes.noteType = undefined;
+  } else if (input.noteType !== undefined) {
+    updateExpressions.push('noteType = :noteType');
+    expressionValues[':noteType'] = input.noteType;
+    changes.noteType = input.noteType;
+  }
+
+  if (input.tags !== undefined) {
+    updateExpressions.push('tags = :tags');
+    expressionValues[':tags'] = input.tags;
+    changes.tags = input.tags;
+  }
+
+  if (input.attachments !== undefined) {
+    updateExpressions.push('attachments = :attachments');
+    expressionValues[':attachments'] = input.attachments;
+    changes.attachments = input.attachments;
+  }
+
+  // null removes the metrics; a new set replaces them as a whole
+  if (input.studyMetrics === null) {
+    removeExpressions.push('studyMetrics');
+    changes.studyMetrics = undefined;
+  } else if (input.studyMetrics !== undefined) {
+    updateExpressions.push('studyMetrics = :studyMetrics');
+    expressionValues[':studyMetrics'] = input.studyMetrics;
+    changes.studyMetrics = input.studyMetrics;
+  }
+
+  const changedFields: string[] = (Object.keys(changes) as (keyof typeof changes)[]).filter(
+    (field) => !isEqual(changes[field], existing[field])
+  );
+
+  // Editing a note that needs a co-signature puts it back in the queue: a rejected or
+  // already co-signed note must be reviewed again, a pending one keeps its place.
+  let cosignature = existing.cosignature;
+  if (cosignature && cosignature.status !== 'pending') {
+    cosignature = { status: 'pending', requestedAt: now };
+    updateExpressions.push('cosignature = :cosignature');
+    expressionValues[':cosignature'] = cosignature;
+    changedFields.push('cosignature');
+  }
+
+  const revisionItem = buildRevisionItem(existing, changedFields, userId, username, now);
+  const newVersion = revisionItem.version;
+  const updated: Note = {
+    ...existing,
+    ...changes,
+    cosignature,
+    updatedAt: now,
+    updatedBy: userId,
+    updatedByName: username,
+    version: newVersion,
+  };
+
+  const editableCondition =
+    'attribute_exists(PK) AND attribute_not_exists(deletedAt) AND ' +
+    'attribute_not_exists(signature) AND version = :expectedVersion';
+
+  // studyDate is part of the sort key, so a new date moves the item: the old key is
+  // deleted (guarded by the version check) and the note is written under the new key.
+  const noteWrites =
+    updated.studyDate !== studyDate
+      ? [
+          {
+            Delete: {
+              TableName: TABLE_NAME,
+              Key: { PK: pk, SK: sk },
+              ConditionExpression: editableCondition,
+              ExpressionAttributeValues: { ':expectedVersion': input.version },
+            },
+          },
+          {
+            Put: {
+              TableName: TABLE_NAME,
+              Item: buildRekeyedNoteItem(existingItem, updated),
+              ConditionExpression: 'attribute_not_exists(PK)',
+            },
+          },
+        ]
+      : [
+          {
+            Update: {
+              TableName: TABLE_NAME,
+              Key: { PK: pk, SK: sk },
+              UpdateExpression:
+                `SET ${updateExpressions.join(', ')}` +
+                (removeExpressions.length > 0 ? ` REMOVE ${removeExpressions.join(', ')}` : ''),
+              ConditionExpression: editableCondition,
+              ExpressionAttributeValues: expressionValues,
+              ExpressionAttributeNames:
+                Object.keys(expressionNames).length > 0 ? expressionNames : undefined,
+            },
+          },
+        ];
+
+  try {
+    // The note write and its revision item succeed or fail together
+    await sendTransaction({
+      TransactItems: [
+        ...noteWrites,
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: revisionItem,
+            ConditionExpression: 'attribute_not_exists(SK)',
+          },
+        },
+        // Keep the queue entry in step with the note it points to
+        ...(cosignature
+          ? [
+              {
+                Put: {
+                  TableName: TABLE_NAME,
+                  Item: buildCosignQueueItem(updated, cosignature.requestedAt),
+                },
+              },
+            ]
+          : []),
+        ...noteChangeWrites(existing, updated),
+      ],
+    });
+  } catch (err) {
+    // Only the note's own version guard (the first item) makes this a version conflict
+    if (isConditionFailure(err, 0)) {
+      // A concurrent edit may itself have moved the note to another studyDate
+      const latest =
+        (await findById(clinicId, patientId, noteId, studyDate)) ??
+        (await findByIdWithoutStudyDate(clinicId, patientId, noteId));
+      if (!latest) {
+        throw new NotFoundError('Note', noteId);
+      }
+      if (latest.signature) {
+        throw signedNoteError(noteId);
+      }
+      throw new VersionConflictError(input.version, latest.version);
+    }
+    throw err;
+  }
+
+  logger.info('Note updated', {
+    clinicId,
+    patientId,
+    noteId,
+    version: newVersion,
+    ...(updated.studyDate !== studyDate && { movedFrom: studyDate }),
+  });
+
+  return updated;
+}
+
+export async function sign(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  studyDate: string,
+  expectedVersion: number,
+  signature: NoteSignature
+): Promise<Note> {
+  const pk = buildPK(clinicId, patientId);
+  const sk = buildSK(studyDate, noteId);
+
+  const current = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      ConsistentRead: true,
+    })
+  );
+
+  const existingItem = current.Item as DynamoDBNoteItem | undefined;
+
+  if (!existingItem || existingItem.deletedAt) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (existingItem.signature) {
+    throw new ConflictError(`Note ${noteId} is already signed`);
+  }
+
+  if (existingItem.cosignature && existingItem.cosignature.status !== 'cosigned') {
+    throw awaitingCosignatureError(noteId);
+  }
+
+  if (existingItem.version !== expectedVersion) {
+    throw new VersionConflictError(expectedVersion, existingItem.version);
+  }
+
+  const existing = itemToNote(existingItem);
+  const revisionItem = buildRevisionItem(
+    existing,
+    ['signature'],
+    signature.signedBy,
+    signature.signedByName,
+    signature.signedAt
+  );
+
+  try {
+    // The version condition guarantees the signed content is exactly what was hashed
+    await sendTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: { PK: pk, SK: sk },
+            UpdateExpression:
+              'SET signature = :signature, updatedAt = :signedAt, updatedBy = :signedBy, ' +
+              'updatedByName = :signedByName, version = version + :inc',
+            ConditionExpression:
+              'attribute_exists(PK) AND attribute_not_exists(deletedAt) AND ' +
+              'attribute_not_exists(signature) AND version = :expectedVersion',
+            ExpressionAttributeValues: {
+              ':signature': signature,
+              ':signedAt': signature.signedAt,
+              ':signedBy': signature.signedBy,
+              ':signedByName': signature.signedByName,
+              ':inc': 1,
+              ':expectedVersion': expectedVersion,
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: revisionItem,
+            ConditionExpression: 'attribute_not_exists(SK)',
+          },
+        },
+      ],
+    });
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      throw new ConflictError(`Note ${noteId} was modified while being signed`);
+    }
+    throw err;
+  }
+
+  logger.info('Note signed', { clinicId, patientId, noteId, version: revisionItem.version });
+
+  return {
+    ...existing,
+    signature,
+    updatedAt: signature.signedAt,
+    updatedBy: signature.signedBy,
+    updatedByName: signature.signedByName,
+    version: revisionItem.version,
+  };
+}
+
+export async function addAddendum(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  studyDate: string,
+  addendum: NoteAddendum
+): Promise<Note> {
+  const pk = buildPK(clinicId, patientId);
+  const sk = buildSK(studyDate, noteId);
+
+  const current = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      ConsistentRead: true,
+    })
+  );
+
+  const existingItem = current.Item as DynamoDBNoteItem | undefined;
+
+  if (!existingItem || existingItem.deletedAt) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (!existingItem.signature) {
+    throw new ConflictError(`Note ${noteId} must be signed before addenda can be added`);
+  }
+
+  const existing = itemToNote(existingItem);
+  const revisionItem = buildRevisionItem(
+    existing,
+    ['addenda'],
+    addendum.signedBy,
+    addendum.signedByName,
+    addendum.signedAt
+  );
+
+  try {
+    await sendTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: { PK: pk, SK: sk },
+            UpdateExpression:
+              'SET addenda = list_append(if_not_exists(addenda, :empty), :addenda), ' +
+              'updatedAt = :signedAt, updatedBy = :signedBy, updatedByName = :signedByName, ' +
+              'version = version + :inc',
+            ConditionExpression:
+              'attribute_exists(signature) AND attribute_not_exists(deletedAt) AND ' +
+              'version = :expectedVersion',
+            ExpressionAttributeValues: {
+              ':empty': [],
+              ':addenda': [addendum],
+              ':signedAt': addendum.signedAt,
+              ':signedBy': addendum.signedBy,
+              ':signedByName': addendum.signedByName,
+              ':inc': 1,
+              ':expectedVersion': existing.version,
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: revisionItem,
+            ConditionExpression: 'attribute_not_exists(SK)',
+          },
+        },
+      ],
+    });
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      throw new ConflictError(`Note ${noteId} was modified while adding an addendum`);
     }
     throw err;
   }
+
+  logger.info('Note addendum added', {
+    clinicId,
+    patientId,
+    noteId,
+    addendumId: addendum.addendumId,
+    version: revisionItem.version,
+  });
+
+  return {
+    ...existing,
+    addenda: [...(existing.addenda ?? []), addendum],
+    updatedAt: addendum.signedAt,
+    updatedBy: addendum.signedBy,
+    updatedByName: addendum.signedByName,
+    version: revisionItem.version,
+  };
+}
+
+export async function reviewCosignature(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  studyDate: string,
+  expectedVersion: number,
+  review: CosignReview
+): Promise<Note> {
+  const pk = buildPK(clinicId, patientId);
+  const sk = buildSK(studyDate, noteId);
+
+  const current = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      ConsistentRead: true,
+    })
+  );
+
+  const existingItem = current.Item as DynamoDBNoteItem | undefined;
+
+  if (!existingItem || existingItem.deletedAt) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  const pending = existingItem.cosignature;
+  if (pending?.status !== 'pending') {
+    throw new ConflictError(`Note ${noteId} is not awaiting co-signature`);
+  }
+
+  // A signed note can no longer be edited, so it cannot be sent back to its author
+  if (existingItem.signature) {
+    throw new ConflictError(`Note ${noteId} is signed and can no longer be reviewed`);
+  }
+
+  if (existingItem.version !== expectedVersion) {
+    throw new VersionConflictError(expectedVersion, existingItem.version);
+  }
+
+  const existing = itemToNote(existingItem);
+  const cosignature: NoteCosignature = {
+    status: review.status,
+    requestedAt: pending.requestedAt,
+    reviewedAt: review.reviewedAt,
+    reviewedBy: review.reviewedBy,
+    reviewedByName: review.reviewedByName,
+    reason: review.reason,
+  };
+  const revisionItem = buildRevisionItem(
+    existing,
+    ['cosignature'],
+    review.reviewedBy,
+    review.reviewedByName,
+    review.reviewedAt
+  );
+
+  try {
+    await sendTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: { PK: pk, SK: sk },
+            UpdateExpression:
+              'SET cosignature = :cosignature, updatedAt = :reviewedAt, ' +
+              'updatedBy = :reviewedBy, updatedByName = :reviewedByName, version = version + :inc',
+            ConditionExpression:
+              'attribute_not_exists(deletedAt) AND attribute_not_exists(signature) AND ' +
+              'cosignature.#status = :pending AND version = :expectedVersion',
+            ExpressionAttributeNames: { '#status': 'status' },
+            ExpressionAttributeValues: {
+              ':cosignature': cosignature,
+              ':reviewedAt': review.reviewedAt,
+              ':reviewedBy': review.reviewedBy,
+              ':reviewedByName': review.reviewedByName,
+              ':pending': 'pending',
+              ':inc': 1,
+              ':expectedVersion': expectedVersion,
+            },
+          },
+        },
+        {
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: buildCosignQueuePK(clinicId),
+              SK: buildCosignQueueSK(pending.requestedAt, noteId),
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: revisionItem,
+            ConditionExpression: 'attribute_not_exists(SK)',
+          },
+        },
+      ],
+    });
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      throw new ConflictError(`Note ${noteId} was modified while being reviewed`);
+    }
+    throw err;
+  }
+
+  logger.info('Note co-signature reviewed', {
+    clinicId,
+    patientId,
+    noteId,
+    status: review.status,
+    version: revisionItem.version,
+  });
+
+  return {
+    ...existing,
+    cosignature,
+    updatedAt: review.reviewedAt,
+    updatedBy: review.reviewedBy,
+    updatedByName: review.reviewedByName,
+    version: revisionItem.version,
+  };
+}
+
+export async function listCosignQueue(
+  clinicId: string,
+  options: ListCosignQueueOptions
+): Promise<PaginatedResponse<CosignQueueEntry>> {
+  const { cursor, limit } = options;
+  const cursorBinding: CursorBinding = { clinicId, list: 'cosign-queue' };
+  const exclusiveStartKey = cursor ? decodeCursor(cursor, cursorBinding) : undefined;
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: TABLE_NAME,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': buildCosignQueuePK(clinicId),
+      },
+      Limit: limit + 1,
+      ExclusiveStartKey: exclusiveStartKey,
+      ScanIndexForward: true,
+    })
+  );
+
+  const items = (result.Items ?? []) as DynamoDBCosignQueueItem[];
+  const hasMore = items.length > limit;
+
+  if (hasMore) {
+    items.pop();
+  }
+
+  let nextCursor: string | undefined;
+  if (hasMore && items.length > 0) {
+    const lastItem = items[items.length - 1];
+    if (lastItem) {
+      nextCursor = encodeCursor({ PK: lastItem.PK, SK: lastItem.SK }, cursorBinding);
+    }
+  }
+
+  return {
+    items: items.map(itemToCosignQueueEntry),
+    nextCursor,
+    hasMore,
+  };
+}
+
+export async function listRevisions(
+  clinicId: string,
+  patientId: string,
+  noteId: string
+): Promise<NoteRevision[]> {
+  const pk = buildPK(clinicId, patientId);
+  const revisions: NoteRevision[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  // Revision history for a single note is small; follow pages until exhausted
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+        ExpressionAttributeValues: {
+          ':pk': pk,
+          ':skPrefix': buildNoteRevisionSKPrefix(noteId),
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+        ScanIndexForward: true,
+      })
+    );
+
+    const items = (result.Items ?? []) as DynamoDBNoteRevisionItem[];
+    revisions.push(...items.map(itemToRevision));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return revisions;
+}
+
+export async function findRevision(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  version: number
+): Promise<NoteRevision | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: buildPK(clinicId, patientId), SK: buildNoteRevisionSK(noteId, version) },
+    })
+  );
+
+  if (!result.Item) {
+    return null;
+  }
+
+  return itemToRevision(result.Item as DynamoDBNoteRevisionItem);
 }
 
 export async function softDelete(
@@ -326,50 +1548,295 @@ export async function softDelete(
   patientId: string,
   noteId: string,
   studyDate: string,
-  userId: string
+  userId: string,
+  expectedVersion?: number
 ): Promise<void> {
   const pk = buildPK(clinicId, patientId);
   const sk = buildSK(studyDate, noteId);
   const now = new Date().toISOString();
 
+  const current = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      ConsistentRead: true,
+    })
+  );
+
+  const existingItem = current.Item as DynamoDBNoteItem | undefined;
+
+  if (!existingItem || existingItem.deletedAt) {
+    throw new NotFoundError('Note', noteId);
+  }
+  if (expectedVersion !== undefined && existingItem.version !== expectedVersion) {
+    throw new VersionConflictError(expectedVersion, existingItem.version);
+  }
+
+  const pending =
+    existingItem.cosignature?.status === 'pending' ? existingItem.cosignature : undefined;
+
+  try {
+    // The note leaves the co-signature queue, its counters and the search index in the
+    // same write that deletes it
+    await sendTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: { PK: pk, SK: sk },
+            UpdateExpression: 'SET deletedAt = :deletedAt, deletedBy = :deletedBy',
+            ConditionExpression: 'attribute_not_exists(deletedAt) AND version = :version',
+            ExpressionAttributeValues: {
+              ':deletedAt': now,
+              ':deletedBy': userId,
+              ':version': existingItem.version,
+            },
+          },
+        },
+        ...(pending
+          ? [
+              {
+                Delete: {
+                  TableName: TABLE_NAME,
+                  Key: {
+                    PK: buildCosignQueuePK(clinicId),
+                    SK: buildCosignQueueSK(pending.requestedAt, noteId),
+                  },
+                },
+              },
+            ]
+          : []),
+        ...noteChangeWrites(itemToNote(existingItem), undefined),
+      ],
+    });
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      // The note was deleted or edited since it was read
+      throw expectedVersion === undefined
+        ? new ConflictError(`Note ${noteId} was modified while being deleted`)
+        : new VersionConflictError(expectedVersion);
+    }
+    throw err;
+  }
+
+  logger.info('Note soft deleted', { clinicId, patientId, noteId });
+}
+
+export async function restore(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  studyDate: string,
+  userId: string,
+  username: string
+): Promise<Note> {
+  const pk = buildPK(clinicId, patientId);
+  const sk = buildSK(studyDate, noteId);
+  const now = new Date().toISOString();
+
+  const current = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: sk },
+      ConsistentRead: true,
+    })
+  );
+
+  const existingItem = current.Item as DynamoDBNoteItem | undefined;
+
+  if (!existingItem || !existingItem.deletedAt) {
+    throw new NotFoundError('Deleted note', noteId);
+  }
+  if (existingItem.purgingAt) {
+    throw new ConflictError(`Note ${noteId} is being purged and can no longer be restored`);
+  }
+
+  const existing = itemToNote(existingItem);
+  const revisionItem = buildRevisionItem(existing, ['deletedAt'], userId, username, now);
+
+  try {
+    await sendTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: { PK: pk, SK: sk },
+            UpdateExpression:
+              'SET restoredAt = :restoredAt, restoredBy = :restoredBy, updatedAt = :restoredAt, ' +
+              'updatedBy = :restoredBy, updatedByName = :restoredByName, version = version + :inc ' +
+              'REMOVE deletedAt, deletedBy',
+            ConditionExpression:
+              'attribute_exists(deletedAt) AND attribute_not_exists(purgingAt) AND ' +
+              'version = :expectedVersion',
+            ExpressionAttributeValues: {
+              ':restoredAt': now,
+              ':restoredBy': userId,
+              ':restoredByName': username,
+              ':inc': 1,
+              ':expectedVersion': existing.version,
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: revisionItem,
+            ConditionExpression: 'attribute_not_exists(SK)',
+          },
+        },
+        // A note deleted while awaiting co-signature goes back into the queue
+        ...(existing.cosignature?.status === 'pending'
+          ? [
+              {
+                Put: {
+                  TableName: TABLE_NAME,
+                  Item: buildCosignQueueItem(existing, existing.cosignature.requestedAt),
+                },
+              },
+            ]
+          : []),
+        ...noteChangeWrites(undefined, existing),
+      ],
+    });
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      throw new ConflictError(`Note ${noteId} was modified while being restored`);
+    }
+    throw err;
+  }
+
+  logger.info('Note restored', { clinicId, patientId, noteId, version: revisionItem.version });
+
+  return {
+    ...existing,
+    deletedAt: undefined,
+    deletedBy: undefined,
+    restoredAt: now,
+    restoredBy: userId,
+    updatedAt: now,
+    updatedBy: userId,
+    updatedByName: username,
+    version: revisionItem.version,
+  };
+}
+
+/**
+ * Marks a deleted note as being purged, which also stops it from being restored. Only
+ * succeeds while the note is still deleted as of `deletedAt`, i.e. it was not restored
+ * (or restored and deleted again) since the purge scan read it. Claiming a note that is
+ * already marked succeeds, so a purge interrupted by a failure can be finished.
+ *
+ * @returns false if the note is gone or no longer deleted as of `deletedAt`
+ */
+export async function claimForPurge(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  studyDate: string,
+  deletedAt: string,
+  purgingAt: string
+): Promise<boolean> {
   try {
     await docClient.send(
       new UpdateCommand({
         TableName: TABLE_NAME,
-        Key: { PK: pk, SK: sk },
-        UpdateExpression: 'SET deletedAt = :deletedAt, deletedBy = :deletedBy',
-        ConditionExpression: 'attribute_exists(PK) AND attribute_not_exists(deletedAt)',
-        ExpressionAttributeValues: {
-          ':deletedAt': now,
-          ':deletedBy': userId,
-        },
+        Key: { PK: buildPK(clinicId, patientId), SK: buildSK(studyDate, noteId) },
+        UpdateExpression: 'SET purgingAt = if_not_exists(purgingAt, :purgingAt)',
+        ConditionExpression: 'attribute_exists(deletedAt) AND deletedAt = :deletedAt',
+        ExpressionAttributeValues: { ':deletedAt': deletedAt, ':purgingAt': purgingAt },
       })
     );
-
-    logger.info('Note soft deleted', { clinicId, patientId, noteId });
+    return true;
   } catch (err) {
     if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
-      throw new NotFoundError('Note', noteId);
+      return false;
     }
     throw err;
   }
 }
 
+/**
+ * Permanently removes a note that is still deleted as of `deletedAt`.
+ *
+ * @throws ConflictError if the note was restored or deleted again since
+ */
 export async function hardDelete(
   clinicId: string,
   patientId: string,
   noteId: string,
-  studyDate: string
+  studyDate: string,
+  deletedAt: string
 ): Promise<void> {
   const pk = buildPK(clinicId, patientId);
   const sk = buildSK(studyDate, noteId);
 
-  await docClient.send(
-    new DeleteCommand({
+  try {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: pk, SK: sk },
+        ConditionExpression: 'attribute_exists(deletedAt) AND deletedAt = :deletedAt',
+        ExpressionAttributeValues: { ':deletedAt': deletedAt },
+      })
+    );
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      throw new ConflictError(`Note ${noteId} is no longer deleted as of ${deletedAt}`);
+    }
+    throw err;
+  }
+
+  logger.info('Note hard deleted', { clinicId, patientId, noteId });
+}
+
+export async function hardDeleteRevisions(
+  clinicId: string,
+  patientId: string,
+  noteId: string
+): Promise<number> {
+  const pk = buildPK(clinicId, patientId);
+  const revisions = await listRevisions(clinicId, patientId, noteId);
+
+  for (const revision of revisions) {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: pk, SK: buildNoteRevisionSK(noteId, revision.version) },
+      })
+    );
+  }
+
+  logger.info('Note revisions hard deleted', {
+    clinicId,
+    patientId,
+    noteId,
+    count: revisions.length,
+  });
+  return revisions.length;
+}
+
+/**
+ * Scans one page of soft-deleted notes across all clinics. Used by the retention purge
+ * job, which persists lastEvaluatedKey between runs so it can resume where it stopped.
+ */
+export async function scanDeleted(
+  exclusiveStartKey?: Record<string, unknown>,
+  pageSize = 100
+): Promise<DeletedNotesPage> {
+  const result = await docClient.send(
+    new ScanCommand({
       TableName: TABLE_NAME,
-      Key: { PK: pk, SK: sk },
+      FilterExpression: 'entityType = :entityType AND attribute_exists(deletedAt)',
+      ExpressionAttributeValues: {
+        ':entityType': 'NOTE',
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+      Limit: pageSize,
     })
   );
 
-  logger.info('Note hard deleted', { clinicId, patientId, noteId });
+  return {
+    items: ((result.Items ?? []) as DynamoDBNoteItem[]).map(itemToNote),
+    lastEvaluatedKey: result.LastEvaluatedKey,
+  };
 }
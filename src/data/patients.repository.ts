@@ -1,6 +1,35 @@
-import { PutCommand, GetCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { docClient, TABLE_NAME } from './client';
-import { buildPatientPK, buildPatientSK } from './keys';
+import {
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  BatchWriteCommand,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { NotFoundError, VersionConflictError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import {
+  PatientSearchAlternative,
+  buildPatientSearchTerms,
+  formatSearchTerm,
+} from '../lib/patient-search';
+import { PaginatedResponse } from '../types';
+import { docClient, TABLE_NAME, CLINIC_PATIENTS_INDEX_NAME } from './client';
+import { CursorBinding, decodePatientListCursor, encodePatientListCursor } from './cursor';
+import {
+  buildClinicPatientsPK,
+  buildClinicPatientsSK,
+  buildPatientPK,
+  buildPatientSK,
+  buildPatientSearchPK,
+  buildPatientSearchStateSK,
+  buildPatientSearchTermSK,
+} from './keys';
+import { isConditionFailure, sendTransaction } from './transactions';
+
+export type PatientStatus = 'active' | 'inactive' | 'archived';
 
 export interface Patient {
   patientId: string;
@@ -16,9 +45,64 @@ export interface Patient {
   insuranceId?: string;
   createdAt: string;
   updatedAt: string;
-  status: 'active' | 'inactive' | 'archived';
+  status: PatientStatus;
+  /** Patients created before versioning are at version 1 */
+  version: number;
+  createdBy?: string;
+  updatedBy?: string;
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  statusReason?: string;
+}
+
+/** Demographic fields a patient is registered and updated with */
+export type PatientFields = Pick<
+  Patient,
+  | 'firstName'
+  | 'lastName'
+  | 'dateOfBirth'
+  | 'gender'
+  | 'email'
+  | 'phone'
+  | 'address'
+  | 'insuranceProvider'
+  | 'insuranceId'
+>;
+
+/**
+ * Changes for update: undefined leaves a field as it is and null removes it. A status
+ * change carries its reason, which replaces any earlier one.
+ */
+export type PatientChanges = { [K in keyof PatientFields]?: PatientFields[K] | null } & {
+  status?: PatientStatus;
+  statusReason?: string;
+};
+
+export interface ListPatientsOptions {
+  cursor?: string;
+  limit: number;
+  /** Only patients with this status; every status when omitted */
+  status?: PatientStatus;
+}
+
+// Items read per query and queries per request when listing a clinic's patients
+const PATIENT_LIST_QUERY_LIMIT = 100;
+const PATIENT_LIST_MAX_QUERIES = 10;
+
+// Search index items read per search alternative; broader prefixes are cut off here
+const SEARCH_TERM_MATCH_LIMIT = 1000;
+
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
+
+/** A patient whose index term matched a search alternative, and the matched value */
+export interface PatientSearchMatch {
+  patientId: string;
+  value: string;
 }
 
+type PutRequest = { PutRequest: { Item: Record<string, unknown> } };
+
 interface DynamoDBPatientItem {
   PK: string;
   SK: string;
@@ -36,6 +120,12 @@ interface DynamoDBPatientItem {
   createdAt: string;
   updatedAt: string;
   status: string;
+  version?: number;
+  createdBy?: string;
+  updatedBy?: string;
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  statusReason?: string;
   entityType: string;
   GSI1PK?: string;
   GSI1SK?: string;
@@ -56,12 +146,32 @@ function toPatient(item: DynamoDBPatientItem): Patient {
     insuranceId: item.insuranceId,
     createdAt: item.createdAt,
     updatedAt: item.updatedAt,
-    status: item.status as 'active' | 'inactive' | 'archived',
+    status: item.status as PatientStatus,
+    version: item.version ?? 1,
+    createdBy: item.createdBy,
+    updatedBy: item.updatedBy,
+    statusChangedAt: item.statusChangedAt,
+    statusChangedBy: item.statusChangedBy,
+    statusReason: item.statusReason,
+  };
+}
+
+function buildSearchTermItem(
+  clinicId: string,
+  patientId: string,
+  term: string
+): Record<string, unknown> {
+  return {
+    PK: buildPatientSearchPK(clinicId),
+    SK: buildPatientSearchTermSK(term, patientId),
+    entityType: 'PATIENT_SEARCH_TERM',
+    patientId,
+    searchTerm: term,
   };
 }
 
 export async function create(
-  patient: Omit<Patient, 'createdAt' | 'updatedAt'>
+  patient: Omit<Patient, 'createdAt' | 'updatedAt' | 'version'>
 ): Promise<Patient> {
   const now = new Date().toISOString();
   const pk = buildPatientPK(patient.clinicId, patient.patientId);
@@ -84,16 +194,32 @@ export async function create(
     createdAt: now,
     updatedAt: now,
     status: patient.status || 'active',
+    version: 1,
+    createdBy: patient.createdBy,
+    updatedBy: patient.createdBy,
     entityType: 'PATIENT',
-    GSI1PK: `CLINIC#${patient.clinicId}#PATIENTS`,
-    GSI1SK: `PATIENT#${patient.patientId}`,
+    GSI1PK: buildClinicPatientsPK(patient.clinicId),
+    GSI1SK: buildClinicPatientsSK(patient.patientId),
   };
 
+  // The patient and its search index terms are written together
   await docClient.send(
-    new PutCommand({
-      TableName: TABLE_NAME,
-      Item: item,
-      ConditionExpression: 'attribute_not_exists(PK)',
+    new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: TABLE_NAME,
+            Item: item,
+            ConditionExpression: 'attribute_not_exists(PK)',
+          },
+        },
+        ...buildPatientSearchTerms(item).map((term) => ({
+          Put: {
+            TableName: TABLE_NAME,
+            Item: buildSearchTermItem(patient.clinicId, patient.patientId, term),
+          },
+        })),
+      ],
     })
   );
 
@@ -121,20 +247,381 @@ export async function findById(
   return toPatient(result.Item as DynamoDBPatientItem);
 }
 
-export async function listByClinic(clinicId: string): Promise<Patient[]> {
-  // Scan with filter for patients belonging to this clinic
-  // Note: In production, add GSI1 for efficient queries
+/**
+ * A page of the clinic's patients from the GSI1 index, in patientId order. The status is a
+ * filter, so a page can take several queries; the work per request is capped and a short
+ * page with a cursor is returned when the cap is reached.
+ */
+export async function listByClinic(
+  clinicId: string,
+  options: ListPatientsOptions
+): Promise<PaginatedResponse<Patient>> {
+  const { cursor, limit, status } = options;
+
+  const expressionValues: Record<string, unknown> = {
+    ':pk': buildClinicPatientsPK(clinicId),
+    ':skPrefix': 'PATIENT#',
+  };
+  let filterExpression: string | undefined;
+  if (status) {
+    filterExpression = '#status = :status';
+    expressionValues[':status'] = status;
+  }
+
+  const cursorBinding: CursorBinding = { clinicId, list: 'patients', filters: { status } };
+  let exclusiveStartKey: Record<string, unknown> | undefined = cursor
+    ? decodePatientListCursor(cursor, cursorBinding)
+    : undefined;
+
+  const matched: DynamoDBPatientItem[] = [];
+  let queries = 0;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        IndexName: CLINIC_PATIENTS_INDEX_NAME,
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :skPrefix)',
+        FilterExpression: filterExpression,
+        ExpressionAttributeNames: status ? { '#status': 'status' } : undefined,
+        ExpressionAttributeValues: expressionValues,
+        Limit: PATIENT_LIST_QUERY_LIMIT,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    queries++;
+    exclusiveStartKey = result.LastEvaluatedKey;
+
+    for (const item of (result.Items ?? []) as DynamoDBPatientItem[]) {
+      matched.push(item);
+      if (matched.length > limit) {
+        break;
+      }
+    }
+  } while (matched.length <= limit && exclusiveStartKey && queries < PATIENT_LIST_MAX_QUERIES);
+
+  const items = matched.slice(0, limit);
+  const lastItem = items[items.length - 1];
+
+  let nextCursor: string | undefined;
+  if (matched.length > limit && lastItem) {
+    nextCursor = encodePatientListCursor(
+      {
+        PK: lastItem.PK,
+        SK: lastItem.SK,
+        GSI1PK: lastItem.GSI1PK,
+        GSI1SK: lastItem.GSI1SK,
+      },
+      cursorBinding
+    );
+  } else if (exclusiveStartKey) {
+    // Read cap reached before the page filled up; continue after the last item read
+    nextCursor = encodePatientListCursor(exclusiveStartKey, cursorBinding);
+  }
+
+  logger.info('Clinic patients listed', { clinicId, returned: items.length, queries });
+
+  return {
+    items: items.map(toPatient),
+    nextCursor,
+    hasMore: nextCursor !== undefined,
+  };
+}
+
+/**
+ * Applies the changes if the patient is still at `expectedVersion`, and bumps the version.
+ *
+ * @throws NotFoundError if the patient does not exist
+ * @throws VersionConflictError if the patient is at another version
+ */
+export async function update(
+  clinicId: string,
+  patientId: string,
+  expectedVersion: number,
+  changes: PatientChanges,
+  userId: string
+): Promise<Patient> {
+  const key = { PK: buildPatientPK(clinicId, patientId), SK: buildPatientSK() };
+  const now = new Date().toISOString();
+
+  const current = await docClient.send(
+    new GetCommand({ TableName: TABLE_NAME, Key: key, ConsistentRead: true })
+  );
+  const existing = current.Item as DynamoDBPatientItem | undefined;
+
+  if (!existing) {
+    throw new NotFoundError('Patient', patientId);
+  }
+
+  const currentVersion = existing.version ?? 1;
+  if (currentVersion !== expectedVersion) {
+    throw new VersionConflictError(expectedVersion, currentVersion);
+  }
+
+  const setExpressions = [
+    'updatedAt = :updatedAt',
+    'updatedBy = :updatedBy',
+    '#version = :version',
+  ];
+  const removeExpressions: string[] = [];
+  const expressionNames: Record<string, string> = { '#version': 'version' };
+  const expressionValues: Record<string, unknown> = {
+    ':updatedAt': now,
+    ':updatedBy': userId,
+    ':version': currentVersion + 1,
+  };
+
+  const { status, statusReason, ...fields } = changes;
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    expressionNames[`#${field}`] = field;
+    if (value === null) {
+      removeExpressions.push(`#${field}`);
+    } else {
+      setExpressions.push(`#${field} = :${field}`);
+      expressionValues[`:${field}`] = value;
+    }
+  }
+
+  if (status !== undefined) {
+    expressionNames['#status'] = 'status';
+    setExpressions.push(
+      '#status = :status',
+      'statusChangedAt = :updatedAt',
+      'statusChangedBy = :updatedBy'
+    );
+    expressionValues[':status'] = status;
+    if (statusReason === undefined) {
+      removeExpressions.push('statusReason');
+    } else {
+      setExpressions.push('statusReason = :statusReason');
+      expressionValues[':statusReason'] = statusReason;
+    }
+  }
+
+  // Patients created before versioning have no version attribute
+  const versionCondition =
+    existing.version === undefined
+      ? 'attribute_not_exists(#version)'
+      : '#version = :expectedVersion';
+  if (existing.version !== undefined) {
+    expressionValues[':expectedVersion'] = expectedVersion;
+  }
+
+  const updateExpression =
+    `SET ${setExpressions.join(', ')}` +
+    (removeExpressions.length > 0 ? ` REMOVE ${removeExpressions.join(', ')}` : '');
+  const conditionExpression = `attribute_exists(PK) AND ${versionCondition}`;
+
+  const updated: DynamoDBPatientItem = {
+    ...existing,
+    updatedAt: now,
+    updatedBy: userId,
+    version: currentVersion + 1,
+  };
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      (updated as unknown as Record<string, unknown>)[field] = value ?? undefined;
+    }
+  }
+  if (status !== undefined) {
+    updated.status = status;
+    updated.statusChangedAt = now;
+    updated.statusChangedBy = userId;
+    updated.statusReason = statusReason;
+  }
+
+  // Search index terms are rewritten with the patient when searchable fields change
+  const previousTerms = buildPatientSearchTerms(existing);
+  const nextTerms = buildPatientSearchTerms(updated);
+  const removedTerms = previousTerms.filter((term) => !nextTerms.includes(term));
+  const addedTerms = nextTerms.filter((term) => !previousTerms.includes(term));
+
+  try {
+    if (removedTerms.length === 0 && addedTerms.length === 0) {
+      const result = await docClient.send(
+        new UpdateCommand({
+          TableName: TABLE_NAME,
+          Key: key,
+          UpdateExpression: updateExpression,
+          ConditionExpression: conditionExpression,
+          ExpressionAttributeNames: expressionNames,
+          ExpressionAttributeValues: expressionValues,
+          ReturnValues: 'ALL_NEW',
+        })
+      );
+
+      return toPatient(result.Attributes as DynamoDBPatientItem);
+    }
+
+    await sendTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TABLE_NAME,
+            Key: key,
+            UpdateExpression: updateExpression,
+            ConditionExpression: conditionExpression,
+            ExpressionAttributeNames: expressionNames,
+            ExpressionAttributeValues: expressionValues,
+          },
+        },
+        ...removedTerms.map((term) => ({
+          Delete: {
+            TableName: TABLE_NAME,
+            Key: {
+              PK: buildPatientSearchPK(clinicId),
+              SK: buildPatientSearchTermSK(term, patientId),
+            },
+          },
+        })),
+        ...addedTerms.map((term) => ({
+          Put: {
+            TableName: TABLE_NAME,
+            Item: buildSearchTermItem(clinicId, patientId, term),
+          },
+        })),
+      ],
+    });
+
+    return toPatient(updated);
+  } catch (err) {
+    const name = (err as { name?: string }).name;
+    // Changed since it was read: only the patient item (first in the transaction) is guarded
+    if (name === 'ConditionalCheckFailedException' || isConditionFailure(err, 0)) {
+      throw new VersionConflictError(expectedVersion);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Patients with an index term matching the alternative: any value starting with it for a
+ * prefix match, the value itself otherwise. Matches past SEARCH_TERM_MATCH_LIMIT are dropped.
+ */
+export async function findSearchMatches(
+  clinicId: string,
+  alternative: PatientSearchAlternative
+): Promise<PatientSearchMatch[]> {
+  const term = formatSearchTerm(alternative);
+  const fieldPrefixLength = alternative.field.length + 1;
+  const matches: PatientSearchMatch[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': buildPatientSearchPK(clinicId),
+          // Term SKs are `{term}#{patientId}`, so an exact match includes the separator
+          ':prefix': alternative.prefix ? term : `${term}#`,
+        },
+        ProjectionExpression: 'patientId, searchTerm',
+        Limit: SEARCH_TERM_MATCH_LIMIT - matches.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    exclusiveStartKey = result.LastEvaluatedKey;
+
+    for (const item of (result.Items ?? []) as { patientId: string; searchTerm: string }[]) {
+      matches.push({ patientId: item.patientId, value: item.searchTerm.slice(fieldPrefixLength) });
+    }
+  } while (exclusiveStartKey && matches.length < SEARCH_TERM_MATCH_LIMIT);
+
+  if (exclusiveStartKey) {
+    logger.warn('Patient search matches truncated', {
+      clinicId,
+      field: alternative.field,
+      limit: SEARCH_TERM_MATCH_LIMIT,
+    });
+  }
+
+  return matches;
+}
+
+/** The clinic's patients with these IDs, in the given order; missing patients are skipped */
+export async function findManyByIds(clinicId: string, patientIds: string[]): Promise<Patient[]> {
+  const found = new Map<string, DynamoDBPatientItem>();
+
+  // BatchGetItem reads at most 100 keys per request
+  for (let i = 0; i < patientIds.length; i += 100) {
+    let pending: Record<string, unknown>[] | undefined = patientIds
+      .slice(i, i + 100)
+      .map((patientId) => ({ PK: buildPatientPK(clinicId, patientId), SK: buildPatientSK() }));
+
+    while (pending && pending.length > 0) {
+      const result: BatchGetCommandOutput = await docClient.send(
+        new BatchGetCommand({ RequestItems: { [TABLE_NAME]: { Keys: pending } } })
+      );
+      for (const item of (result.Responses?.[TABLE_NAME] ?? []) as DynamoDBPatientItem[]) {
+        found.set(item.patientId, item);
+      }
+      pending = result.UnprocessedKeys?.[TABLE_NAME]?.Keys;
+    }
+  }
+
+  return patientIds
+    .map((patientId) => found.get(patientId))
+    .filter((item): item is DynamoDBPatientItem => item !== undefined)
+    .map(toPatient);
+}
+
+/** Version of the clinic's search index build; 0 when it has never been built */
+export async function getSearchIndexVersion(clinicId: string): Promise<number> {
   const result = await docClient.send(
-    new ScanCommand({
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: buildPatientSearchPK(clinicId), SK: buildPatientSearchStateSK() },
+    })
+  );
+
+  return (result.Item?.indexVersion as number | undefined) ?? 0;
+}
+
+export async function markSearchIndexBuilt(clinicId: string, version: number): Promise<void> {
+  await docClient.send(
+    new PutCommand({
       TableName: TABLE_NAME,
-      FilterExpression: 'clinicId = :clinicId AND entityType = :entityType',
-      ExpressionAttributeValues: {
-        ':clinicId': clinicId,
-        ':entityType': 'PATIENT',
+      Item: {
+        PK: buildPatientSearchPK(clinicId),
+        SK: buildPatientSearchStateSK(),
+        entityType: 'PATIENT_SEARCH_STATE',
+        indexVersion: version,
+        builtAt: new Date().toISOString(),
       },
     })
   );
+}
+
+/**
+ * Writes the search index terms of patients stored before the index existed. Terms that
+ * are already stored are rewritten unchanged.
+ */
+export async function indexPatients(patients: Patient[]): Promise<void> {
+  const requests: PutRequest[] = patients.flatMap((patient) =>
+    buildPatientSearchTerms(patient).map((term) => ({
+      PutRequest: { Item: buildSearchTermItem(patient.clinicId, patient.patientId, term) },
+    }))
+  );
+
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    let pending = requests.slice(i, i + BATCH_WRITE_SIZE);
 
-  const patientItems = (result.Items || []) as DynamoDBPatientItem[];
-  return patientItems.map(toPatient);
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_ATTEMPTS) {
+        throw new Error(`Patient search indexing left ${pending.length} unprocessed items`);
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [TABLE_NAME]: pending } })
+      );
+      pending = (result.UnprocessedItems?.[TABLE_NAME] ?? []) as PutRequest[];
+      if (pending.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+    }
+  }
 }
@@ -0,0 +1,107 @@
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from './client';
+import { buildTombstonePK, buildTombstoneSK } from './keys';
+
+const CHECKPOINT_PK = 'PURGE#deleted-notes';
+const CHECKPOINT_SK = 'CHECKPOINT';
+
+export interface NoteTombstone {
+  noteId: string;
+  clinicId: string;
+  patientId: string;
+  studyDate: string;
+  noteType?: string;
+  createdAt: string;
+  createdBy: string;
+  deletedAt: string;
+  deletedBy: string;
+  attachmentIds: string[];
+}
+
+/**
+ * Records that a note was permanently purged. Written before the note item is removed,
+ * so a run interrupted in between re-records the same tombstone on the next attempt:
+ * the first purgedAt is kept and the removal counters accumulate.
+ */
+export async function recordTombstone(
+  tombstone: NoteTombstone,
+  purgedAt: string,
+  attachmentObjectsRemoved: number,
+  revisionsRemoved: number
+): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: buildTombstonePK(tombstone.clinicId),
+        SK: buildTombstoneSK(tombstone.noteId),
+      },
+      UpdateExpression:
+        'SET noteId = :noteId, clinicId = :clinicId, patientId = :patientId, ' +
+        'studyDate = :studyDate, noteType = :noteType, createdAt = :createdAt, ' +
+        'createdBy = :createdBy, deletedAt = :deletedAt, deletedBy = :deletedBy, ' +
+        'attachmentIds = :attachmentIds, entityType = :entityType, ' +
+        'purgedAt = if_not_exists(purgedAt, :purgedAt) ' +
+        'ADD attachmentObjectsRemoved :objectsRemoved, revisionsRemoved :revisionsRemoved',
+      ExpressionAttributeValues: {
+        ':noteId': tombstone.noteId,
+        ':clinicId': tombstone.clinicId,
+        ':patientId': tombstone.patientId,
+        ':studyDate': tombstone.studyDate,
+        ':noteType': tombstone.noteType ?? null,
+        ':createdAt': tombstone.createdAt,
+        ':createdBy': tombstone.createdBy,
+        ':deletedAt': tombstone.deletedAt,
+        ':deletedBy': tombstone.deletedBy,
+        ':attachmentIds': tombstone.attachmentIds,
+        ':entityType': 'NOTE_TOMBSTONE',
+        ':purgedAt': purgedAt,
+        ':objectsRemoved': attachmentObjectsRemoved,
+        ':revisionsRemoved': revisionsRemoved,
+      },
+    })
+  );
+}
+
+export async function getCheckpoint(): Promise<Record<string, unknown> | undefined> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: CHECKPOINT_PK, SK: CHECKPOINT_SK },
+      ConsistentRead: true,
+    })
+  );
+
+  return result.Item?.['exclusiveStartKey'] as Record<string, unknown> | undefined;
+}
+
+/**
+ * Persists where the purge scan stopped so the next run resumes from there.
+ * Passing undefined clears the checkpoint once a full pass has finished.
+ */
+export async function saveCheckpoint(
+  exclusiveStartKey: Record<string, unknown> | undefined
+): Promise<void> {
+  if (!exclusiveStartKey) {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: CHECKPOINT_PK, SK: CHECKPOINT_SK },
+      })
+    );
+    return;
+  }
+
+  await docClient.send(
+    new PutCommand({
+      TableName: TABLE_NAME,
+      Item: {
+        PK: CHECKPOINT_PK,
+        SK: CHECKPOINT_SK,
+        exclusiveStartKey,
+        updatedAt: new Date().toISOString(),
+        entityType: 'PURGE_CHECKPOINT',
+      },
+    })
+  );
+}
@@ -0,0 +1,17 @@
+import { S3Client } from '@aws-sdk/client-s3';
+
+const isLocal = process.env.AWS_SAM_LOCAL === 'true' || process.env.IS_LOCAL === 'true';
+
+export const s3Client = new S3Client({
+  region: process.env.AWS_REGION ?? 'us-east-1',
+  ...(isLocal && {
+    endpoint: process.env.S3_ENDPOINT ?? 'http://localhost:4566',
+    forcePathStyle: true,
+    credentials: {
+      accessKeyId: 'local',
+      secretAccessKey: 'local',
+    },
+  }),
+});
+
+export const ATTACHMENTS_BUCKET = process.env.ATTACHMENTS_BUCKET ?? 'snoremd-attachments';
@@ -0,0 +1,377 @@
+import { createHash } from 'crypto';
+import {
+  BatchWriteCommand,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { AnalyzedNote } from '../lib/text-search';
+import { ConflictError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { docClient, TABLE_NAME, TransactWriteItem } from './client';
+import {
+  buildSearchDocumentSK,
+  buildSearchIndexPK,
+  buildSearchStatsSK,
+  buildSearchTermSK,
+  buildSearchTermSKPrefix,
+} from './keys';
+import type {
+  SearchIndexBackend,
+  SearchIndexStats,
+  SearchPosting,
+  SearchScope,
+} from './search-index';
+
+const BATCH_WRITE_SIZE = 25;
+const MAX_BATCH_ATTEMPTS = 5;
+
+interface DynamoDBSearchPostingItem extends SearchPosting {
+  PK: string;
+  SK: string;
+  entityType: string;
+}
+
+interface DynamoDBSearchDocumentItem {
+  PK: string;
+  SK: string;
+  noteId: string;
+  terms: string[];
+  length: number;
+  documentHash: string;
+  entityType: string;
+}
+
+interface DynamoDBSearchStatsItem {
+  documentCount?: number;
+  totalLength?: number;
+  initialized?: boolean;
+  indexVersion?: number;
+  /** Epoch seconds the build lease lapses at */
+  buildExpiresAt?: number;
+}
+
+type WriteRequest =
+  | { PutRequest: { Item: Record<string, unknown> } }
+  | { DeleteRequest: { Key: Record<string, unknown> } };
+
+async function batchWrite(requests: WriteRequest[]): Promise<void> {
+  for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+    let pending = requests.slice(i, i + BATCH_WRITE_SIZE);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_ATTEMPTS) {
+        throw new Error(`Search index write left ${pending.length} unprocessed items`);
+      }
+      const result = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [TABLE_NAME]: pending } })
+      );
+      pending = (result.UnprocessedItems?.[TABLE_NAME] ?? []) as WriteRequest[];
+      if (pending.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+    }
+  }
+}
+
+async function getDocumentItem(
+  pk: string,
+  noteId: string
+): Promise<DynamoDBSearchDocumentItem | undefined> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: buildSearchDocumentSK(noteId) },
+      ConsistentRead: true,
+    })
+  );
+  return result.Item as DynamoDBSearchDocumentItem | undefined;
+}
+
+/**
+ * Writes the document item together with the stats change it implies. The write only
+ * goes through while the document item is as it was read, so two callers indexing the same
+ * note cannot both count it.
+ */
+async function commitDocument(
+  pk: string,
+  noteId: string,
+  documentWrite: TransactWriteItem,
+  documentDelta: number,
+  lengthDelta: number
+): Promise<void> {
+  const statsUpdate: TransactWriteItem = {
+    Update: {
+      TableName: TABLE_NAME,
+      Key: { PK: pk, SK: buildSearchStatsSK() },
+      UpdateExpression: 'ADD documentCount :documents, totalLength :length',
+      ExpressionAttributeValues: { ':documents': documentDelta, ':length': lengthDelta },
+    },
+  };
+
+  try {
+    await docClient.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          documentWrite,
+          ...(documentDelta !== 0 || lengthDelta !== 0 ? [statsUpdate] : []),
+        ],
+      })
+    );
+  } catch (err) {
+    if ((err as { name?: string }).name === 'TransactionCanceledException') {
+      throw new ConflictError(`Search document of note ${noteId} changed while being indexed`);
+    }
+    throw err;
+  }
+}
+
+async function putDocument(scope: SearchScope, document: AnalyzedNote): Promise<void> {
+  const pk = buildSearchIndexPK(scope.clinicId, scope.patientId);
+  const documentHash = createHash('sha256').update(JSON.stringify(document)).digest('hex');
+  const existing = await getDocumentItem(pk, document.noteId);
+
+  // Edits that do not touch indexed fields (signatures, addenda) need no writes
+  if (existing?.documentHash === documentHash) {
+    return;
+  }
+
+  const terms = new Set(document.terms.map((entry) => entry.term));
+  const staleTerms = (existing?.terms ?? []).filter((term) => !terms.has(term));
+
+  const postings: DynamoDBSearchPostingItem[] = document.terms.map((entry) => ({
+    PK: pk,
+    SK: buildSearchTermSK(entry.term, document.noteId),
+    term: entry.term,
+    noteId: document.noteId,
+    studyDate: document.studyDate,
+    tags: document.tags,
+    noteType: document.noteType,
+    createdBy: document.createdBy,
+    attachmentCount: document.attachmentCount,
+    frequency: entry.frequency,
+    positions: entry.positions,
+    length: document.length,
+    entityType: 'SEARCH_POSTING',
+  }));
+  const documentItem: DynamoDBSearchDocumentItem = {
+    PK: pk,
+    SK: buildSearchDocumentSK(document.noteId),
+    noteId: document.noteId,
+    terms: [...terms],
+    length: document.length,
+    documentHash,
+    entityType: 'SEARCH_DOCUMENT',
+  };
+
+  await batchWrite([
+    ...staleTerms.map((term) => ({
+      DeleteRequest: { Key: { PK: pk, SK: buildSearchTermSK(term, document.noteId) } },
+    })),
+    ...postings.map((item) => ({ PutRequest: { Item: { ...item } } })),
+  ]);
+
+  await commitDocument(
+    pk,
+    document.noteId,
+    {
+      Put: {
+        TableName: TABLE_NAME,
+        Item: { ...documentItem },
+        ...(existing
+          ? {
+              ConditionExpression: 'documentHash = :previousHash',
+              ExpressionAttributeValues: { ':previousHash': existing.documentHash },
+            }
+          : { ConditionExpression: 'attribute_not_exists(SK)' }),
+      },
+    },
+    existing ? 0 : 1,
+    document.length - (existing?.length ?? 0)
+  );
+
+  logger.info('Note indexed for search', {
+    clinicId: scope.clinicId,
+    patientId: scope.patientId,
+    noteId: document.noteId,
+    terms: terms.size,
+  });
+}
+
+async function removeDocument(scope: SearchScope, noteId: string): Promise<void> {
+  const pk = buildSearchIndexPK(scope.clinicId, scope.patientId);
+  const existing = await getDocumentItem(pk, noteId);
+
+  if (!existing) {
+    return;
+  }
+
+  await batchWrite(
+    existing.terms.map((term) => ({
+      DeleteRequest: { Key: { PK: pk, SK: buildSearchTermSK(term, noteId) } },
+    }))
+  );
+
+  await commitDocument(
+    pk,
+    noteId,
+    {
+      Delete: {
+        TableName: TABLE_NAME,
+        Key: { PK: pk, SK: existing.SK },
+        ConditionExpression: 'documentHash = :previousHash',
+        ExpressionAttributeValues: { ':previousHash': existing.documentHash },
+      },
+    },
+    -1,
+    -existing.length
+  );
+
+  logger.info('Note removed from search index', {
+    clinicId: scope.clinicId,
+    patientId: scope.patientId,
+    noteId,
+  });
+}
+
+async function findPostings(
+  scope: SearchScope,
+  term: string,
+  prefix: boolean
+): Promise<SearchPosting[]> {
+  const postings: SearchPosting[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': buildSearchIndexPK(scope.clinicId, scope.patientId),
+          // Terms never contain '#', so dropping the separator turns the lookup into a prefix match
+          ':sk': prefix ? `TERM#${term}` : buildSearchTermSKPrefix(term),
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    for (const item of (result.Items ?? []) as DynamoDBSearchPostingItem[]) {
+      postings.push({
+        term: item.term,
+        noteId: item.noteId,
+        studyDate: item.studyDate,
+        tags: item.tags ?? [],
+        noteType: item.noteType,
+        createdBy: item.createdBy,
+        attachmentCount: item.attachmentCount ?? 0,
+        frequency: item.frequency,
+        positions: item.positions ?? [],
+        length: item.length,
+      });
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return postings;
+}
+
+async function getStats(scope: SearchScope): Promise<SearchIndexStats> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: buildSearchIndexPK(scope.clinicId, scope.patientId),
+        SK: buildSearchStatsSK(),
+      },
+      ConsistentRead: true,
+    })
+  );
+  const item = result.Item as DynamoDBSearchStatsItem | undefined;
+
+  return {
+    documentCount: item?.documentCount ?? 0,
+    totalLength: item?.totalLength ?? 0,
+    initialized: item?.initialized ?? false,
+    // Indexes built before versioning was introduced are version 1
+    version: item?.indexVersion ?? 1,
+    building: (item?.buildExpiresAt ?? 0) > Math.floor(Date.now() / 1000),
+  };
+}
+
+async function claimBuild(scope: SearchScope, leaseSeconds: number): Promise<boolean> {
+  const now = Math.floor(Date.now() / 1000);
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: buildSearchIndexPK(scope.clinicId, scope.patientId),
+          SK: buildSearchStatsSK(),
+        },
+        UpdateExpression: 'SET buildExpiresAt = :expiresAt',
+        ConditionExpression: 'attribute_not_exists(buildExpiresAt) OR buildExpiresAt < :now',
+        ExpressionAttributeValues: { ':expiresAt': now + leaseSeconds, ':now': now },
+      })
+    );
+    return true;
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw err;
+  }
+}
+
+async function releaseBuild(scope: SearchScope): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: buildSearchIndexPK(scope.clinicId, scope.patientId),
+        SK: buildSearchStatsSK(),
+      },
+      UpdateExpression: 'REMOVE buildExpiresAt',
+    })
+  );
+}
+
+async function markInitialized(scope: SearchScope, version: number): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: buildSearchIndexPK(scope.clinicId, scope.patientId),
+        SK: buildSearchStatsSK(),
+      },
+      UpdateExpression:
+        'SET initialized = :initialized, indexVersion = :version, initializedAt = :now ' +
+        'REMOVE buildExpiresAt',
+      ExpressionAttributeValues: {
+        ':initialized': true,
+        ':version': version,
+        ':now': new Date().toISOString(),
+      },
+    })
+  );
+}
+
+/**
+ * Inverted index kept in the notes table. Per patient:
+ *   PK=CLINIC#{clinicId}#PATIENT#{patientId}#SEARCH
+ *   SK=TERM#{term}#{noteId}  one posting per term and note (frequency, positions)
+ *   SK=DOC#{noteId}          the terms currently indexed for the note
+ *   SK=STATS                 document count and total length for ranking, build state
+ *   SK=PENDING#{noteId}      note writes not yet applied (search-pending.repository)
+ */
+export const dynamoDBSearchIndex: SearchIndexBackend = {
+  putDocument,
+  removeDocument,
+  findPostings,
+  getStats,
+  claimBuild,
+  releaseBuild,
+  markInitialized,
+};
@@ -0,0 +1,107 @@
+import type { AnalyzedNote } from '../lib/text-search';
+import type {
+  SearchIndexBackend,
+  SearchIndexStats,
+  SearchPosting,
+  SearchScope,
+} from './search-index';
+
+interface ScopeIndex {
+  documents: Map<string, AnalyzedNote>;
+  initialized: boolean;
+  version: number;
+  /** Epoch milliseconds the build lease lapses at */
+  buildExpiresAt?: number;
+}
+
+/**
+ * In-process search index. State lives only as long as the process, so it suits local
+ * development and tests rather than Lambda.
+ */
+export function createInMemorySearchIndex(): SearchIndexBackend {
+  const scopes = new Map<string, ScopeIndex>();
+
+  const scopeIndex = (scope: SearchScope): ScopeIndex => {
+    const key = `${scope.clinicId}#${scope.patientId}`;
+    let index = scopes.get(key);
+    if (!index) {
+      index = { documents: new Map(), initialized: false, version: 0 };
+      scopes.set(key, index);
+    }
+    return index;
+  };
+
+  return {
+    putDocument(scope: SearchScope, document: AnalyzedNote): Promise<void> {
+      scopeIndex(scope).documents.set(document.noteId, document);
+      return Promise.resolve();
+    },
+
+    removeDocument(scope: SearchScope, noteId: string): Promise<void> {
+      scopeIndex(scope).documents.delete(noteId);
+      return Promise.resolve();
+    },
+
+    findPostings(scope: SearchScope, term: string, prefix: boolean): Promise<SearchPosting[]> {
+      const postings: SearchPosting[] = [];
+
+      for (const document of scopeIndex(scope).documents.values()) {
+        for (const entry of document.terms) {
+          if (prefix ? entry.term.startsWith(term) : entry.term === term) {
+            postings.push({
+              term: entry.term,
+              noteId: document.noteId,
+              studyDate: document.studyDate,
+              tags: document.tags,
+              noteType: document.noteType,
+              createdBy: document.createdBy,
+              attachmentCount: document.attachmentCount,
+              frequency: entry.frequency,
+              positions: entry.positions,
+              length: document.length,
+            });
+          }
+        }
+      }
+
+      return Promise.resolve(postings);
+    },
+
+    getStats(scope: SearchScope): Promise<SearchIndexStats> {
+      const index = scopeIndex(scope);
+      let totalLength = 0;
+      for (const document of index.documents.values()) {
+        totalLength += document.length;
+      }
+      return Promise.resolve({
+        documentCount: index.documents.size,
+        totalLength,
+        initialized: index.initialized,
+        version: index.version,
+        building: (index.buildExpiresAt ?? 0) > Date.now(),
+      });
+    },
+
+    claimBuild(scope: SearchScope, leaseSeconds: number): Promise<boolean> {
+      const index = scopeIndex(scope);
+      if ((index.buildExpiresAt ?? 0) > Date.now()) {
+        return Promise.resolve(false);
+      }
+      index.buildExpiresAt = Date.now() + leaseSeconds * 1000;
+      return Promise.resolve(true);
+    },
+
+    releaseBuild(scope: SearchScope): Promise<void> {
+      scopeIndex(scope).buildExpiresAt = undefined;
+      return Promise.resolve();
+    },
+
+    markInitialized(scope: SearchScope, version: number): Promise<void> {
+      const index = scopeIndex(scope);
+      index.initialized = true;
+      index.version = version;
+      index.buildExpiresAt = undefined;
+      return Promise.resolve();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import type { AnalyzedNote } from '../lib/text-search';
+import { dynamoDBSearchIndex } from './search-index.dynamodb';
+import { createInMemorySearchIndex } from './search-index.memory';
+
+/**
+ * Every index lookup is bound to one patient of one clinic; there is no way to query
+ * across patients.
+ */
+export interface SearchScope {
+  clinicId: string;
+  patientId: string;
+}
+
+/**
+ * Version of what the index stores per note. Bump it when AnalyzedNote gains fields so
+ * indexes built earlier are rebuilt on their next search.
+ */
+export const SEARCH_INDEX_VERSION = 2;
+
+export interface SearchPosting {
+  term: string;
+  noteId: string;
+  studyDate: string;
+  tags: string[];
+  noteType?: string;
+  createdBy: string;
+  attachmentCount: number;
+  frequency: number;
+  positions: number[];
+  /** Token count of the whole note, for length normalisation */
+  length: number;
+}
+
+export interface SearchIndexStats {
+  documentCount: number;
+  totalLength: number;
+  /** Set once every existing note of the patient has been indexed */
+  initialized: boolean;
+  /** SEARCH_INDEX_VERSION the index was built with */
+  version: number;
+  /** Set while a caller holds the build lease */
+  building: boolean;
+}
+
+export interface SearchIndexBackend {
+  /** Replace everything indexed for the note with the given analysis */
+  putDocument(scope: SearchScope, document: AnalyzedNote): Promise<void>;
+  removeDocument(scope: SearchScope, noteId: string): Promise<void>;
+  /** Postings for an exact term, or for every term starting with it when prefix is set */
+  findPostings(scope: SearchScope, term: string, prefix: boolean): Promise<SearchPosting[]>;
+  getStats(scope: SearchScope): Promise<SearchIndexStats>;
+  /**
+   * Takes the lease to build the index; false while another caller holds it. The lease
+   * lapses after `leaseSeconds`, so a build that crashed does not block the index.
+   */
+  claimBuild(scope: SearchScope, leaseSeconds: number): Promise<boolean>;
+  releaseBuild(scope: SearchScope): Promise<void>;
+  /** Records a finished build and releases its lease */
+  markInitialized(scope: SearchScope, version: number): Promise<void>;
+}
+
+let activeBackend: SearchIndexBackend | undefined;
+
+/**
+ * Backend selected by SEARCH_INDEX_BACKEND: `dynamodb` (default) keeps the inverted index
+ * in the notes table, `memory` keeps it in process for local runs and tests.
+ */
+export function getSearchIndex(): SearchIndexBackend {
+  if (!activeBackend) {
+    activeBackend =
+      process.env.SEARCH_INDEX_BACKEND === 'memory'
+        ? createInMemorySearchIndex()
+        : dynamoDBSearchIndex;
+  }
+  return activeBackend;
+}
+
+export function setSearchIndex(backend: SearchIndexBackend | undefined): void {
+  activeBackend = backend;
+}
@@ -0,0 +1,114 @@
+import { DeleteCommand, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import type { Note } from '../types';
+import { docClient, TABLE_NAME, TransactWriteItem } from './client';
+import { buildSearchIndexPK, buildSearchPendingSK, buildSearchPendingSKPrefix } from './keys';
+import type { SearchScope } from './search-index';
+
+/**
+ * A note write the search index has not caught up with yet. Only the latest write of a
+ * note is kept: the index is brought up to date by reading the note again.
+ */
+export interface PendingIndexChange {
+  noteId: string;
+  /** Study date of the note after the write, i.e. where the note item now lives */
+  studyDate: string;
+  /** Replaced on every write, so a change applied meanwhile is not mistaken for this one */
+  changeId: string;
+}
+
+interface DynamoDBPendingIndexChangeItem extends PendingIndexChange {
+  PK: string;
+  SK: string;
+  entityType: string;
+  createdAt: string;
+}
+
+function itemToChange(item: DynamoDBPendingIndexChangeItem): PendingIndexChange {
+  return { noteId: item.noteId, studyDate: item.studyDate, changeId: item.changeId };
+}
+
+/**
+ * The marker for a note write, to be sent in the same transaction as the write so the
+ * index change is recorded even if applying it afterwards fails.
+ */
+export function buildPendingWrite(note: Note): TransactWriteItem {
+  const item: DynamoDBPendingIndexChangeItem = {
+    PK: buildSearchIndexPK(note.clinicId, note.patientId),
+    SK: buildSearchPendingSK(note.noteId),
+    noteId: note.noteId,
+    studyDate: note.studyDate,
+    changeId: uuidv4(),
+    entityType: 'SEARCH_PENDING',
+    createdAt: new Date().toISOString(),
+  };
+
+  return { Put: { TableName: TABLE_NAME, Item: item } };
+}
+
+export async function find(
+  scope: SearchScope,
+  noteId: string
+): Promise<PendingIndexChange | undefined> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: TABLE_NAME,
+      Key: {
+        PK: buildSearchIndexPK(scope.clinicId, scope.patientId),
+        SK: buildSearchPendingSK(noteId),
+      },
+      ConsistentRead: true,
+    })
+  );
+  const item = result.Item as DynamoDBPendingIndexChangeItem | undefined;
+
+  return item && itemToChange(item);
+}
+
+export async function list(scope: SearchScope): Promise<PendingIndexChange[]> {
+  const changes: PendingIndexChange[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': buildSearchIndexPK(scope.clinicId, scope.patientId),
+          ':prefix': buildSearchPendingSKPrefix(),
+        },
+        ConsistentRead: true,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+    changes.push(...((result.Items ?? []) as DynamoDBPendingIndexChangeItem[]).map(itemToChange));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return changes;
+}
+
+/**
+ * Removes the marker once its change is in the index. A marker replaced by a later write
+ * of the note is left alone; that write has yet to be applied.
+ */
+export async function clear(scope: SearchScope, change: PendingIndexChange): Promise<void> {
+  try {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: TABLE_NAME,
+        Key: {
+          PK: buildSearchIndexPK(scope.clinicId, scope.patientId),
+          SK: buildSearchPendingSK(change.noteId),
+        },
+        ConditionExpression: 'changeId = :changeId',
+        ExpressionAttributeValues: { ':changeId': change.changeId },
+      })
+    );
+  } catch (err) {
+    if ((err as { name?: string }).name !== 'ConditionalCheckFailedException') {
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { TransactWriteCommand, TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import { TooManyRequestsError } from '../lib/errors';
+import { docClient } from './client';
+
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+/**
+ * Per-item reasons of a cancelled transaction, in TransactItems order (`None` for items
+ * that did not cause it). Empty for any other error.
+ */
+export function cancellationCodes(err: unknown): string[] {
+  if ((err as { name?: string }).name !== 'TransactionCanceledException') {
+    return [];
+  }
+  const reasons = (err as { CancellationReasons?: { Code?: string }[] }).CancellationReasons;
+  return (reasons ?? []).map((reason) => reason.Code ?? 'None');
+}
+
+/**
+ * True when a transaction was cancelled by a failed condition, or by a failed condition on
+ * the item at `itemIndex` when given. DynamoDB always reports the reasons; a cancellation
+ * without them is taken to be a failed condition.
+ */
+export function isConditionFailure(err: unknown, itemIndex?: number): boolean {
+  if ((err as { name?: string }).name !== 'TransactionCanceledException') {
+    return false;
+  }
+  const codes = cancellationCodes(err);
+  if (codes.length === 0) {
+    return true;
+  }
+  return itemIndex === undefined
+    ? codes.includes('ConditionalCheckFailed')
+    : codes[itemIndex] === 'ConditionalCheckFailed';
+}
+
+// Cancelled only because a concurrent transaction was writing one of the same items
+function isTransactionConflict(err: unknown): boolean {
+  const codes = cancellationCodes(err);
+  return codes.includes('TransactionConflict') && !codes.includes('ConditionalCheckFailed');
+}
+
+/**
+ * Sends a transaction, retrying it while it only collides with concurrent transactions.
+ * Writes to different notes of a patient share the patient's counters item, so two of
+ * them in flight at once cancel each other without either being wrong.
+ *
+ * @throws TooManyRequestsError if the transaction keeps colliding
+ */
+export async function sendTransaction(input: TransactWriteCommandInput): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await docClient.send(new TransactWriteCommand(input));
+      return;
+    } catch (err) {
+      if (!isTransactionConflict(err)) {
+        throw err;
+      }
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw new TooManyRequestsError('Conflicting concurrent writes; retry the request', 1);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 25 * 2 ** attempt));
+    }
+  }
+}
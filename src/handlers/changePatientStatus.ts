@@ -0,0 +1,56 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import {
+  getETagHeader,
+  getIfMatchVersion,
+  resolveExpectedVersion,
+  withPrecondition,
+} from '../lib/conditional-request';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as patientsService from '../services/patients.service';
+import { changePatientStatusSchema, pathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = pathParametersSchema.parse(event.pathParameters);
+    const { patientId } = pathParams;
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: unknown = JSON.parse(event.body);
+    const input = changePatientStatusSchema.parse(body);
+    const ifMatchVersion = getIfMatchVersion(event);
+    const version = resolveExpectedVersion(ifMatchVersion, input.version);
+
+    logger.info('ChangePatientStatus handler invoked', {
+      patientId,
+      status: input.status,
+      expectedVersion: version,
+      ifMatch: ifMatchVersion !== undefined,
+    });
+
+    const result = await withPrecondition(ifMatchVersion, () =>
+      patientsService.changePatientStatus(auth, patientId, { ...input, version })
+    );
+
+    return success(result, {
+      ...getCorrelationIdHeader(correlationId),
+      ...getETagHeader(result.version),
+    });
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -0,0 +1,32 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as notesService from '../services/notes.service';
+import { compareNotesQuerySchema, pathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = pathParametersSchema.parse(event.pathParameters);
+    const { patientId } = pathParams;
+
+    const { left, right } = compareNotesQuerySchema.parse(event.queryStringParameters ?? {});
+
+    logger.info('CompareNotes handler invoked', { patientId, left, right });
+
+    const result = await notesService.compareNotes(auth, patientId, left, right);
+
+    return success(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
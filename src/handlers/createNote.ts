@@ -2,6 +2,7 @@ import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { extractAuthContext } from '../lib/auth';
 import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
 import { ValidationError } from '../lib/errors';
+import { getIdempotencyKey, withIdempotency } from '../lib/idempotency';
 import { logger } from '../lib/logger';
 import { enforceRateLimit } from '../lib/rate-limiter';
 import { RATE_LIMITS } from '../lib/rate-limit-config';
@@ -30,11 +31,29 @@ export async function handler(
     const body: unknown = JSON.parse(event.body);
     const input = createNoteSchema.parse(body);
 
-    logger.info('CreateNote handler invoked', { patientId });
-
-    const result = await notesService.createNote(auth, patientId, input);
-
-    return created(result, getCorrelationIdHeader(correlationId));
+    const idempotencyKey = getIdempotencyKey(event);
+
+    logger.info('CreateNote handler invoked', {
+      patientId,
+      idempotencyKey: idempotencyKey ? '[present]' : undefined,
+    });
+
+    return await withIdempotency(
+      idempotencyKey
+        ? {
+            clinicId: auth.clinicId,
+            userId: auth.userId,
+            operation: 'createNote',
+            key: idempotencyKey,
+            fingerprint: { patientId, input },
+          }
+        : undefined,
+      async () => {
+        const result = await notesService.createNote(auth, patientId, input);
+        return created(result, getCorrelationIdHeader(correlationId));
+      },
+      getCorrelationIdHeader(correlationId)
+    );
   } catch (err) {
     return error(err);
   } finally {
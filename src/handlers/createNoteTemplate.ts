@@ -0,0 +1,35 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { created, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as noteTemplatesService from '../services/note-templates.service';
+import { createNoteTemplateSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: unknown = JSON.parse(event.body);
+    const input = createNoteTemplateSchema.parse(body);
+
+    logger.info('CreateNoteTemplate handler invoked', { noteType: input.noteType });
+
+    const result = await noteTemplatesService.createTemplate(auth, input);
+
+    return created(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -0,0 +1,39 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { getETagHeader } from '../lib/conditional-request';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { created, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as patientsService from '../services/patients.service';
+import { createPatientSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: unknown = JSON.parse(event.body);
+    const input = createPatientSchema.parse(body);
+
+    logger.info('CreatePatient handler invoked', { clinicId: auth.clinicId });
+
+    const result = await patientsService.createPatient(auth, input);
+
+    return created(result, {
+      ...getCorrelationIdHeader(correlationId),
+      ...getETagHeader(result.version),
+    });
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -1,5 +1,6 @@
 import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { extractAuthContext } from '../lib/auth';
+import { getIfMatchVersion, withPrecondition } from '../lib/conditional-request';
 import { logger } from '../lib/logger';
 import { noContent, error, ApiGatewayProxyStructuredResult } from '../lib/response';
 import * as notesService from '../services/notes.service';
@@ -14,9 +15,13 @@ export async function handler(
     const pathParams = notePathParametersSchema.parse(event.pathParameters);
     const { patientId, noteId } = pathParams;
 
-    logger.info('DeleteNote handler invoked', { patientId, noteId });
+    const ifMatchVersion = getIfMatchVersion(event);
 
-    await notesService.deleteNote(auth, patientId, noteId);
+    logger.info('DeleteNote handler invoked', { patientId, noteId, ifMatchVersion });
+
+    await withPrecondition(ifMatchVersion, () =>
+      notesService.deleteNote(auth, patientId, noteId, ifMatchVersion)
+    );
 
     return noContent();
   } catch (err) {
@@ -0,0 +1,26 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { logger } from '../lib/logger';
+import { noContent, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as noteTemplatesService from '../services/note-templates.service';
+import { templatePathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  try {
+    const auth = extractAuthContext(event);
+
+    const { templateId } = templatePathParametersSchema.parse(event.pathParameters);
+
+    logger.info('DeleteNoteTemplate handler invoked', { templateId });
+
+    await noteTemplatesService.deleteTemplate(auth, templateId);
+
+    return noContent();
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -1,8 +1,9 @@
 import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { extractAuthContext } from '../lib/auth';
+import { getETagHeader, matchesIfNoneMatch } from '../lib/conditional-request';
 import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
 import { logger } from '../lib/logger';
-import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import { success, notModified, error, ApiGatewayProxyStructuredResult } from '../lib/response';
 import * as notesService from '../services/notes.service';
 import { notePathParametersSchema } from '../types/schemas';
 
@@ -20,8 +21,13 @@ export async function handler(
     logger.info('GetNote handler invoked', { patientId, noteId });
 
     const result = await notesService.getNote(auth, patientId, noteId);
+    const headers = { ...getCorrelationIdHeader(correlationId), ...getETagHeader(result.version) };
 
-    return success(result, getCorrelationIdHeader(correlationId));
+    if (matchesIfNoneMatch(event, result.version)) {
+      return notModified(headers);
+    }
+
+    return success(result, headers);
   } catch (err) {
     return error(err);
   } finally {
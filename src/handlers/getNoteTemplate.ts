@@ -0,0 +1,29 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as noteTemplatesService from '../services/note-templates.service';
+import { templatePathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const { templateId } = templatePathParametersSchema.parse(event.pathParameters);
+
+    logger.info('GetNoteTemplate handler invoked', { templateId });
+
+    const result = await noteTemplatesService.getTemplate(auth, templateId);
+
+    return success(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -0,0 +1,30 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as notesService from '../services/notes.service';
+import { noteVersionPathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = noteVersionPathParametersSchema.parse(event.pathParameters);
+    const { patientId, noteId, version } = pathParams;
+
+    logger.info('GetNoteVersion handler invoked', { patientId, noteId, version });
+
+    const result = await notesService.getNoteVersion(auth, patientId, noteId, version);
+
+    return success(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
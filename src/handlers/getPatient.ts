@@ -0,0 +1,36 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { getETagHeader, matchesIfNoneMatch } from '../lib/conditional-request';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { logger } from '../lib/logger';
+import { success, notModified, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as patientsService from '../services/patients.service';
+import { pathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = pathParametersSchema.parse(event.pathParameters);
+    const { patientId } = pathParams;
+
+    logger.info('GetPatient handler invoked', { patientId });
+
+    const result = await patientsService.getPatient(auth, patientId);
+    const headers = { ...getCorrelationIdHeader(correlationId), ...getETagHeader(result.version) };
+
+    if (matchesIfNoneMatch(event, result.version)) {
+      return notModified(headers);
+    }
+
+    return success(result, headers);
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
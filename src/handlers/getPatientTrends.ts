@@ -0,0 +1,32 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as trendsService from '../services/trends.service';
+import { pathParametersSchema, patientTrendsQuerySchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = pathParametersSchema.parse(event.pathParameters);
+    const { patientId } = pathParams;
+
+    const query = patientTrendsQuerySchema.parse(event.queryStringParameters ?? {});
+
+    logger.info('GetPatientTrends handler invoked', { patientId, ...query });
+
+    const result = await trendsService.getPatientTrends(auth, patientId, query);
+
+    return success(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
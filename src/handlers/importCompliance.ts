@@ -0,0 +1,51 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { parseComplianceCsv } from '../lib/compliance';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { created, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as complianceService from '../services/compliance.service';
+import { importComplianceSchema, pathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = pathParametersSchema.parse(event.pathParameters);
+    const { patientId } = pathParams;
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body = event.isBase64Encoded
+      ? Buffer.from(event.body, 'base64').toString('utf8')
+      : event.body;
+    const contentType = event.headers?.['content-type'] ?? event.headers?.['Content-Type'] ?? '';
+    const isCsv = contentType.toLowerCase().startsWith('text/csv');
+
+    // CSV rows are validated like JSON records
+    const { records } = importComplianceSchema.parse(
+      isCsv ? { records: parseComplianceCsv(body) } : (JSON.parse(body) as unknown)
+    );
+
+    logger.info('ImportCompliance handler invoked', {
+      patientId,
+      format: isCsv ? 'csv' : 'json',
+      count: records.length,
+    });
+
+    const result = await complianceService.importCompliance(auth, patientId, records);
+
+    return created(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -0,0 +1,38 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as notesService from '../services/notes.service';
+import { listClinicNotesQuerySchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const queryParams = listClinicNotesQuerySchema.parse(event.queryStringParameters ?? {});
+
+    logger.info('ListClinicNotes handler invoked', {
+      limit: queryParams.limit,
+      cursor: queryParams.cursor ? '[present]' : undefined,
+      noteType: queryParams.noteType,
+      studyDateFrom: queryParams.studyDateFrom,
+      studyDateTo: queryParams.studyDateTo,
+      createdBy: queryParams.createdBy,
+      tag: queryParams.tag,
+      q: queryParams.q ? '[present]' : undefined,
+    });
+
+    const result = await notesService.listClinicNotes(auth, queryParams);
+
+    return success(result, getCorrelationIdHeader(correlationId));
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -23,10 +23,19 @@ export async function handler(
       patientId,
       limit: queryParams.limit,
       cursor: queryParams.cursor ? '[present]' : undefined,
+      sort: queryParams.sort,
       studyDateFrom: queryParams.studyDateFrom,
       studyDateTo: queryParams.studyDateTo,
+      noteType: queryParams.noteType,
+      createdBy: queryParams.createdBy,
       tag: queryParams.tag,
+      tags: queryParams.tags,
+      tagMatch: queryParams.tagMatch,
+      hasAttachments: queryParams.hasAttachments,
       q: queryParams.q ? '[present]' : undefined,
+      view: queryParams.view,
+      fields: queryParams.fields,
+      includeCounts: queryParams.includeCounts,
     });
 
     const result = await notesService.listNotes(auth, patientId, queryParams);
@@ -4,6 +4,7 @@ import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/cor
 import { logger } from '../lib/logger';
 import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
 import * as patientsService from '../services/patients.service';
+import { listPatientsQuerySchema } from '../types/schemas';
 
 export async function handler(
   event: APIGatewayProxyEventV2WithJWTAuthorizer
@@ -13,13 +14,23 @@ export async function handler(
   try {
     const auth = extractAuthContext(event);
 
+    const queryParams = listPatientsQuerySchema.parse(event.queryStringParameters ?? {});
+
     logger.info('ListPatients handler invoked', {
       clinicId: auth.clinicId,
+      limit: queryParams.limit,
+      cursor: queryParams.cursor ? '[present]' : undefined,
+      status: queryParams.status,
+      q: queryParams.q ? '[present]' : undefined,
+      lastName: queryParams.lastName ? '[present]' : undefined,
+      dateOfBirth: queryParams.dateOfBirth ? '[present]' : undefined,
+      insuranceId: queryParams.insuranceId ? '[present]' : undefined,
+      phone: queryParams.phone ? '[present]' : undefined,
     });
 
-    const patients = await patientsService.listPatients(auth);
+    const result = await patientsService.listPatients(auth, queryParams);
 
-    return success({ items: patients }, getCorrelationIdHeader(correlationId));
+    return success(result, getCorrelationIdHeader(correlationId));
   } catch (err) {
     return error(err);
   } finally {
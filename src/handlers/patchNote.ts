@@ -0,0 +1,61 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { extractAuthContext } from '../lib/auth';
+import {
+  getETagHeader,
+  getIfMatchVersion,
+  resolveExpectedVersion,
+  withPrecondition,
+} from '../lib/conditional-request';
+import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
+import * as notesService from '../services/notes.service';
+import { patchNoteSchema, notePathParametersSchema } from '../types/schemas';
+
+export async function handler(
+  event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<ApiGatewayProxyStructuredResult> {
+  const correlationId = extractOrCreateCorrelationId(event);
+
+  try {
+    const auth = extractAuthContext(event);
+
+    const pathParams = notePathParametersSchema.parse(event.pathParameters);
+    const { patientId, noteId } = pathParams;
+
+    if (!event.body) {
+      throw new ValidationError('Request body is required');
+    }
+
+    const body: unknown = JSON.parse(event.body);
+    const input = patchNoteSchema.parse(body);
+    const ifMatchVersion = getIfMatchVersion(event);
+    const version = resolveExpectedVersion(ifMatchVersion, input.version);
+
+    logger.info('PatchNote handler invoked', {
+      patientId,
+      noteId,
+      expectedVersion: version,
+      ifMatch: ifMatchVersion !== undefined,
+    });
+
+    // If-Match must fail on any other version, so a stale edit is never auto-merged under it
+    const result = await withPrecondition(ifMatchVersion, () =>
+      notesService.patchNote(auth, patientId, noteId, {
+        ...input,
+        version,
+        ...(ifMatchVersion !== undefined && { autoMerge: false }),
+      })
+    );
+
+    return success(result, {
+      ...getCorrelationIdHeader(correlationId),
+      ...getETagHeader(result.version),
+    });
+  } catch (err) {
+    return error(err);
+  } finally {
+    logger.clearContext();
+  }
+}
@@ -2,11 +2,13 @@ import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { extractAuthContext } from '../lib/auth';
 import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
 import { ValidationError } from '../lib/errors';
+import { getIdempotencyKey, withIdempotency } from '../lib/idempotency';
 import { logger } from '../lib/logger';
 import { enforceRateLimit } from '../lib/rate-limiter';
 import { RATE_LIMITS } from '../lib/rate-limit-config';
 import { success, error, ApiGatewayProxyStructuredResult } from '../lib/response';
 import * as attachmentsService from '../services/attachments.service';
+import { PresignUploadResponse } from '../types';
 import { presignUploadSchema, notePathParametersSchema } from '../types/schemas';
 
 export async function handler(
@@ -30,20 +32,46 @@ export async function handler(
     const body: unknown = JSON.parse(event.body);
     const input = presignUploadSchema.parse(body);
 
+    const idempotencyKey = getIdempotencyKey(event);
+
     logger.info('PresignUpload handler invoked', {
       patientId,
       noteId,
       contentType: input.contentType,
+      idempotencyKey: idempotencyKey ? '[present]' : undefined,
     });
 
-    const result = await attachmentsService.generatePresignedUploadUrl(
-      auth,
-      patientId,
-      noteId,
-      input
-    );
+    const presign = async (attachmentId?: string): Promise<ApiGatewayProxyStructuredResult> => {
+      const result = await attachmentsService.generatePresignedUploadUrl(
+        auth,
+        patientId,
+        noteId,
+        input,
+        attachmentId
+      );
+      return success(result, getCorrelationIdHeader(correlationId));
+    };
 
-    return success(result, getCorrelationIdHeader(correlationId));
+    // The URL expires long before the key, so only the attachment is kept and a retry gets
+    // a freshly signed URL for the same attachment
+    return await withIdempotency(
+      idempotencyKey
+        ? {
+            clinicId: auth.clinicId,
+            userId: auth.userId,
+            operation: 'presignUpload',
+            key: idempotencyKey,
+            fingerprint: { patientId, noteId, input },
+            refresh: {
+              store: (body) =>
+                (JSON.parse(body) as { data: PresignUploadResponse }).data.attachmentId,
+              rebuild: (attachmentId) => presign(attachmentId),
+            },
+          }
+        : undefined,
+      () => presign(),
+      getCorrelationIdHeader(correlationId)
+    );
   } catch (err) {
     return error(err);
   } finally {
@@ -0,0 +1,20 @@
+import type { Context, ScheduledEvent } from 'aws-lambda';
+import { purgeDeletedNotes, PurgeSummary } from '../services/purge.service';
+import { logger } from '../lib/logger';
+
+// Stop picking up new pages once less than this much execution time remains
+const SAFETY_MARGIN_MS = 60 * 1000;
+
+export async function handler(event: ScheduledEvent, context: Context): Promise<PurgeSummary> {
+  logger.setCorrelationId(context.awsRequestId);
+
+  try {
+    logger.info('PurgeDeletedNotes handler invoked', { scheduledAt: event.time });
+
+    return await purgeDeletedNotes({
+      shouldContinue: () => context.getRemainingTimeInMillis() > SAFETY_MARGIN_MS,
+    });
+  } finally {
+    logger.clearContext();
+  }
+}
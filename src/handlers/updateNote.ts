@@ -1,5 +1,11 @@
 import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { extractAuthContext } from '../lib/auth';
+import {
+  getETagHeader,
+  getIfMatchVersion,
+  resolveExpectedVersion,
+  withPrecondition,
+} from '../lib/conditional-request';
 import { extractOrCreateCorrelationId, getCorrelationIdHeader } from '../lib/correlation';
 import { ValidationError } from '../lib/errors';
 import { logger } from '../lib/logger';
@@ -24,16 +30,29 @@ export async function handler(
 
     const body: unknown = JSON.parse(event.body);
     const input = updateNoteSchema.parse(body);
+    const ifMatchVersion = getIfMatchVersion(event);
+    const version = resolveExpectedVersion(ifMatchVersion, input.version);
 
     logger.info('UpdateNote handler invoked', {
       patientId,
       noteId,
-      expectedVersion: input.version,
+      expectedVersion: version,
+      ifMatch: ifMatchVersion !== undefined,
     });
 
-    const result = await notesService.updateNote(auth, patientId, noteId, input);
-
-    return success(result, getCorrelationIdHeader(correlationId));
+    // If-Match must fail on any other version, so a stale edit is never auto-merged under it
+    const result = await withPrecondition(ifMatchVersion, () =>
+      notesService.updateNote(auth, patientId, noteId, {
+        ...input,
+        version,
+        ...(ifMatchVersion !== undefined && { autoMerge: false }),
+      })
+    );
+
+    return success(result, {
+      ...getCorrelationIdHeader(correlationId),
+      ...getETagHeader(result.version),
+    });
   } catch (err) {
     return error(err);
   } finally {
@@ -110,13 +110,33 @@ function parseScopes(claims: JWTClaims): Scope[] {
     if (!scopes.includes(Scope.ATTACHMENTS_WRITE)) {
       scopes.push(Scope.ATTACHMENTS_WRITE);
     }
+    if (!scopes.includes(Scope.PATIENTS_READ)) {
+      scopes.push(Scope.PATIENTS_READ);
+    }
   }
 
-  // Only admins can delete notes
+  // Only admins can delete notes and manage the clinic's note templates
   if (groups.includes('admin')) {
     if (!scopes.includes(Scope.NOTES_DELETE)) {
       scopes.push(Scope.NOTES_DELETE);
     }
+    if (!scopes.includes(Scope.TEMPLATES_WRITE)) {
+      scopes.push(Scope.TEMPLATES_WRITE);
+    }
+  }
+
+  // Patients are registered and maintained by the front desk (and admins)
+  if (groups.includes('admin') || groups.includes('receptionist')) {
+    if (!scopes.includes(Scope.PATIENTS_WRITE)) {
+      scopes.push(Scope.PATIENTS_WRITE);
+    }
+  }
+
+  // Only physicians can co-sign notes written by other clinical staff
+  if (groups.includes('admin') || groups.includes('doctor')) {
+    if (!scopes.includes(Scope.NOTES_COSIGN)) {
+      scopes.push(Scope.NOTES_COSIGN);
+    }
   }
 
   // Receptionists: read-only access to notes and attachments
@@ -124,6 +144,9 @@ function parseScopes(claims: JWTClaims): Scope[] {
     if (!scopes.includes(Scope.NOTES_READ)) {
       scopes.push(Scope.NOTES_READ);
     }
+    if (!scopes.includes(Scope.PATIENTS_READ)) {
+      scopes.push(Scope.PATIENTS_READ);
+    }
   }
 
   return scopes;
@@ -0,0 +1,189 @@
+import {
+  ComplianceRecord,
+  ComplianceReportDTO,
+  ComplianceReportQuery,
+  ComplianceWindowDTO,
+} from '../types';
+import { ValidationError } from './errors';
+
+// Payers count a night as used from 4 hours, and require use on 70% of the nights of a
+// 30-night window
+export const COMPLIANCE_MIN_USAGE_MINUTES = 240;
+export const COMPLIANCE_MIN_PERCENT_NIGHTS = 70;
+export const COMPLIANCE_WINDOW_DAYS = 30;
+
+/** Nights reported when the range is left open, e.g. the first 90 days of therapy */
+export const COMPLIANCE_DEFAULT_RANGE_DAYS = 90;
+export const COMPLIANCE_MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// CSV columns by header, compared without case and punctuation (usage_minutes, Usage Minutes)
+const CSV_COLUMNS: Record<string, keyof ComplianceRecord> = {
+  date: 'date',
+  usageminutes: 'usageMinutes',
+  residualahi: 'residualAhi',
+  leak: 'leak',
+  pressure: 'pressure',
+};
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function average(values: number[]): number | undefined {
+  return values.length === 0
+    ? undefined
+    : round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+function percent(count: number, total: number): number {
+  return total === 0 ? 0 : round((count / total) * 100);
+}
+
+function parseCsvLine(line: string): string[] {
+  return line.split(',').map((field) => field.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+/**
+ * Reads nightly records from CSV with a header row. Recognized columns are date,
+ * usageMinutes, residualAhi, leak and pressure; others are ignored. Numbers are converted
+ * but not validated, so the result is checked like a JSON import.
+ *
+ * @throws ValidationError if the date or usageMinutes column is missing or a row is malformed
+ */
+export function parseComplianceCsv(csv: string): Record<string, unknown>[] {
+  const lines = csv.split(/\r?\n/);
+  const header = parseCsvLine(lines[0] ?? '');
+  const columns = header.map((name) => CSV_COLUMNS[name.toLowerCase().replace(/[^a-z]/g, '')]);
+
+  if (!columns.includes('date') || !columns.includes('usageMinutes')) {
+    throw new ValidationError('CSV header must include date and usageMinutes columns');
+  }
+
+  const records: Record<string, unknown>[] = [];
+  lines.slice(1).forEach((line, i) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const fields = parseCsvLine(line);
+    if (fields.length !== header.length) {
+      throw new ValidationError(
+        `CSV line ${i + 2} has ${fields.length} fields, expected ${header.length}`
+      );
+    }
+
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, j) => {
+      const value = fields[j] ?? '';
+      if (!column || value === '') {
+        return;
+      }
+      record[column] = column === 'date' || Number.isNaN(Number(value)) ? value : Number(value);
+    });
+    records.push(record);
+  });
+
+  return records;
+}
+
+/**
+ * The report range: `to` defaults to today and `from` to the 90 days ending on `to`.
+ *
+ * @throws ValidationError if `from` is after the resolved `to` or the range is over 366 nights
+ */
+export function resolveComplianceRange(
+  query: ComplianceReportQuery,
+  today: string
+): { from: string; to: string } {
+  const to = query.to ?? today;
+  const from = query.from ?? addDays(to, -(COMPLIANCE_DEFAULT_RANGE_DAYS - 1));
+
+  if (from > to) {
+    throw new ValidationError('from must not be after to');
+  }
+  if (addDays(from, COMPLIANCE_MAX_RANGE_DAYS) <= to) {
+    throw new ValidationError(
+      `The range cannot be longer than ${COMPLIANCE_MAX_RANGE_DAYS} nights`
+    );
+  }
+  return { from, to };
+}
+
+/**
+ * Compliance over the nights from `from` to `to`. Nights without a record count as nights
+ * without use, as they do for payers.
+ */
+export function buildComplianceReport(
+  patientId: string,
+  from: string,
+  to: string,
+  records: ComplianceRecord[]
+): ComplianceReportDTO {
+  const inRange = records
+    .filter((record) => record.date >= from && record.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const byDate = new Map(inRange.map((record) => [record.date, record]));
+
+  const nights = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1;
+  const used: boolean[] = [];
+  for (let day = 0; day < nights; day++) {
+    const usage = byDate.get(addDays(from, day))?.usageMinutes ?? 0;
+    used.push(usage >= COMPLIANCE_MIN_USAGE_MINUTES);
+  }
+
+  const windows: ComplianceWindowDTO[] = [];
+  let nightsUsed = used.slice(0, COMPLIANCE_WINDOW_DAYS).filter(Boolean).length;
+  for (let start = 0; start + COMPLIANCE_WINDOW_DAYS <= nights; start++) {
+    if (start > 0) {
+      nightsUsed += Number(used[start + COMPLIANCE_WINDOW_DAYS - 1]) - Number(used[start - 1]);
+    }
+    const percentUsed = percent(nightsUsed, COMPLIANCE_WINDOW_DAYS);
+    windows.push({
+      start: addDays(from, start),
+      end: addDays(from, start + COMPLIANCE_WINDOW_DAYS - 1),
+      nightsUsed,
+      percentUsed,
+      compliant: percentUsed >= COMPLIANCE_MIN_PERCENT_NIGHTS,
+    });
+  }
+
+  const bestWindow = windows.reduce<ComplianceWindowDTO | undefined>(
+    (best, window) => (!best || window.nightsUsed > best.nightsUsed ? window : best),
+    undefined
+  );
+  const totalUsed = used.filter(Boolean).length;
+  const valuesOf = (field: 'residualAhi' | 'leak' | 'pressure'): number[] =>
+    inRange.flatMap((record) => (record[field] === undefined ? [] : [record[field]]));
+
+  return {
+    patientId,
+    from,
+    to,
+    criteria: {
+      minUsageMinutes: COMPLIANCE_MIN_USAGE_MINUTES,
+      minPercentNights: COMPLIANCE_MIN_PERCENT_NIGHTS,
+      windowDays: COMPLIANCE_WINDOW_DAYS,
+    },
+    status: !bestWindow ? 'insufficient_data' : bestWindow.compliant ? 'pass' : 'fail',
+    bestWindow,
+    windows,
+    summary: {
+      nights,
+      nightsWithData: inRange.length,
+      nightsUsed: totalUsed,
+      percentUsed: percent(totalUsed, nights),
+      averageUsageMinutes: round(
+        inRange.reduce((sum, record) => sum + record.usageMinutes, 0) / nights
+      ),
+      averageResidualAhi: average(valuesOf('residualAhi')),
+      averageLeak: average(valuesOf('leak')),
+      averagePressure: average(valuesOf('pressure')),
+    },
+    records: inRange,
+  };
+}
@@ -0,0 +1,95 @@
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
+import { PreconditionFailedError, ValidationError, VersionConflictError } from './errors';
+
+// A note's ETag is its version, so any write changes it
+const STRONG_ETAG_PATTERN = /^"(\d+)"$/;
+const ETAG_PATTERN = /^(?:W\/)?"(\d+)"$/;
+
+export function buildETag(version: number): string {
+  return `"${version}"`;
+}
+
+export function getETagHeader(version: number): Record<string, string> {
+  return { ETag: buildETag(version) };
+}
+
+/**
+ * The version named by an If-Match header, or undefined when there is none. Only a single
+ * strong ETag is accepted, since every write needs the exact version it replaces.
+ *
+ * @throws ValidationError for `*`, lists and weak or malformed ETags
+ */
+export function getIfMatchVersion(event: APIGatewayProxyEventV2): number | undefined {
+  const value = event.headers?.['if-match'] ?? event.headers?.['If-Match'];
+
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const match = STRONG_ETAG_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new ValidationError('If-Match must be a single ETag returned by GET, e.g. "3"');
+  }
+
+  return Number(match[1]);
+}
+
+/**
+ * Whether an If-None-Match header already names the current version, i.e. the client's
+ * copy is up to date. Uses weak comparison, as RFC 9110 requires for If-None-Match.
+ */
+export function matchesIfNoneMatch(event: APIGatewayProxyEventV2, version: number): boolean {
+  const value = event.headers?.['if-none-match'] ?? event.headers?.['If-None-Match'];
+
+  if (!value) {
+    return false;
+  }
+  if (value.trim() === '*') {
+    return true;
+  }
+
+  return value.split(',').some((tag) => {
+    const match = ETAG_PATTERN.exec(tag.trim());
+    return match !== null && Number(match[1]) === version;
+  });
+}
+
+/**
+ * The version a write expects, from If-Match or the body's `version`. Both may be sent as
+ * long as they agree.
+ *
+ * @throws ValidationError if neither is present or they disagree
+ */
+export function resolveExpectedVersion(
+  ifMatchVersion: number | undefined,
+  bodyVersion: number | undefined
+): number {
+  if (ifMatchVersion !== undefined && bodyVersion !== undefined && ifMatchVersion !== bodyVersion) {
+    throw new ValidationError('If-Match and version do not match');
+  }
+
+  const version = ifMatchVersion ?? bodyVersion;
+  if (version === undefined) {
+    throw new ValidationError('Send the expected version as If-Match or in the body');
+  }
+
+  return version;
+}
+
+/**
+ * Runs a conditional write. When the expected version came from If-Match, a version
+ * conflict is reported as 412 Precondition Failed rather than 409.
+ */
+export async function withPrecondition<T>(
+  ifMatchVersion: number | undefined,
+  write: () => Promise<T>
+): Promise<T> {
+  try {
+    return await write();
+  } catch (err) {
+    if (ifMatchVersion !== undefined && err instanceof VersionConflictError) {
+      throw new PreconditionFailedError(err.message, err.details);
+    }
+    throw err;
+  }
+}
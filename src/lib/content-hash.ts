@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { Note, StudyMetrics } from '../types';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+// DynamoDB maps do not keep their key order
+function orderStudyMetrics(metrics: StudyMetrics): StudyMetrics {
+  return {
+    ahi: metrics.ahi,
+    rdi: metrics.rdi,
+    odi: metrics.odi,
+    oxygenNadir: metrics.oxygenNadir,
+    sleepEfficiency: metrics.sleepEfficiency,
+    totalSleepTimeMinutes: metrics.totalSleepTimeMinutes,
+  };
+}
+
+/**
+ * Hashes the clinical content of a note as it stands when signed. Field order is fixed
+ * so the same content always yields the same hash and a later recomputation can prove
+ * the signed note has not been altered.
+ */
+export function computeNoteContentHash(note: Note): string {
+  return sha256(
+    JSON.stringify({
+      noteId: note.noteId,
+      patientId: note.patientId,
+      studyDate: note.studyDate,
+      title: note.title,
+      content: note.content,
+      noteType: note.noteType ?? null,
+      tags: note.tags ?? [],
+      attachments: note.attachments.map((attachment) => attachment.s3Key),
+      // Only when present, so notes signed before metrics existed keep their hash
+      ...(note.studyMetrics && { studyMetrics: orderStudyMetrics(note.studyMetrics) }),
+    })
+  );
+}
+
+/**
+ * Hashes an addendum together with the signature hash of the note it amends,
+ * binding the addendum to that exact signed content.
+ */
+export function computeAddendumContentHash(noteContentHash: string, content: string): string {
+  return sha256(JSON.stringify({ noteContentHash, content }));
+}
@@ -47,6 +47,41 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * The caller's expected version is not the current one. Still a 409, unless the version came
+ * from an If-Match header (see withPrecondition). Details, such as the current copy and a
+ * diff against it, are returned with the error.
+ */
+export class VersionConflictError extends ConflictError {
+  public readonly expectedVersion: number;
+  public readonly details: unknown;
+
+  constructor(expectedVersion: number, currentVersion?: number, details?: unknown) {
+    super(
+      currentVersion === undefined
+        ? `Version conflict: expected ${expectedVersion}`
+        : `Version conflict: expected ${expectedVersion}, current is ${currentVersion}`
+    );
+    this.expectedVersion = expectedVersion;
+    this.details = details;
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  public readonly details: unknown;
+
+  constructor(message = 'Precondition failed', details?: unknown) {
+    super(message, 412, 'PRECONDITION_FAILED');
+    this.details = details;
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string) {
+    super(message, 422, 'UNPROCESSABLE_ENTITY');
+  }
+}
+
 export class InternalError extends AppError {
   constructor(message = 'Internal server error') {
     super(message, 500, 'INTERNAL_ERROR', false);
@@ -0,0 +1,220 @@
+import { createHash } from 'crypto';
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { docClient, TABLE_NAME } from '../data/client';
+import { ConflictError, UnprocessableEntityError, ValidationError } from './errors';
+import { logger } from './logger';
+import { ApiGatewayProxyStructuredResult, replay } from './response';
+
+const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/** Stored responses are replayed for a day */
+export const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * How long a request holds its key before a retry may take over. Longer than the Lambda
+ * timeout, so only a request that crashed or timed out loses its claim.
+ */
+export const IDEMPOTENCY_LOCK_SECONDS = 60;
+
+export const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+type IdempotencyStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+interface IdempotencyRecord {
+  status: IdempotencyStatus;
+  requestHash: string;
+  lockedUntil: number;
+  statusCode?: number;
+  body?: string;
+  ttl: number;
+}
+
+export interface IdempotentRequest {
+  clinicId: string;
+  userId: string;
+  /** Name of the operation; the same key may be used once per operation */
+  operation: string;
+  key: string;
+  /** What makes two requests the same, typically the path parameters and validated body */
+  fingerprint: unknown;
+  /** For responses that expire, e.g. presigned URLs; by default replays are sent as stored */
+  refresh?: {
+    /** What to store in place of the response body */
+    store: (body: string) => string;
+    /** Builds a fresh response for a replay from what was stored */
+    rebuild: (stored: string) => Promise<ApiGatewayProxyStructuredResult>;
+  };
+}
+
+/**
+ * Builds the partition key for idempotency records. Keys are scoped to the caller, so
+ * one user can never replay another user's response.
+ */
+function buildIdempotencyPK(clinicId: string, userId: string): string {
+  return `IDEMPOTENCY#${clinicId}#${userId}`;
+}
+
+function buildIdempotencySK(operation: string, key: string): string {
+  return `${operation}#${key}`;
+}
+
+function hashFingerprint(fingerprint: unknown): string {
+  return createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex');
+}
+
+/**
+ * Reads the Idempotency-Key header. Returns undefined when the client did not send one.
+ *
+ * @throws ValidationError if the key is not 1-255 printable ASCII characters
+ */
+export function getIdempotencyKey(event: APIGatewayProxyEventV2): string | undefined {
+  const key = event.headers?.[IDEMPOTENCY_KEY_HEADER] ?? event.headers?.['Idempotency-Key'];
+
+  if (key === undefined) {
+    return undefined;
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    throw new ValidationError('Idempotency-Key must be 1-255 printable ASCII characters');
+  }
+
+  return key;
+}
+
+/**
+ * Claims the key for this request. Succeeds for an unused or expired key, and for a retry
+ * of an identical request whose first attempt never finished.
+ */
+async function claim(
+  key: Record<string, string>,
+  requestHash: string,
+  now: number
+): Promise<boolean> {
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: {
+          ...key,
+          status: 'IN_PROGRESS',
+          requestHash,
+          lockedUntil: now + IDEMPOTENCY_LOCK_SECONDS,
+          ttl: now + IDEMPOTENCY_TTL_SECONDS,
+        },
+        ConditionExpression:
+          'attribute_not_exists(PK) OR #ttl < :now OR ' +
+          '(#status = :inProgress AND lockedUntil < :now AND requestHash = :requestHash)',
+        ExpressionAttributeNames: { '#ttl': 'ttl', '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':now': now,
+          ':inProgress': 'IN_PROGRESS',
+          ':requestHash': requestHash,
+        },
+      })
+    );
+    return true;
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Runs a request at most once per Idempotency-Key. The first successful response is
+ * stored and replayed (with an Idempotent-Replayed header) for retries with the same key
+ * and request, or rebuilt from what was stored when the request has a `refresh`. Failed
+ * requests release the key, so the client can retry them.
+ *
+ * @param request - The key and what it is bound to; undefined runs the request as is
+ * @param execute - Produces the response for the first attempt
+ * @param headers - Headers added to a replayed response
+ * @throws UnprocessableEntityError if the key was used for a different request
+ * @throws ConflictError if a request with the key is still in progress
+ */
+export async function withIdempotency(
+  request: IdempotentRequest | undefined,
+  execute: () => Promise<ApiGatewayProxyStructuredResult>,
+  headers?: Record<string, string>
+): Promise<ApiGatewayProxyStructuredResult> {
+  if (!request) {
+    return execute();
+  }
+
+  const key = {
+    PK: buildIdempotencyPK(request.clinicId, request.userId),
+    SK: buildIdempotencySK(request.operation, request.key),
+  };
+  const requestHash = hashFingerprint(request.fingerprint);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!(await claim(key, requestHash, now))) {
+    const result = await docClient.send(
+      new GetCommand({ TableName: TABLE_NAME, Key: key, ConsistentRead: true })
+    );
+    const record = result.Item as IdempotencyRecord | undefined;
+
+    if (record && record.requestHash !== requestHash) {
+      throw new UnprocessableEntityError(
+        'Idempotency-Key has already been used for a different request'
+      );
+    }
+    if (record?.status === 'COMPLETED' && record.statusCode && record.body !== undefined) {
+      logger.info('Replaying idempotent response', { operation: request.operation });
+      if (request.refresh) {
+        const response = await request.refresh.rebuild(record.body);
+        return {
+          ...response,
+          headers: { ...response.headers, ...headers, [REPLAYED_HEADER]: 'true' },
+        };
+      }
+      return replay(record.statusCode, record.body, { ...headers, [REPLAYED_HEADER]: 'true' });
+    }
+    throw new ConflictError('A request with this Idempotency-Key is still in progress');
+  }
+
+  let response: ApiGatewayProxyStructuredResult;
+  try {
+    response = await execute();
+  } catch (err) {
+    try {
+      await docClient.send(new DeleteCommand({ TableName: TABLE_NAME, Key: key }));
+    } catch (releaseErr) {
+      logger.error('Failed to release idempotency key', releaseErr as Error, {
+        operation: request.operation,
+      });
+    }
+    throw err;
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: key,
+        UpdateExpression: 'SET #status = :completed, #statusCode = :statusCode, #body = :body',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+          '#statusCode': 'statusCode',
+          '#body': 'body',
+        },
+        ExpressionAttributeValues: {
+          ':completed': 'COMPLETED',
+          ':statusCode': response.statusCode,
+          ':body': request.refresh
+            ? request.refresh.store(response.body ?? '')
+            : (response.body ?? ''),
+        },
+      })
+    );
+  } catch (err) {
+    // The work is done; a retry after the lock expires repeats it
+    logger.error('Failed to store idempotent response', err as Error, {
+      operation: request.operation,
+    });
+  }
+
+  return response;
+}
@@ -0,0 +1,69 @@
+import {
+  Attachment,
+  Note,
+  NoteComparisonDTO,
+  NoteEditableField,
+  NoteListComparison,
+  toNoteDTO,
+  toStudyMetricsDTO,
+} from '../types';
+import { diffLines, diffWords } from './text-diff';
+
+function compareLists<T>(left: T[], right: T[], keyOf: (item: T) => string): NoteListComparison<T> {
+  const leftKeys = new Set(left.map(keyOf));
+  const rightKeys = new Set(right.map(keyOf));
+
+  return {
+    added: right.filter((item) => !leftKeys.has(keyOf(item))),
+    removed: left.filter((item) => !rightKeys.has(keyOf(item))),
+    unchanged: right.filter((item) => leftKeys.has(keyOf(item))),
+  };
+}
+
+function isUnchanged<T>(comparison: NoteListComparison<T>): boolean {
+  return comparison.added.length === 0 && comparison.removed.length === 0;
+}
+
+/**
+ * Field-by-field differences between two notes of a patient, read from left to right.
+ * Text is diffed by word, and content by line as well; tags and attachments are compared
+ * as sets.
+ */
+export function buildNoteComparison(left: Note, right: Note): NoteComparisonDTO {
+  const tags = compareLists(left.tags ?? [], right.tags ?? [], (tag) => tag);
+  const attachments = compareLists(
+    left.attachments,
+    right.attachments,
+    (attachment: Attachment) => attachment.fileName
+  );
+
+  const changed: Record<NoteEditableField, boolean> = {
+    studyDate: left.studyDate !== right.studyDate,
+    title: left.title !== right.title,
+    content: left.content !== right.content,
+    noteType: left.noteType !== right.noteType,
+    tags: !isUnchanged(tags),
+    attachments: !isUnchanged(attachments),
+    studyMetrics: JSON.stringify(left.studyMetrics) !== JSON.stringify(right.studyMetrics),
+  };
+
+  return {
+    left: toNoteDTO(left),
+    right: toNoteDTO(right),
+    changedFields: (Object.keys(changed) as NoteEditableField[]).filter((field) => changed[field]),
+    title: { changed: changed.title, words: diffWords(left.title, right.title) },
+    content: {
+      changed: changed.content,
+      lines: diffLines(left.content, right.content),
+      words: diffWords(left.content, right.content),
+    },
+    noteType: { changed: changed.noteType, left: left.noteType, right: right.noteType },
+    tags,
+    attachments,
+    studyMetrics: {
+      changed: changed.studyMetrics,
+      left: toStudyMetricsDTO(left.studyMetrics),
+      right: toStudyMetricsDTO(right.studyMetrics),
+    },
+  };
+}
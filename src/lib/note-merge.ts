@@ -0,0 +1,146 @@
+import {
+  Note,
+  NoteContentDiffDTO,
+  NoteEditableField,
+  NoteFieldMergeDTO,
+  NoteFieldMergeResult,
+  NoteMergeBase,
+  UpdateNoteInput,
+} from '../types';
+import { diffLines, mergeLines } from './text-diff';
+
+const MERGE_FIELDS: NoteEditableField[] = [
+  'studyDate',
+  'title',
+  'content',
+  'noteType',
+  'tags',
+  'attachments',
+  'studyMetrics',
+];
+
+export interface NoteMerge {
+  fields: NoteFieldMergeDTO[];
+  content?: NoteContentDiffDTO;
+  mergeable: boolean;
+  /** The client's side of the merge, to apply on top of the current note */
+  changes: Omit<UpdateNoteInput, 'version'>;
+}
+
+/** Compares fields as stored: a missing note type or metrics is null, missing tags are [] */
+function normalize(field: NoteEditableField, value: unknown): unknown {
+  if (field === 'noteType' || field === 'studyMetrics') {
+    return value ?? null;
+  }
+  if (field === 'tags') {
+    return value ?? [];
+  }
+  return value;
+}
+
+/**
+ * Deep equality that ignores the order of object keys, so metrics stored as
+ * `{ odi, ahi }` equal `{ ahi, odi }`. Array order matters; keys set to undefined are
+ * treated as missing, as they are once stored.
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isEqual(item, b[i]))
+    );
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every((key) => isEqual(left[key], right[key]));
+}
+
+/**
+ * Three-way comparison of an update that was written against an older version. Each field
+ * is compared between the base the client edited, the client's value and the current note.
+ * Changes on one side only are kept; content changed on both sides is merged line by line.
+ * A field missing from the base conflicts whenever the client's value differs from the
+ * current one.
+ */
+export function mergeNoteUpdate(
+  base: NoteMergeBase,
+  input: UpdateNoteInput,
+  current: Note
+): NoteMerge {
+  const fields: NoteFieldMergeDTO[] = [];
+  const changes: Omit<UpdateNoteInput, 'version'> = {};
+  let content: NoteContentDiffDTO | undefined;
+
+  for (const field of MERGE_FIELDS) {
+    const baseKnown = field in base;
+    const yoursSent = input[field] !== undefined;
+    const baseValue = normalize(field, base[field]);
+    const yours = normalize(field, input[field]);
+    const currentValue = normalize(field, current[field]);
+
+    // Without a base, only a value differing from the current one is known to be an edit
+    const yoursChanged = yoursSent && !isEqual(yours, baseKnown ? baseValue : currentValue);
+    const currentChanged = baseKnown ? !isEqual(currentValue, baseValue) : yoursChanged;
+
+    if (field === 'content' && yoursSent) {
+      content = baseKnown
+        ? {
+            yours: diffLines(base.content ?? '', input.content ?? ''),
+            current: diffLines(base.content ?? '', current.content),
+            conflicts: [],
+          }
+        : { yours: diffLines(current.content, input.content ?? ''), conflicts: [] };
+    }
+
+    if (!yoursChanged && !currentChanged) {
+      continue;
+    }
+
+    let result: NoteFieldMergeResult;
+    let merged: string | undefined;
+    if (!yoursChanged) {
+      result = 'current';
+    } else if (isEqual(yours, currentValue)) {
+      result = 'same';
+    } else if (!currentChanged) {
+      result = 'yours';
+    } else if (field === 'content' && baseKnown && content) {
+      const merge = mergeLines(base.content ?? '', input.content ?? '', current.content);
+      content.conflicts = merge.conflicts;
+      merged = merge.merged;
+      result = merged === undefined ? 'conflict' : 'merged';
+    } else {
+      result = 'conflict';
+    }
+
+    if (result === 'yours' || result === 'merged') {
+      Object.assign(changes, { [field]: merged ?? input[field] });
+    }
+
+    fields.push({
+      field,
+      result,
+      ...(baseKnown && { base: baseValue }),
+      ...(yoursSent && { yours }),
+      current: currentValue,
+      ...(merged !== undefined && { merged }),
+    });
+  }
+
+  return {
+    fields,
+    content,
+    mergeable: fields.every((field) => field.result !== 'conflict'),
+    changes,
+  };
+}
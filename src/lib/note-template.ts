@@ -0,0 +1,57 @@
+import { ValidationError } from './errors';
+
+/** Placeholders a note template may use, written as `{{patient.fullName}}` */
+export const TEMPLATE_VARIABLES = [
+  'patient.firstName',
+  'patient.lastName',
+  'patient.fullName',
+  'patient.dateOfBirth',
+  'clinic.name',
+  'note.studyDate',
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+/** Names of the placeholders in the given texts, each once, in order of appearance */
+export function findTemplateVariables(...texts: string[]): string[] {
+  const names = new Set<string>();
+
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1] ?? '');
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * @throws ValidationError naming any placeholder that is not a TEMPLATE_VARIABLES entry
+ */
+export function assertKnownVariables(...texts: string[]): void {
+  const unknown = findTemplateVariables(...texts).filter((name) => !isTemplateVariable(name));
+
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown template variables: ${unknown.join(', ')}`, {
+      allowed: TEMPLATE_VARIABLES,
+    });
+  }
+}
+
+/**
+ * Fills in the placeholders. A value the records do not have (e.g. no date of birth on
+ * file) becomes an empty string rather than leaving the placeholder in the note.
+ */
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    isTemplateVariable(name) ? (values[name] ?? '') : placeholder
+  );
+}
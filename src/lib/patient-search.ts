@@ -0,0 +1,283 @@
+import { ValidationError } from './errors';
+import { normalizeTerm } from './text-search';
+
+/**
+ * Fields of the patient search index. Each index term is `{field}#{value}`; names are
+ * indexed as written (prefix matching) and by their Soundex code (phonetic matching).
+ */
+export type PatientSearchField =
+  | 'LAST'
+  | 'FIRST'
+  | 'LAST_PHONETIC'
+  | 'FIRST_PHONETIC'
+  | 'DOB'
+  | 'INSURANCE'
+  | 'PHONE';
+
+export interface PatientSearchTerm {
+  field: PatientSearchField;
+  value: string;
+}
+
+/** The patient fields that are searchable */
+export interface PatientSearchFields {
+  firstName?: string;
+  lastName?: string;
+  dateOfBirth?: string;
+  insuranceId?: string;
+  phone?: string;
+}
+
+export interface PatientSearchCriteria {
+  /** Free text: names, a YYYY-MM-DD date of birth, an insurance ID or a phone number */
+  q?: string;
+  lastName?: string;
+  dateOfBirth?: string;
+  insuranceId?: string;
+  phone?: string;
+}
+
+/** One way a clause can match: the exact term, or any term starting with the value */
+export interface PatientSearchAlternative extends PatientSearchTerm {
+  prefix: boolean;
+}
+
+/** A patient matches a clause through any of its alternatives */
+export type PatientSearchClause = PatientSearchAlternative[];
+
+/** Every alternative is a query against the index, so the number of clauses is capped */
+export const MAX_SEARCH_CLAUSES = 6;
+
+// Shorter name fragments sound alike to too many names to be useful phonetically
+const MIN_PHONETIC_LENGTH = 3;
+const MIN_PHONE_DIGITS = 4;
+// National numbers are also indexed without a country code
+const NATIONAL_PHONE_DIGITS = 10;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PHONE_PATTERN = /^\+?[\d().-]+$/;
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1',
+  f: '1',
+  p: '1',
+  v: '1',
+  c: '2',
+  g: '2',
+  j: '2',
+  k: '2',
+  q: '2',
+  s: '2',
+  x: '2',
+  z: '2',
+  d: '3',
+  t: '3',
+  l: '4',
+  m: '5',
+  n: '5',
+  r: '6',
+};
+
+/**
+ * American Soundex: the first letter and the codes of the next three consonant sounds,
+ * e.g. "Smith" and "Smyth" are both S530. Returns '' for text without letters a-z.
+ */
+export function soundex(word: string): string {
+  const letters = normalizeTerm(word).replace(/[^a-z]/g, '');
+  const first = letters[0];
+  if (!first) {
+    return '';
+  }
+
+  let code = first.toUpperCase();
+  let previous = SOUNDEX_CODES[first] ?? '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] ?? '';
+    if (digit && digit !== previous) {
+      code += digit;
+      if (code.length === 4) {
+        break;
+      }
+    }
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== 'h' && letter !== 'w') {
+      previous = digit;
+    }
+  }
+
+  return code.padEnd(4, '0');
+}
+
+/** Lowercase letters and digits only: "O'Brien" → "obrien", "INS-123" → "ins123" */
+function compact(text: string): string {
+  return normalizeTerm(text).replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/** The whole name and, for names of several words ("Garcia-Lopez"), each word */
+function nameValues(name: string): string[] {
+  const words = name
+    .split(/[\s-]+/)
+    .map(compact)
+    .filter(Boolean);
+  const whole = words.join('');
+  return [...new Set(whole ? [whole, ...(words.length > 1 ? words : [])] : [])];
+}
+
+function phoneValues(phone: string): string[] {
+  const digits = phone.replace(/\D/g, '');
+  if (!digits) {
+    return [];
+  }
+  return digits.length > NATIONAL_PHONE_DIGITS
+    ? [digits, digits.slice(-NATIONAL_PHONE_DIGITS)]
+    : [digits];
+}
+
+export function formatSearchTerm(term: PatientSearchTerm): string {
+  return `${term.field}#${term.value}`;
+}
+
+/**
+ * The index terms of a patient, as `{field}#{value}` strings without duplicates.
+ */
+export function buildPatientSearchTerms(patient: PatientSearchFields): string[] {
+  const terms: PatientSearchTerm[] = [];
+
+  const addName = (
+    name: string | undefined,
+    field: PatientSearchField,
+    phoneticField: PatientSearchField
+  ): void => {
+    for (const value of nameValues(name ?? '')) {
+      terms.push({ field, value });
+      const code = soundex(value);
+      if (code) {
+        terms.push({ field: phoneticField, value: code });
+      }
+    }
+  };
+
+  addName(patient.lastName, 'LAST', 'LAST_PHONETIC');
+  addName(patient.firstName, 'FIRST', 'FIRST_PHONETIC');
+  if (patient.dateOfBirth) {
+    terms.push({ field: 'DOB', value: patient.dateOfBirth });
+  }
+  const insuranceId = compact(patient.insuranceId ?? '');
+  if (insuranceId) {
+    terms.push({ field: 'INSURANCE', value: insuranceId });
+  }
+  for (const value of phoneValues(patient.phone ?? '')) {
+    terms.push({ field: 'PHONE', value });
+  }
+
+  return [...new Set(terms.map(formatSearchTerm))];
+}
+
+function nameClause(value: string, fields: ('LAST' | 'FIRST')[]): PatientSearchClause {
+  const clause: PatientSearchClause = fields.map((field) => ({ field, value, prefix: true }));
+  const code = value.length >= MIN_PHONETIC_LENGTH ? soundex(value) : '';
+  if (code) {
+    for (const field of fields) {
+      clause.push({ field: `${field}_PHONETIC`, value: code, prefix: false });
+    }
+  }
+  return clause;
+}
+
+function phoneClause(phone: string): PatientSearchClause {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < MIN_PHONE_DIGITS) {
+    throw new ValidationError(`Phone search needs at least ${MIN_PHONE_DIGITS} digits`);
+  }
+  return [{ field: 'PHONE', value: digits, prefix: true }];
+}
+
+/** A free-text word: a date of birth, a phone number or insurance ID, or a name */
+function queryWordClause(word: string): PatientSearchClause | undefined {
+  if (ISO_DATE_PATTERN.test(word)) {
+    return [{ field: 'DOB', value: word, prefix: false }];
+  }
+
+  const value = compact(word);
+  if (!value) {
+    return undefined;
+  }
+  if (PHONE_PATTERN.test(word) && word.replace(/\D/g, '').length >= MIN_PHONE_DIGITS) {
+    return [
+      { field: 'PHONE', value: word.replace(/\D/g, ''), prefix: true },
+      { field: 'INSURANCE', value, prefix: true },
+    ];
+  }
+  return [...nameClause(value, ['LAST', 'FIRST']), { field: 'INSURANCE', value, prefix: true }];
+}
+
+/**
+ * Turns the search parameters into clauses that must all match. Words of `q` each
+ * become a clause, so "smi jo" finds patients with a name starting with "smi" and one
+ * starting with "jo".
+ *
+ * @throws ValidationError if nothing is searchable or there are too many clauses
+ */
+export function parsePatientSearch(criteria: PatientSearchCriteria): PatientSearchClause[] {
+  const clauses: PatientSearchClause[] = [];
+
+  for (const word of (criteria.q ?? '').split(/\s+/).filter(Boolean)) {
+    const clause = queryWordClause(word);
+    if (clause) {
+      clauses.push(clause);
+    }
+  }
+  if (criteria.lastName !== undefined) {
+    const value = compact(criteria.lastName);
+    if (value) {
+      clauses.push(nameClause(value, ['LAST']));
+    }
+  }
+  if (criteria.dateOfBirth !== undefined) {
+    clauses.push([{ field: 'DOB', value: criteria.dateOfBirth, prefix: false }]);
+  }
+  if (criteria.insuranceId !== undefined) {
+    const value = compact(criteria.insuranceId);
+    if (value) {
+      clauses.push([{ field: 'INSURANCE', value, prefix: true }]);
+    }
+  }
+  if (criteria.phone !== undefined) {
+    clauses.push(phoneClause(criteria.phone));
+  }
+
+  if (clauses.length === 0) {
+    throw new ValidationError('Patient search has no searchable terms');
+  }
+  if (clauses.length > MAX_SEARCH_CLAUSES) {
+    throw new ValidationError(`Patient search supports at most ${MAX_SEARCH_CLAUSES} terms`);
+  }
+
+  return clauses;
+}
+
+export function hasPatientSearchCriteria(criteria: PatientSearchCriteria): boolean {
+  return (
+    criteria.q !== undefined ||
+    criteria.lastName !== undefined ||
+    criteria.dateOfBirth !== undefined ||
+    criteria.insuranceId !== undefined ||
+    criteria.phone !== undefined
+  );
+}
+
+/**
+ * How well an index term matched an alternative: the exact value (3) ranks above a
+ * longer value starting with it (2), which ranks above a name that only sounds alike (1).
+ */
+export function matchWeight(alternative: PatientSearchAlternative, matchedValue: string): number {
+  if (alternative.field === 'LAST_PHONETIC' || alternative.field === 'FIRST_PHONETIC') {
+    return 1;
+  }
+  return matchedValue === alternative.value ? 3 : 2;
+}
+
+/** Sort key for results with the same score: last name, then first name */
+export function patientSortName(patient: PatientSearchFields): string {
+  return `${normalizeTerm(patient.lastName ?? '')}\u0000${normalizeTerm(patient.firstName ?? '')}`;
+}
@@ -1,5 +1,11 @@
 import { ZodError } from 'zod';
-import { isAppError, ValidationError, TooManyRequestsError } from './errors';
+import {
+  isAppError,
+  ValidationError,
+  TooManyRequestsError,
+  VersionConflictError,
+  PreconditionFailedError,
+} from './errors';
 import { logger } from './logger';
 
 export interface ApiResponse<T> {
@@ -45,6 +51,33 @@ export function created<T>(data: T, headers?: Record<string, string>): ApiGatewa
   return createResponse(201, { data }, headers);
 }
 
+/**
+ * Sends a response body that was serialized earlier, e.g. the stored response of an
+ * idempotent request.
+ */
+export function replay(
+  statusCode: number,
+  body: string,
+  headers?: Record<string, string>
+): ApiGatewayProxyStructuredResult {
+  return {
+    statusCode,
+    headers: { ...DEFAULT_HEADERS, ...headers },
+    body,
+  };
+}
+
+/**
+ * 304 for a conditional GET whose If-None-Match already names the current representation.
+ * Carries the validator headers (ETag) but no body.
+ */
+export function notModified(headers?: Record<string, string>): ApiGatewayProxyStructuredResult {
+  return {
+    statusCode: 304,
+    headers: { ...DEFAULT_HEADERS, ...headers },
+  };
+}
+
 export function noContent(): ApiGatewayProxyStructuredResult {
   return {
     statusCode: 204,
@@ -79,7 +112,12 @@ export function error(err: unknown): ApiGatewayProxyStructuredResult {
       },
     };
 
-    if (err instanceof ValidationError && err.details) {
+    if (
+      (err instanceof ValidationError ||
+        err instanceof VersionConflictError ||
+        err instanceof PreconditionFailedError) &&
+      err.details
+    ) {
       response.error!.details = err.details;
     }
 
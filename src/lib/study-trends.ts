@@ -0,0 +1,139 @@
+import {
+  MetricTrendDTO,
+  Note,
+  OsaSeverity,
+  TrendDirection,
+  TrendMetric,
+  TrendPointDTO,
+  classifyOsaSeverity,
+} from '../types';
+
+interface TrendMetricDefinition {
+  metric: TrendMetric;
+  unit: string;
+  /** Whether a higher value is the worse one */
+  higherIsWorse: boolean;
+  /** Smallest change between studies that counts as clinically significant */
+  significantChange: number;
+}
+
+export const TREND_METRICS: TrendMetricDefinition[] = [
+  { metric: 'ahi', unit: 'events/h', higherIsWorse: true, significantChange: 5 },
+  { metric: 'odi', unit: 'events/h', higherIsWorse: true, significantChange: 5 },
+  // A 4-point drop is the desaturation threshold used to score hypopneas
+  { metric: 'oxygenNadir', unit: '%', higherIsWorse: false, significantChange: 4 },
+  { metric: 'sleepEfficiency', unit: '%', higherIsWorse: false, significantChange: 10 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365.25;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** How much worse `to` is than `from`; negative when it is better */
+function worsening(definition: TrendMetricDefinition, from: number, to: number): number {
+  return definition.higherIsWorse ? to - from : from - to;
+}
+
+/** Least-squares slope of the values over the study dates, per year */
+function slopePerYear(points: TrendPointDTO[]): number | undefined {
+  const first = points[0];
+  if (!first || points.length < 2) {
+    return undefined;
+  }
+
+  const start = Date.parse(first.studyDate);
+  const xs = points.map((point) => (Date.parse(point.studyDate) - start) / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((point, i) => {
+    const dx = (xs[i] ?? 0) - meanX;
+    covariance += dx * (point.value - meanY);
+    variance += dx * dx;
+  });
+
+  // All studies on the same day
+  if (variance === 0) {
+    return undefined;
+  }
+  return round((covariance / variance) * DAYS_PER_YEAR);
+}
+
+function buildMetricTrend(definition: TrendMetricDefinition, notes: Note[]): MetricTrendDTO {
+  const points: TrendPointDTO[] = [];
+
+  for (const note of notes) {
+    const value = note.studyMetrics?.[definition.metric];
+    if (value === undefined) {
+      continue;
+    }
+    const previous = points[points.length - 1];
+    points.push({
+      noteId: note.noteId,
+      studyDate: note.studyDate,
+      value,
+      ...(previous && { change: round(value - previous.value) }),
+    });
+  }
+
+  const first = points[0];
+  const latest = points[points.length - 1];
+  const previous = points[points.length - 2];
+
+  let direction: TrendDirection = 'insufficient_data';
+  if (first && latest && points.length >= 2) {
+    const overall = worsening(definition, first.value, latest.value);
+    direction =
+      Math.abs(overall) < definition.significantChange
+        ? 'stable'
+        : overall > 0
+          ? 'worsening'
+          : 'improving';
+  }
+
+  return {
+    metric: definition.metric,
+    unit: definition.unit,
+    points,
+    first: first?.value,
+    latest: latest?.value,
+    ...(first &&
+      latest && {
+        change: round(latest.value - first.value),
+        ...(first.value !== 0 && {
+          percentChange: round(((latest.value - first.value) / first.value) * 100),
+        }),
+      }),
+    slopePerYear: slopePerYear(points),
+    direction,
+    significantWorsening:
+      previous !== undefined &&
+      latest !== undefined &&
+      worsening(definition, previous.value, latest.value) >= definition.significantChange,
+  };
+}
+
+/**
+ * Trends of the study metrics across a patient's study_result notes. Notes are taken in
+ * studyDate order; notes without a metric are skipped for that metric.
+ */
+export function buildStudyTrends(notes: Note[]): {
+  metrics: MetricTrendDTO[];
+  worsening: TrendMetric[];
+  latestOsaSeverity?: OsaSeverity;
+} {
+  const ordered = [...notes].sort((a, b) => a.studyDate.localeCompare(b.studyDate));
+  const metrics = TREND_METRICS.map((definition) => buildMetricTrend(definition, ordered));
+  const latestAhi = metrics.find((trend) => trend.metric === 'ahi')?.latest;
+
+  return {
+    metrics,
+    worsening: metrics.filter((trend) => trend.significantWorsening).map((trend) => trend.metric),
+    ...(latestAhi !== undefined && { latestOsaSeverity: classifyOsaSeverity(latestAhi) }),
+  };
+}
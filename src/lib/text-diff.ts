@@ -0,0 +1,190 @@
+import { LineDiffHunk, LineDiffType, TextMergeConflict, WordDiffHunk } from '../types';
+
+/**
+ * Upper bound on the comparison table for the changed middle of two texts. Larger rewrites
+ * are reported as one removed and one added block instead of a line-by-line diff.
+ */
+const MAX_COMPARISON_CELLS = 4_000_000;
+
+export interface TextMerge {
+  /** The merged text; absent when there are conflicts */
+  merged?: string;
+  conflicts: TextMergeConflict[];
+}
+
+// Words and the whitespace between them, so the tokens join back into the text
+const WORD_TOKEN_PATTERN = /\s+|\S+/g;
+
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Pairs of indexes [from, to] of the lines (or words) unchanged between two texts, in order.
+ * The common prefix and suffix are matched directly and the rest by longest common
+ * subsequence.
+ */
+function matchTokens(from: string[], to: string[]): [number, number][] {
+  const matches: [number, number][] = [];
+
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) {
+    matches.push([start, start]);
+    start++;
+  }
+
+  let fromEnd = from.length;
+  let toEnd = to.length;
+  const suffix: [number, number][] = [];
+  while (fromEnd > start && toEnd > start && from[fromEnd - 1] === to[toEnd - 1]) {
+    fromEnd--;
+    toEnd--;
+    suffix.unshift([fromEnd, toEnd]);
+  }
+
+  const rows = fromEnd - start;
+  const columns = toEnd - start;
+  if (rows > 0 && columns > 0 && rows * columns <= MAX_COMPARISON_CELLS) {
+    // lengths[i][j] is the LCS length of from[start + i..] and to[start + j..] (within the middle)
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    const lengthAt = (i: number, j: number): number => lengths[i * width + j] ?? 0;
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          from[start + i] === to[start + j]
+            ? lengthAt(i + 1, j + 1) + 1
+            : Math.max(lengthAt(i + 1, j), lengthAt(i, j + 1));
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (from[start + i] === to[start + j]) {
+        matches.push([start + i, start + j]);
+        i++;
+        j++;
+      } else if (lengthAt(i + 1, j) >= lengthAt(i, j + 1)) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  return matches.concat(suffix);
+}
+
+/**
+ * Runs of equal, removed and added tokens. Within a change, removed tokens come before the
+ * tokens that replace them.
+ */
+function diffTokens(from: string[], to: string[]): LineDiffHunk[] {
+  const hunks: LineDiffHunk[] = [];
+
+  const append = (type: LineDiffType, lines: string[]): void => {
+    if (lines.length === 0) {
+      return;
+    }
+    const last = hunks[hunks.length - 1];
+    if (last?.type === type) {
+      last.lines.push(...lines);
+    } else {
+      hunks.push({ type, lines: [...lines] });
+    }
+  };
+
+  let fromIndex = 0;
+  let toIndex = 0;
+  for (const [fromMatch, toMatch] of matchTokens(from, to)) {
+    append('removed', from.slice(fromIndex, fromMatch));
+    append('added', to.slice(toIndex, toMatch));
+    append('equal', [from[fromMatch] ?? '']);
+    fromIndex = fromMatch + 1;
+    toIndex = toMatch + 1;
+  }
+  append('removed', from.slice(fromIndex));
+  append('added', to.slice(toIndex));
+
+  return hunks;
+}
+
+/** Line diff from one text to another, as runs of equal, removed and added lines */
+export function diffLines(fromText: string, toText: string): LineDiffHunk[] {
+  return diffTokens(splitLines(fromText), splitLines(toText));
+}
+
+/**
+ * Word diff from one text to another. Whitespace is kept in the runs, so joining the
+ * equal and removed runs gives the first text and the equal and added runs the second.
+ */
+export function diffWords(fromText: string, toText: string): WordDiffHunk[] {
+  const tokenize = (text: string): string[] => text.match(WORD_TOKEN_PATTERN) ?? [];
+
+  return diffTokens(tokenize(fromText), tokenize(toText)).map(({ type, lines }) => ({
+    type,
+    text: lines.join(''),
+  }));
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Three-way line merge (diff3). Lines unchanged on both sides anchor the merge; between
+ * anchors, a region changed on one side only takes that side, and a region changed on both
+ * sides merges only if both made the same change. Edits to adjacent lines conflict.
+ */
+export function mergeLines(baseText: string, yoursText: string, currentText: string): TextMerge {
+  const base = splitLines(baseText);
+  const yours = splitLines(yoursText);
+  const current = splitLines(currentText);
+
+  const yoursByBase = new Map(matchTokens(base, yours));
+  const currentByBase = new Map(matchTokens(base, current));
+
+  const merged: string[] = [];
+  const conflicts: TextMergeConflict[] = [];
+  let baseIndex = 0;
+  let yoursIndex = 0;
+  let currentIndex = 0;
+
+  for (;;) {
+    // Next base line kept by both sides, or the end of all three texts
+    let anchor = baseIndex;
+    while (anchor < base.length && !(yoursByBase.has(anchor) && currentByBase.has(anchor))) {
+      anchor++;
+    }
+    const yoursEnd = yoursByBase.get(anchor) ?? yours.length;
+    const currentEnd = currentByBase.get(anchor) ?? current.length;
+
+    const baseRegion = base.slice(baseIndex, anchor);
+    const yoursRegion = yours.slice(yoursIndex, yoursEnd);
+    const currentRegion = current.slice(currentIndex, currentEnd);
+
+    if (sameLines(yoursRegion, baseRegion) || sameLines(yoursRegion, currentRegion)) {
+      merged.push(...currentRegion);
+    } else if (sameLines(currentRegion, baseRegion)) {
+      merged.push(...yoursRegion);
+    } else {
+      conflicts.push({
+        baseLine: baseIndex + (baseRegion.length > 0 ? 1 : 0),
+        base: baseRegion,
+        yours: yoursRegion,
+        current: currentRegion,
+      });
+    }
+
+    if (anchor === base.length) {
+      break;
+    }
+    merged.push(base[anchor] ?? '');
+    baseIndex = anchor + 1;
+    yoursIndex = yoursEnd + 1;
+    currentIndex = currentEnd + 1;
+  }
+
+  return conflicts.length > 0 ? { conflicts } : { merged: merged.join('\n'), conflicts };
+}
@@ -0,0 +1,231 @@
+import { Note } from '../types';
+
+/** Title matches count double when ranking */
+export const TITLE_WEIGHT = 2;
+
+/** Position gap between title and content so phrases never span the two fields */
+const FIELD_POSITION_GAP = 16;
+
+const MAX_TERM_LENGTH = 64;
+const MIN_PREFIX_LENGTH = 2;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export interface Token {
+  term: string;
+  /** Character offsets of the token in the original text */
+  start: number;
+  end: number;
+  /** Token index within the text */
+  position: number;
+}
+
+export interface AnalyzedTerm {
+  term: string;
+  /** Weighted occurrence count (title occurrences count TITLE_WEIGHT times) */
+  frequency: number;
+  positions: number[];
+}
+
+export interface AnalyzedNote {
+  noteId: string;
+  studyDate: string;
+  tags: string[];
+  noteType?: string;
+  createdBy: string;
+  attachmentCount: number;
+  /** Number of tokens across title and content */
+  length: number;
+  terms: AnalyzedTerm[];
+}
+
+export interface SearchQuery {
+  terms: string[];
+  prefixes: string[];
+  phrases: string[][];
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface TextSnippet {
+  text: string;
+  highlights: HighlightRange[];
+}
+
+/**
+ * Lowercases and strips diacritics so "Apnéa" and "apnea" index to the same term.
+ */
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().slice(0, MAX_TERM_LENGTH);
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const term = normalizeTerm(match[0]);
+    if (!term) {
+      continue;
+    }
+    const start = match.index ?? 0;
+    tokens.push({ term, start, end: start + match[0].length, position: tokens.length });
+  }
+
+  return tokens;
+}
+
+/**
+ * Builds the indexable form of a note: per-term weighted frequencies and token positions
+ * over title followed by content.
+ */
+export function analyzeNote(note: Note): AnalyzedNote {
+  const titleTokens = tokenize(note.title);
+  const contentTokens = tokenize(note.content);
+  const contentOffset = titleTokens.length + FIELD_POSITION_GAP;
+  const terms = new Map<string, AnalyzedTerm>();
+
+  const add = (term: string, position: number, weight: number): void => {
+    const entry = terms.get(term) ?? { term, frequency: 0, positions: [] };
+    entry.frequency += weight;
+    entry.positions.push(position);
+    terms.set(term, entry);
+  };
+
+  for (const token of titleTokens) {
+    add(token.term, token.position, TITLE_WEIGHT);
+  }
+  for (const token of contentTokens) {
+    add(token.term, contentOffset + token.position, 1);
+  }
+
+  return {
+    noteId: note.noteId,
+    studyDate: note.studyDate,
+    tags: note.tags ?? [],
+    noteType: note.noteType,
+    createdBy: note.createdBy,
+    attachmentCount: note.attachments.length,
+    length: titleTokens.length + contentTokens.length,
+    terms: [...terms.values()],
+  };
+}
+
+/**
+ * Parses a search string. Quoted text is a phrase, a trailing `*` makes a prefix
+ * (at least two characters), anything else is a term. All clauses must match.
+ */
+export function parseSearchQuery(q: string): SearchQuery {
+  const terms = new Set<string>();
+  const prefixes = new Set<string>();
+  const phrases: string[][] = [];
+
+  for (const match of q.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const phrase = match[1];
+    const word = match[2];
+
+    if (phrase !== undefined) {
+      const tokens = tokenize(phrase).map((token) => token.term);
+      if (tokens.length > 1) {
+        phrases.push(tokens);
+      } else if (tokens[0]) {
+        terms.add(tokens[0]);
+      }
+      continue;
+    }
+
+    if (!word) {
+      continue;
+    }
+
+    const tokens = tokenize(word).map((token) => token.term);
+    const last = tokens.pop();
+    if (last === undefined) {
+      continue;
+    }
+    tokens.forEach((term) => terms.add(term));
+
+    if (word.endsWith('*') && last.length >= MIN_PREFIX_LENGTH) {
+      prefixes.add(last);
+    } else {
+      terms.add(last);
+    }
+  }
+
+  return { terms: [...terms], prefixes: [...prefixes], phrases };
+}
+
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return query.terms.length === 0 && query.prefixes.length === 0 && query.phrases.length === 0;
+}
+
+/**
+ * True when every term of the phrase occurs at consecutive positions somewhere.
+ */
+export function matchesPhrase(phrase: string[], positionsByTerm: Map<string, number[]>): boolean {
+  const [first, ...rest] = phrase;
+  const starts = first !== undefined ? positionsByTerm.get(first) : undefined;
+  if (!starts) {
+    return false;
+  }
+
+  const lookups = rest.map((term) => new Set(positionsByTerm.get(term) ?? []));
+  return starts.some((start) => lookups.every((positions, i) => positions.has(start + i + 1)));
+}
+
+/**
+ * True when the note satisfies every clause of the query. Used where matches are filtered
+ * rather than ranked through the index (the clinic-wide feed).
+ */
+export function matchesSearchQuery(query: SearchQuery, note: Note): boolean {
+  const positionsByTerm = new Map(
+    analyzeNote(note).terms.map((entry) => [entry.term, entry.positions])
+  );
+  const terms = [...positionsByTerm.keys()];
+
+  return (
+    query.terms.every((term) => positionsByTerm.has(term)) &&
+    query.prefixes.every((prefix) => terms.some((term) => term.startsWith(prefix))) &&
+    query.phrases.every((phrase) => matchesPhrase(phrase, positionsByTerm))
+  );
+}
+
+/**
+ * Cuts a window of text around the first matching token and reports where each match
+ * falls within the returned snippet. Returns undefined when nothing in the text matches.
+ */
+export function buildSnippet(
+  text: string,
+  isMatch: (term: string) => boolean,
+  maxLength = 160
+): TextSnippet | undefined {
+  const matches = tokenize(text).filter((token) => isMatch(token.term));
+  const first = matches[0];
+  if (!first) {
+    return undefined;
+  }
+
+  let start = Math.max(0, first.start - Math.floor(maxLength / 4));
+  if (start > 0) {
+    // Start on a word boundary rather than mid-word
+    const boundary = text.lastIndexOf(' ', first.start);
+    start = boundary >= start ? boundary + 1 : start;
+  }
+  const end = Math.min(text.length, start + maxLength);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights = matches
+    .filter((token) => token.start >= start && token.end <= end)
+    .map((token) => ({
+      start: token.start - start + prefix.length,
+      end: token.end - start + prefix.length,
+    }));
+
+  return {
+    // Whitespace is replaced one-for-one so highlight offsets stay valid
+    text: prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix,
+    highlights,
+  };
+}
@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { v4 as uuidv4 } from 'uuid';
 import { AuthContext, Scope } from '../types/auth';
@@ -8,23 +8,9 @@ import { NotFoundError, ValidationError } from '../lib/errors';
 import { logger } from '../lib/logger';
 import { assertPatientAccess } from '../lib/patient-access';
 import { buildS3Key } from '../data/keys';
+import { s3Client, ATTACHMENTS_BUCKET } from '../data/s3-client';
 import * as notesRepository from '../data/notes.repository';
 
-const isLocal = process.env.AWS_SAM_LOCAL === 'true' || process.env.IS_LOCAL === 'true';
-
-const s3Client = new S3Client({
-  region: process.env.AWS_REGION ?? 'us-east-1',
-  ...(isLocal && {
-    endpoint: process.env.S3_ENDPOINT ?? 'http://localhost:4566',
-    forcePathStyle: true,
-    credentials: {
-      accessKeyId: 'local',
-      secretAccessKey: 'local',
-    },
-  }),
-});
-
-const BUCKET_NAME = process.env.ATTACHMENTS_BUCKET ?? 'snoremd-attachments';
 const PRESIGN_EXPIRY_SECONDS = 15 * 60; // 15 minutes
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 
@@ -40,11 +26,16 @@ const ALLOWED_CONTENT_TYPES = [
   'application/dicom',
 ];
 
+/**
+ * Presigns the upload of a new attachment. Pass the attachmentId of an earlier upload to
+ * sign a fresh URL for the same attachment, e.g. for an idempotent retry.
+ */
 export async function generatePresignedUploadUrl(
   auth: AuthContext,
   patientId: string,
   noteId: string,
-  input: PresignUploadInput
+  input: PresignUploadInput,
+  attachmentId: string = uuidv4()
 ): Promise<PresignUploadResponse> {
   requireScopes(auth, Scope.ATTACHMENTS_WRITE);
   await assertPatientAccess(auth, patientId);
@@ -59,7 +50,6 @@ export async function generatePresignedUploadUrl(
     );
   }
 
-  const attachmentId = uuidv4();
   const s3Key = buildS3Key(auth.clinicId, patientId, noteId, attachmentId, input.fileName);
 
   logger.info('Generating presigned upload URL', {
@@ -71,7 +61,7 @@ export async function generatePresignedUploadUrl(
   });
 
   const command = new PutObjectCommand({
-    Bucket: BUCKET_NAME,
+    Bucket: ATTACHMENTS_BUCKET,
     Key: s3Key,
     ContentType: input.contentType,
     ContentLength: input.sizeBytes,
@@ -130,7 +120,7 @@ export async function generatePresignedDownloadUrl(
   });
 
   const command = new GetObjectCommand({
-    Bucket: BUCKET_NAME,
+    Bucket: ATTACHMENTS_BUCKET,
     Key: attachment.s3Key,
     ResponseContentDisposition: `attachment; filename="${encodeURIComponent(attachment.fileName)}"`,
     ResponseContentType: attachment.contentType,
@@ -0,0 +1,51 @@
+import { AuthContext, Scope } from '../types/auth';
+import {
+  ComplianceImportResult,
+  ComplianceRecord,
+  ComplianceReportDTO,
+  ComplianceReportQuery,
+} from '../types';
+import { requireScopes } from '../lib/auth';
+import { buildComplianceReport, resolveComplianceRange } from '../lib/compliance';
+import { logger } from '../lib/logger';
+import { assertPatientAccess } from '../lib/patient-access';
+import * as complianceRepository from '../data/compliance.repository';
+
+/**
+ * Stores nightly PAP usage records for the patient, replacing nights already stored.
+ */
+export async function importCompliance(
+  auth: AuthContext,
+  patientId: string,
+  records: ComplianceRecord[]
+): Promise<ComplianceImportResult> {
+  requireScopes(auth, Scope.NOTES_WRITE);
+  await assertPatientAccess(auth, patientId);
+
+  const dates = records.map((record) => record.date).sort();
+  const from = dates[0] ?? '';
+  const to = dates[dates.length - 1] ?? '';
+
+  logger.info('Importing compliance records', { patientId, count: records.length, from, to });
+
+  await complianceRepository.putMany(auth.clinicId, patientId, records, auth.userId);
+
+  return { patientId, imported: records.length, from, to };
+}
+
+export async function getComplianceReport(
+  auth: AuthContext,
+  patientId: string,
+  query: ComplianceReportQuery
+): Promise<ComplianceReportDTO> {
+  requireScopes(auth, Scope.NOTES_READ);
+  await assertPatientAccess(auth, patientId);
+
+  const { from, to } = resolveComplianceRange(query, new Date().toISOString().slice(0, 10));
+
+  logger.info('Getting compliance report', { patientId, from, to });
+
+  const records = await complianceRepository.listByDateRange(auth.clinicId, patientId, from, to);
+
+  return buildComplianceReport(patientId, from, to, records);
+}
@@ -0,0 +1,82 @@
+import { NoteFacets } from '../types';
+import { ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import * as noteCountsRepository from '../data/note-counts.repository';
+import { CountedNote, NoteCounts } from '../data/note-counts.repository';
+import * as notesRepository from '../data/notes.repository';
+import { NoteListFilters } from '../data/notes.repository';
+
+const BUILD_PAGE_SIZE = 100;
+
+export interface NoteCountsResult {
+  /** Notes matching the filters */
+  total: number;
+  /** Facets over all of the patient's live notes, independent of the filters */
+  facets: NoteFacets;
+}
+
+/**
+ * Counters of patients whose notes predate counting are built from the notes the first
+ * time counts are requested.
+ */
+async function getNoteCounts(clinicId: string, patientId: string): Promise<NoteCounts> {
+  const { counts, changeCount } = await noteCountsRepository.get(clinicId, patientId);
+  if (counts) {
+    return counts;
+  }
+
+  logger.info('Building note counters', { patientId });
+
+  const notes: CountedNote[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await notesRepository.list(clinicId, patientId, {
+      cursor,
+      limit: BUILD_PAGE_SIZE,
+      attributes: ['noteType', 'tags'],
+    });
+    notes.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return noteCountsRepository.replace(clinicId, patientId, notes, changeCount);
+}
+
+/**
+ * The counters hold the total, per-noteType and per-tag counts, so those filters are
+ * answered without reading notes. Any other filter cannot be counted.
+ */
+function countedByCounters(counts: NoteCounts, filters: NoteListFilters): number | undefined {
+  const { studyDateFrom, studyDateTo, createdBy, hasAttachments, deleted } = filters;
+  const tags = [...(filters.tag ? [filters.tag] : []), ...(filters.tags ?? [])];
+
+  if (studyDateFrom || studyDateTo || createdBy || hasAttachments !== undefined || deleted) {
+    return undefined;
+  }
+  if (filters.noteType && tags.length === 0) {
+    return counts.facets.noteType[filters.noteType] ?? 0;
+  }
+  if (!filters.noteType && new Set(tags).size === 1 && tags[0]) {
+    return counts.facets.tag[tags[0]] ?? 0;
+  }
+  if (!filters.noteType && tags.length === 0) {
+    return counts.total;
+  }
+  return undefined;
+}
+
+export async function countNotes(
+  clinicId: string,
+  patientId: string,
+  filters: NoteListFilters
+): Promise<NoteCountsResult> {
+  const counts = await getNoteCounts(clinicId, patientId);
+  const total = countedByCounters(counts, filters);
+  if (total === undefined) {
+    throw new ValidationError(
+      'includeCounts supports no filter, a single noteType or a single tag'
+    );
+  }
+
+  return { total, facets: counts.facets };
+}
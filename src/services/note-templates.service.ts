@@ -0,0 +1,169 @@
+import { AuthContext, Scope } from '../types/auth';
+import {
+  CreateNoteInput,
+  CreateNoteRequest,
+  CreateNoteTemplateInput,
+  ListNoteTemplatesQuery,
+  NoteTemplate,
+  NoteTemplateDTO,
+  UpdateNoteTemplateInput,
+} from '../types';
+import { requireScopes } from '../lib/auth';
+import { NotFoundError, ValidationError, VersionConflictError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import {
+  assertKnownVariables,
+  findTemplateVariables,
+  renderTemplate,
+  TemplateValues,
+} from '../lib/note-template';
+import * as clinicsRepository from '../data/clinics.repository';
+import { Clinic } from '../data/clinics.repository';
+import * as noteTemplatesRepository from '../data/note-templates.repository';
+import * as patientsRepository from '../data/patients.repository';
+import { Patient } from '../data/patients.repository';
+
+function toNoteTemplateDTO(template: NoteTemplate): NoteTemplateDTO {
+  return {
+    templateId: template.templateId,
+    noteType: template.noteType,
+    name: template.name,
+    title: template.title,
+    content: template.content,
+    tags: template.tags ?? [],
+    variables: findTemplateVariables(template.title ?? '', template.content),
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+    createdBy: template.createdBy,
+    version: template.version,
+  };
+}
+
+function buildTemplateValues(
+  patient: Patient | null,
+  clinic: Clinic | null,
+  studyDate: string
+): TemplateValues {
+  return {
+    'patient.firstName': patient?.firstName,
+    'patient.lastName': patient?.lastName,
+    'patient.fullName': [patient?.firstName, patient?.lastName].filter(Boolean).join(' '),
+    'patient.dateOfBirth': patient?.dateOfBirth,
+    'clinic.name': clinic?.name,
+    'note.studyDate': studyDate,
+  };
+}
+
+async function findTemplate(auth: AuthContext, templateId: string): Promise<NoteTemplate> {
+  const template = await noteTemplatesRepository.findById(auth.clinicId, templateId);
+
+  if (!template) {
+    throw new NotFoundError('Note template', templateId);
+  }
+
+  return template;
+}
+
+export async function listTemplates(
+  auth: AuthContext,
+  query: ListNoteTemplatesQuery
+): Promise<NoteTemplateDTO[]> {
+  requireScopes(auth, Scope.NOTES_READ);
+
+  logger.info('Listing note templates', { noteType: query.noteType });
+
+  const templates = await noteTemplatesRepository.list(auth.clinicId, query.noteType);
+
+  return templates.map(toNoteTemplateDTO);
+}
+
+export async function getTemplate(auth: AuthContext, templateId: string): Promise<NoteTemplateDTO> {
+  requireScopes(auth, Scope.NOTES_READ);
+
+  logger.info('Getting note template', { templateId });
+
+  return toNoteTemplateDTO(await findTemplate(auth, templateId));
+}
+
+export async function createTemplate(
+  auth: AuthContext,
+  input: CreateNoteTemplateInput
+): Promise<NoteTemplateDTO> {
+  requireScopes(auth, Scope.TEMPLATES_WRITE);
+  assertKnownVariables(input.title ?? '', input.content);
+
+  logger.info('Creating note template', { noteType: input.noteType });
+
+  const template = await noteTemplatesRepository.create(auth.clinicId, auth.userId, input);
+
+  return toNoteTemplateDTO(template);
+}
+
+export async function updateTemplate(
+  auth: AuthContext,
+  templateId: string,
+  input: UpdateNoteTemplateInput
+): Promise<NoteTemplateDTO> {
+  requireScopes(auth, Scope.TEMPLATES_WRITE);
+  assertKnownVariables(input.title ?? '', input.content ?? '');
+
+  logger.info('Updating note template', { templateId, expectedVersion: input.version });
+
+  const existing = await findTemplate(auth, templateId);
+
+  if (existing.version !== input.version) {
+    throw new VersionConflictError(input.version, existing.version);
+  }
+
+  const updated = await noteTemplatesRepository.update(existing, auth.userId, input);
+
+  return toNoteTemplateDTO(updated);
+}
+
+export async function deleteTemplate(auth: AuthContext, templateId: string): Promise<void> {
+  requireScopes(auth, Scope.TEMPLATES_WRITE);
+
+  logger.info('Deleting note template', { templateId });
+
+  await noteTemplatesRepository.remove(await findTemplate(auth, templateId));
+}
+
+/**
+ * Completes a create request from its template: the title, content, note type and tags the
+ * client did not send are taken from the template, with placeholders filled from the
+ * patient and clinic records. Callers check scopes and patient access.
+ *
+ * @throws NotFoundError if the template does not exist in the caller's clinic
+ * @throws ValidationError if there is no template and no title or content
+ */
+export async function applyTemplate(
+  auth: AuthContext,
+  patientId: string,
+  request: CreateNoteRequest
+): Promise<CreateNoteInput> {
+  const { templateId, title, content, ...fields } = request;
+
+  if (!templateId) {
+    if (title === undefined || content === undefined) {
+      throw new ValidationError('title and content are required unless a templateId is given');
+    }
+    return { ...fields, title, content };
+  }
+
+  const template = await findTemplate(auth, templateId);
+  const [patient, clinic] = await Promise.all([
+    patientsRepository.findById(auth.clinicId, patientId),
+    clinicsRepository.findById(auth.clinicId),
+  ]);
+  const values = buildTemplateValues(patient, clinic, request.studyDate);
+
+  logger.info('Applying note template', { patientId, templateId });
+
+  return {
+    ...fields,
+    title: title ?? renderTemplate(template.title ?? template.name, values),
+    content: content ?? renderTemplate(template.content, values),
+    noteType: fields.noteType ?? template.noteType,
+    tags: fields.tags ?? template.tags,
+  };
+}
@@ -1,29 +1,97 @@
+import { v4 as uuidv4 } from 'uuid';
 import { AuthContext, Scope } from '../types/auth';
 import {
   NoteDTO,
-  CreateNoteInput,
+  NoteField,
+  NoteListItemDTO,
+  NoteListResponse,
+  NoteComparisonDTO,
+  NoteConflictDTO,
+  NoteMergeBase,
+  NoteSearchResultDTO,
+  DeletedNoteDTO,
+  NoteVersionDTO,
+  NoteVersionSummaryDTO,
+  CreateNoteRequest,
   UpdateNoteInput,
+  PatchNoteInput,
+  SignNoteInput,
+  CreateAddendumInput,
+  CosignNoteInput,
+  RejectCosignInput,
+  CosignQueueItemDTO,
+  ListCosignQueueQuery,
   ListNotesQuery,
+  ListClinicNotesQuery,
+  Note,
+  ListDeletedNotesQuery,
   PaginatedResponse,
+  STUDY_RESULT_NOTE_TYPE,
+  StudyMetrics,
+  StudyMetricsPatch,
   toNoteDTO,
+  toNoteFieldsDTO,
+  toNoteSummaryDTO,
+  toDeletedNoteDTO,
+  toCosignQueueItemDTO,
+  toNoteSnapshot,
+  toNoteVersionDTO,
+  toNoteVersionSummaryDTO,
 } from '../types';
-import { requireScopes } from '../lib/auth';
-import { NotFoundError } from '../lib/errors';
+import { hasScope, requireScopes } from '../lib/auth';
+import { computeAddendumContentHash, computeNoteContentHash } from '../lib/content-hash';
+import { ConflictError, NotFoundError, ValidationError, VersionConflictError } from '../lib/errors';
 import { logger } from '../lib/logger';
+import { buildNoteComparison } from '../lib/note-compare';
+import { mergeNoteUpdate } from '../lib/note-merge';
 import { assertPatientAccess } from '../lib/patient-access';
+import { isEmptySearchQuery, parseSearchQuery } from '../lib/text-search';
 import * as notesRepository from '../data/notes.repository';
+import * as noteCountsService from './note-counts.service';
+import * as noteTemplatesService from './note-templates.service';
+import * as searchService from './search.service';
+
+/**
+ * Study metrics belong to sleep study results only: a note with metrics must be of type
+ * study_result, and keeps that type until its metrics are removed.
+ *
+ * @throws ValidationError otherwise
+ */
+function assertStudyMetricsAllowed(
+  noteType: string | null | undefined,
+  studyMetrics: StudyMetrics | null | undefined
+): void {
+  if (studyMetrics && noteType !== STUDY_RESULT_NOTE_TYPE) {
+    throw new ValidationError(`studyMetrics are only allowed on ${STUDY_RESULT_NOTE_TYPE} notes`);
+  }
+}
 
 export async function createNote(
   auth: AuthContext,
   patientId: string,
-  input: CreateNoteInput
+  request: CreateNoteRequest
 ): Promise<NoteDTO> {
   requireScopes(auth, Scope.NOTES_WRITE);
   await assertPatientAccess(auth, patientId);
 
-  logger.info('Creating note', { patientId });
+  // Notes written by staff who cannot co-sign need a physician's co-signature
+  const requiresCosignature = !hasScope(auth, Scope.NOTES_COSIGN);
+
+  logger.info('Creating note', { patientId, requiresCosignature, templateId: request.templateId });
+
+  const input = await noteTemplatesService.applyTemplate(auth, patientId, request);
+  assertStudyMetricsAllowed(input.noteType, input.studyMetrics);
+
+  const note = await notesRepository.create(
+    auth.clinicId,
+    patientId,
+    auth.userId,
+    auth.username,
+    input,
+    requiresCosignature
+  );
 
-  const note = await notesRepository.create(auth.clinicId, patientId, auth.userId, auth.username, input);
+  await searchService.syncNoteIndex(note);
 
   return toNoteDTO(note);
 }
@@ -47,11 +115,88 @@ export async function getNote(
   return toNoteDTO(note);
 }
 
+/**
+ * Compare two notes of the same patient, e.g. consecutive study results, from left to right.
+ */
+export async function compareNotes(
+  auth: AuthContext,
+  patientId: string,
+  leftNoteId: string,
+  rightNoteId: string
+): Promise<NoteComparisonDTO> {
+  requireScopes(auth, Scope.NOTES_READ);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Comparing notes', { patientId, leftNoteId, rightNoteId });
+
+  const [left, right] = await Promise.all([
+    notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, leftNoteId),
+    notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, rightNoteId),
+  ]);
+
+  if (!left) {
+    throw new NotFoundError('Note', leftNoteId);
+  }
+  if (!right) {
+    throw new NotFoundError('Note', rightNoteId);
+  }
+
+  return buildNoteComparison(left, right);
+}
+
+// Note item attributes each selectable field is read from
+const NOTE_FIELD_ATTRIBUTES: Record<NoteField, string[]> = {
+  noteId: ['noteId'],
+  patientId: ['patientId'],
+  studyDate: ['studyDate'],
+  title: ['title'],
+  content: ['content'],
+  excerpt: ['content'],
+  noteType: ['noteType'],
+  tags: ['tags'],
+  attachments: ['attachments'],
+  studyMetrics: ['studyMetrics'],
+  createdAt: ['createdAt'],
+  updatedAt: ['updatedAt'],
+  createdBy: ['createdBy'],
+  createdByName: ['createdByName', 'createdBy'],
+  version: ['version'],
+  signature: ['signature'],
+  addenda: ['addenda'],
+  cosignature: ['cosignature'],
+};
+
+const SUMMARY_ATTRIBUTES = [
+  'title',
+  'noteType',
+  'tags',
+  'content',
+  'attachments',
+  'createdBy',
+  'createdByName',
+  'version',
+];
+
+/** Attributes the list has to read for the requested view; undefined reads whole items */
+function listAttributes(query: ListNotesQuery): string[] | undefined {
+  if (query.view === 'summary') {
+    return SUMMARY_ATTRIBUTES;
+  }
+  return query.fields?.flatMap((field) => NOTE_FIELD_ATTRIBUTES[field]);
+}
+
+function toNoteListItemDTO(note: Note, query: ListNotesQuery): NoteListItemDTO {
+  if (query.view === 'summary') {
+    return toNoteSummaryDTO(note);
+  }
+  return query.fields ? toNoteFieldsDTO(note, query.fields) : toNoteDTO(note);
+}
+
 export async function listNotes(
   auth: AuthContext,
   patientId: string,
   query: ListNotesQuery
-): Promise<PaginatedResponse<NoteDTO>> {
+): Promise<NoteListResponse> {
   requireScopes(auth, Scope.NOTES_READ);
   await assertPatientAccess(auth, patientId);
 
@@ -59,52 +204,108 @@ export async function listNotes(
     patientId,
     cursor: query.cursor ? '[present]' : undefined,
     limit: query.limit,
+    sort: query.sort,
     studyDateFrom: query.studyDateFrom,
     studyDateTo: query.studyDateTo,
+    noteType: query.noteType,
+    createdBy: query.createdBy,
     tag: query.tag,
+    tags: query.tags,
+    tagMatch: query.tagMatch,
+    hasAttachments: query.hasAttachments,
     q: query.q ? '[present]' : undefined,
+    view: query.view,
+    fields: query.fields,
+    includeCounts: query.includeCounts,
   });
 
   const limit = query.limit ?? 20;
+  const filters = {
+    studyDateFrom: query.studyDateFrom,
+    studyDateTo: query.studyDateTo,
+    noteType: query.noteType,
+    createdBy: query.createdBy,
+    tag: query.tag,
+    tags: query.tags,
+    tagMatch: query.tagMatch,
+    hasAttachments: query.hasAttachments,
+  };
 
-  // If search query is provided, we need to fetch more results and filter in memory
-  // since DynamoDB doesn't support full-text search
   if (query.q) {
-    const searchTerm = query.q.toLowerCase();
-    // Fetch more results to account for filtering
-    const fetchLimit = Math.min(limit * 5, 100);
-
-    const result = await notesRepository.list(auth.clinicId, patientId, {
+    const result = await searchService.searchNotes(auth.clinicId, patientId, {
+      q: query.q,
+      limit,
       cursor: query.cursor,
-      limit: fetchLimit,
-      studyDateFrom: query.studyDateFrom,
-      studyDateTo: query.studyDateTo,
-      tag: query.tag,
+      ...filters,
     });
 
-    // Filter by search term (title and content)
-    const filteredItems = result.items.filter(note =>
-      note.title.toLowerCase().includes(searchTerm) ||
-      note.content.toLowerCase().includes(searchTerm)
-    );
-
-    // Apply pagination to filtered results
-    const paginatedItems = filteredItems.slice(0, limit);
-    const hasMore = filteredItems.length > limit || result.hasMore;
-
     return {
-      items: paginatedItems.map(toNoteDTO),
+      items: result.items.map((hit): NoteListItemDTO & Pick<NoteSearchResultDTO, 'search'> => ({
+        ...toNoteListItemDTO(hit.note, query),
+        search: { score: hit.score, snippet: hit.snippet },
+      })),
       nextCursor: result.nextCursor,
-      hasMore,
+      hasMore: result.hasMore,
+      // Search ranks every match, so its total comes for free; only the facets are read
+      ...(query.includeCounts && {
+        total: result.total,
+        facets: (await noteCountsService.countNotes(auth.clinicId, patientId, {})).facets,
+      }),
     };
   }
 
+  // Counted first, so filters the counters cannot answer are rejected before the list query
+  const counts = query.includeCounts
+    ? await noteCountsService.countNotes(auth.clinicId, patientId, filters)
+    : undefined;
+
   const result = await notesRepository.list(auth.clinicId, patientId, {
     cursor: query.cursor,
     limit,
+    sort: query.sort,
+    ...filters,
+    attributes: listAttributes(query),
+  });
+
+  return {
+    items: result.items.map((note) => toNoteListItemDTO(note, query)),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+    ...counts,
+  };
+}
+
+export async function listClinicNotes(
+  auth: AuthContext,
+  query: ListClinicNotesQuery
+): Promise<PaginatedResponse<NoteDTO>> {
+  requireScopes(auth, Scope.NOTES_READ);
+
+  logger.info('Listing clinic notes', {
+    cursor: query.cursor ? '[present]' : undefined,
+    limit: query.limit,
+    noteType: query.noteType,
+    studyDateFrom: query.studyDateFrom,
+    studyDateTo: query.studyDateTo,
+    createdBy: query.createdBy,
+    tag: query.tag,
+    q: query.q ? '[present]' : undefined,
+  });
+
+  const search = query.q !== undefined ? parseSearchQuery(query.q) : undefined;
+  if (search && isEmptySearchQuery(search)) {
+    throw new ValidationError('Search query has no searchable terms');
+  }
+
+  const result = await notesRepository.listByClinic(auth.clinicId, {
+    cursor: query.cursor,
+    limit: query.limit ?? 20,
+    noteType: query.noteType,
     studyDateFrom: query.studyDateFrom,
     studyDateTo: query.studyDateTo,
+    createdBy: query.createdBy,
     tag: query.tag,
+    search,
   });
 
   return {
@@ -120,11 +321,21 @@ export async function updateNote(
   noteId: string,
   input: UpdateNoteInput
 ): Promise<NoteDTO> {
+  logger.info('Updating note', { patientId, noteId, expectedVersion: input.version });
+
+  const existing = await findEditableNote(auth, patientId, noteId);
+  return applyNoteUpdate(auth, patientId, existing, input);
+}
+
+/** The note an edit applies to; signed notes can no longer be edited */
+async function findEditableNote(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string
+): Promise<Note> {
   requireScopes(auth, Scope.NOTES_WRITE);
   await assertPatientAccess(auth, patientId);
 
-  logger.info('Updating note', { patientId, noteId, expectedVersion: input.version });
-
   const existing = await notesRepository.findByIdWithoutStudyDate(
     auth.clinicId,
     patientId,
@@ -135,28 +346,396 @@ export async function updateNote(
     throw new NotFoundError('Note', noteId);
   }
 
-  const updated = await notesRepository.update(
+  if (existing.signature) {
+    throw new ConflictError(
+      `Note ${noteId} is signed and can no longer be edited; add an addendum instead`
+    );
+  }
+
+  return existing;
+}
+
+async function applyNoteUpdate(
+  auth: AuthContext,
+  patientId: string,
+  existing: Note,
+  input: UpdateNoteInput
+): Promise<NoteDTO> {
+  const { noteId } = existing;
+
+  assertStudyMetricsAllowed(
+    input.noteType !== undefined ? input.noteType : existing.noteType,
+    input.studyMetrics !== undefined ? input.studyMetrics : existing.studyMetrics
+  );
+
+  let updated: Note;
+  try {
+    updated = await notesRepository.update(
+      auth.clinicId,
+      patientId,
+      noteId,
+      existing.studyDate,
+      auth.userId,
+      auth.username,
+      input
+    );
+  } catch (err) {
+    if (!(err instanceof VersionConflictError)) {
+      throw err;
+    }
+    updated = await mergeConflictingUpdate(auth, patientId, noteId, input);
+  }
+
+  await searchService.syncNoteIndex(updated);
+
+  return toNoteDTO(updated);
+}
+
+/**
+ * The base an update was edited from: the values the client sent back, completed from the
+ * stored copy of the expected version. That copy lives on the revision which replaced it.
+ */
+async function findMergeBase(
+  clinicId: string,
+  patientId: string,
+  noteId: string,
+  input: UpdateNoteInput
+): Promise<NoteMergeBase> {
+  const revision = await notesRepository.findRevision(
+    clinicId,
+    patientId,
+    noteId,
+    input.version + 1
+  );
+  const snapshot = revision?.previous;
+
+  return {
+    ...(snapshot && {
+      studyDate: snapshot.studyDate,
+      title: snapshot.title,
+      content: snapshot.content,
+      noteType: snapshot.noteType,
+      tags: snapshot.tags,
+      attachments: snapshot.attachments,
+      studyMetrics: snapshot.studyMetrics,
+    }),
+    ...input.base,
+  };
+}
+
+/**
+ * Handles an update that lost a version race. The edit is compared with what changed on
+ * the server since its base; with autoMerge, non-overlapping changes are applied on top of
+ * the current note. Otherwise the conflict is rejected with the current copy and the diff.
+ *
+ * @throws VersionConflictError with a NoteConflictDTO as details
+ */
+async function mergeConflictingUpdate(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  input: UpdateNoteInput
+): Promise<Note> {
+  const current = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!current) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  const base = await findMergeBase(auth.clinicId, patientId, noteId, input);
+  const merge = mergeNoteUpdate(base, input, current);
+
+  if (input.autoMerge && merge.mergeable) {
+    logger.info('Auto-merging note update', {
+      patientId,
+      noteId,
+      expectedVersion: input.version,
+      currentVersion: current.version,
+    });
+
+    // A further conflict is reported as is rather than merged again
+    return notesRepository.update(
+      auth.clinicId,
+      patientId,
+      noteId,
+      current.studyDate,
+      auth.userId,
+      auth.username,
+      { ...merge.changes, version: current.version }
+    );
+  }
+
+  const conflict: NoteConflictDTO = {
+    expectedVersion: input.version,
+    current: toNoteDTO(current),
+    fields: merge.fields,
+    content: merge.content,
+    mergeable: merge.mergeable,
+  };
+
+  throw new VersionConflictError(input.version, current.version, conflict);
+}
+
+/**
+ * Apply a JSON Merge Patch to a note. Removing a list member (null) is the same as
+ * clearing it, so the patch maps directly onto an update. studyMetrics are patched member
+ * by member onto the metrics of the version the patch was written against.
+ */
+export async function patchNote(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  patch: PatchNoteInput
+): Promise<NoteDTO> {
+  logger.info('Patching note', { patientId, noteId, expectedVersion: patch.version });
+
+  const existing = await findEditableNote(auth, patientId, noteId);
+  const { tags, attachments, studyMetrics, ...rest } = patch;
+
+  const input: UpdateNoteInput = {
+    ...rest,
+    ...(tags !== undefined && { tags: tags ?? [] }),
+    ...(attachments !== undefined && { attachments: attachments ?? [] }),
+  };
+
+  if (studyMetrics !== undefined) {
+    const target =
+      existing.version === patch.version
+        ? existing.studyMetrics
+        : (await findMergeBase(auth.clinicId, patientId, noteId, input)).studyMetrics;
+    input.studyMetrics = mergeStudyMetricsPatch(target ?? undefined, studyMetrics);
+  }
+
+  return applyNoteUpdate(auth, patientId, existing, input);
+}
+
+/** Applies a metrics merge patch; null is returned once no metric is left */
+function mergeStudyMetricsPatch(
+  target: StudyMetrics | undefined,
+  patch: StudyMetricsPatch | null
+): StudyMetrics | null {
+  if (patch === null) {
+    return null;
+  }
+
+  const merged: Record<string, number> = { ...target };
+  for (const [metric, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete merged[metric];
+    } else if (value !== undefined) {
+      merged[metric] = value;
+    }
+  }
+
+  const metrics: StudyMetrics = merged;
+  if (Object.keys(metrics).length === 0) {
+    return null;
+  }
+  if (metrics.ahi !== undefined && metrics.rdi !== undefined && metrics.rdi < metrics.ahi) {
+    throw new ValidationError('rdi cannot be lower than ahi');
+  }
+  return metrics;
+}
+
+export async function signNote(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  input: SignNoteInput
+): Promise<NoteDTO> {
+  // Signing is the physician's attestation, so it takes the same scope as co-signing
+  requireScopes(auth, Scope.NOTES_WRITE, Scope.NOTES_COSIGN);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Signing note', { patientId, noteId, expectedVersion: input.version });
+
+  const existing = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!existing) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (existing.signature) {
+    throw new ConflictError(`Note ${noteId} is already signed`);
+  }
+
+  // A pending or rejected note may still change; signing would lock it
+  if (existing.cosignature && existing.cosignature.status !== 'cosigned') {
+    throw new ConflictError(`Note ${noteId} must be co-signed before it can be signed`);
+  }
+
+  // The signer must be looking at the current version; the hash covers exactly that content
+  if (existing.version !== input.version) {
+    throw new VersionConflictError(input.version, existing.version);
+  }
+
+  const signed = await notesRepository.sign(
     auth.clinicId,
     patientId,
     noteId,
     existing.studyDate,
-    auth.userId,
-    auth.username,
-    input
+    input.version,
+    {
+      signedAt: new Date().toISOString(),
+      signedBy: auth.userId,
+      signedByName: auth.username,
+      contentHash: computeNoteContentHash(existing),
+    }
+  );
+
+  return toNoteDTO(signed);
+}
+
+export async function addNoteAddendum(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  input: CreateAddendumInput
+): Promise<NoteDTO> {
+  requireScopes(auth, Scope.NOTES_WRITE);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Adding note addendum', { patientId, noteId });
+
+  const existing = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!existing) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (!existing.signature) {
+    throw new ConflictError(`Note ${noteId} must be signed before addenda can be added`);
+  }
+
+  const updated = await notesRepository.addAddendum(
+    auth.clinicId,
+    patientId,
+    noteId,
+    existing.studyDate,
+    {
+      addendumId: uuidv4(),
+      content: input.content,
+      signedAt: new Date().toISOString(),
+      signedBy: auth.userId,
+      signedByName: auth.username,
+      contentHash: computeAddendumContentHash(existing.signature.contentHash, input.content),
+    }
   );
 
   return toNoteDTO(updated);
 }
 
+export async function cosignNote(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  input: CosignNoteInput
+): Promise<NoteDTO> {
+  requireScopes(auth, Scope.NOTES_COSIGN);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Co-signing note', { patientId, noteId, expectedVersion: input.version });
+
+  const existing = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!existing) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  const reviewed = await notesRepository.reviewCosignature(
+    auth.clinicId,
+    patientId,
+    noteId,
+    existing.studyDate,
+    input.version,
+    {
+      status: 'cosigned',
+      reviewedAt: new Date().toISOString(),
+      reviewedBy: auth.userId,
+      reviewedByName: auth.username,
+    }
+  );
+
+  return toNoteDTO(reviewed);
+}
+
+export async function rejectCosign(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  input: RejectCosignInput
+): Promise<NoteDTO> {
+  requireScopes(auth, Scope.NOTES_COSIGN);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Rejecting note co-signature', {
+    patientId,
+    noteId,
+    expectedVersion: input.version,
+  });
+
+  const existing = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!existing) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  // The note goes back to its author with the reviewer's comment; editing it resubmits it
+  const reviewed = await notesRepository.reviewCosignature(
+    auth.clinicId,
+    patientId,
+    noteId,
+    existing.studyDate,
+    input.version,
+    {
+      status: 'rejected',
+      reviewedAt: new Date().toISOString(),
+      reviewedBy: auth.userId,
+      reviewedByName: auth.username,
+      reason: input.reason,
+    }
+  );
+
+  return toNoteDTO(reviewed);
+}
+
+export async function listCosignQueue(
+  auth: AuthContext,
+  query: ListCosignQueueQuery
+): Promise<PaginatedResponse<CosignQueueItemDTO>> {
+  requireScopes(auth, Scope.NOTES_COSIGN);
+
+  logger.info('Listing co-signature queue', {
+    cursor: query.cursor ? '[present]' : undefined,
+    limit: query.limit,
+  });
+
+  const result = await notesRepository.listCosignQueue(auth.clinicId, {
+    cursor: query.cursor,
+    limit: query.limit ?? 20,
+  });
+
+  return {
+    items: result.items.map(toCosignQueueItemDTO),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  };
+}
+
+/**
+ * Soft-delete a note. With an expected version (from If-Match) the delete only succeeds
+ * while the note is still at that version.
+ */
 export async function deleteNote(
   auth: AuthContext,
   patientId: string,
-  noteId: string
+  noteId: string,
+  expectedVersion?: number
 ): Promise<void> {
   requireScopes(auth, Scope.NOTES_DELETE);
   await assertPatientAccess(auth, patientId);
 
-  logger.info('Deleting note', { patientId, noteId });
+  logger.info('Deleting note', { patientId, noteId, expectedVersion });
 
   const existing = await notesRepository.findByIdWithoutStudyDate(
     auth.clinicId,
@@ -168,11 +747,158 @@ export async function deleteNote(
     throw new NotFoundError('Note', noteId);
   }
 
+  if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+    throw new VersionConflictError(expectedVersion, existing.version);
+  }
+
   await notesRepository.softDelete(
     auth.clinicId,
     patientId,
     noteId,
     existing.studyDate,
-    auth.userId
+    auth.userId,
+    expectedVersion
+  );
+
+  await searchService.syncNoteIndex(existing);
+}
+
+export async function listDeletedNotes(
+  auth: AuthContext,
+  patientId: string,
+  query: ListDeletedNotesQuery
+): Promise<PaginatedResponse<DeletedNoteDTO>> {
+  requireScopes(auth, Scope.NOTES_DELETE);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Listing deleted notes', {
+    patientId,
+    cursor: query.cursor ? '[present]' : undefined,
+    limit: query.limit,
+  });
+
+  const result = await notesRepository.list(auth.clinicId, patientId, {
+    cursor: query.cursor,
+    limit: query.limit ?? 20,
+    deleted: true,
+  });
+
+  return {
+    items: result.items.map(toDeletedNoteDTO),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  };
+}
+
+export async function restoreNote(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string
+): Promise<NoteDTO> {
+  requireScopes(auth, Scope.NOTES_DELETE);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Restoring note', { patientId, noteId });
+
+  const deleted = await notesRepository.findDeletedByIdWithoutStudyDate(
+    auth.clinicId,
+    patientId,
+    noteId
+  );
+
+  if (!deleted) {
+    throw new NotFoundError('Deleted note', noteId);
+  }
+
+  const restored = await notesRepository.restore(
+    auth.clinicId,
+    patientId,
+    noteId,
+    deleted.studyDate,
+    auth.userId,
+    auth.username
+  );
+
+  await searchService.syncNoteIndex(restored);
+
+  return toNoteDTO(restored);
+}
+
+export async function listNoteVersions(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string
+): Promise<NoteVersionSummaryDTO[]> {
+  requireScopes(auth, Scope.NOTES_READ);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Listing note versions', { patientId, noteId });
+
+  const note = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!note) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  const revisions = await notesRepository.listRevisions(auth.clinicId, patientId, noteId);
+  const changedFieldsByVersion = new Map(revisions.map((r) => [r.version, r.changedFields]));
+  const changedFieldsFor = (version: number): string[] | undefined =>
+    version === 1 ? [] : changedFieldsByVersion.get(version);
+
+  // Each revision carries the snapshot it replaced, so together with the live note
+  // they cover every version recorded since history tracking began
+  const versions = [
+    toNoteVersionSummaryDTO(toNoteSnapshot(note), changedFieldsFor(note.version), true),
+    ...revisions
+      .filter((r) => r.previous.version < note.version)
+      .map((r) => toNoteVersionSummaryDTO(r.previous, changedFieldsFor(r.previous.version), false)),
+  ];
+
+  return versions.sort((a, b) => b.version - a.version);
+}
+
+export async function getNoteVersion(
+  auth: AuthContext,
+  patientId: string,
+  noteId: string,
+  version: number
+): Promise<NoteVersionDTO> {
+  requireScopes(auth, Scope.NOTES_READ);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Getting note version', { patientId, noteId, version });
+
+  const note = await notesRepository.findByIdWithoutStudyDate(auth.clinicId, patientId, noteId);
+
+  if (!note) {
+    throw new NotFoundError('Note', noteId);
+  }
+
+  if (version > note.version) {
+    throw new NotFoundError('Note version', `${noteId}@${version}`);
+  }
+
+  const revision =
+    version === 1
+      ? null
+      : await notesRepository.findRevision(auth.clinicId, patientId, noteId, version);
+  const changedFields = version === 1 ? [] : revision?.changedFields;
+
+  if (version === note.version) {
+    return toNoteVersionDTO(noteId, patientId, toNoteSnapshot(note), changedFields, true);
+  }
+
+  // Older versions are stored as the "previous" snapshot of the revision that replaced them
+  const successor = await notesRepository.findRevision(
+    auth.clinicId,
+    patientId,
+    noteId,
+    version + 1
   );
+
+  if (!successor) {
+    throw new NotFoundError('Note version', `${noteId}@${version}`);
+  }
+
+  return toNoteVersionDTO(noteId, patientId, successor.previous, changedFields, false);
 }
@@ -1,8 +1,25 @@
+import { v4 as uuidv4 } from 'uuid';
 import { AuthContext, Scope } from '../types/auth';
 import { requireScopes } from '../lib/auth';
+import { ConflictError, NotFoundError } from '../lib/errors';
 import { logger } from '../lib/logger';
+import {
+  PatientSearchClause,
+  PatientSearchCriteria,
+  hasPatientSearchCriteria,
+  matchWeight,
+  parsePatientSearch,
+  patientSortName,
+} from '../lib/patient-search';
+import { PaginatedResponse } from '../types';
+import {
+  CursorBinding,
+  PatientSearchCursorPosition,
+  decodePatientSearchCursor,
+  encodePatientSearchCursor,
+} from '../data/cursor';
 import * as patientsRepository from '../data/patients.repository';
-import { Patient } from '../data/patients.repository';
+import { Patient, PatientChanges, PatientFields, PatientStatus } from '../data/patients.repository';
 
 export interface PatientDTO {
   patientId: string;
@@ -15,6 +32,55 @@ export interface PatientDTO {
   status: 'active' | 'inactive' | 'archived';
 }
 
+/** A single patient, with the contact, insurance and audit fields left out of lists */
+export interface PatientDetailDTO extends PatientDTO {
+  address?: string;
+  insuranceProvider?: string;
+  insuranceId?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+  statusChangedAt?: string;
+  statusChangedBy?: string;
+  statusReason?: string;
+}
+
+export type CreatePatientInput = PatientFields;
+
+export type UpdatePatientInput = Omit<PatientChanges, 'status' | 'statusReason'> & {
+  version: number;
+};
+
+/** With any search criteria the patients are searched and ranked instead of listed */
+export interface ListPatientsQuery extends PatientSearchCriteria {
+  cursor?: string;
+  limit?: number;
+  /** `all` lists every status; active patients only by default */
+  status?: PatientStatus | 'all';
+}
+
+export interface ChangePatientStatusInput {
+  status: PatientStatus;
+  reason?: string;
+  version: number;
+}
+
+/** Bumped when the index terms change, so each clinic's index is rebuilt on its next search */
+export const PATIENT_SEARCH_INDEX_VERSION = 1;
+
+// Patients read per search; a broader search keeps its highest-scoring matches
+const MAX_SEARCH_CANDIDATES = 500;
+
+// Statuses a patient can move to from each status. Archived patients are read-only until
+// they are reactivated.
+const STATUS_TRANSITIONS: Record<PatientStatus, PatientStatus[]> = {
+  active: ['inactive', 'archived'],
+  inactive: ['active', 'archived'],
+  archived: ['active'],
+};
+
 function toPatientDTO(patient: Patient): PatientDTO {
   return {
     patientId: patient.patientId,
@@ -28,15 +94,309 @@ function toPatientDTO(patient: Patient): PatientDTO {
   };
 }
 
-export async function listPatients(auth: AuthContext): Promise<PatientDTO[]> {
-  requireScopes(auth, Scope.NOTES_READ);
+function toPatientDetailDTO(patient: Patient): PatientDetailDTO {
+  return {
+    ...toPatientDTO(patient),
+    address: patient.address,
+    insuranceProvider: patient.insuranceProvider,
+    insuranceId: patient.insuranceId,
+    version: patient.version,
+    createdAt: patient.createdAt,
+    updatedAt: patient.updatedAt,
+    createdBy: patient.createdBy,
+    updatedBy: patient.updatedBy,
+    statusChangedAt: patient.statusChangedAt,
+    statusChangedBy: patient.statusChangedBy,
+    statusReason: patient.statusReason,
+  };
+}
+
+async function findPatient(auth: AuthContext, patientId: string): Promise<Patient> {
+  const patient = await patientsRepository.findById(auth.clinicId, patientId);
+
+  if (!patient) {
+    throw new NotFoundError('Patient', patientId);
+  }
+
+  return patient;
+}
+
+/**
+ * Patients stored before search existed are indexed the first time the clinic is searched.
+ * An index built by an older PATIENT_SEARCH_INDEX_VERSION is rebuilt the same way.
+ */
+async function ensureSearchIndex(clinicId: string): Promise<void> {
+  const version = await patientsRepository.getSearchIndexVersion(clinicId);
+  if (version >= PATIENT_SEARCH_INDEX_VERSION) {
+    return;
+  }
+
+  let cursor: string | undefined;
+  let indexed = 0;
+  do {
+    const page = await patientsRepository.listByClinic(clinicId, { cursor, limit: 100 });
+    await patientsRepository.indexPatients(page.items);
+    indexed += page.items.length;
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  await patientsRepository.markSearchIndexBuilt(clinicId, PATIENT_SEARCH_INDEX_VERSION);
+  logger.info('Patient search index built', {
+    clinicId,
+    indexed,
+    version: PATIENT_SEARCH_INDEX_VERSION,
+  });
+}
+
+/**
+ * Score per patient matching every clause. Within a clause a patient scores its best
+ * alternative; the clause scores add up.
+ */
+async function scoreMatches(
+  clinicId: string,
+  clauses: PatientSearchClause[]
+): Promise<Map<string, number>> {
+  let scores: Map<string, number> | undefined;
+
+  for (const clause of clauses) {
+    const clauseScores = new Map<string, number>();
+    for (const alternative of clause) {
+      for (const match of await patientsRepository.findSearchMatches(clinicId, alternative)) {
+        const weight = matchWeight(alternative, match.value);
+        clauseScores.set(match.patientId, Math.max(clauseScores.get(match.patientId) ?? 0, weight));
+      }
+    }
+
+    const previous = scores;
+    scores = new Map();
+    for (const [patientId, score] of clauseScores) {
+      const previousScore = previous ? previous.get(patientId) : 0;
+      if (previousScore !== undefined) {
+        scores.set(patientId, previousScore + score);
+      }
+    }
+    if (scores.size === 0) {
+      break;
+    }
+  }
+
+  return scores ?? new Map();
+}
+
+function compareSearchResults(
+  a: PatientSearchCursorPosition,
+  b: PatientSearchCursorPosition
+): number {
+  if (a.score !== b.score) {
+    return b.score - a.score;
+  }
+  if (a.name !== b.name) {
+    return a.name < b.name ? -1 : 1;
+  }
+  return a.patientId < b.patientId ? -1 : a.patientId > b.patientId ? 1 : 0;
+}
+
+/**
+ * Searches the clinic's patients through the search index. Every clause must match;
+ * results are ordered by score, then last and first name. The status filter is applied
+ * before pagination so each page is a slice of the complete result set.
+ */
+async function searchPatients(
+  auth: AuthContext,
+  query: ListPatientsQuery,
+  status: PatientStatus | 'all'
+): Promise<PaginatedResponse<PatientDTO>> {
+  const clauses = parsePatientSearch(query);
+  const limit = query.limit ?? 20;
+
+  const cursorBinding: CursorBinding = {
+    clinicId: auth.clinicId,
+    list: 'patient-search',
+    filters: {
+      q: query.q,
+      lastName: query.lastName,
+      dateOfBirth: query.dateOfBirth,
+      insuranceId: query.insuranceId,
+      phone: query.phone,
+      status,
+    },
+  };
+  const after = query.cursor ? decodePatientSearchCursor(query.cursor, cursorBinding) : undefined;
+
+  logger.info('Searching patients for clinic', {
+    clinicId: auth.clinicId,
+    clauses: clauses.length,
+    status,
+  });
+
+  await ensureSearchIndex(auth.clinicId);
+
+  const scores = await scoreMatches(auth.clinicId, clauses);
+  const candidateIds = [...scores.keys()]
+    .sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0))
+    .slice(0, MAX_SEARCH_CANDIDATES);
+  if (scores.size > MAX_SEARCH_CANDIDATES) {
+    logger.warn('Patient search candidates truncated', {
+      clinicId: auth.clinicId,
+      matched: scores.size,
+      limit: MAX_SEARCH_CANDIDATES,
+    });
+  }
+
+  // A patient removed since it was indexed is simply skipped
+  const patients = await patientsRepository.findManyByIds(auth.clinicId, candidateIds);
+  const ranked = patients
+    .filter((patient) => status === 'all' || patient.status === status)
+    .map((patient) => ({
+      patient,
+      score: scores.get(patient.patientId) ?? 0,
+      name: patientSortName(patient),
+      patientId: patient.patientId,
+    }))
+    .sort(compareSearchResults);
+
+  const remaining = after
+    ? ranked.filter((result) => compareSearchResults(result, after) > 0)
+    : ranked;
+
+  const page = remaining.slice(0, limit);
+  const hasMore = remaining.length > limit;
+
+  const last = page[page.length - 1];
+  return {
+    items: page.map((result) => toPatientDTO(result.patient)),
+    nextCursor:
+      hasMore && last
+        ? encodePatientSearchCursor(
+            { score: last.score, name: last.name, patientId: last.patientId },
+            cursorBinding
+          )
+        : undefined,
+    hasMore,
+    total: ranked.length,
+  };
+}
+
+export async function listPatients(
+  auth: AuthContext,
+  query: ListPatientsQuery = {}
+): Promise<PaginatedResponse<PatientDTO>> {
+  requireScopes(auth, Scope.PATIENTS_READ);
+
+  const status = query.status ?? 'active';
+
+  if (hasPatientSearchCriteria(query)) {
+    return searchPatients(auth, query, status);
+  }
+
+  logger.info('Listing patients for clinic', { clinicId: auth.clinicId, status });
+
+  const result = await patientsRepository.listByClinic(auth.clinicId, {
+    cursor: query.cursor,
+    limit: query.limit ?? 20,
+    status: status === 'all' ? undefined : status,
+  });
+
+  return {
+    items: result.items.map(toPatientDTO),
+    nextCursor: result.nextCursor,
+    hasMore: result.hasMore,
+  };
+}
+
+export async function createPatient(
+  auth: AuthContext,
+  input: CreatePatientInput
+): Promise<PatientDetailDTO> {
+  requireScopes(auth, Scope.PATIENTS_WRITE);
+
+  const patientId = uuidv4();
+
+  logger.info('Creating patient', { patientId });
+
+  const patient = await patientsRepository.create({
+    ...input,
+    patientId,
+    clinicId: auth.clinicId,
+    status: 'active',
+    createdBy: auth.userId,
+  });
+
+  return toPatientDetailDTO(patient);
+}
+
+export async function getPatient(auth: AuthContext, patientId: string): Promise<PatientDetailDTO> {
+  requireScopes(auth, Scope.PATIENTS_READ);
+
+  logger.info('Getting patient', { patientId });
+
+  return toPatientDetailDTO(await findPatient(auth, patientId));
+}
+
+/**
+ * @throws ConflictError if the patient is archived
+ * @throws VersionConflictError if the patient is no longer at `input.version`
+ */
+export async function updatePatient(
+  auth: AuthContext,
+  patientId: string,
+  input: UpdatePatientInput
+): Promise<PatientDetailDTO> {
+  requireScopes(auth, Scope.PATIENTS_WRITE);
+
+  logger.info('Updating patient', { patientId, expectedVersion: input.version });
+
+  const existing = await findPatient(auth, patientId);
+  if (existing.status === 'archived') {
+    throw new ConflictError('Archived patients cannot be edited; reactivate the patient first');
+  }
+
+  const { version, ...changes } = input;
+  const patient = await patientsRepository.update(
+    auth.clinicId,
+    patientId,
+    version,
+    changes,
+    auth.userId
+  );
+
+  return toPatientDetailDTO(patient);
+}
+
+/**
+ * Moves the patient to another status: active and inactive patients can be archived or
+ * switched between the two, archived patients can only be reactivated.
+ *
+ * @throws ConflictError if the transition is not allowed
+ * @throws VersionConflictError if the patient is no longer at `input.version`
+ */
+export async function changePatientStatus(
+  auth: AuthContext,
+  patientId: string,
+  input: ChangePatientStatusInput
+): Promise<PatientDetailDTO> {
+  requireScopes(auth, Scope.PATIENTS_WRITE);
 
-  logger.info('Listing patients for clinic', { clinicId: auth.clinicId });
+  logger.info('Changing patient status', {
+    patientId,
+    status: input.status,
+    expectedVersion: input.version,
+  });
 
-  const patients = await patientsRepository.listByClinic(auth.clinicId);
+  const existing = await findPatient(auth, patientId);
+  if (!STATUS_TRANSITIONS[existing.status].includes(input.status)) {
+    throw new ConflictError(
+      `Cannot change patient status from ${existing.status} to ${input.status}`
+    );
+  }
 
-  // Filter to only active patients by default
-  const activePatients = patients.filter((p) => p.status === 'active');
+  const patient = await patientsRepository.update(
+    auth.clinicId,
+    patientId,
+    input.version,
+    { status: input.status, statusReason: input.reason },
+    auth.userId
+  );
 
-  return activePatients.map(toPatientDTO);
+  return toPatientDetailDTO(patient);
 }
@@ -0,0 +1,148 @@
+import { Note } from '../types';
+import { logger } from '../lib/logger';
+import * as notesRepository from '../data/notes.repository';
+import * as clinicsRepository from '../data/clinics.repository';
+import * as attachmentsRepository from '../data/attachments.repository';
+import * as purgeRepository from '../data/purge.repository';
+
+const DEFAULT_RETENTION_DAYS = parseInt(process.env.DELETED_NOTE_RETENTION_DAYS || '30', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeOptions {
+  now?: Date;
+  pageSize?: number;
+  /** Checked before each page; return false to stop and leave a checkpoint for the next run */
+  shouldContinue?: () => boolean;
+}
+
+export interface PurgeSummary {
+  scanned: number;
+  purged: number;
+  retained: number;
+  /** Expired notes restored or deleted again since the scan read them, left as they are */
+  skipped: number;
+  failed: number;
+  completed: boolean;
+}
+
+/**
+ * Permanently removes soft-deleted notes whose clinic retention period has elapsed.
+ * Each expired note is first claimed, which fails if it was restored or deleted again
+ * since the scan and stops it from being restored from then on. Then the attachment
+ * objects and revision history are deleted, a tombstone is recorded and finally the note
+ * item itself is removed. Every step is idempotent, so a note left half-purged by a failed
+ * run is finished on the next one.
+ */
+export async function purgeDeletedNotes(options: PurgeOptions = {}): Promise<PurgeSummary> {
+  const now = options.now ?? new Date();
+  const shouldContinue = options.shouldContinue ?? ((): boolean => true);
+  const retentionByClinic = new Map<string, number>();
+  const summary: PurgeSummary = {
+    scanned: 0,
+    purged: 0,
+    retained: 0,
+    skipped: 0,
+    failed: 0,
+    completed: false,
+  };
+
+  let cursor = await purgeRepository.getCheckpoint();
+  logger.info('Purging deleted notes', { resumed: cursor !== undefined });
+
+  do {
+    const page = await notesRepository.scanDeleted(cursor, options.pageSize);
+
+    for (const note of page.items) {
+      summary.scanned++;
+
+      const retentionDays = await getRetentionDays(note.clinicId, retentionByClinic);
+      const expiresAt = new Date(note.deletedAt as string).getTime() + retentionDays * DAY_MS;
+
+      if (expiresAt > now.getTime()) {
+        summary.retained++;
+        continue;
+      }
+
+      try {
+        if (await purgeNote(note, now)) {
+          summary.purged++;
+        } else {
+          summary.skipped++;
+        }
+      } catch (err) {
+        summary.failed++;
+        logger.error('Failed to purge note', err as Error, {
+          clinicId: note.clinicId,
+          patientId: note.patientId,
+          noteId: note.noteId,
+        });
+      }
+    }
+
+    cursor = page.lastEvaluatedKey;
+    await purgeRepository.saveCheckpoint(cursor);
+  } while (cursor && shouldContinue());
+
+  summary.completed = cursor === undefined;
+  logger.info('Purge run finished', { ...summary });
+
+  return summary;
+}
+
+async function getRetentionDays(clinicId: string, cache: Map<string, number>): Promise<number> {
+  const cached = cache.get(clinicId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const clinic = await clinicsRepository.findById(clinicId);
+  const retentionDays = clinic?.deletedNoteRetentionDays ?? DEFAULT_RETENTION_DAYS;
+  cache.set(clinicId, retentionDays);
+
+  return retentionDays;
+}
+
+/** Purges a note as the scan read it; returns false if it has changed since */
+async function purgeNote(note: Note, now: Date): Promise<boolean> {
+  const { clinicId, patientId, noteId } = note;
+  const deletedAt = note.deletedAt as string;
+
+  const claimed = await notesRepository.claimForPurge(
+    clinicId,
+    patientId,
+    noteId,
+    note.studyDate,
+    deletedAt,
+    now.toISOString()
+  );
+  if (!claimed) {
+    logger.info('Note changed since the purge scan; skipped', { clinicId, patientId, noteId });
+    return false;
+  }
+
+  const objectsRemoved = await attachmentsRepository.deleteNoteObjects(clinicId, patientId, noteId);
+  const revisionsRemoved = await notesRepository.hardDeleteRevisions(clinicId, patientId, noteId);
+
+  await purgeRepository.recordTombstone(
+    {
+      noteId,
+      clinicId,
+      patientId,
+      studyDate: note.studyDate,
+      noteType: note.noteType,
+      createdAt: note.createdAt,
+      createdBy: note.createdBy,
+      deletedAt,
+      deletedBy: note.deletedBy as string,
+      attachmentIds: note.attachments.map((attachment) => attachment.id),
+    },
+    now.toISOString(),
+    objectsRemoved,
+    revisionsRemoved
+  );
+
+  await notesRepository.hardDelete(clinicId, patientId, noteId, note.studyDate, deletedAt);
+
+  logger.info('Note purged', { clinicId, patientId, noteId, objectsRemoved, revisionsRemoved });
+  return true;
+}
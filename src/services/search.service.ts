@@ -0,0 +1,438 @@
+import { Note, NoteSearchSnippet, PaginatedResponse, TagMatch } from '../types';
+import { TooManyRequestsError, ValidationError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import {
+  SearchQuery,
+  analyzeNote,
+  buildSnippet,
+  isEmptySearchQuery,
+  matchesPhrase,
+  parseSearchQuery,
+} from '../lib/text-search';
+import {
+  CursorBinding,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  SearchCursorPosition,
+} from '../data/cursor';
+import {
+  getSearchIndex,
+  SEARCH_INDEX_VERSION,
+  SearchIndexStats,
+  SearchPosting,
+  SearchScope,
+} from '../data/search-index';
+import * as notesRepository from '../data/notes.repository';
+import * as searchPendingRepository from '../data/search-pending.repository';
+import { PendingIndexChange } from '../data/search-pending.repository';
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BOOST = 1.5;
+const PREFIX_WEIGHT = 0.8;
+
+// Longer than a function can run, so a lease is only ever left behind by a crash
+const BUILD_LEASE_SECONDS = 60;
+const BUILD_RETRY_AFTER_SECONDS = 5;
+
+export interface SearchNotesOptions {
+  q: string;
+  limit: number;
+  cursor?: string;
+  studyDateFrom?: string;
+  studyDateTo?: string;
+  noteType?: string;
+  createdBy?: string;
+  tag?: string;
+  tags?: string[];
+  tagMatch?: TagMatch;
+  hasAttachments?: boolean;
+}
+
+export interface NoteSearchHit {
+  note: Note;
+  score: number;
+  snippet?: NoteSearchSnippet;
+}
+
+interface Candidate {
+  noteId: string;
+  studyDate: string;
+  tags: string[];
+  noteType?: string;
+  createdBy: string;
+  attachmentCount: number;
+  score: number;
+}
+
+function scopeOf(note: Note): SearchScope {
+  return { clinicId: note.clinicId, patientId: note.patientId };
+}
+
+/**
+ * Applies a note write to the index: the note is read again and indexed as it now is, or
+ * removed if it is gone, then the marker is cleared.
+ */
+async function applyPendingChange(
+  scope: SearchScope,
+  change: PendingIndexChange,
+  building: boolean
+): Promise<void> {
+  const index = getSearchIndex();
+  const note = await notesRepository.findById(
+    scope.clinicId,
+    scope.patientId,
+    change.noteId,
+    change.studyDate,
+    true
+  );
+
+  if (note) {
+    await index.putDocument(scope, analyzeNote(note));
+  } else {
+    await index.removeDocument(scope, change.noteId);
+  }
+
+  // A build in progress may have listed the note before this write and index it as it
+  // was; the marker stays so the build applies it once its listing is done
+  if (!building && (await index.getStats(scope)).building) {
+    return;
+  }
+  await searchPendingRepository.clear(scope, change);
+}
+
+/**
+ * Every note write leaves a pending marker in its own transaction. It is applied right
+ * after the write; if that fails the marker stays and the next search of the patient
+ * applies it.
+ */
+export async function syncNoteIndex(note: Note): Promise<void> {
+  const scope = scopeOf(note);
+
+  try {
+    const change = await searchPendingRepository.find(scope, note.noteId);
+    if (change) {
+      await applyPendingChange(scope, change, false);
+    }
+  } catch (err) {
+    logger.error('Search index update left pending', err as Error, { noteId: note.noteId });
+  }
+}
+
+/** @returns the number of changes applied */
+async function applyPendingChanges(scope: SearchScope, building: boolean): Promise<number> {
+  let applied = 0;
+
+  for (const change of await searchPendingRepository.list(scope)) {
+    if (building) {
+      await applyPendingChange(scope, change, true);
+      applied++;
+      continue;
+    }
+    // One failing change must not fail the search; it is retried by the next one
+    try {
+      await applyPendingChange(scope, change, false);
+      applied++;
+    } catch (err) {
+      logger.error('Search index update left pending', err as Error, { noteId: change.noteId });
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Notes written before search existed are indexed the first time the patient is searched.
+ * An index built by an older SEARCH_INDEX_VERSION is rebuilt the same way. Only the caller
+ * holding the build lease builds; others are asked to retry.
+ */
+async function ensureIndexed(scope: SearchScope): Promise<SearchIndexStats> {
+  const index = getSearchIndex();
+  const stats = await index.getStats(scope);
+  if (stats.initialized && stats.version >= SEARCH_INDEX_VERSION) {
+    return (await applyPendingChanges(scope, false)) > 0 ? index.getStats(scope) : stats;
+  }
+
+  if (!(await index.claimBuild(scope, BUILD_LEASE_SECONDS))) {
+    throw new TooManyRequestsError(
+      'The search index of this patient is being built',
+      BUILD_RETRY_AFTER_SECONDS
+    );
+  }
+
+  let indexed = 0;
+  try {
+    let cursor: string | undefined;
+    do {
+      const page = await notesRepository.list(scope.clinicId, scope.patientId, {
+        cursor,
+        limit: 100,
+      });
+      for (const note of page.items) {
+        await index.putDocument(scope, analyzeNote(note));
+        indexed++;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    // Writes made while the notes were listed were left pending for the build
+    await applyPendingChanges(scope, true);
+    await index.markInitialized(scope, SEARCH_INDEX_VERSION);
+  } catch (err) {
+    await index.releaseBuild(scope);
+    throw err;
+  }
+
+  logger.info('Search index built', {
+    patientId: scope.patientId,
+    indexed,
+    version: SEARCH_INDEX_VERSION,
+  });
+
+  return index.getStats(scope);
+}
+
+function bm25(posting: SearchPosting, documentFrequency: number, stats: SearchIndexStats): number {
+  const documentCount = Math.max(stats.documentCount, documentFrequency);
+  const averageLength = stats.totalLength / Math.max(stats.documentCount, 1) || 1;
+  const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const tf = posting.frequency;
+  return (idf * (tf * (K1 + 1))) / (tf + K1 * (1 - B + (B * posting.length) / averageLength));
+}
+
+/** Score per note for one clause; notes absent from the map do not match the clause */
+type ClauseScores = Map<string, number>;
+
+function scoreTerm(postings: SearchPosting[], stats: SearchIndexStats): ClauseScores {
+  const scores: ClauseScores = new Map();
+  for (const posting of postings) {
+    scores.set(posting.noteId, bm25(posting, postings.length, stats));
+  }
+  return scores;
+}
+
+function scorePrefix(postings: SearchPosting[], stats: SearchIndexStats): ClauseScores {
+  const frequencyByTerm = new Map<string, number>();
+  for (const posting of postings) {
+    frequencyByTerm.set(posting.term, (frequencyByTerm.get(posting.term) ?? 0) + 1);
+  }
+
+  // A prefix scores as its best-matching expansion in each note
+  const scores: ClauseScores = new Map();
+  for (const posting of postings) {
+    const score = PREFIX_WEIGHT * bm25(posting, frequencyByTerm.get(posting.term) ?? 1, stats);
+    scores.set(posting.noteId, Math.max(scores.get(posting.noteId) ?? 0, score));
+  }
+  return scores;
+}
+
+function scorePhrase(
+  phrase: string[],
+  postingsByTerm: Map<string, SearchPosting[]>,
+  stats: SearchIndexStats
+): ClauseScores {
+  const byNote = new Map<string, Map<string, SearchPosting>>();
+  for (const term of new Set(phrase)) {
+    for (const posting of postingsByTerm.get(term) ?? []) {
+      const notePostings = byNote.get(posting.noteId) ?? new Map<string, SearchPosting>();
+      notePostings.set(term, posting);
+      byNote.set(posting.noteId, notePostings);
+    }
+  }
+
+  const scores: ClauseScores = new Map();
+  for (const [noteId, notePostings] of byNote) {
+    const positions = new Map([...notePostings].map(([term, p]) => [term, p.positions]));
+    if (!matchesPhrase(phrase, positions)) {
+      continue;
+    }
+    let score = 0;
+    for (const [term, posting] of notePostings) {
+      score += bm25(posting, postingsByTerm.get(term)?.length ?? 1, stats);
+    }
+    scores.set(noteId, PHRASE_BOOST * score);
+  }
+  return scores;
+}
+
+async function rankCandidates(
+  scope: SearchScope,
+  query: SearchQuery,
+  stats: SearchIndexStats
+): Promise<Candidate[]> {
+  const index = getSearchIndex();
+  const postingsByTerm = new Map<string, SearchPosting[]>();
+  const phraseTerms = query.phrases.flat();
+
+  for (const term of new Set([...query.terms, ...phraseTerms])) {
+    postingsByTerm.set(term, await index.findPostings(scope, term, false));
+  }
+  const postingsByPrefix = new Map<string, SearchPosting[]>();
+  for (const prefix of query.prefixes) {
+    postingsByPrefix.set(prefix, await index.findPostings(scope, prefix, true));
+  }
+
+  const clauses: ClauseScores[] = [
+    ...query.terms.map((term) => scoreTerm(postingsByTerm.get(term) ?? [], stats)),
+    ...query.prefixes.map((prefix) => scorePrefix(postingsByPrefix.get(prefix) ?? [], stats)),
+    ...query.phrases.map((phrase) => scorePhrase(phrase, postingsByTerm, stats)),
+  ];
+
+  // Note metadata travels on every posting; keep one copy per note
+  const metadata = new Map<string, SearchPosting>();
+  for (const postings of [...postingsByTerm.values(), ...postingsByPrefix.values()]) {
+    for (const posting of postings) {
+      metadata.set(posting.noteId, posting);
+    }
+  }
+
+  const [first, ...rest] = clauses;
+  const candidates: Candidate[] = [];
+  for (const [noteId, firstScore] of first ?? []) {
+    let score = firstScore;
+    let matchesAll = true;
+    for (const clause of rest) {
+      const clauseScore = clause.get(noteId);
+      if (clauseScore === undefined) {
+        matchesAll = false;
+        break;
+      }
+      score += clauseScore;
+    }
+    const posting = metadata.get(noteId);
+    if (matchesAll && posting) {
+      candidates.push({
+        noteId,
+        studyDate: posting.studyDate,
+        tags: posting.tags,
+        noteType: posting.noteType,
+        createdBy: posting.createdBy,
+        attachmentCount: posting.attachmentCount,
+        // Rounded so the order (and cursors built from it) survive a JSON round trip
+        score: Math.round(score * 1e6) / 1e6,
+      });
+    }
+  }
+
+  return candidates.sort(compareCandidates);
+}
+
+function matchesFilters(candidate: Candidate, options: SearchNotesOptions): boolean {
+  const { studyDateFrom, studyDateTo, noteType, createdBy, tag, tags, hasAttachments } = options;
+
+  if (
+    (studyDateFrom && candidate.studyDate < studyDateFrom) ||
+    (studyDateTo && candidate.studyDate > studyDateTo) ||
+    (noteType && candidate.noteType !== noteType) ||
+    (createdBy && candidate.createdBy !== createdBy) ||
+    (tag && !candidate.tags.includes(tag))
+  ) {
+    return false;
+  }
+  if (tags && tags.length > 0) {
+    const hasTag = (value: string): boolean => candidate.tags.includes(value);
+    if (options.tagMatch === 'all' ? !tags.every(hasTag) : !tags.some(hasTag)) {
+      return false;
+    }
+  }
+  return hasAttachments === undefined || hasAttachments === candidate.attachmentCount > 0;
+}
+
+function compareCandidates(a: SearchCursorPosition, b: SearchCursorPosition): number {
+  if (a.score !== b.score) {
+    return b.score - a.score;
+  }
+  if (a.studyDate !== b.studyDate) {
+    return a.studyDate < b.studyDate ? 1 : -1;
+  }
+  return a.noteId < b.noteId ? -1 : a.noteId > b.noteId ? 1 : 0;
+}
+
+function buildNoteSnippet(note: Note, query: SearchQuery): NoteSearchSnippet | undefined {
+  const terms = new Set([...query.terms, ...query.phrases.flat()]);
+  const isMatch = (term: string): boolean =>
+    terms.has(term) || query.prefixes.some((prefix) => term.startsWith(prefix));
+
+  const content = buildSnippet(note.content, isMatch);
+  if (content) {
+    return { field: 'content', ...content };
+  }
+  const title = buildSnippet(note.title, isMatch);
+  return title ? { field: 'title', ...title } : undefined;
+}
+
+/**
+ * Ranked full-text search over one patient's notes. Every clause of the query must match;
+ * results are ordered by BM25 score, then newest study first. Filters are applied before
+ * pagination so each page is a slice of the complete result set.
+ */
+export async function searchNotes(
+  clinicId: string,
+  patientId: string,
+  options: SearchNotesOptions
+): Promise<PaginatedResponse<NoteSearchHit>> {
+  const query = parseSearchQuery(options.q);
+  if (isEmptySearchQuery(query)) {
+    throw new ValidationError('Search query has no searchable terms');
+  }
+
+  const { studyDateFrom, studyDateTo, tag, tags } = options;
+  const cursorBinding: CursorBinding = {
+    clinicId,
+    patientId,
+    list: 'note-search',
+    filters: {
+      q: options.q,
+      studyDateFrom,
+      studyDateTo,
+      noteType: options.noteType,
+      createdBy: options.createdBy,
+      tag,
+      tags,
+      tagMatch: tags ? (options.tagMatch ?? 'any') : undefined,
+      hasAttachments: options.hasAttachments,
+    },
+  };
+  const after = options.cursor ? decodeSearchCursor(options.cursor, cursorBinding) : undefined;
+
+  const scope: SearchScope = { clinicId, patientId };
+  const stats = await ensureIndexed(scope);
+
+  const ranked = (await rankCandidates(scope, query, stats)).filter((candidate) =>
+    matchesFilters(candidate, options)
+  );
+
+  const remaining = after
+    ? ranked.filter((candidate) => compareCandidates(candidate, after) > 0)
+    : ranked;
+
+  const page = remaining.slice(0, options.limit);
+  const hasMore = remaining.length > options.limit;
+
+  const notes = await notesRepository.findManyByIds(clinicId, patientId, page);
+  const notesById = new Map(notes.map((note) => [note.noteId, note]));
+
+  const items: NoteSearchHit[] = [];
+  for (const candidate of page) {
+    // A note deleted since it was indexed is simply skipped
+    const note = notesById.get(candidate.noteId);
+    if (note) {
+      items.push({ note, score: candidate.score, snippet: buildNoteSnippet(note, query) });
+    }
+  }
+
+  const last = page[page.length - 1];
+  return {
+    items,
+    nextCursor:
+      hasMore && last
+        ? encodeSearchCursor(
+            { score: last.score, studyDate: last.studyDate, noteId: last.noteId },
+            cursorBinding
+          )
+        : undefined,
+    hasMore,
+    total: ranked.length,
+  };
+}
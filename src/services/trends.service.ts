@@ -0,0 +1,42 @@
+import { AuthContext, Scope } from '../types/auth';
+import { Note, PatientTrendsDTO, PatientTrendsQuery, STUDY_RESULT_NOTE_TYPE } from '../types';
+import { requireScopes } from '../lib/auth';
+import { logger } from '../lib/logger';
+import { assertPatientAccess } from '../lib/patient-access';
+import { buildStudyTrends } from '../lib/study-trends';
+import * as notesRepository from '../data/notes.repository';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Trends of the study metrics across the patient's study_result notes, optionally limited
+ * to a studyDate range.
+ */
+export async function getPatientTrends(
+  auth: AuthContext,
+  patientId: string,
+  query: PatientTrendsQuery
+): Promise<PatientTrendsDTO> {
+  requireScopes(auth, Scope.NOTES_READ);
+  await assertPatientAccess(auth, patientId);
+
+  logger.info('Getting patient trends', { patientId, ...query });
+
+  const notes: Note[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await notesRepository.list(auth.clinicId, patientId, {
+      cursor,
+      limit: PAGE_SIZE,
+      sort: 'studyDate',
+      noteType: STUDY_RESULT_NOTE_TYPE,
+      studyDateFrom: query.studyDateFrom,
+      studyDateTo: query.studyDateTo,
+      attributes: ['studyDate', 'studyMetrics'],
+    });
+    notes.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return { patientId, studyCount: notes.length, ...buildStudyTrends(notes) };
+}
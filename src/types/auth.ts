@@ -2,7 +2,11 @@ export enum Scope {
   NOTES_READ = 'notes:read',
   NOTES_WRITE = 'notes:write',
   NOTES_DELETE = 'notes:delete',
+  NOTES_COSIGN = 'notes:cosign',
   ATTACHMENTS_WRITE = 'attachments:write',
+  TEMPLATES_WRITE = 'templates:write',
+  PATIENTS_READ = 'patients:read',
+  PATIENTS_WRITE = 'patients:write',
 }
 
 export interface JWTClaims {
@@ -7,6 +7,65 @@ export interface Attachment {
   uploadedAt: string;
 }
 
+export interface NoteSignature {
+  signedAt: string;
+  signedBy: string;
+  signedByName: string;
+  /** SHA-256 of the clinical content at the moment of signing */
+  contentHash: string;
+}
+
+export interface NoteAddendum {
+  addendumId: string;
+  content: string;
+  signedAt: string;
+  signedBy: string;
+  signedByName: string;
+  contentHash: string;
+}
+
+export type CosignStatus = 'pending' | 'cosigned' | 'rejected';
+
+export interface NoteCosignature {
+  status: CosignStatus;
+  requestedAt: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  reviewedByName?: string;
+  /** Reviewer's comment when the note is returned to its author */
+  reason?: string;
+}
+
+/** The note type that carries studyMetrics */
+export const STUDY_RESULT_NOTE_TYPE = 'study_result';
+
+/** Key results of a sleep study, as read from the scoring report */
+export interface StudyMetrics {
+  /** Apnea-hypopnea index, events per hour of sleep */
+  ahi?: number;
+  /** Respiratory disturbance index (apneas, hypopneas and RERAs), events per hour of sleep */
+  rdi?: number;
+  /** Oxygen desaturation index, events per hour of sleep */
+  odi?: number;
+  /** Lowest oxygen saturation (SpO2) during sleep, percent */
+  oxygenNadir?: number;
+  /** Total sleep time as a share of time in bed, percent */
+  sleepEfficiency?: number;
+  /** Total sleep time, minutes */
+  totalSleepTimeMinutes?: number;
+}
+
+/** Obstructive sleep apnea severity by AHI (AASM): <5, 5-15, 15-30, >=30 events per hour */
+export type OsaSeverity = 'normal' | 'mild' | 'moderate' | 'severe';
+
+/** JSON Merge Patch of StudyMetrics: a member set to null is removed */
+export type StudyMetricsPatch = { [K in keyof StudyMetrics]?: StudyMetrics[K] | null };
+
+export interface StudyMetricsDTO extends StudyMetrics {
+  /** Derived from ahi; absent without one */
+  osaSeverity?: OsaSeverity;
+}
+
 export interface Note {
   noteId: string;
   clinicId: string;
@@ -17,6 +76,8 @@ export interface Note {
   noteType?: string;
   tags?: string[];
   attachments: Attachment[];
+  /** Only on study_result notes */
+  studyMetrics?: StudyMetrics;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
@@ -26,6 +87,11 @@ export interface Note {
   version: number;
   deletedAt?: string;
   deletedBy?: string;
+  restoredAt?: string;
+  restoredBy?: string;
+  signature?: NoteSignature;
+  addenda?: NoteAddendum[];
+  cosignature?: NoteCosignature;
 }
 
 export interface NoteDTO {
@@ -37,11 +103,117 @@ export interface NoteDTO {
   noteType?: string;
   tags?: string[];
   attachments: Attachment[];
+  studyMetrics?: StudyMetricsDTO;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
   createdByName: string;
   version: number;
+  signature?: NoteSignature;
+  addenda: NoteAddendum[];
+  cosignature?: NoteCosignature;
+}
+
+/** Compact list entry for timeline views (`view=summary`) */
+export interface NoteSummaryDTO {
+  noteId: string;
+  patientId: string;
+  studyDate: string;
+  title: string;
+  noteType?: string;
+  tags?: string[];
+  /** Start of the content on one line, cut at a word boundary */
+  excerpt: string;
+  attachmentCount: number;
+  createdBy: string;
+  createdByName: string;
+  updatedAt: string;
+  version: number;
+}
+
+/** Fields selectable with `fields=`; excerpt is derived from content */
+export type NoteField = keyof NoteDTO | 'excerpt';
+
+/** Sparse fieldset of a note; noteId is always present */
+export type NoteFieldsDTO = Partial<NoteDTO> & { noteId: string; excerpt?: string };
+
+export type NoteListView = 'full' | 'summary';
+
+export type NoteListItemDTO = NoteDTO | NoteSummaryDTO | NoteFieldsDTO;
+
+export interface NoteSearchSnippet {
+  field: 'title' | 'content';
+  text: string;
+  /** Character ranges of matched terms within text */
+  highlights: { start: number; end: number }[];
+}
+
+export interface NoteSearchResultDTO extends NoteDTO {
+  search: {
+    score: number;
+    snippet?: NoteSearchSnippet;
+  };
+}
+
+export interface DeletedNoteDTO extends NoteDTO {
+  deletedAt: string;
+  deletedBy: string;
+}
+
+export interface NoteSnapshot {
+  version: number;
+  studyDate: string;
+  title: string;
+  content: string;
+  noteType?: string;
+  tags: string[];
+  attachments: Attachment[];
+  studyMetrics?: StudyMetrics;
+  updatedAt: string;
+  updatedBy: string;
+  updatedByName: string;
+  // Workflow state, so every field a revision lists in changedFields is on its snapshot
+  signature?: NoteSignature;
+  addenda?: NoteAddendum[];
+  cosignature?: NoteCosignature;
+  deletedAt?: string;
+}
+
+export interface NoteRevision {
+  noteId: string;
+  clinicId: string;
+  patientId: string;
+  version: number;
+  changedAt: string;
+  changedBy: string;
+  changedByName: string;
+  changedFields: string[];
+  previous: NoteSnapshot;
+}
+
+export interface NoteVersionSummaryDTO {
+  version: number;
+  updatedAt: string;
+  updatedBy: string;
+  updatedByName: string;
+  changedFields?: string[];
+  current: boolean;
+}
+
+export interface NoteVersionDTO extends NoteVersionSummaryDTO {
+  noteId: string;
+  patientId: string;
+  studyDate: string;
+  title: string;
+  content: string;
+  noteType?: string;
+  tags: string[];
+  attachments: Attachment[];
+  studyMetrics?: StudyMetricsDTO;
+  signature?: NoteSignature;
+  addenda: NoteAddendum[];
+  cosignature?: NoteCosignature;
+  deletedAt?: string;
 }
 
 export interface CreateNoteInput {
@@ -51,30 +223,429 @@ export interface CreateNoteInput {
   noteType?: string;
   tags?: string[];
   attachments?: Attachment[];
+  /** Requires noteType study_result */
+  studyMetrics?: StudyMetrics;
+}
+
+/** Create body as sent by clients: title and content may come from a template instead */
+export interface CreateNoteRequest extends Omit<CreateNoteInput, 'title' | 'content'> {
+  title?: string;
+  content?: string;
+  /** Prefills the title, content, note type and tags that are not sent */
+  templateId?: string;
+}
+
+/** Field values of the version an edit started from, sent back for merging on a conflict */
+export interface NoteMergeBase {
+  studyDate?: string;
+  title?: string;
+  content?: string;
+  noteType?: string | null;
+  tags?: string[];
+  attachments?: Attachment[];
+  studyMetrics?: StudyMetrics | null;
 }
 
 export interface UpdateNoteInput {
+  studyDate?: string;
   title?: string;
   content?: string;
-  noteType?: string;
+  /** null removes the note type */
+  noteType?: string | null;
+  /** An empty array clears all tags */
   tags?: string[];
   attachments?: Attachment[];
+  /** Replaces all metrics; null removes them */
+  studyMetrics?: StudyMetrics | null;
+  version: number;
+  /** Defaults to the stored copy of `version` for fields not sent */
+  base?: NoteMergeBase;
+  /** On a version conflict, apply the edit anyway if it does not overlap the other changes */
+  autoMerge?: boolean;
+}
+
+/**
+ * JSON Merge Patch (RFC 7396) body for a note: absent members are left unchanged and
+ * null removes optional members. Required members (title, content, studyDate) cannot be null.
+ */
+export interface PatchNoteInput {
+  studyDate?: string;
+  title?: string;
+  content?: string;
+  noteType?: string | null;
+  tags?: string[] | null;
+  attachments?: Attachment[] | null;
+  /** Merged member by member; null removes all metrics */
+  studyMetrics?: StudyMetricsPatch | null;
   version: number;
+  base?: NoteMergeBase;
+  autoMerge?: boolean;
+}
+
+export type LineDiffType = 'equal' | 'added' | 'removed';
+
+/** A run of consecutive lines that were kept, added or removed */
+export interface LineDiffHunk {
+  type: LineDiffType;
+  lines: string[];
+}
+
+/** A run of text that was kept, added or removed, whitespace included */
+export interface WordDiffHunk {
+  type: LineDiffType;
+  text: string;
+}
+
+/**
+ * A region both sides changed differently. `baseLine` is the region's first line in the base
+ * (1-based); for lines inserted by both sides, the line they follow (0 at the start).
+ */
+export interface TextMergeConflict {
+  baseLine: number;
+  base: string[];
+  yours: string[];
+  current: string[];
+}
+
+/** Fields a user edits, which merges and comparisons work on */
+export type NoteEditableField =
+  | 'studyDate'
+  | 'title'
+  | 'content'
+  | 'noteType'
+  | 'tags'
+  | 'attachments'
+  | 'studyMetrics';
+
+/**
+ * How a field was changed since the base version: only by the client (`yours`), only on
+ * the server (`current`), identically by both (`same`), by both on separate lines of the
+ * content (`merged`), or by both in a way that needs a person to decide (`conflict`).
+ */
+export type NoteFieldMergeResult = 'yours' | 'current' | 'same' | 'merged' | 'conflict';
+
+export interface NoteFieldMergeDTO {
+  field: NoteEditableField;
+  result: NoteFieldMergeResult;
+  /** Absent when the base value is not known */
+  base?: unknown;
+  /** Absent when the client did not send the field */
+  yours?: unknown;
+  current: unknown;
+  /** The combined content when result is `merged` */
+  merged?: unknown;
+}
+
+export interface NoteContentDiffDTO {
+  /** Base to the client's content, or current to the client's content if the base is not known */
+  yours: LineDiffHunk[];
+  /** Base to the current content; absent when the base is not known */
+  current?: LineDiffHunk[];
+  conflicts: TextMergeConflict[];
+}
+
+/** Details of a 409/412 version conflict on a note update */
+export interface NoteConflictDTO {
+  expectedVersion: number;
+  current: NoteDTO;
+  /** Fields changed on either side since the base version */
+  fields: NoteFieldMergeDTO[];
+  /** Line diffs of the content, when the client sent one */
+  content?: NoteContentDiffDTO;
+  /** Whether `autoMerge` would apply the edit */
+  mergeable: boolean;
+}
+
+/** Members of a list field in the left note only, the right note only, or both */
+export interface NoteListComparison<T> {
+  added: T[];
+  removed: T[];
+  unchanged: T[];
 }
 
+/** Differences from the left note to the right one, e.g. from an earlier visit to a later */
+export interface NoteComparisonDTO {
+  left: NoteDTO;
+  right: NoteDTO;
+  changedFields: NoteEditableField[];
+  title: { changed: boolean; words: WordDiffHunk[] };
+  content: { changed: boolean; lines: LineDiffHunk[]; words: WordDiffHunk[] };
+  noteType: { changed: boolean; left?: string; right?: string };
+  tags: NoteListComparison<string>;
+  /** Attachments are matched by file name, since each note stores its own copies */
+  attachments: NoteListComparison<Attachment>;
+  studyMetrics: { changed: boolean; left?: StudyMetricsDTO; right?: StudyMetricsDTO };
+}
+
+export interface SignNoteInput {
+  version: number;
+}
+
+export interface CreateAddendumInput {
+  content: string;
+}
+
+export interface CosignNoteInput {
+  version: number;
+}
+
+export interface RejectCosignInput {
+  version: number;
+  reason: string;
+}
+
+export interface CosignQueueEntry {
+  noteId: string;
+  clinicId: string;
+  patientId: string;
+  studyDate: string;
+  title: string;
+  noteType?: string;
+  createdBy: string;
+  createdByName: string;
+  requestedAt: string;
+}
+
+export interface CosignQueueItemDTO {
+  noteId: string;
+  patientId: string;
+  studyDate: string;
+  title: string;
+  noteType?: string;
+  createdBy: string;
+  createdByName: string;
+  requestedAt: string;
+}
+
+export interface ListCosignQueueQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ListClinicNotesQuery {
+  cursor?: string;
+  limit?: number;
+  noteType?: string;
+  studyDateFrom?: string;
+  studyDateTo?: string;
+  createdBy?: string;
+  tag?: string;
+  q?: string;
+}
+
+export interface ListDeletedNotesQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+/** Field to order a patient's notes by; a leading '-' means descending */
+export type NoteListSort = 'studyDate' | '-studyDate' | 'updatedAt' | '-updatedAt';
+
+/** Whether a note must carry any or all of the requested tags */
+export type TagMatch = 'any' | 'all';
+
 export interface ListNotesQuery {
   cursor?: string;
   limit?: number;
+  sort?: NoteListSort;
   studyDateFrom?: string;
   studyDateTo?: string;
+  noteType?: string;
+  createdBy?: string;
   tag?: string;
+  tags?: string[];
+  tagMatch?: TagMatch;
+  hasAttachments?: boolean;
   q?: string;
+  view?: NoteListView;
+  fields?: NoteField[];
+  includeCounts?: boolean;
 }
 
 export interface PaginatedResponse<T> {
   items: T[];
   nextCursor?: string;
   hasMore: boolean;
+  /** Items matching the query across all pages; only when counts are requested */
+  total?: number;
+}
+
+/** Number of the patient's live notes per noteType, tag and study year */
+export interface NoteFacets {
+  noteType: Record<string, number>;
+  tag: Record<string, number>;
+  year: Record<string, number>;
+}
+
+export interface NoteListResponse extends PaginatedResponse<NoteListItemDTO> {
+  facets?: NoteFacets;
+}
+
+export interface NoteTemplate {
+  templateId: string;
+  clinicId: string;
+  noteType: string;
+  name: string;
+  /** Default note title; falls back to the template name */
+  title?: string;
+  content: string;
+  tags?: string[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+  version: number;
+}
+
+export interface NoteTemplateDTO {
+  templateId: string;
+  noteType: string;
+  name: string;
+  title?: string;
+  content: string;
+  tags: string[];
+  /** Placeholders used in the title and content, e.g. `patient.fullName` */
+  variables: string[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  version: number;
+}
+
+export interface CreateNoteTemplateInput {
+  noteType: string;
+  name: string;
+  title?: string;
+  content: string;
+  tags?: string[];
+}
+
+/** The note type is part of the template's key and cannot change */
+export interface UpdateNoteTemplateInput {
+  name?: string;
+  /** null removes the default title */
+  title?: string | null;
+  content?: string;
+  tags?: string[];
+  version: number;
+}
+
+export interface ListNoteTemplatesQuery {
+  noteType?: string;
+}
+
+/** Study metrics followed over time */
+export type TrendMetric = 'ahi' | 'odi' | 'oxygenNadir' | 'sleepEfficiency';
+
+export type TrendDirection = 'improving' | 'worsening' | 'stable' | 'insufficient_data';
+
+export interface TrendPointDTO {
+  noteId: string;
+  studyDate: string;
+  value: number;
+  /** Change from the previous study; absent on the first */
+  change?: number;
+}
+
+export interface MetricTrendDTO {
+  metric: TrendMetric;
+  unit: string;
+  /** One point per study_result note with this metric, oldest first */
+  points: TrendPointDTO[];
+  first?: number;
+  latest?: number;
+  /** latest - first */
+  change?: number;
+  /** change relative to first, in percent; absent when first is 0 */
+  percentChange?: number;
+  /** Least-squares slope over the study dates, in units per year */
+  slopePerYear?: number;
+  /** From the first to the latest study, allowing for the metric's significance threshold */
+  direction: TrendDirection;
+  /** The latest study is worse than the previous one by at least the threshold */
+  significantWorsening: boolean;
+}
+
+export interface PatientTrendsDTO {
+  patientId: string;
+  /** study_result notes in the range, with or without metrics */
+  studyCount: number;
+  metrics: MetricTrendDTO[];
+  /** Metrics with significant worsening at the latest study */
+  worsening: TrendMetric[];
+  /** Severity at the latest study with an AHI */
+  latestOsaSeverity?: OsaSeverity;
+}
+
+export interface PatientTrendsQuery {
+  studyDateFrom?: string;
+  studyDateTo?: string;
+}
+
+/** One night of PAP device usage, as exported by the device or its cloud service */
+export interface ComplianceRecord {
+  /** The date the night started, YYYY-MM-DD */
+  date: string;
+  usageMinutes: number;
+  /** Residual AHI on therapy, events per hour */
+  residualAhi?: number;
+  /** Leak, L/min */
+  leak?: number;
+  /** Pressure, cm H2O */
+  pressure?: number;
+}
+
+export interface ComplianceImportResult {
+  patientId: string;
+  /** Nights written; a night that was already stored is replaced */
+  imported: number;
+  from: string;
+  to: string;
+}
+
+export type ComplianceStatus = 'pass' | 'fail' | 'insufficient_data';
+
+export interface ComplianceWindowDTO {
+  start: string;
+  end: string;
+  /** Nights with at least the minimum usage; nights without a record count as unused */
+  nightsUsed: number;
+  percentUsed: number;
+  compliant: boolean;
+}
+
+export interface ComplianceReportDTO {
+  patientId: string;
+  from: string;
+  to: string;
+  criteria: {
+    minUsageMinutes: number;
+    minPercentNights: number;
+    windowDays: number;
+  };
+  /** pass when any window in the range is compliant */
+  status: ComplianceStatus;
+  /** The window with the most nights used, earliest first on a tie */
+  bestWindow?: ComplianceWindowDTO;
+  /** Every 30-night window within the range, one starting on each night */
+  windows: ComplianceWindowDTO[];
+  summary: {
+    nights: number;
+    nightsWithData: number;
+    nightsUsed: number;
+    percentUsed: number;
+    /** Over every night of the range */
+    averageUsageMinutes: number;
+    averageResidualAhi?: number;
+    averageLeak?: number;
+    averagePressure?: number;
+  };
+  records: ComplianceRecord[];
+}
+
+export interface ComplianceReportQuery {
+  from?: string;
+  to?: string;
 }
 
 export interface PresignUploadInput {
@@ -97,6 +668,27 @@ export interface PresignDownloadResponse {
   expiresIn: number;
 }
 
+export function classifyOsaSeverity(ahi: number): OsaSeverity {
+  if (ahi >= 30) {
+    return 'severe';
+  }
+  if (ahi >= 15) {
+    return 'moderate';
+  }
+  return ahi >= 5 ? 'mild' : 'normal';
+}
+
+export function toStudyMetricsDTO(
+  studyMetrics: StudyMetrics | undefined
+): StudyMetricsDTO | undefined {
+  if (!studyMetrics) {
+    return undefined;
+  }
+  return studyMetrics.ahi === undefined
+    ? studyMetrics
+    : { ...studyMetrics, osaSeverity: classifyOsaSeverity(studyMetrics.ahi) };
+}
+
 export function toNoteDTO(note: Note): NoteDTO {
   return {
     noteId: note.noteId,
@@ -107,10 +699,140 @@ export function toNoteDTO(note: Note): NoteDTO {
     noteType: note.noteType,
     tags: note.tags,
     attachments: note.attachments,
+    studyMetrics: toStudyMetricsDTO(note.studyMetrics),
     createdAt: note.createdAt,
     updatedAt: note.updatedAt,
     createdBy: note.createdBy,
     createdByName: note.createdByName,
     version: note.version,
+    signature: note.signature,
+    addenda: note.addenda ?? [],
+    cosignature: note.cosignature,
+  };
+}
+
+const NOTE_EXCERPT_LENGTH = 200;
+
+export function buildNoteExcerpt(content: string, maxLength = NOTE_EXCERPT_LENGTH): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  // Cut mid-word only when the first word is longer than half the excerpt
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
+
+export function toNoteSummaryDTO(note: Note): NoteSummaryDTO {
+  return {
+    noteId: note.noteId,
+    patientId: note.patientId,
+    studyDate: note.studyDate,
+    title: note.title,
+    noteType: note.noteType,
+    tags: note.tags,
+    excerpt: buildNoteExcerpt(note.content),
+    attachmentCount: note.attachments.length,
+    createdBy: note.createdBy,
+    createdByName: note.createdByName,
+    updatedAt: note.updatedAt,
+    version: note.version,
+  };
+}
+
+export function toNoteFieldsDTO(note: Note, fields: NoteField[]): NoteFieldsDTO {
+  const dto = toNoteDTO(note);
+  const result: NoteFieldsDTO = { noteId: note.noteId };
+
+  for (const field of fields) {
+    if (field === 'excerpt') {
+      result.excerpt = buildNoteExcerpt(note.content);
+    } else {
+      Object.assign(result, { [field]: dto[field] });
+    }
+  }
+
+  return result;
+}
+
+export function toCosignQueueItemDTO(entry: CosignQueueEntry): CosignQueueItemDTO {
+  return {
+    noteId: entry.noteId,
+    patientId: entry.patientId,
+    studyDate: entry.studyDate,
+    title: entry.title,
+    noteType: entry.noteType,
+    createdBy: entry.createdBy,
+    createdByName: entry.createdByName,
+    requestedAt: entry.requestedAt,
+  };
+}
+
+export function toDeletedNoteDTO(note: Note): DeletedNoteDTO {
+  return {
+    ...toNoteDTO(note),
+    deletedAt: note.deletedAt ?? '',
+    deletedBy: note.deletedBy ?? '',
+  };
+}
+
+export function toNoteSnapshot(note: Note): NoteSnapshot {
+  return {
+    version: note.version,
+    studyDate: note.studyDate,
+    title: note.title,
+    content: note.content,
+    noteType: note.noteType,
+    tags: note.tags ?? [],
+    attachments: note.attachments,
+    studyMetrics: note.studyMetrics,
+    updatedAt: note.updatedAt,
+    updatedBy: note.updatedBy,
+    updatedByName: note.updatedByName,
+    signature: note.signature,
+    addenda: note.addenda,
+    cosignature: note.cosignature,
+    deletedAt: note.deletedAt,
+  };
+}
+
+export function toNoteVersionSummaryDTO(
+  snapshot: NoteSnapshot,
+  changedFields: string[] | undefined,
+  current: boolean
+): NoteVersionSummaryDTO {
+  return {
+    version: snapshot.version,
+    updatedAt: snapshot.updatedAt,
+    updatedBy: snapshot.updatedBy,
+    updatedByName: snapshot.updatedByName,
+    changedFields,
+    current,
+  };
+}
+
+export function toNoteVersionDTO(
+  noteId: string,
+  patientId: string,
+  snapshot: NoteSnapshot,
+  changedFields: string[] | undefined,
+  current: boolean
+): NoteVersionDTO {
+  return {
+    ...toNoteVersionSummaryDTO(snapshot, changedFields, current),
+    noteId,
+    patientId,
+    studyDate: snapshot.studyDate,
+    title: snapshot.title,
+    content: snapshot.content,
+    noteType: snapshot.noteType,
+    tags: snapshot.tags,
+    attachments: snapshot.attachments,
+    studyMetrics: toStudyMetricsDTO(snapshot.studyMetrics),
+    signature: snapshot.signature,
+    addenda: snapshot.addenda ?? [],
+    cosignature: snapshot.cosignature,
+    deletedAt: snapshot.deletedAt,
   };
 }
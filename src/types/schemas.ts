@@ -3,6 +3,42 @@ import { z } from 'zod';
 const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 const ISO_DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
 
+// The regex accepts 2024-13-45; a real date survives the round trip through Date unchanged
+function isCalendarDate(date: string): boolean {
+  const time = Date.parse(date);
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(date);
+}
+
+const calendarDateSchema = z
+  .string()
+  .regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format')
+  .refine(isCalendarDate, 'Must be a real calendar date');
+
+const NOTE_FIELDS = [
+  'noteId',
+  'patientId',
+  'studyDate',
+  'title',
+  'content',
+  'excerpt',
+  'noteType',
+  'tags',
+  'attachments',
+  'studyMetrics',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'createdByName',
+  'version',
+  'signature',
+  'addenda',
+  'cosignature',
+] as const;
+
+function splitCommaSeparated(value: string): string[] {
+  return value.split(',').map((item) => item.trim());
+}
+
 export const attachmentSchema = z.object({
   id: z.string().uuid(),
   fileName: z.string().min(1).max(255),
@@ -12,33 +48,327 @@ export const attachmentSchema = z.object({
   uploadedAt: z.string().regex(ISO_DATETIME_REGEX, 'Must be ISO 8601 datetime'),
 });
 
-export const createNoteSchema = z.object({
-  studyDate: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format'),
-  title: z.string().min(1).max(500),
-  content: z.string().min(1).max(50000),
-  noteType: z.string().min(1).max(50).optional(),
-  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+// Events per hour of sleep
+const eventIndexSchema = z.number().min(0).max(200);
+const percentSchema = z.number().min(0).max(100);
+
+export const studyMetricsSchema = z
+  .object({
+    ahi: eventIndexSchema.optional(),
+    rdi: eventIndexSchema.optional(),
+    odi: eventIndexSchema.optional(),
+    oxygenNadir: z.number().min(30).max(100).optional(),
+    sleepEfficiency: percentSchema.optional(),
+    totalSleepTimeMinutes: z.number().min(0).max(1440).optional(),
+  })
+  .refine((metrics) => Object.values(metrics).some((value) => value !== undefined), {
+    message: 'At least one metric is required',
+  })
+  // RDI counts every AHI event plus respiratory effort-related arousals
+  .refine(
+    (metrics) =>
+      metrics.ahi === undefined || metrics.rdi === undefined || metrics.rdi >= metrics.ahi,
+    { message: 'rdi cannot be lower than ahi', path: ['rdi'] }
+  );
+
+// Merge patch of the metrics: members that are left out are kept, null removes one
+const studyMetricsPatchSchema = z
+  .object({
+    ahi: eventIndexSchema.nullable().optional(),
+    rdi: eventIndexSchema.nullable().optional(),
+    odi: eventIndexSchema.nullable().optional(),
+    oxygenNadir: z.number().min(30).max(100).nullable().optional(),
+    sleepEfficiency: percentSchema.nullable().optional(),
+    totalSleepTimeMinutes: z.number().min(0).max(1440).nullable().optional(),
+  })
+  .refine(
+    (metrics) =>
+      typeof metrics.ahi !== 'number' ||
+      typeof metrics.rdi !== 'number' ||
+      metrics.rdi >= metrics.ahi,
+    { message: 'rdi cannot be lower than ahi', path: ['rdi'] }
+  );
+
+export const createNoteSchema = z
+  .object({
+    studyDate: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format'),
+    // Optional with a templateId, which fills in whatever is left out
+    title: z.string().min(1).max(500).optional(),
+    content: z.string().min(1).max(50000).optional(),
+    noteType: z.string().min(1).max(50).optional(),
+    tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+    attachments: z.array(attachmentSchema).max(10).optional(),
+    studyMetrics: studyMetricsSchema.optional(),
+    templateId: z.string().uuid().optional(),
+  })
+  .refine(
+    (input) =>
+      input.templateId !== undefined || (input.title !== undefined && input.content !== undefined),
+    { message: 'title and content are required unless a templateId is given' }
+  );
+
+// Values the client started from; any subset, for merging after a version conflict
+const noteMergeBaseSchema = z.object({
+  studyDate: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+  title: z.string().max(500).optional(),
+  content: z.string().max(50000).optional(),
+  noteType: z.string().max(50).nullable().optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
   attachments: z.array(attachmentSchema).max(10).optional(),
+  studyMetrics: studyMetricsSchema.nullable().optional(),
 });
 
 export const updateNoteSchema = z.object({
+  studyDate: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
   title: z.string().min(1).max(500).optional(),
   content: z.string().min(1).max(50000).optional(),
-  noteType: z.string().min(1).max(50).optional(),
+  noteType: z.string().min(1).max(50).nullable().optional(),
   tags: z.array(z.string().min(1).max(50)).max(20).optional(),
   attachments: z.array(attachmentSchema).max(10).optional(),
+  studyMetrics: studyMetricsSchema.nullable().optional(),
+  // Optional when the expected version is sent as If-Match
+  version: z.number().int().positive().optional(),
+  base: noteMergeBaseSchema.optional(),
+  autoMerge: z.boolean().optional(),
+});
+
+export const patchNoteSchema = updateNoteSchema.extend({
+  tags: z.array(z.string().min(1).max(50)).max(20).nullable().optional(),
+  attachments: z.array(attachmentSchema).max(10).nullable().optional(),
+  studyMetrics: studyMetricsPatchSchema.nullable().optional(),
+});
+
+export const signNoteSchema = z.object({
   version: z.number().int().positive(),
 });
 
-export const listNotesQuerySchema = z.object({
+export const createAddendumSchema = z.object({
+  content: z.string().min(1).max(50000),
+});
+
+export const cosignNoteSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export const rejectCosignSchema = z.object({
+  version: z.number().int().positive(),
+  reason: z.string().min(1).max(2000),
+});
+
+export const listCosignQueueQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+export const listNotesQuerySchema = z
+  .object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+    sort: z.enum(['studyDate', '-studyDate', 'updatedAt', '-updatedAt']).optional(),
+    studyDateFrom: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+    studyDateTo: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+    noteType: z.string().min(1).max(50).optional(),
+    createdBy: z.string().min(1).max(100).optional(),
+    tag: z.string().min(1).max(50).optional(),
+    // Comma-separated, e.g. tags=psg,cpap
+    tags: z
+      .string()
+      .transform(splitCommaSeparated)
+      .pipe(z.array(z.string().min(1).max(50)).min(1).max(20))
+      .optional(),
+    tagMatch: z.enum(['any', 'all']).optional(),
+    hasAttachments: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+    q: z.string().min(1).max(200).optional(),
+    view: z.enum(['full', 'summary']).optional(),
+    // Comma-separated, e.g. fields=title,studyDate,excerpt
+    fields: z
+      .string()
+      .transform(splitCommaSeparated)
+      .pipe(z.array(z.enum(NOTE_FIELDS)).min(1).max(NOTE_FIELDS.length))
+      .optional(),
+    includeCounts: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  })
+  .refine((query) => !(query.q && query.sort), {
+    message: 'sort cannot be combined with q; search results are ordered by relevance',
+    path: ['sort'],
+  })
+  .refine((query) => !(query.fields && query.view === 'summary'), {
+    message: 'fields cannot be combined with view=summary',
+    path: ['fields'],
+  });
+
+export const listClinicNotesQuerySchema = z.object({
   cursor: z.string().min(1).optional(),
   limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  noteType: z.string().min(1).max(50).optional(),
   studyDateFrom: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
   studyDateTo: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+  createdBy: z.string().min(1).max(100).optional(),
   tag: z.string().min(1).max(50).optional(),
   q: z.string().min(1).max(200).optional(),
 });
 
+export const listDeletedNotesQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+export const compareNotesQuerySchema = z
+  .object({
+    left: z.string().uuid(),
+    right: z.string().uuid(),
+  })
+  .refine((query) => query.left !== query.right, {
+    message: 'left and right must be different notes',
+    path: ['right'],
+  });
+
+export const patientTrendsQuerySchema = z
+  .object({
+    studyDateFrom: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+    studyDateTo: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+  })
+  .refine(
+    (query) =>
+      !(query.studyDateFrom && query.studyDateTo && query.studyDateFrom > query.studyDateTo),
+    { message: 'studyDateFrom must not be after studyDateTo', path: ['studyDateTo'] }
+  );
+
+export const complianceRecordSchema = z.object({
+  date: calendarDateSchema,
+  usageMinutes: z.number().min(0).max(1440),
+  residualAhi: z.number().min(0).max(200).optional(),
+  // L/min
+  leak: z.number().min(0).max(200).optional(),
+  // cm H2O
+  pressure: z.number().min(0).max(30).optional(),
+});
+
+export const importComplianceSchema = z.object({
+  records: z
+    .array(complianceRecordSchema)
+    .min(1)
+    .max(1000)
+    .refine((records) => new Set(records.map((record) => record.date)).size === records.length, {
+      message: 'Each night may appear only once',
+    }),
+});
+
+export const complianceReportQuerySchema = z.object({
+  from: calendarDateSchema.optional(),
+  to: calendarDateSchema.optional(),
+});
+
+// '#' separates the parts of a template's sort key
+const templateNoteTypeSchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .regex(/^[^#]+$/, 'Must not contain #');
+
+export const createNoteTemplateSchema = z.object({
+  noteType: templateNoteTypeSchema,
+  name: z.string().min(1).max(200),
+  title: z.string().min(1).max(500).optional(),
+  content: z.string().min(1).max(50000),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+});
+
+export const updateNoteTemplateSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  title: z.string().min(1).max(500).nullable().optional(),
+  content: z.string().min(1).max(50000).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+  version: z.number().int().positive(),
+});
+
+export const listNoteTemplatesQuerySchema = z.object({
+  noteType: templateNoteTypeSchema.optional(),
+});
+
+export const templatePathParametersSchema = z.object({
+  templateId: z.string().uuid(),
+});
+
+// Digits with optional +, spaces, dots, dashes and parentheses, e.g. (312) 555-3003
+const PHONE_REGEX = /^\+?[\d\s().-]+$/;
+
+const patientNameSchema = z.string().trim().min(1).max(100);
+
+const phoneSchema = z
+  .string()
+  .trim()
+  .max(30)
+  .regex(PHONE_REGEX, 'Must be a phone number')
+  .refine((phone) => {
+    const digits = phone.replace(/\D/g, '').length;
+    return digits >= 7 && digits <= 15;
+  }, 'Must have 7 to 15 digits');
+
+const dateOfBirthSchema = z
+  .string()
+  .regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format')
+  .refine(
+    (date) => isCalendarDate(date) && date >= '1900-01-01' && Date.parse(date) <= Date.now(),
+    'Must be a real date between 1900-01-01 and today'
+  );
+
+const patientFieldsSchema = z.object({
+  firstName: patientNameSchema,
+  lastName: patientNameSchema,
+  dateOfBirth: dateOfBirthSchema,
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+  email: z.string().trim().toLowerCase().email().max(254).optional(),
+  phone: phoneSchema.optional(),
+  address: z.string().trim().min(1).max(500).optional(),
+  insuranceProvider: z.string().trim().min(1).max(100).optional(),
+  insuranceId: z.string().trim().min(1).max(50).optional(),
+});
+
+const patientStatusSchema = z.enum(['active', 'inactive', 'archived']);
+
+export const createPatientSchema = patientFieldsSchema;
+
+export const listPatientsQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  status: z.enum(['active', 'inactive', 'archived', 'all']).optional().default('active'),
+  // Any of these searches the clinic's patients instead of listing them
+  q: z.string().trim().min(1).max(100).optional(),
+  lastName: z.string().trim().min(1).max(100).optional(),
+  dateOfBirth: z.string().regex(ISO_DATE_REGEX, 'Must be YYYY-MM-DD format').optional(),
+  insuranceId: z.string().trim().min(1).max(50).optional(),
+  phone: z.string().trim().min(1).max(30).regex(PHONE_REGEX, 'Must be a phone number').optional(),
+});
+
+// Names and date of birth can be corrected but not removed; null removes any other field
+export const updatePatientSchema = z.object({
+  firstName: patientNameSchema.optional(),
+  lastName: patientNameSchema.optional(),
+  dateOfBirth: dateOfBirthSchema.optional(),
+  gender: patientFieldsSchema.shape.gender.unwrap().nullable().optional(),
+  email: patientFieldsSchema.shape.email.unwrap().nullable().optional(),
+  phone: phoneSchema.nullable().optional(),
+  address: patientFieldsSchema.shape.address.unwrap().nullable().optional(),
+  insuranceProvider: patientFieldsSchema.shape.insuranceProvider.unwrap().nullable().optional(),
+  insuranceId: patientFieldsSchema.shape.insuranceId.unwrap().nullable().optional(),
+  // Optional when the expected version is sent as If-Match
+  version: z.number().int().positive().optional(),
+});
+
+export const changePatientStatusSchema = z.object({
+  status: patientStatusSchema,
+  reason: z.string().trim().min(1).max(500).optional(),
+  // Optional when the expected version is sent as If-Match
+  version: z.number().int().positive().optional(),
+});
+
 export const presignUploadSchema = z.object({
   fileName: z.string().min(1).max(255),
   contentType: z.string().min(1).max(127),
@@ -54,14 +384,42 @@ export const notePathParametersSchema = z.object({
   noteId: z.string().uuid(),
 });
 
+export const noteVersionPathParametersSchema = z.object({
+  patientId: z.string().min(1).max(100),
+  noteId: z.string().uuid(),
+  version: z.coerce.number().int().positive(),
+});
+
 export const attachmentPathParametersSchema = z.object({
   patientId: z.string().min(1).max(100),
   noteId: z.string().uuid(),
   attachmentId: z.string().uuid(),
 });
 
+export type StudyMetricsSchemaType = z.infer<typeof studyMetricsSchema>;
 export type CreateNoteSchemaType = z.infer<typeof createNoteSchema>;
 export type UpdateNoteSchemaType = z.infer<typeof updateNoteSchema>;
+export type PatchNoteSchemaType = z.infer<typeof patchNoteSchema>;
+export type SignNoteSchemaType = z.infer<typeof signNoteSchema>;
+export type CreateAddendumSchemaType = z.infer<typeof createAddendumSchema>;
+export type CosignNoteSchemaType = z.infer<typeof cosignNoteSchema>;
+export type RejectCosignSchemaType = z.infer<typeof rejectCosignSchema>;
+export type ListCosignQueueQuerySchemaType = z.infer<typeof listCosignQueueQuerySchema>;
 export type ListNotesQuerySchemaType = z.infer<typeof listNotesQuerySchema>;
+export type ListClinicNotesQuerySchemaType = z.infer<typeof listClinicNotesQuerySchema>;
+export type ListDeletedNotesQuerySchemaType = z.infer<typeof listDeletedNotesQuerySchema>;
+export type CompareNotesQuerySchemaType = z.infer<typeof compareNotesQuerySchema>;
+export type PatientTrendsQuerySchemaType = z.infer<typeof patientTrendsQuerySchema>;
+export type ComplianceRecordSchemaType = z.infer<typeof complianceRecordSchema>;
+export type ImportComplianceSchemaType = z.infer<typeof importComplianceSchema>;
+export type ComplianceReportQuerySchemaType = z.infer<typeof complianceReportQuerySchema>;
+export type CreatePatientSchemaType = z.infer<typeof createPatientSchema>;
+export type ListPatientsQuerySchemaType = z.infer<typeof listPatientsQuerySchema>;
+export type UpdatePatientSchemaType = z.infer<typeof updatePatientSchema>;
+export type ChangePatientStatusSchemaType = z.infer<typeof changePatientStatusSchema>;
+export type CreateNoteTemplateSchemaType = z.infer<typeof createNoteTemplateSchema>;
+export type UpdateNoteTemplateSchemaType = z.infer<typeof updateNoteTemplateSchema>;
+export type ListNoteTemplatesQuerySchemaType = z.infer<typeof listNoteTemplatesQuerySchema>;
 export type PresignUploadSchemaType = z.infer<typeof presignUploadSchema>;
+export type NoteVersionPathParametersSchemaType = z.infer<typeof noteVersionPathParametersSchema>;
 export type AttachmentPathParametersSchemaType = z.infer<typeof attachmentPathParametersSchema>;
@@ -30,7 +30,11 @@ export function createAdminAuthContext(overrides?: Partial<AuthContext>): AuthCo
       Scope.NOTES_READ,
       Scope.NOTES_WRITE,
       Scope.NOTES_DELETE,
+      Scope.NOTES_COSIGN,
       Scope.ATTACHMENTS_WRITE,
+      Scope.TEMPLATES_WRITE,
+      Scope.PATIENTS_READ,
+      Scope.PATIENTS_WRITE,
     ],
     ...overrides,
   };
@@ -45,6 +49,15 @@ export function createReadOnlyAuthContext(overrides?: Partial<AuthContext>): Aut
   };
 }
 
+export function createReceptionistAuthContext(overrides?: Partial<AuthContext>): AuthContext {
+  const base = createMockAuthContext(overrides);
+  return {
+    ...base,
+    scopes: [Scope.NOTES_READ, Scope.PATIENTS_READ, Scope.PATIENTS_WRITE],
+    ...overrides,
+  };
+}
+
 export function createMockJWTClaims(overrides?: Partial<JWTClaims>): JWTClaims {
   return {
     sub: 'user-123',
@@ -1,5 +1,12 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Note, NoteDTO, CreateNoteInput, UpdateNoteInput, Attachment } from '../../src/types';
+import {
+  Note,
+  NoteDTO,
+  CreateNoteInput,
+  UpdateNoteInput,
+  Attachment,
+  NoteTemplate,
+} from '../../src/types';
 
 export function createMockNote(overrides?: Partial<Note>): Note {
   const now = new Date().toISOString();
@@ -36,6 +43,7 @@ export function createMockNoteDTO(overrides?: Partial<NoteDTO>): NoteDTO {
     createdBy: note.createdBy,
     createdByName: note.createdByName,
     version: note.version,
+    addenda: [],
     ...overrides,
   };
 }
@@ -69,3 +77,22 @@ export function createMockAttachment(overrides?: Partial<Attachment>): Attachmen
     ...overrides,
   };
 }
+
+export function createMockNoteTemplate(overrides?: Partial<NoteTemplate>): NoteTemplate {
+  const now = new Date().toISOString();
+  return {
+    templateId: uuidv4(),
+    clinicId: 'clinic-abc',
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}} for {{patient.fullName}} at {{clinic.name}}.',
+    tags: ['psg'],
+    createdAt: now,
+    updatedAt: now,
+    createdBy: 'admin-123',
+    updatedBy: 'admin-123',
+    version: 1,
+    ...overrides,
+  };
+}
@@ -0,0 +1,111 @@
+import * as attachmentsRepository from '../../../src/data/attachments.repository';
+
+// Mock S3 client
+const mockSend = jest.fn();
+jest.mock('../../../src/data/s3-client', () => ({
+  s3Client: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  ATTACHMENTS_BUCKET: 'test-bucket',
+}));
+
+jest.mock('@aws-sdk/client-s3', () => ({
+  ListObjectVersionsCommand: jest.fn().mockImplementation((input) => ({ type: 'list', input })),
+  DeleteObjectsCommand: jest.fn().mockImplementation((input) => ({ type: 'delete', input })),
+}));
+
+// Mock logger
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+  },
+}));
+
+describe('attachments.repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('deleteNoteObjects', () => {
+    it('should delete all object versions and delete markers under the note prefix', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Versions: [
+            { Key: 'clinic/c/patient/p/note/n/a1/report.pdf', VersionId: 'v1' },
+            { Key: 'clinic/c/patient/p/note/n/a1/report.pdf', VersionId: 'v2' },
+          ],
+          DeleteMarkers: [{ Key: 'clinic/c/patient/p/note/n/a2/scan.png', VersionId: 'm1' }],
+          IsTruncated: false,
+        })
+        .mockResolvedValueOnce({});
+
+      const result = await attachmentsRepository.deleteNoteObjects('c', 'p', 'n');
+
+      expect(result).toBe(3);
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        Bucket: 'test-bucket',
+        Prefix: 'clinic/c/patient/p/note/n/',
+        KeyMarker: undefined,
+        VersionIdMarker: undefined,
+      });
+      expect(mockSend.mock.calls[1][0].input).toEqual({
+        Bucket: 'test-bucket',
+        Delete: {
+          Objects: [
+            { Key: 'clinic/c/patient/p/note/n/a1/report.pdf', VersionId: 'v1' },
+            { Key: 'clinic/c/patient/p/note/n/a1/report.pdf', VersionId: 'v2' },
+            { Key: 'clinic/c/patient/p/note/n/a2/scan.png', VersionId: 'm1' },
+          ],
+          Quiet: true,
+        },
+      });
+    });
+
+    it('should follow truncated listings', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Versions: [{ Key: 'k1', VersionId: 'v1' }],
+          IsTruncated: true,
+          NextKeyMarker: 'k1',
+          NextVersionIdMarker: 'v1',
+        })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({
+          Versions: [{ Key: 'k2', VersionId: 'v2' }],
+          IsTruncated: false,
+        })
+        .mockResolvedValueOnce({});
+
+      const result = await attachmentsRepository.deleteNoteObjects('c', 'p', 'n');
+
+      expect(result).toBe(2);
+      expect(mockSend).toHaveBeenCalledTimes(4);
+      expect(mockSend.mock.calls[2][0].input).toEqual(
+        expect.objectContaining({ KeyMarker: 'k1', VersionIdMarker: 'v1' })
+      );
+    });
+
+    it('should not issue a delete when the prefix is empty', async () => {
+      mockSend.mockResolvedValueOnce({ IsTruncated: false });
+
+      const result = await attachmentsRepository.deleteNoteObjects('c', 'p', 'n');
+
+      expect(result).toBe(0);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when S3 reports per-object errors', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Versions: [{ Key: 'k1', VersionId: 'v1' }], IsTruncated: false })
+        .mockResolvedValueOnce({ Errors: [{ Key: 'k1', Code: 'AccessDenied' }] });
+
+      await expect(attachmentsRepository.deleteNoteObjects('c', 'p', 'n')).rejects.toThrow(
+        'Failed to delete 1 attachment object(s)'
+      );
+    });
+  });
+});
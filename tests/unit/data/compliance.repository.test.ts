@@ -0,0 +1,108 @@
+import { listByDateRange, putMany } from '../../../src/data/compliance.repository';
+
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+describe('ComplianceRepository', () => {
+  const pk = 'CLINIC#clinic-abc#PATIENT#patient-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('putMany', () => {
+    it('should write one item per night in batches of 25', async () => {
+      mockSend.mockResolvedValue({});
+      const records = Array.from({ length: 30 }, (_, i) => ({
+        date: `2024-03-${String(i + 1).padStart(2, '0')}`,
+        usageMinutes: 300,
+      }));
+
+      await putMany('clinic-abc', 'patient-123', records, 'user-123');
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      const first = mockSend.mock.calls[0][0].input.RequestItems.TestTable;
+      expect(first).toHaveLength(25);
+      expect(first[0].PutRequest.Item).toEqual({
+        PK: pk,
+        SK: 'COMPLIANCE#2024-03-01',
+        entityType: 'COMPLIANCE',
+        clinicId: 'clinic-abc',
+        patientId: 'patient-123',
+        date: '2024-03-01',
+        usageMinutes: 300,
+        importedAt: expect.any(String),
+        importedBy: 'user-123',
+      });
+      expect(mockSend.mock.calls[1][0].input.RequestItems.TestTable).toHaveLength(5);
+    });
+
+    it('should retry unprocessed items', async () => {
+      const unprocessed = [{ PutRequest: { Item: { PK: pk, SK: 'COMPLIANCE#2024-03-01' } } }];
+      mockSend
+        .mockResolvedValueOnce({ UnprocessedItems: { TestTable: unprocessed } })
+        .mockResolvedValueOnce({});
+
+      await putMany(
+        'clinic-abc',
+        'patient-123',
+        [{ date: '2024-03-01', usageMinutes: 300 }],
+        'user-123'
+      );
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[1][0].input.RequestItems.TestTable).toEqual(unprocessed);
+    });
+  });
+
+  describe('listByDateRange', () => {
+    it('should query the nights in the range across pages', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [
+            {
+              PK: pk,
+              SK: 'COMPLIANCE#2024-03-01',
+              date: '2024-03-01',
+              usageMinutes: 300,
+              residualAhi: 2.5,
+              importedAt: '2024-04-01T00:00:00.000Z',
+              importedBy: 'user-123',
+            },
+          ],
+          LastEvaluatedKey: { PK: pk, SK: 'COMPLIANCE#2024-03-01' },
+        })
+        .mockResolvedValueOnce({
+          Items: [{ PK: pk, SK: 'COMPLIANCE#2024-03-02', date: '2024-03-02', usageMinutes: 0 }],
+        });
+
+      const records = await listByDateRange(
+        'clinic-abc',
+        'patient-123',
+        '2024-03-01',
+        '2024-03-31'
+      );
+
+      expect(records).toEqual([
+        { date: '2024-03-01', usageMinutes: 300, residualAhi: 2.5 },
+        { date: '2024-03-02', usageMinutes: 0 },
+      ]);
+      const query = mockSend.mock.calls[0][0].input;
+      expect(query.KeyConditionExpression).toBe('PK = :pk AND SK BETWEEN :skStart AND :skEnd');
+      expect(query.ExpressionAttributeValues).toEqual({
+        ':pk': pk,
+        ':skStart': 'COMPLIANCE#2024-03-01',
+        ':skEnd': 'COMPLIANCE#2024-03-31',
+      });
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({
+        PK: pk,
+        SK: 'COMPLIANCE#2024-03-01',
+      });
+    });
+  });
+});
@@ -1,114 +1,154 @@
-import { encodeCursor, decodeCursor } from '../../../src/data/cursor';
+import {
+  CURSOR_TTL_SECONDS,
+  CursorBinding,
+  encodeCursor,
+  decodeCursor,
+  signCursor,
+  verifyCursor,
+  encodeSearchCursor,
+  decodeSearchCursor,
+  encodeClinicFeedCursor,
+  decodeClinicFeedCursor,
+  encodePatientListCursor,
+  decodePatientListCursor,
+  encodePatientSearchCursor,
+  decodePatientSearchCursor,
+} from '../../../src/data/cursor';
+import { ValidationError } from '../../../src/lib/errors';
+
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
 
 describe('cursor encoding/decoding', () => {
-  describe('encodeCursor', () => {
-    it('should encode a valid last evaluated key to base64url', () => {
-      const lastEvaluatedKey = {
-        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-        SK: 'NOTE#2024-01-15#note-id-123',
-      };
+  const binding: CursorBinding = {
+    clinicId: 'clinic-abc',
+    patientId: 'patient-123',
+    list: 'notes',
+    filters: { tag: 'psg' },
+  };
 
-      const result = encodeCursor(lastEvaluatedKey);
+  const key = {
+    PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+    SK: 'NOTE#2024-01-15#note-id-123',
+  };
 
-      expect(typeof result).toBe('string');
-      expect(result.length).toBeGreaterThan(0);
+  describe('encodeCursor', () => {
+    it('should encode a signed, url-safe cursor', () => {
+      const result = encodeCursor(key, binding);
+
+      expect(result.startsWith('v1.')).toBe(true);
+      expect(result.split('.')).toHaveLength(3);
       // base64url should not contain + or /
       expect(result).not.toContain('+');
       expect(result).not.toContain('/');
     });
 
     it('should produce different cursors for different keys', () => {
-      const key1 = {
-        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-        SK: 'NOTE#2024-01-15#note-id-123',
-      };
-      const key2 = {
-        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-        SK: 'NOTE#2024-01-16#note-id-456',
-      };
-
-      const cursor1 = encodeCursor(key1);
-      const cursor2 = encodeCursor(key2);
+      const cursor1 = encodeCursor(key, binding);
+      const cursor2 = encodeCursor({ ...key, SK: 'NOTE#2024-01-16#note-id-456' }, binding);
 
       expect(cursor1).not.toBe(cursor2);
     });
+
+    it('should not expose filter values', () => {
+      const cursor = encodeCursor(key, { ...binding, filters: { q: 'narcolepsy' } });
+      const [, payload] = cursor.split('.');
+
+      expect(Buffer.from(payload ?? '', 'base64url').toString('utf-8')).not.toContain('narcolepsy');
+    });
   });
 
   describe('decodeCursor', () => {
     it('should decode a valid cursor back to the original key', () => {
-      const originalKey = {
-        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-        SK: 'NOTE#2024-01-15#note-id-123',
-      };
-      const cursor = encodeCursor(originalKey);
+      const cursor = encodeCursor(key, binding);
 
-      const result = decodeCursor(cursor);
-
-      expect(result).toEqual(originalKey);
+      expect(decodeCursor(cursor, binding)).toEqual(key);
     });
 
-    it('should return undefined for invalid base64', () => {
-      const result = decodeCursor('not-valid-base64!@#$');
+    it('should accept the same filters in any order', () => {
+      const filters = { studyDateFrom: '2024-01-01', tag: 'psg', studyDateTo: undefined };
+      const cursor = encodeCursor(key, { ...binding, filters });
 
-      expect(result).toBeUndefined();
+      expect(
+        decodeCursor(cursor, { ...binding, filters: { tag: 'psg', studyDateFrom: '2024-01-01' } })
+      ).toEqual(key);
     });
 
-    it('should return undefined for valid base64 but invalid JSON', () => {
-      const invalidJson = Buffer.from('not json', 'utf-8').toString('base64url');
-
-      const result = decodeCursor(invalidJson);
+    it('should reject a cursor with a tampered payload', () => {
+      const [version, , signature] = encodeCursor(key, binding).split('.');
+      const forged = signCursor({ ...key, PK: 'CLINIC#clinic-other#PATIENT#patient-9' }, binding);
+      const [, forgedPayload] = forged.split('.');
 
-      expect(result).toBeUndefined();
+      expect(() => decodeCursor(`${version}.${forgedPayload}.${signature}`, binding)).toThrow(
+        'Invalid cursor'
+      );
     });
 
-    it('should return undefined for valid JSON but missing PK', () => {
-      const invalidData = Buffer.from(
-        JSON.stringify({ SK: 'NOTE#2024-01-15#note-id' }),
-        'utf-8'
-      ).toString('base64url');
+    it('should reject a cursor signed with another secret', () => {
+      const cursor = encodeCursor(key, binding);
+      process.env.CURSOR_SIGNING_SECRET = 'another-secret-another-secret-123';
 
-      const result = decodeCursor(invalidData);
-
-      expect(result).toBeUndefined();
+      try {
+        expect(() => decodeCursor(cursor, binding)).toThrow(ValidationError);
+      } finally {
+        delete process.env.CURSOR_SIGNING_SECRET;
+      }
     });
 
-    it('should return undefined for valid JSON but missing SK', () => {
-      const invalidData = Buffer.from(
-        JSON.stringify({ PK: 'CLINIC#clinic-abc#PATIENT#patient-123' }),
-        'utf-8'
-      ).toString('base64url');
+    it.each([
+      ['clinic', { ...binding, clinicId: 'clinic-other' }],
+      ['patient', { ...binding, patientId: 'patient-999' }],
+      ['list', { ...binding, list: 'deleted-notes' }],
+      ['filters', { ...binding, filters: { tag: 'hst' } }],
+    ])('should reject reuse with a different %s', (_name, other) => {
+      const cursor = encodeCursor(key, binding);
+
+      expect(() => decodeCursor(cursor, other)).toThrow('Cursor does not match this query');
+    });
 
-      const result = decodeCursor(invalidData);
+    it('should reject expired cursors', () => {
+      const issuedAt = Date.now() - (CURSOR_TTL_SECONDS + 1) * 1000;
+      const cursor = signCursor(key, binding, issuedAt);
 
-      expect(result).toBeUndefined();
+      expect(() => decodeCursor(cursor, binding)).toThrow('Cursor has expired');
     });
 
-    it('should return undefined for PK not starting with CLINIC#', () => {
-      const invalidData = Buffer.from(
-        JSON.stringify({
-          PK: 'INVALID#clinic-abc#PATIENT#patient-123',
-          SK: 'NOTE#2024-01-15#note-id',
-        }),
-        'utf-8'
-      ).toString('base64url');
+    it('should reject legacy unsigned cursors with a clear message', () => {
+      const legacy = Buffer.from(JSON.stringify(key), 'utf-8').toString('base64url');
 
-      const result = decodeCursor(invalidData);
+      expect(() => decodeCursor(legacy, binding)).toThrow(
+        'Cursor is no longer valid; request the first page again'
+      );
+    });
 
-      expect(result).toBeUndefined();
+    it('should reject invalid input', () => {
+      expect(() => decodeCursor('not-valid-base64!@#$', binding)).toThrow(ValidationError);
+      expect(() => decodeCursor('v1..', binding)).toThrow(ValidationError);
     });
 
-    it('should return undefined for SK not starting with NOTE#', () => {
-      const invalidData = Buffer.from(
-        JSON.stringify({
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-          SK: 'INVALID#2024-01-15#note-id',
-        }),
-        'utf-8'
-      ).toString('base64url');
+    it('should reject signed data that is not a note key', () => {
+      const cursor = signCursor({ PK: 'USER#abc', SK: 'METADATA' }, binding);
+
+      expect(() => decodeCursor(cursor, binding)).toThrow('Invalid cursor');
+    });
+  });
 
-      const result = decodeCursor(invalidData);
+  describe('verifyCursor', () => {
+    it('should accept a cursor until it expires', () => {
+      const issuedAt = Date.now();
+      const cursor = signCursor({ page: 2 }, binding, issuedAt);
 
-      expect(result).toBeUndefined();
+      expect(verifyCursor(cursor, binding, issuedAt + (CURSOR_TTL_SECONDS - 1) * 1000)).toEqual({
+        page: 2,
+      });
+      expect(() => verifyCursor(cursor, binding, issuedAt + CURSOR_TTL_SECONDS * 1000)).toThrow(
+        ValidationError
+      );
     });
   });
 
@@ -130,10 +170,141 @@ describe('cursor encoding/decoding', () => {
       ];
 
       for (const originalKey of testCases) {
-        const cursor = encodeCursor(originalKey);
-        const decoded = decodeCursor(cursor);
+        const cursor = encodeCursor(originalKey, binding);
+        const decoded = decodeCursor(cursor, binding);
         expect(decoded).toEqual(originalKey);
       }
     });
   });
+
+  describe('updatedAt index cursors', () => {
+    it('should round-trip the index sort key', () => {
+      const indexKey = { ...key, updatedAt: '2024-02-01T08:30:00.000Z' };
+
+      expect(decodeCursor(encodeCursor(indexKey, binding), binding)).toEqual(indexKey);
+    });
+
+    it('should reject a non-string index sort key', () => {
+      const cursor = signCursor({ ...key, updatedAt: 42 }, binding);
+
+      expect(() => decodeCursor(cursor, binding)).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('search cursors', () => {
+    const searchBinding: CursorBinding = { ...binding, list: 'note-search' };
+
+    it('should round-trip a search position', () => {
+      const position = { score: 3.141593, studyDate: '2024-01-15', noteId: 'note-123' };
+
+      expect(
+        decodeSearchCursor(encodeSearchCursor(position, searchBinding), searchBinding)
+      ).toEqual(position);
+    });
+
+    it('should reject list cursors', () => {
+      const cursor = encodeCursor(key, binding);
+
+      expect(() => decodeSearchCursor(cursor, searchBinding)).toThrow(ValidationError);
+    });
+
+    it('should reject malformed search positions', () => {
+      const cursor = signCursor({ score: '1' }, searchBinding);
+
+      expect(() => decodeSearchCursor(cursor, searchBinding)).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('clinic feed cursors', () => {
+    const feedBinding: CursorBinding = { clinicId: 'c1', list: 'clinic-notes' };
+    const feedKey = {
+      PK: 'CLINIC#c1#PATIENT#p1',
+      SK: 'NOTE#2024-01-15#n1',
+      GSI1PK: 'CLINIC#c1#NOTES',
+      GSI1SK: 'DATE#2024-01-15#NOTE#n1',
+    };
+
+    it('should round-trip the table and index keys', () => {
+      expect(
+        decodeClinicFeedCursor(encodeClinicFeedCursor(feedKey, feedBinding), feedBinding)
+      ).toEqual(feedKey);
+    });
+
+    it('should reject patient list cursors', () => {
+      const cursor = encodeCursor(feedKey, feedBinding);
+
+      expect(() => decodeClinicFeedCursor(cursor, feedBinding)).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('patient list cursors', () => {
+    const listBinding: CursorBinding = {
+      clinicId: 'c1',
+      list: 'patients',
+      filters: { status: 'active' },
+    };
+    const listKey = {
+      PK: 'CLINIC#c1#PATIENT#p1',
+      SK: 'METADATA',
+      GSI1PK: 'CLINIC#c1#PATIENTS',
+      GSI1SK: 'PATIENT#p1',
+    };
+
+    it('should round-trip the table and index keys', () => {
+      expect(
+        decodePatientListCursor(encodePatientListCursor(listKey, listBinding), listBinding)
+      ).toEqual(listKey);
+    });
+
+    it('should reject a cursor issued for another status', () => {
+      const cursor = encodePatientListCursor(listKey, listBinding);
+
+      expect(() =>
+        decodePatientListCursor(cursor, { ...listBinding, filters: { status: 'archived' } })
+      ).toThrow(ValidationError);
+    });
+
+    it('should reject clinic feed positions', () => {
+      const cursor = signCursor(
+        {
+          PK: 'CLINIC#c1#PATIENT#p1',
+          SK: 'NOTE#2024-01-15#n1',
+          GSI1PK: 'CLINIC#c1#NOTES',
+          GSI1SK: 'DATE#2024-01-15#NOTE#n1',
+        },
+        listBinding
+      );
+
+      expect(() => decodePatientListCursor(cursor, listBinding)).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('patient search cursors', () => {
+    const searchBinding: CursorBinding = {
+      clinicId: 'c1',
+      list: 'patient-search',
+      filters: { q: 'smith', status: 'active' },
+    };
+    const position = { score: 5, name: 'smith\u0000john', patientId: 'p1' };
+
+    it('should round-trip the result position', () => {
+      expect(
+        decodePatientSearchCursor(encodePatientSearchCursor(position, searchBinding), searchBinding)
+      ).toEqual(position);
+    });
+
+    it('should reject a cursor issued for another search', () => {
+      const cursor = encodePatientSearchCursor(position, searchBinding);
+
+      expect(() =>
+        decodePatientSearchCursor(cursor, { ...searchBinding, filters: { q: 'smyth' } })
+      ).toThrow(ValidationError);
+    });
+
+    it('should reject note search positions', () => {
+      const cursor = signCursor({ score: 5, studyDate: '2024-01-15', noteId: 'n1' }, searchBinding);
+
+      expect(() => decodePatientSearchCursor(cursor, searchBinding)).toThrow('Invalid cursor');
+    });
+  });
 });
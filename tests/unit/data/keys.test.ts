@@ -6,10 +6,37 @@ import {
   buildS3Key,
   buildClinicPK,
   buildClinicSK,
+  buildNoteTemplateSK,
+  buildNoteTemplateSKPrefix,
   buildPatientPK,
   buildPatientSK,
+  buildClinicPatientsPK,
+  buildClinicPatientsSK,
+  buildPatientSearchPK,
+  buildPatientSearchTermSK,
+  buildPatientSearchStateSK,
   buildUserPK,
   buildUserSK,
+  buildNoteRevisionSK,
+  buildNoteRevisionSKPrefix,
+  buildComplianceSK,
+  buildS3NotePrefix,
+  buildTombstonePK,
+  buildTombstoneSK,
+  buildCosignQueuePK,
+  buildCosignQueueSK,
+  buildNoteIdIndexPK,
+  buildClinicNoteFeedPK,
+  buildClinicNoteFeedSK,
+  buildSearchIndexPK,
+  buildSearchTermSK,
+  buildSearchTermSKPrefix,
+  buildSearchDocumentSK,
+  buildSearchStatsSK,
+  buildSearchPendingSK,
+  buildSearchPendingSKPrefix,
+  buildNoteCountsPK,
+  buildNoteCountsSK,
 } from '../../../src/data/keys';
 
 describe('DynamoDB key functions', () => {
@@ -35,6 +62,50 @@ describe('DynamoDB key functions', () => {
     });
   });
 
+  describe('buildNoteRevisionSK', () => {
+    it('should build a zero-padded revision sort key', () => {
+      expect(buildNoteRevisionSK('note-id-123', 7)).toBe('HISTORY#note-id-123#0000000007');
+    });
+
+    it('should share the revision prefix and sort before note keys', () => {
+      const sk = buildNoteRevisionSK('note-id-123', 12);
+
+      expect(sk.startsWith(buildNoteRevisionSKPrefix('note-id-123'))).toBe(true);
+      expect(sk < buildSK('0000-00-00', 'note-id-123')).toBe(true);
+    });
+  });
+
+  describe('buildComplianceSK', () => {
+    it('should build a per-night sort key that sorts before revisions and notes', () => {
+      const sk = buildComplianceSK('2024-03-01');
+
+      expect(sk).toBe('COMPLIANCE#2024-03-01');
+      expect(sk < buildComplianceSK('2024-03-02')).toBe(true);
+      expect(sk < buildNoteRevisionSK('note-id-123', 1)).toBe(true);
+      expect(sk < buildSK('0000-00-00', 'note-id-123')).toBe(true);
+    });
+  });
+
+  describe('buildNoteIdIndexPK', () => {
+    it('should build the noteId index partition key', () => {
+      expect(buildNoteIdIndexPK('note-id-123')).toBe('NOTE#note-id-123');
+    });
+  });
+
+  describe('clinic note feed keys', () => {
+    it('should build a clinic-wide feed partition key', () => {
+      expect(buildClinicNoteFeedPK('clinic-123')).toBe('CLINIC#clinic-123#NOTES');
+    });
+
+    it('should order feed entries by study date', () => {
+      const earlier = buildClinicNoteFeedSK('2024-01-15', 'note-b');
+      const later = buildClinicNoteFeedSK('2024-02-01', 'note-a');
+
+      expect(earlier).toBe('DATE#2024-01-15#NOTE#note-b');
+      expect(earlier < later).toBe(true);
+    });
+  });
+
   describe('parsePK', () => {
     it('should parse a valid partition key', () => {
       const result = parsePK('CLINIC#clinic-123#PATIENT#patient-456');
@@ -77,6 +148,17 @@ describe('DynamoDB key functions', () => {
     });
   });
 
+  describe('buildS3NotePrefix', () => {
+    it('should build the prefix shared by all attachments of a note', () => {
+      const result = buildS3NotePrefix('clinic-123', 'patient-456', 'note-789');
+
+      expect(result).toBe('clinic/clinic-123/patient/patient-456/note/note-789/');
+      expect(
+        buildS3Key('clinic-123', 'patient-456', 'note-789', 'attach-abc', 'report.pdf')
+      ).toMatch(new RegExp(`^${result}`));
+    });
+  });
+
   describe('buildS3Key', () => {
     it('should build a valid S3 key', () => {
       const result = buildS3Key(
@@ -161,6 +243,31 @@ describe('DynamoDB key functions', () => {
     });
   });
 
+  describe('buildClinicPatientsPK / buildClinicPatientsSK', () => {
+    it('should build the patient list index keys', () => {
+      expect(buildClinicPatientsPK('clinic-123')).toBe('CLINIC#clinic-123#PATIENTS');
+      expect(buildClinicPatientsSK('patient-456')).toBe('PATIENT#patient-456');
+    });
+  });
+
+  describe('patient search keys', () => {
+    it('should keep the search index of a clinic in one partition', () => {
+      expect(buildPatientSearchPK('clinic-123')).toBe('CLINIC#clinic-123#PATIENT_SEARCH');
+      expect(buildPatientSearchTermSK('LAST#smith', 'patient-456')).toBe('LAST#smith#patient-456');
+      expect(buildPatientSearchStateSK()).toBe('STATE');
+    });
+  });
+
+  describe('note template keys', () => {
+    it('should group templates by note type', () => {
+      expect(buildNoteTemplateSK('study_result', 'template-1')).toBe(
+        'TEMPLATE#study_result#template-1'
+      );
+      expect(buildNoteTemplateSKPrefix('study_result')).toBe('TEMPLATE#study_result#');
+      expect(buildNoteTemplateSKPrefix()).toBe('TEMPLATE#');
+    });
+  });
+
   describe('buildPatientPK', () => {
     it('should build a valid patient partition key', () => {
       const result = buildPatientPK('clinic-123', 'patient-456');
@@ -192,4 +299,75 @@ describe('DynamoDB key functions', () => {
       expect(result).toBe('METADATA');
     });
   });
+
+  describe('buildTombstonePK', () => {
+    it('should build a clinic-scoped tombstone partition key', () => {
+      const result = buildTombstonePK('clinic-123');
+
+      expect(result).toBe('CLINIC#clinic-123#TOMBSTONES');
+    });
+  });
+
+  describe('buildTombstoneSK', () => {
+    it('should build a tombstone sort key for the note', () => {
+      const result = buildTombstoneSK('note-789');
+
+      expect(result).toBe('NOTE#note-789');
+    });
+  });
+
+  describe('buildCosignQueuePK', () => {
+    it('should build a clinic-scoped co-signature queue partition key', () => {
+      const result = buildCosignQueuePK('clinic-123');
+
+      expect(result).toBe('CLINIC#clinic-123#COSIGN_QUEUE');
+    });
+  });
+
+  describe('buildCosignQueueSK', () => {
+    it('should order queue entries by request time', () => {
+      const earlier = buildCosignQueueSK('2024-01-15T10:00:00.000Z', 'note-b');
+      const later = buildCosignQueueSK('2024-01-16T10:00:00.000Z', 'note-a');
+
+      expect(earlier).toBe('NOTE#2024-01-15T10:00:00.000Z#note-b');
+      expect(earlier < later).toBe(true);
+    });
+  });
+
+  describe('search index keys', () => {
+    it('should build a per-patient index partition key', () => {
+      expect(buildSearchIndexPK('clinic-123', 'patient-456')).toBe(
+        'CLINIC#clinic-123#PATIENT#patient-456#SEARCH'
+      );
+    });
+
+    it('should group postings by term', () => {
+      const sk = buildSearchTermSK('apnea', 'note-789');
+
+      expect(sk).toBe('TERM#apnea#note-789');
+      expect(sk.startsWith(buildSearchTermSKPrefix('apnea'))).toBe(true);
+      expect(buildSearchTermSK('apneas', 'note-789').startsWith(buildSearchTermSKPrefix('apnea'))).toBe(
+        false
+      );
+    });
+
+    it('should build document and stats sort keys', () => {
+      expect(buildSearchDocumentSK('note-789')).toBe('DOC#note-789');
+      expect(buildSearchStatsSK()).toBe('STATS');
+    });
+
+    it('should group pending index changes under one prefix', () => {
+      expect(buildSearchPendingSK('note-789')).toBe('PENDING#note-789');
+      expect(buildSearchPendingSK('note-789').startsWith(buildSearchPendingSKPrefix())).toBe(true);
+    });
+  });
+
+  describe('note counts keys', () => {
+    it('should keep the counters outside the notes partition', () => {
+      expect(buildNoteCountsPK('clinic-123', 'patient-456')).toBe(
+        'CLINIC#clinic-123#PATIENT#patient-456#COUNTS'
+      );
+      expect(buildNoteCountsSK()).toBe('NOTES');
+    });
+  });
 });
@@ -0,0 +1,204 @@
+import { buildChange, get, replace } from '../../../src/data/note-counts.repository';
+
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+describe('NoteCountsRepository', () => {
+  const key = { PK: 'CLINIC#clinic-abc#PATIENT#patient-123#COUNTS', SK: 'NOTES' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('get', () => {
+    it('should return no counts when the counters have not been built', async () => {
+      mockSend.mockResolvedValueOnce({ Item: { ...key, total: 2, changeCount: 2 } });
+
+      await expect(get('clinic-abc', 'patient-123')).resolves.toEqual({
+        counts: undefined,
+        changeCount: 2,
+      });
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        TableName: 'TestTable',
+        Key: key,
+        ConsistentRead: true,
+      });
+    });
+
+    it('should parse counters into facets and drop empty ones', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: {
+          ...key,
+          entityType: 'NOTE_COUNTS',
+          initializedAt: '2024-01-01T00:00:00.000Z',
+          total: 3,
+          'noteType:study_result': 2,
+          'noteType:follow_up': 0,
+          'tag:psg': 1,
+          'tag:cpap:auto': 1,
+          'year:2024': 3,
+          changeCount: 7,
+        },
+      });
+
+      await expect(get('clinic-abc', 'patient-123')).resolves.toEqual({
+        counts: {
+          total: 3,
+          facets: {
+            noteType: { study_result: 2 },
+            tag: { psg: 1, 'cpap:auto': 1 },
+            year: { '2024': 3 },
+          },
+        },
+        changeCount: 7,
+      });
+    });
+  });
+
+  describe('buildChange', () => {
+    it('should add one to every counter of a new note', () => {
+      const write = buildChange('clinic-abc', 'patient-123', undefined, {
+        noteType: 'study_result',
+        tags: ['psg', 'psg'],
+        studyDate: '2024-01-15',
+      });
+
+      const update = write?.Update;
+      expect(update?.TableName).toBe('TestTable');
+      expect(update?.Key).toEqual(key);
+      expect(update?.UpdateExpression).toBe(
+        'ADD #counter0 :delta0, #counter1 :delta1, #counter2 :delta2, #counter3 :delta3, ' +
+          'changeCount :one'
+      );
+      expect(Object.values(update?.ExpressionAttributeNames ?? {})).toEqual([
+        'total',
+        'noteType:study_result',
+        'tag:psg',
+        'year:2024',
+      ]);
+      expect(Object.values(update?.ExpressionAttributeValues ?? {})).toEqual([1, 1, 1, 1, 1]);
+    });
+
+    it('should only move the counters that changed', () => {
+      const write = buildChange(
+        'clinic-abc',
+        'patient-123',
+        { tags: ['psg'], studyDate: '2023-12-30' },
+        { tags: ['hst'], studyDate: '2024-01-02' }
+      );
+
+      expect(write?.Update?.ExpressionAttributeNames).toEqual({
+        '#counter0': 'tag:psg',
+        '#counter1': 'year:2023',
+        '#counter2': 'tag:hst',
+        '#counter3': 'year:2024',
+      });
+      expect(write?.Update?.ExpressionAttributeValues).toEqual({
+        ':delta0': -1,
+        ':delta1': -1,
+        ':delta2': 1,
+        ':delta3': 1,
+        ':one': 1,
+      });
+    });
+
+    it('should not write when nothing counted changed', () => {
+      const note = { noteType: 'follow_up', tags: ['cpap'], studyDate: '2024-01-15' };
+
+      expect(buildChange('clinic-abc', 'patient-123', note, { ...note })).toBeUndefined();
+    });
+
+    it('should subtract a deleted note', () => {
+      const write = buildChange(
+        'clinic-abc',
+        'patient-123',
+        { studyDate: '2024-01-15' },
+        undefined
+      );
+
+      expect(write?.Update?.ExpressionAttributeValues).toEqual({
+        ':delta0': -1,
+        ':delta1': -1,
+        ':one': 1,
+      });
+    });
+  });
+
+  describe('replace', () => {
+    it('should write absolute counts and mark the counters built', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      const counts = await replace(
+        'clinic-abc',
+        'patient-123',
+        [
+          { noteType: 'study_result', tags: ['psg'], studyDate: '2024-01-15' },
+          { tags: ['psg', 'cpap'], studyDate: '2023-06-01' },
+        ],
+        0
+      );
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.ConditionExpression).toBe(
+        'attribute_not_exists(initializedAt) AND ' +
+          '(attribute_not_exists(changeCount) OR changeCount = :changeCount)'
+      );
+      expect(input.ExpressionAttributeValues).toEqual({ ':changeCount': 0 });
+      const item = input.Item;
+      expect(item).toMatchObject({
+        ...key,
+        entityType: 'NOTE_COUNTS',
+        changeCount: 0,
+        total: 2,
+        'noteType:study_result': 1,
+        'tag:psg': 2,
+        'tag:cpap': 1,
+        'year:2024': 1,
+        'year:2023': 1,
+      });
+      expect(item.initializedAt).toEqual(expect.any(String));
+      expect(counts).toEqual({
+        total: 2,
+        facets: {
+          noteType: { study_result: 1 },
+          tag: { psg: 2, cpap: 1 },
+          year: { '2024': 1, '2023': 1 },
+        },
+      });
+    });
+
+    it('should build empty counters for a patient without notes', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(replace('clinic-abc', 'patient-123', [], 0)).resolves.toEqual({
+        total: 0,
+        facets: { noteType: {}, tag: {}, year: {} },
+      });
+    });
+
+    it('should return the counts without storing them when a note write got in first', async () => {
+      mockSend.mockRejectedValueOnce({ name: 'ConditionalCheckFailedException' });
+
+      await expect(
+        replace('clinic-abc', 'patient-123', [{ studyDate: '2024-01-15' }], 3)
+      ).resolves.toEqual({
+        total: 1,
+        facets: { noteType: {}, tag: {}, year: { '2024': 1 } },
+      });
+      expect(mockSend.mock.calls[0][0].input.ExpressionAttributeValues).toEqual({
+        ':changeCount': 3,
+      });
+    });
+
+    it('should propagate other errors', async () => {
+      mockSend.mockRejectedValueOnce(new Error('DynamoDB error'));
+
+      await expect(replace('clinic-abc', 'patient-123', [], 0)).rejects.toThrow('DynamoDB error');
+    });
+  });
+});
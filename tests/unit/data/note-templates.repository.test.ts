@@ -0,0 +1,186 @@
+import * as noteTemplatesRepository from '../../../src/data/note-templates.repository';
+import { NotFoundError, VersionConflictError } from '../../../src/lib/errors';
+import { createMockNoteTemplate } from '../../fixtures/notes';
+
+// Mock the DynamoDB client
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function conditionalCheckFailed(): Error {
+  return Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+}
+
+function toItem(template = createMockNoteTemplate()): Record<string, unknown> {
+  return {
+    PK: `CLINIC#${template.clinicId}`,
+    SK: `TEMPLATE#${template.noteType}#${template.templateId}`,
+    entityType: 'NOTE_TEMPLATE',
+    ...template,
+  };
+}
+
+describe('note-templates.repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should put the template in the clinic partition under its note type', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      const result = await noteTemplatesRepository.create('clinic-abc', 'admin-123', {
+        noteType: 'follow_up',
+        name: 'Follow-up visit',
+        content: 'Seen on {{note.studyDate}}.',
+      });
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.Item).toEqual(
+        expect.objectContaining({
+          PK: 'CLINIC#clinic-abc',
+          SK: `TEMPLATE#follow_up#${result.templateId}`,
+          entityType: 'NOTE_TEMPLATE',
+          tags: [],
+          version: 1,
+        })
+      );
+      expect(input.ConditionExpression).toBe('attribute_not_exists(PK)');
+      expect(result).toEqual(
+        expect.objectContaining({ clinicId: 'clinic-abc', createdBy: 'admin-123', tags: [] })
+      );
+      expect(result).not.toHaveProperty('PK');
+    });
+  });
+
+  describe('list', () => {
+    it('should query the template prefix and sort by name', async () => {
+      const psg = createMockNoteTemplate({ name: 'PSG results' });
+      const cpap = createMockNoteTemplate({ name: 'CPAP titration' });
+      mockSend.mockResolvedValueOnce({ Items: [toItem(psg), toItem(cpap)] });
+
+      const result = await noteTemplatesRepository.list('clinic-abc');
+
+      expect(result.map((template) => template.name)).toEqual(['CPAP titration', 'PSG results']);
+      expect(mockSend.mock.calls[0][0].input.ExpressionAttributeValues).toEqual({
+        ':pk': 'CLINIC#clinic-abc',
+        ':skPrefix': 'TEMPLATE#',
+      });
+    });
+
+    it('should narrow the prefix to one note type and follow every page', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Items: [toItem()], LastEvaluatedKey: { PK: 'x', SK: 'y' } })
+        .mockResolvedValueOnce({ Items: [toItem()] });
+
+      const result = await noteTemplatesRepository.list('clinic-abc', 'study_result');
+
+      expect(result).toHaveLength(2);
+      expect(mockSend.mock.calls[0][0].input.ExpressionAttributeValues[':skPrefix']).toBe(
+        'TEMPLATE#study_result#'
+      );
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ PK: 'x', SK: 'y' });
+    });
+  });
+
+  describe('findById', () => {
+    it('should filter the clinic templates by id', async () => {
+      const template = createMockNoteTemplate({ templateId: 'template-1' });
+      mockSend.mockResolvedValueOnce({ Items: [toItem(template)] });
+
+      const result = await noteTemplatesRepository.findById('clinic-abc', 'template-1');
+
+      expect(result).toEqual(template);
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.FilterExpression).toBe('templateId = :templateId');
+      expect(input.ExpressionAttributeValues[':templateId']).toBe('template-1');
+    });
+
+    it('should keep reading pages until the template is found', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Items: [], LastEvaluatedKey: { PK: 'x', SK: 'y' } })
+        .mockResolvedValueOnce({ Items: [toItem()], LastEvaluatedKey: { PK: 'x', SK: 'z' } });
+
+      await expect(
+        noteTemplatesRepository.findById('clinic-abc', 'template-1')
+      ).resolves.not.toBeNull();
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return null when no template matches', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [] });
+
+      await expect(noteTemplatesRepository.findById('clinic-abc', 'missing')).resolves.toBeNull();
+    });
+  });
+
+  describe('update', () => {
+    it('should set the given fields and remove a null title', async () => {
+      const template = createMockNoteTemplate({ templateId: 'template-1' });
+      mockSend.mockResolvedValueOnce({ Attributes: toItem({ ...template, version: 2 }) });
+
+      const result = await noteTemplatesRepository.update(template, 'admin-456', {
+        name: 'PSG',
+        title: null,
+        content: 'Updated',
+        version: 1,
+      });
+
+      expect(result.version).toBe(2);
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.Key).toEqual({
+        PK: 'CLINIC#clinic-abc',
+        SK: 'TEMPLATE#study_result#template-1',
+      });
+      expect(input.UpdateExpression).toContain('#name = :name');
+      expect(input.UpdateExpression).toContain('#content = :content');
+      expect(input.UpdateExpression).toContain('REMOVE title');
+      expect(input.ConditionExpression).toBe('attribute_exists(PK) AND version = :expectedVersion');
+      expect(input.ExpressionAttributeValues[':expectedVersion']).toBe(1);
+    });
+
+    it('should throw VersionConflictError when the version has moved on', async () => {
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(
+        noteTemplatesRepository.update(createMockNoteTemplate(), 'admin-456', { version: 1 })
+      ).rejects.toThrow(VersionConflictError);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the template item', async () => {
+      const template = createMockNoteTemplate({ templateId: 'template-1' });
+      mockSend.mockResolvedValueOnce({});
+
+      await noteTemplatesRepository.remove(template);
+
+      expect(mockSend.mock.calls[0][0].input.Key).toEqual({
+        PK: 'CLINIC#clinic-abc',
+        SK: 'TEMPLATE#study_result#template-1',
+      });
+    });
+
+    it('should throw NotFoundError when the template is already gone', async () => {
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed());
+
+      await expect(noteTemplatesRepository.remove(createMockNoteTemplate())).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+});
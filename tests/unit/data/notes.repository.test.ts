@@ -1,5 +1,12 @@
 import * as notesRepository from '../../../src/data/notes.repository';
-import { ConflictError, NotFoundError } from '../../../src/lib/errors';
+import { decodeClinicFeedCursor, encodeClinicFeedCursor, encodeCursor } from '../../../src/data/cursor';
+import {
+  ConflictError,
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError,
+  VersionConflictError,
+} from '../../../src/lib/errors';
 import { CreateNoteInput, UpdateNoteInput } from '../../../src/types';
 
 // Mock the DynamoDB client
@@ -9,6 +16,9 @@ jest.mock('../../../src/data/client', () => ({
     send: (...args: unknown[]) => mockSend(...args),
   },
   TABLE_NAME: 'TestTable',
+  CLINIC_NOTE_FEED_INDEX_NAME: 'GSI1',
+  NOTE_ID_INDEX_NAME: 'GSI2',
+  NOTE_UPDATED_INDEX_NAME: 'GSI3',
 }));
 
 // Mock uuid
@@ -62,6 +72,47 @@ describe('notes.repository', () => {
       expect(result.updatedAt).toBeDefined();
     });
 
+    it('should store study metrics on the note', async () => {
+      mockSend.mockResolvedValue({});
+
+      const studyMetrics = { ahi: 22.4, oxygenNadir: 84 };
+
+      const result = await notesRepository.create(
+        'clinic-abc',
+        'patient-123',
+        'user-456',
+        'Dr. Test',
+        {
+          studyDate: '2024-01-15',
+          title: 'PSG',
+          content: 'Findings',
+          noteType: 'study_result',
+          studyMetrics,
+        }
+      );
+
+      expect(mockSend.mock.calls[0][0].input.TransactItems[0].Put.Item.studyMetrics).toEqual(
+        studyMetrics
+      );
+      expect(result.studyMetrics).toEqual(studyMetrics);
+    });
+
+    it('should throw TooManyRequestsError when concurrent writes keep colliding', async () => {
+      mockSend.mockRejectedValue({
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'None' }, { Code: 'TransactionConflict' }],
+      });
+
+      await expect(
+        notesRepository.create('clinic-abc', 'patient-123', 'user-456', 'Dr. Test', {
+          studyDate: '2024-01-15',
+          title: 'Note Title',
+          content: 'Note content',
+        })
+      ).rejects.toThrow(TooManyRequestsError);
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
     it('should create a note with minimal fields', async () => {
       mockSend.mockResolvedValue({});
 
@@ -89,17 +140,98 @@ describe('notes.repository', () => {
 
       await notesRepository.create('clinic-abc', 'patient-123', 'user-456', 'Dr. Test', input);
 
-      expect(mockSend).toHaveBeenCalledWith(
+      expect(mockSend.mock.calls[0][0].input.TransactItems[0].Put).toEqual(
         expect.objectContaining({
-          input: expect.objectContaining({
-            TableName: 'TestTable',
-            Item: expect.objectContaining({
-              PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-              SK: 'NOTE#2024-01-15#mock-note-id-123',
-              entityType: 'NOTE',
-            }),
-            ConditionExpression: 'attribute_not_exists(PK)',
+          TableName: 'TestTable',
+          Item: expect.objectContaining({
+            PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+            SK: 'NOTE#2024-01-15#mock-note-id-123',
+            entityType: 'NOTE',
+            GSI1PK: 'CLINIC#clinic-abc#NOTES',
+            GSI1SK: 'DATE#2024-01-15#NOTE#mock-note-id-123',
+            GSI2PK: 'NOTE#mock-note-id-123',
+            GSI2SK: 'CLINIC#clinic-abc#PATIENT#patient-123',
           }),
+          ConditionExpression: 'attribute_not_exists(PK)',
+        })
+      );
+    });
+
+    it('should count the note in the same transaction', async () => {
+      mockSend.mockResolvedValue({});
+
+      await notesRepository.create('clinic-abc', 'patient-123', 'user-456', 'Dr. Test', {
+        studyDate: '2024-01-15',
+        title: 'Title',
+        content: 'Content',
+        tags: ['psg'],
+      });
+
+      const [, counters] = mockSend.mock.calls[0][0].input.TransactItems;
+      expect(counters.Update.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123#COUNTS',
+        SK: 'NOTES',
+      });
+      expect(Object.values(counters.Update.ExpressionAttributeNames)).toEqual([
+        'total',
+        'tag:psg',
+        'year:2024',
+      ]);    });
+
+    it('should leave a search index marker in the same transaction', async () => {
+      mockSend.mockResolvedValue({});
+
+      await notesRepository.create('clinic-abc', 'patient-123', 'user-456', 'Dr. Test', {
+        studyDate: '2024-01-15',
+        title: 'Title',
+        content: 'Content',
+      });
+
+      const items = mockSend.mock.calls[0][0].input.TransactItems;
+      expect(items[items.length - 1].Put.Item).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123#SEARCH',
+        SK: 'PENDING#mock-note-id-123',
+        noteId: 'mock-note-id-123',
+        studyDate: '2024-01-15',
+        changeId: 'mock-note-id-123',
+        entityType: 'SEARCH_PENDING',
+        createdAt: expect.any(String),
+      });
+    });
+
+    it('should write a pending co-signature and queue entry when required', async () => {
+      mockSend.mockResolvedValue({});
+
+      const input: CreateNoteInput = {
+        studyDate: '2024-01-15',
+        title: 'Follow-up',
+        content: 'Patient tolerating CPAP well.',
+        noteType: 'follow_up',
+      };
+
+      const result = await notesRepository.create(
+        'clinic-abc',
+        'patient-123',
+        'user-nurse',
+        'Nurse Joy',
+        input,
+        true
+      );
+
+      expect(result.cosignature).toEqual({ status: 'pending', requestedAt: result.createdAt });
+
+      const [notePut, queuePut] = mockSend.mock.calls[0][0].input.TransactItems;
+      expect(notePut.Put.ConditionExpression).toBe('attribute_not_exists(PK)');
+      expect(notePut.Put.Item.cosignature.status).toBe('pending');
+      expect(queuePut.Put.Item).toEqual(
+        expect.objectContaining({
+          PK: 'CLINIC#clinic-abc#COSIGN_QUEUE',
+          SK: `NOTE#${result.createdAt}#mock-note-id-123`,
+          patientId: 'patient-123',
+          title: 'Follow-up',
+          noteType: 'follow_up',
+          createdBy: 'user-nurse',
+          entityType: 'COSIGN_QUEUE_ENTRY',
         })
       );
     });
@@ -189,6 +321,13 @@ describe('notes.repository', () => {
   });
 
   describe('findByIdWithoutStudyDate', () => {
+    const indexKey = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      GSI2PK: 'NOTE#note-id',
+      GSI2SK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+    };
+
     it('should return a note when found', async () => {
       const mockItem = {
         PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
@@ -208,7 +347,8 @@ describe('notes.repository', () => {
         entityType: 'NOTE',
       };
 
-      mockSend.mockResolvedValue({ Items: [mockItem] });
+      mockSend.mockResolvedValueOnce({ Items: [indexKey] });
+      mockSend.mockResolvedValueOnce({ Item: mockItem });
 
       const result = await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
 
@@ -222,6 +362,34 @@ describe('notes.repository', () => {
       const result = await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
 
       expect(result).toBeNull();
+      // The eventually consistent index is asked a second time before giving up
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    it('should find a note the noteId index had not caught up with on the first query', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Items: [] })
+        .mockResolvedValueOnce({ Items: [indexKey] })
+        .mockResolvedValueOnce({ Item: { noteId: 'note-id', attachments: [], version: 1 } });
+
+      const result = await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
+
+      expect(result?.noteId).toBe('note-id');
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
+    it('should query the index again when it still points at a moved note key', async () => {
+      const movedKey = { PK: indexKey.PK, SK: 'NOTE#2024-02-01#note-id' };
+      mockSend
+        .mockResolvedValueOnce({ Items: [indexKey] })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Items: [movedKey] })
+        .mockResolvedValueOnce({ Item: { noteId: 'note-id', attachments: [], version: 2 } });
+
+      const result = await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
+
+      expect(result?.version).toBe(2);
+      expect(mockSend.mock.calls[3][0].input.Key).toEqual(movedKey);
     });
 
     it('should return null when Items is undefined', async () => {
@@ -232,7 +400,27 @@ describe('notes.repository', () => {
       expect(result).toBeNull();
     });
 
-    it('should query with correct filter expression', async () => {
+    it('should return null when the indexed note is soft deleted', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [indexKey] });
+      mockSend.mockResolvedValueOnce({
+        Item: { noteId: 'note-id', deletedAt: '2024-01-20T10:00:00.000Z', version: 1 },
+      });
+
+      const result = await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null when the item disappeared after the index lookup', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [indexKey] });
+      mockSend.mockResolvedValueOnce({ Item: undefined });
+
+      const result = await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
+
+      expect(result).toBeNull();
+    });
+
+    it('should query the noteId index scoped to the patient partition', async () => {
       mockSend.mockResolvedValue({ Items: [] });
 
       await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'target-note-id');
@@ -240,16 +428,31 @@ describe('notes.repository', () => {
       expect(mockSend).toHaveBeenCalledWith(
         expect.objectContaining({
           input: expect.objectContaining({
-            KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
-            FilterExpression: 'noteId = :noteId AND attribute_not_exists(deletedAt)',
-            ExpressionAttributeValues: expect.objectContaining({
+            IndexName: 'GSI2',
+            KeyConditionExpression: 'GSI2PK = :gsi2pk AND GSI2SK = :pk',
+            ExpressionAttributeValues: {
+              ':gsi2pk': 'NOTE#target-note-id',
               ':pk': 'CLINIC#clinic-abc#PATIENT#patient-123',
-              ':skPrefix': 'NOTE#',
-              ':noteId': 'target-note-id',
-            }),
+            },
+            Limit: 1,
           }),
         })
       );
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.FilterExpression).toBeUndefined();
+    });
+
+    it('should read the item back with a consistent read', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [indexKey] });
+      mockSend.mockResolvedValueOnce({ Item: undefined });
+
+      await notesRepository.findByIdWithoutStudyDate('clinic-abc', 'patient-123', 'note-id');
+
+      expect(mockSend.mock.calls[1][0].input).toEqual({
+        TableName: 'TestTable',
+        Key: { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#2024-01-15#note-id' },
+        ConsistentRead: true,
+      });
     });
   });
 
@@ -413,6 +616,20 @@ describe('notes.repository', () => {
       );
     });
 
+    it('should list only soft-deleted notes when deleted is set', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', { limit: 10, deleted: true });
+
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            FilterExpression: 'attribute_exists(deletedAt)',
+          }),
+        })
+      );
+    });
+
     it('should use cursor for pagination', async () => {
       mockSend.mockResolvedValue({ Items: [] });
 
@@ -421,7 +638,12 @@ describe('notes.repository', () => {
         PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
         SK: 'NOTE#2024-01-15#note-id',
       };
-      const cursor = Buffer.from(JSON.stringify(cursorData), 'utf-8').toString('base64url');
+      const cursor = encodeCursor(cursorData, {
+        clinicId: 'clinic-abc',
+        patientId: 'patient-123',
+        list: 'notes',
+        filters: {},
+      });
 
       await notesRepository.list('clinic-abc', 'patient-123', {
         limit: 10,
@@ -446,29 +668,257 @@ describe('notes.repository', () => {
       expect(result.hasMore).toBe(false);
       expect(result.nextCursor).toBeUndefined();
     });
-  });
 
-  describe('update', () => {
-    it('should update note with new values', async () => {
-      const updatedItem = {
+    const listItem = (i: number) => ({
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: `NOTE#2024-01-0${i}#note-${i}`,
+      noteId: `note-${i}`,
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: `2024-01-0${i}`,
+      title: `Note ${i}`,
+      content: `Content ${i}`,
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: `2024-02-0${i}T10:00:00.000Z`,
+      createdBy: 'user-123',
+      updatedBy: 'user-123',
+      version: 1,
+      entityType: 'NOTE',
+    });
+
+    it('should read oldest study first for sort=studyDate', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', { limit: 10, sort: 'studyDate' });
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.IndexName).toBeUndefined();
+      expect(input.ScanIndexForward).toBe(true);
+    });
+
+    it('should read the updatedAt index for sort=-updatedAt', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 10,
+        sort: '-updatedAt',
+        studyDateFrom: '2024-01-01',
+        studyDateTo: '2024-06-30',
+      });
+
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          IndexName: 'GSI3',
+          KeyConditionExpression: 'PK = :pk',
+          FilterExpression:
+            'attribute_not_exists(deletedAt) AND begins_with(SK, :skPrefix) AND ' +
+            'studyDate >= :studyDateFrom AND studyDate <= :studyDateTo',
+          ExpressionAttributeValues: {
+            ':pk': 'CLINIC#clinic-abc#PATIENT#patient-123',
+            ':skPrefix': 'NOTE#',
+            ':studyDateFrom': '2024-01-01',
+            ':studyDateTo': '2024-06-30',
+          },
+          ScanIndexForward: false,
+        })
+      );
+    });
+
+    it('should resume the updatedAt index from its cursor', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [listItem(3), listItem(2), listItem(1)] });
+
+      const first = await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 2,
+        sort: '-updatedAt',
+      });
+      mockSend.mockResolvedValueOnce({ Items: [listItem(1)] });
+      await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 2,
+        sort: '-updatedAt',
+        cursor: first.nextCursor,
+      });
+
+      expect(first.items.map((note) => note.noteId)).toEqual(['note-3', 'note-2']);
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({
         PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-        SK: 'NOTE#2024-01-15#note-id',
-        noteId: 'note-id',
-        clinicId: 'clinic-abc',
-        patientId: 'patient-123',
-        studyDate: '2024-01-15',
-        title: 'Updated Title',
-        content: 'Updated content',
-        attachments: [],
-        createdAt: '2024-01-15T10:00:00.000Z',
-        updatedAt: '2024-01-16T10:00:00.000Z',
+        SK: 'NOTE#2024-01-02#note-2',
+        updatedAt: '2024-02-02T10:00:00.000Z',
+      });
+    });
+
+    it('should reject a cursor issued for another sort order', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [listItem(3), listItem(2), listItem(1)] });
+      const first = await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 2,
+        sort: '-updatedAt',
+      });
+
+      await expect(
+        notesRepository.list('clinic-abc', 'patient-123', {
+          limit: 2,
+          sort: 'studyDate',
+          cursor: first.nextCursor,
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should push noteType, author and attachment filters into the query', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 10,
+        noteType: 'follow_up',
+        createdBy: 'user-456',
+        hasAttachments: true,
+      });
+
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          FilterExpression:
+            'attribute_not_exists(deletedAt) AND noteType = :noteType AND ' +
+            'createdBy = :createdBy AND size(attachments) > :zero',
+          ExpressionAttributeValues: expect.objectContaining({
+            ':noteType': 'follow_up',
+            ':createdBy': 'user-456',
+            ':zero': 0,
+          }),
+        })
+      );
+    });
+
+    it('should match notes without attachments', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 10,
+        hasAttachments: false,
+      });
+
+      expect(mockSend.mock.calls[0][0].input.FilterExpression).toBe(
+        'attribute_not_exists(deletedAt) AND ' +
+          '(attribute_not_exists(attachments) OR size(attachments) = :zero)'
+      );
+    });
+
+    it.each([
+      ['any', '(contains(tags, :tag0) OR contains(tags, :tag1))'],
+      ['all', 'contains(tags, :tag0) AND contains(tags, :tag1)'],
+    ] as const)('should combine tags with tagMatch=%s', async (tagMatch, expression) => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 10,
+        tags: ['psg', 'cpap'],
+        tagMatch,
+      });
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.FilterExpression).toBe(`attribute_not_exists(deletedAt) AND ${expression}`);
+      expect(input.ExpressionAttributeValues).toEqual(
+        expect.objectContaining({ ':tag0': 'psg', ':tag1': 'cpap' })
+      );
+    });
+
+    it('should project the requested attributes plus the keys', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 10,
+        attributes: ['title', 'content', 'studyDate'],
+      });
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.ProjectionExpression).toBe(
+        '#attr0, #attr1, #attr2, #attr3, #attr4, #attr5, #attr6, #attr7, #attr8'
+      );
+      expect(Object.values(input.ExpressionAttributeNames)).toEqual([
+        'PK',
+        'SK',
+        'noteId',
+        'clinicId',
+        'patientId',
+        'studyDate',
+        'updatedAt',
+        'title',
+        'content',
+      ]);
+    });
+
+    it('should read whole items without attributes', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.list('clinic-abc', 'patient-123', { limit: 10 });
+
+      expect(mockSend.mock.calls[0][0].input.ProjectionExpression).toBeUndefined();
+    });
+
+    it('should keep querying until the page is full when filters drop items', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [listItem(5)],
+          LastEvaluatedKey: { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#x' },
+        })
+        .mockResolvedValueOnce({
+          Items: [listItem(4), listItem(3)],
+          LastEvaluatedKey: { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#y' },
+        });
+
+      const result = await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 2,
+        noteType: 'follow_up',
+      });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(result.items.map((note) => note.noteId)).toEqual(['note-5', 'note-4']);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBeDefined();
+    });
+
+    it('should report no more pages when the partition is exhausted', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [listItem(2)],
+          LastEvaluatedKey: { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#x' },
+        })
+        .mockResolvedValueOnce({ Items: [] });
+
+      const result = await notesRepository.list('clinic-abc', 'patient-123', {
+        limit: 2,
         createdBy: 'user-123',
-        updatedBy: 'user-456',
-        version: 2,
-        entityType: 'NOTE',
-      };
+      });
 
-      mockSend.mockResolvedValue({ Attributes: updatedItem });
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(result.items).toHaveLength(1);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('update', () => {
+    const existingItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Original Title',
+      content: 'Original content',
+      tags: ['sleep'],
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      createdBy: 'user-123',
+      createdByName: 'Dr. Smith',
+      updatedBy: 'user-123',
+      updatedByName: 'Dr. Smith',
+      version: 1,
+      entityType: 'NOTE',
+    };
+
+    it('should update note with new values', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
 
       const input: UpdateNoteInput = {
         title: 'Updated Title',
@@ -490,43 +940,48 @@ describe('notes.repository', () => {
       expect(result.content).toBe('Updated content');
       expect(result.version).toBe(2);
       expect(result.updatedBy).toBe('user-456');
+      expect(result.updatedByName).toBe('Dr. Test');
+      expect(result.createdBy).toBe('user-123');
     });
 
-    it('should update only title when content not provided', async () => {
-      mockSend.mockResolvedValue({
-        Attributes: {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-          SK: 'NOTE#2024-01-15#note-id',
-          noteId: 'note-id',
-          clinicId: 'clinic-abc',
-          patientId: 'patient-123',
-          studyDate: '2024-01-15',
-          title: 'New Title',
-          content: 'Original content',
-          attachments: [],
-          createdAt: '2024-01-15T10:00:00.000Z',
-          updatedAt: '2024-01-16T10:00:00.000Z',
-          createdBy: 'user-123',
-          updatedBy: 'user-456',
-          version: 2,
-          entityType: 'NOTE',
-        },
+    it('should read the current item with a consistent read', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        title: 'New Title',
+        version: 1,
       });
 
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          Key: {
+            PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+            SK: 'NOTE#2024-01-15#note-id',
+          },
+          ConsistentRead: true,
+        })
+      );
+    });
+
+    it('should update only title when content not provided', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
       const input: UpdateNoteInput = {
         title: 'New Title',
         version: 1,
       };
 
-      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input);
+      const result = await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input);
 
-      expect(mockSend).toHaveBeenCalledWith(
-        expect.objectContaining({
-          input: expect.objectContaining({
-            UpdateExpression: expect.stringContaining('title = :title'),
-          }),
-        })
+      const update = mockSend.mock.calls[1][0].input.TransactItems[0].Update;
+      expect(update.UpdateExpression).toContain('title = :title');
+      expect(update.UpdateExpression).not.toContain('#content = :content');
+      expect(update.ConditionExpression).toBe(
+        'attribute_exists(PK) AND attribute_not_exists(deletedAt) AND ' +
+          'attribute_not_exists(signature) AND version = :expectedVersion'
       );
+      expect(update.ExpressionAttributeValues[':expectedVersion']).toBe(1);
+      expect(result.content).toBe('Original content');
     });
 
     it('should update attachments', async () => {
@@ -541,25 +996,7 @@ describe('notes.repository', () => {
         },
       ];
 
-      mockSend.mockResolvedValue({
-        Attributes: {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-          SK: 'NOTE#2024-01-15#note-id',
-          noteId: 'note-id',
-          clinicId: 'clinic-abc',
-          patientId: 'patient-123',
-          studyDate: '2024-01-15',
-          title: 'Title',
-          content: 'Content',
-          attachments,
-          createdAt: '2024-01-15T10:00:00.000Z',
-          updatedAt: '2024-01-16T10:00:00.000Z',
-          createdBy: 'user-123',
-          updatedBy: 'user-456',
-          version: 2,
-          entityType: 'NOTE',
-        },
-      });
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
 
       const input: UpdateNoteInput = {
         attachments,
@@ -579,10 +1016,77 @@ describe('notes.repository', () => {
       expect(result.attachments).toEqual(attachments);
     });
 
-    it('should throw NotFoundError when note does not exist', async () => {
-      mockSend.mockRejectedValue({ name: 'ConditionalCheckFailedException' });
+    it('should replace study metrics and remove them with null', async () => {
+      const withMetrics = { ...existingItem, noteType: 'study_result', studyMetrics: { ahi: 12 } };
+      mockSend.mockResolvedValueOnce({ Item: withMetrics }).mockResolvedValueOnce({});
+
+      const replaced = await notesRepository.update(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        'user-456',
+        'Dr. Test',
+        { studyMetrics: { ahi: 14, rdi: 19 }, version: 1 }
+      );
+
+      let update = mockSend.mock.calls[1][0].input.TransactItems[0].Update;
+      expect(update.UpdateExpression).toContain('studyMetrics = :studyMetrics');
+      expect(update.ExpressionAttributeValues[':studyMetrics']).toEqual({ ahi: 14, rdi: 19 });
+      expect(replaced.studyMetrics).toEqual({ ahi: 14, rdi: 19 });
+      expect(mockSend.mock.calls[1][0].input.TransactItems[1].Put.Item.changedFields).toEqual([
+        'studyMetrics',
+      ]);
+
+      mockSend.mockResolvedValueOnce({ Item: withMetrics }).mockResolvedValueOnce({});
+
+      const removed = await notesRepository.update(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        'user-456',
+        'Dr. Test',
+        { studyMetrics: null, version: 1 }
+      );
+
+      update = mockSend.mock.calls[3][0].input.TransactItems[0].Update;
+      expect(update.UpdateExpression).toContain('REMOVE studyMetrics');
+      expect(removed.studyMetrics).toBeUndefined();
+    });
 
-      // Mock findById to return null
+    it('should write a revision item in the same transaction', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        title: 'Updated Title',
+        content: 'Original content',
+        version: 1,
+      });
+
+      const put = mockSend.mock.calls[1][0].input.TransactItems[1].Put;
+      expect(put.ConditionExpression).toBe('attribute_not_exists(SK)');
+      expect(put.Item).toEqual(
+        expect.objectContaining({
+          PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+          SK: 'HISTORY#note-id#0000000002',
+          entityType: 'NOTE_REVISION',
+          version: 2,
+          changedBy: 'user-456',
+          changedByName: 'Dr. Test',
+          changedFields: ['title'],
+          previous: expect.objectContaining({
+            version: 1,
+            title: 'Original Title',
+            content: 'Original content',
+            updatedBy: 'user-123',
+            updatedByName: 'Dr. Smith',
+          }),
+        })
+      );
+    });
+
+    it('should throw NotFoundError when note does not exist', async () => {
       mockSend.mockResolvedValueOnce({ Item: undefined });
 
       const input: UpdateNoteInput = {
@@ -590,36 +1094,149 @@ describe('notes.repository', () => {
         version: 1,
       };
 
+      await expect(
+        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input)
+      ).rejects.toThrow(NotFoundError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundError when note is soft deleted', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { ...existingItem, deletedAt: '2024-01-16T10:00:00.000Z' },
+      });
+
+      const input: UpdateNoteInput = {
+        title: 'Updated',
+        version: 1,
+      };
+
       await expect(
         notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input)
       ).rejects.toThrow(NotFoundError);
     });
 
     it('should throw ConflictError on version mismatch', async () => {
-      const error = { name: 'ConditionalCheckFailedException' };
-      mockSend.mockRejectedValueOnce(error);
+      mockSend.mockResolvedValueOnce({ Item: { ...existingItem, version: 3 } });
+
+      const input: UpdateNoteInput = {
+        title: 'Updated',
+        version: 1,
+      };
 
-      // Mock findById to return existing note with different version
+      await expect(
+        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input)
+      ).rejects.toThrow('Version conflict: expected 1, current is 3');
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resubmit a rejected note for co-signature', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: {
+            ...existingItem,
+            cosignature: {
+              status: 'rejected',
+              requestedAt: '2024-01-15T10:00:00.000Z',
+              reviewedBy: 'user-doctor',
+              reason: 'Missing pressure settings',
+            },
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      const result = await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        content: 'Pressure set to 10 cmH2O',
+        version: 1,
+      });
+
+      expect(result.cosignature).toEqual({ status: 'pending', requestedAt: result.updatedAt });
+
+      const [update, revision, queuePut] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toContain('cosignature = :cosignature');
+      expect(revision.Put.Item.changedFields).toEqual(['content', 'cosignature']);
+      expect(queuePut.Put.Item).toEqual(
+        expect.objectContaining({
+          PK: 'CLINIC#clinic-abc#COSIGN_QUEUE',
+          SK: `NOTE#${result.updatedAt}#note-id`,
+        })
+      );
+    });
+
+    it('should refresh the queue entry of a pending note in place', async () => {
+      const cosignature = { status: 'pending', requestedAt: '2024-01-15T10:00:00.000Z' };
+      mockSend
+        .mockResolvedValueOnce({ Item: { ...existingItem, cosignature } })
+        .mockResolvedValueOnce({});
+
+      const result = await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        title: 'Renamed',
+        version: 1,
+      });
+
+      expect(result.cosignature).toEqual(cosignature);
+
+      const [update, , queuePut] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).not.toContain('cosignature');
+      expect(queuePut.Put.Item).toEqual(
+        expect.objectContaining({
+          SK: 'NOTE#2024-01-15T10:00:00.000Z#note-id',
+          title: 'Renamed',
+        })
+      );
+    });
+
+    it('should not touch the queue for notes without a co-signature requirement', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        title: 'Renamed',
+        version: 1,
+      });
+
+      // The note, its revision and its search index marker
+      expect(mockSend.mock.calls[1][0].input.TransactItems).toHaveLength(3);
+    });
+
+    it('should move the note between counters in the same transaction', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        tags: ['psg'],
+        version: 1,
+      });
+
+      const [, , counters] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(counters.Update.ExpressionAttributeNames).toEqual({
+        '#counter0': 'tag:sleep',
+        '#counter1': 'tag:psg',
+      });
+      expect(counters.Update.ExpressionAttributeValues).toEqual({
+        ':delta0': -1,
+        ':delta1': 1,
+        ':one': 1,
+      });
+    });
+
+    it('should throw ConflictError when the note is signed', async () => {
       mockSend.mockResolvedValueOnce({
-        Item: {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-          SK: 'NOTE#2024-01-15#note-id',
-          noteId: 'note-id',
-          clinicId: 'clinic-abc',
-          patientId: 'patient-123',
-          studyDate: '2024-01-15',
-          title: 'Title',
-          content: 'Content',
-          attachments: [],
-          createdAt: '2024-01-15T10:00:00.000Z',
-          updatedAt: '2024-01-15T10:00:00.000Z',
-          createdBy: 'user-123',
-          updatedBy: 'user-123',
-          version: 3,
-          entityType: 'NOTE',
-        },
+        Item: { ...existingItem, signature: { signedAt: '2024-01-16T10:00:00.000Z' } },
       });
 
+      await expect(
+        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+          title: 'Updated',
+          version: 1,
+        })
+      ).rejects.toThrow('Note note-id is signed and can no longer be edited; add an addendum instead');
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw ConflictError when the transaction loses a concurrent update', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: existingItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' })
+        .mockResolvedValueOnce({ Item: { ...existingItem, version: 2 } });
+
       const input: UpdateNoteInput = {
         title: 'Updated',
         version: 1,
@@ -630,22 +1247,46 @@ describe('notes.repository', () => {
       ).rejects.toThrow(ConflictError);
     });
 
-    it('should throw NotFoundError if Attributes is undefined', async () => {
-      mockSend.mockResolvedValue({ Attributes: undefined });
+    it('should retry a transaction that collided on the shared counters', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: existingItem })
+        .mockRejectedValueOnce({
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'None' }, { Code: 'None' }, { Code: 'TransactionConflict' }],
+        })
+        .mockResolvedValueOnce({});
 
-      const input: UpdateNoteInput = {
+      const result = await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
         title: 'Updated',
         version: 1,
+      });
+
+      expect(result.version).toBe(2);
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not report a failed condition on another item as a version conflict', async () => {
+      const err = {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }],
       };
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockRejectedValueOnce(err);
 
       await expect(
-        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input)
-      ).rejects.toThrow(NotFoundError);
+        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+          title: 'Updated',
+          version: 1,
+        })
+      ).rejects.toBe(err);
+      expect(mockSend).toHaveBeenCalledTimes(2);
     });
 
-    it('should propagate non-conditional check errors', async () => {
-      const error = new Error('DynamoDB connection failed');
-      mockSend.mockRejectedValue(error);
+    it('should throw NotFoundError when the note disappears during the transaction', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: existingItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' })
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({ Items: [] });
 
       const input: UpdateNoteInput = {
         title: 'Updated',
@@ -654,84 +1295,1421 @@ describe('notes.repository', () => {
 
       await expect(
         notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input)
-      ).rejects.toThrow('DynamoDB connection failed');
+      ).rejects.toThrow(NotFoundError);
     });
-  });
 
-  describe('softDelete', () => {
-    it('should soft delete a note', async () => {
-      mockSend.mockResolvedValue({});
+    it('should write noteType and tags', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
 
-      await notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456');
+      const result = await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        noteType: 'follow_up',
+        tags: ['cpap', 'titration'],
+        version: 1,
+      });
 
-      expect(mockSend).toHaveBeenCalledWith(
+      const [write, revision] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(write.Update.UpdateExpression).toContain('noteType = :noteType');
+      expect(write.Update.UpdateExpression).toContain('tags = :tags');
+      expect(write.Update.UpdateExpression).not.toContain('REMOVE');
+      expect(write.Update.ExpressionAttributeValues[':noteType']).toBe('follow_up');
+      expect(write.Update.ExpressionAttributeValues[':tags']).toEqual(['cpap', 'titration']);
+      expect(revision.Put.Item.changedFields).toEqual(['noteType', 'tags']);
+      expect(result.noteType).toBe('follow_up');
+      expect(result.tags).toEqual(['cpap', 'titration']);
+    });
+
+    it('should remove noteType when it is null and clear tags with an empty array', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: { ...existingItem, noteType: 'consultation' } })
+        .mockResolvedValueOnce({});
+
+      const result = await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        noteType: null,
+        tags: [],
+        version: 1,
+      });
+
+      const [write, revision] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(write.Update.UpdateExpression).toMatch(/^SET .*tags = :tags.* REMOVE noteType$/);
+      expect(write.Update.ExpressionAttributeValues[':tags']).toEqual([]);
+      expect(write.Update.ExpressionAttributeValues).not.toHaveProperty(':noteType');
+      expect(revision.Put.Item.changedFields).toEqual(['noteType', 'tags']);
+      expect(revision.Put.Item.previous.noteType).toBe('consultation');
+      expect(result.noteType).toBeUndefined();
+      expect(result.tags).toEqual([]);
+    });
+
+    it('should not record unchanged tags as a change', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        tags: ['sleep'],
+        version: 1,
+      });
+
+      const revision = mockSend.mock.calls[1][0].input.TransactItems[1];
+      expect(revision.Put.Item.changedFields).toEqual([]);
+    });
+
+    it('should not record study metrics sent in another key order as a change', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: { ...existingItem, noteType: 'study_result', studyMetrics: { ahi: 22.4, odi: 18 } },
+        })
+        .mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        studyMetrics: { odi: 18, ahi: 22.4 },
+        version: 1,
+      });
+
+      const revision = mockSend.mock.calls[1][0].input.TransactItems[1];
+      expect(revision.Put.Item.changedFields).toEqual([]);
+    });
+
+    it('should move the note to the new studyDate key in one transaction', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      const result = await notesRepository.update(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        'user-456',
+        'Dr. Test',
+        { studyDate: '2024-01-14', version: 1 }
+      );
+
+      expect(result.noteId).toBe('note-id');
+      expect(result.studyDate).toBe('2024-01-14');
+      expect(result.createdAt).toBe('2024-01-15T10:00:00.000Z');
+      expect(result.version).toBe(2);
+
+      const [remove, put, revision, pending] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(remove.Delete).toEqual({
+        TableName: 'TestTable',
+        Key: { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#2024-01-15#note-id' },
+        ConditionExpression:
+          'attribute_exists(PK) AND attribute_not_exists(deletedAt) AND ' +
+          'attribute_not_exists(signature) AND version = :expectedVersion',
+        ExpressionAttributeValues: { ':expectedVersion': 1 },
+      });
+      expect(put.Put.ConditionExpression).toBe('attribute_not_exists(PK)');
+      expect(put.Put.Item).toEqual(
         expect.objectContaining({
-          input: expect.objectContaining({
-            Key: {
-              PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-              SK: 'NOTE#2024-01-15#note-id',
-            },
-            UpdateExpression: 'SET deletedAt = :deletedAt, deletedBy = :deletedBy',
-            ConditionExpression: 'attribute_exists(PK) AND attribute_not_exists(deletedAt)',
-            ExpressionAttributeValues: expect.objectContaining({
-              ':deletedBy': 'user-456',
-            }),
-          }),
+          PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+          SK: 'NOTE#2024-01-14#note-id',
+          noteId: 'note-id',
+          studyDate: '2024-01-14',
+          title: 'Original Title',
+          createdAt: '2024-01-15T10:00:00.000Z',
+          createdBy: 'user-123',
+          version: 2,
+          entityType: 'NOTE',
+          GSI2PK: 'NOTE#note-id',
+          GSI2SK: 'CLINIC#clinic-abc#PATIENT#patient-123',
         })
       );
+      expect(revision.Put.Item.changedFields).toEqual(['studyDate']);
+      expect(revision.Put.Item.previous.studyDate).toBe('2024-01-15');
+      // The search index reads the note back from its new key
+      expect(pending.Put.Item.studyDate).toBe('2024-01-14');
     });
 
-    it('should throw NotFoundError when note not found', async () => {
-      mockSend.mockRejectedValue({ name: 'ConditionalCheckFailedException' });
+    it('should move the clinic feed keys to the new studyDate', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: {
+            ...existingItem,
+            GSI1PK: 'CLINIC#clinic-abc#STATUS#final',
+            GSI1SK: 'DATE#2024-01-15#NOTE#note-id',
+          },
+        })
+        .mockResolvedValueOnce({});
 
-      await expect(
-        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
-      ).rejects.toThrow(NotFoundError);
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        studyDate: '2024-02-01',
+        version: 1,
+      });
+
+      const put = mockSend.mock.calls[1][0].input.TransactItems[1].Put;
+      expect(put.Item.GSI1PK).toBe('CLINIC#clinic-abc#NOTES');
+      expect(put.Item.GSI1SK).toBe('DATE#2024-02-01#NOTE#note-id');
     });
 
-    it('should throw NotFoundError when note already deleted', async () => {
-      mockSend.mockRejectedValue({ name: 'ConditionalCheckFailedException' });
+    it('should update in place when studyDate is unchanged', async () => {
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+        studyDate: '2024-01-15',
+        title: 'Retitled',
+        version: 1,
+      });
+
+      const [write, revision] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(write.Update).toBeDefined();
+      expect(revision.Put.Item.changedFields).toEqual(['title']);
+    });
+
+    it('should report a version conflict when a concurrent edit already moved the note', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: existingItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' })
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({ Items: [{ PK: existingItem.PK, SK: 'NOTE#2024-01-10#note-id' }] })
+        .mockResolvedValueOnce({ Item: { ...existingItem, studyDate: '2024-01-10', version: 2 } });
 
       await expect(
-        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
-      ).rejects.toThrow(NotFoundError);
+        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', {
+          studyDate: '2024-01-14',
+          version: 1,
+        })
+      ).rejects.toThrow('Version conflict: expected 1, current is 2');
     });
 
     it('should propagate non-conditional check errors', async () => {
-      const error = new Error('DynamoDB error');
-      mockSend.mockRejectedValue(error);
+      const error = new Error('DynamoDB connection failed');
+      mockSend.mockResolvedValueOnce({ Item: existingItem }).mockRejectedValueOnce(error);
+
+      const input: UpdateNoteInput = {
+        title: 'Updated',
+        version: 1,
+      };
 
       await expect(
-        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
-      ).rejects.toThrow('DynamoDB error');
+        notesRepository.update('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456', 'Dr. Test', input)
+      ).rejects.toThrow('DynamoDB connection failed');
     });
   });
 
-  describe('hardDelete', () => {
-    it('should hard delete a note', async () => {
-      mockSend.mockResolvedValue({});
+  describe('sign', () => {
+    const unsignedItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Title',
+      content: 'Content',
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      createdBy: 'user-123',
+      updatedBy: 'user-123',
+      version: 2,
+      entityType: 'NOTE',
+    };
+    const signature = {
+      signedAt: '2024-01-16T10:00:00.000Z',
+      signedBy: 'user-123',
+      signedByName: 'Dr. Smith',
+      contentHash: 'abc123',
+    };
+
+    it.each(['pending', 'rejected'])(
+      'should refuse to sign a note whose co-signature is %s',
+      async (status) => {
+        mockSend.mockResolvedValueOnce({
+          Item: {
+            ...unsignedItem,
+            cosignature: { status, requestedAt: '2024-01-15T10:00:00.000Z' },
+          },
+        });
+
+        await expect(
+          notesRepository.sign('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 2, signature)
+        ).rejects.toThrow('Note note-id must be co-signed before it can be signed');
+        expect(mockSend).toHaveBeenCalledTimes(1);
+      }
+    );
+
+    it('should sign a co-signed note', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: {
+            ...unsignedItem,
+            cosignature: { status: 'cosigned', requestedAt: '2024-01-15T10:00:00.000Z' },
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      const result = await notesRepository.sign(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        2,
+        signature
+      );
 
-      await notesRepository.hardDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15');
+      expect(result.signature).toEqual(signature);
+    });
 
-      expect(mockSend).toHaveBeenCalledWith(
+    it('should record the signature, bump version and write a revision', async () => {
+      mockSend.mockResolvedValueOnce({ Item: unsignedItem }).mockResolvedValueOnce({});
+
+      const result = await notesRepository.sign(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        2,
+        signature
+      );
+
+      expect(result.signature).toEqual(signature);
+      expect(result.version).toBe(3);
+      expect(result.updatedAt).toBe('2024-01-16T10:00:00.000Z');
+
+      const [update, put] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toContain('signature = :signature');
+      expect(update.Update.ConditionExpression).toContain('attribute_not_exists(signature)');
+      expect(update.Update.ExpressionAttributeValues[':expectedVersion']).toBe(2);
+      expect(put.Put.Item).toEqual(
         expect.objectContaining({
-          input: expect.objectContaining({
-            TableName: 'TestTable',
-            Key: {
-              PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-              SK: 'NOTE#2024-01-15#note-id',
-            },
-          }),
+          SK: 'HISTORY#note-id#0000000003',
+          changedFields: ['signature'],
         })
       );
     });
 
-    it('should not throw when note does not exist', async () => {
-      mockSend.mockResolvedValue({});
+    it('should throw ConflictError when the note is already signed', async () => {
+      mockSend.mockResolvedValueOnce({ Item: { ...unsignedItem, signature } });
 
       await expect(
-        notesRepository.hardDelete('clinic-abc', 'patient-123', 'nonexistent', '2024-01-15')
-      ).resolves.toBeUndefined();
+        notesRepository.sign('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 2, signature)
+      ).rejects.toThrow('Note note-id is already signed');
+    });
+
+    it('should throw ConflictError on version mismatch', async () => {
+      mockSend.mockResolvedValueOnce({ Item: unsignedItem });
+
+      await expect(
+        notesRepository.sign('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, signature)
+      ).rejects.toThrow('Version conflict: expected 1, current is 2');
+    });
+
+    it('should throw NotFoundError when the note is deleted', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { ...unsignedItem, deletedAt: '2024-01-20T10:00:00.000Z' },
+      });
+
+      await expect(
+        notesRepository.sign('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 2, signature)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the transaction is cancelled', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: unsignedItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(
+        notesRepository.sign('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 2, signature)
+      ).rejects.toThrow('Note note-id was modified while being signed');
+    });
+  });
+
+  describe('addAddendum', () => {
+    const signedItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Title',
+      content: 'Content',
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-16T10:00:00.000Z',
+      createdBy: 'user-123',
+      updatedBy: 'user-123',
+      version: 3,
+      signature: {
+        signedAt: '2024-01-16T10:00:00.000Z',
+        signedBy: 'user-123',
+        signedByName: 'Dr. Smith',
+        contentHash: 'abc123',
+      },
+      entityType: 'NOTE',
+    };
+    const addendum = {
+      addendumId: 'addendum-1',
+      content: 'Corrected AHI to 18.2',
+      signedAt: '2024-01-17T10:00:00.000Z',
+      signedBy: 'user-456',
+      signedByName: 'Dr. Jones',
+      contentHash: 'def456',
+    };
+
+    it('should append the addendum and write a revision', async () => {
+      mockSend.mockResolvedValueOnce({ Item: signedItem }).mockResolvedValueOnce({});
+
+      const result = await notesRepository.addAddendum(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        addendum
+      );
+
+      expect(result.addenda).toEqual([addendum]);
+      expect(result.version).toBe(4);
+      expect(result.updatedByName).toBe('Dr. Jones');
+
+      const [update, put] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toContain(
+        'addenda = list_append(if_not_exists(addenda, :empty), :addenda)'
+      );
+      expect(update.Update.ExpressionAttributeValues[':addenda']).toEqual([addendum]);
+      expect(update.Update.ExpressionAttributeValues[':expectedVersion']).toBe(3);
+      expect(put.Put.Item).toEqual(
+        expect.objectContaining({
+          SK: 'HISTORY#note-id#0000000004',
+          changedFields: ['addenda'],
+        })
+      );
+    });
+
+    it('should keep the signature and earlier addenda on the revision snapshot', async () => {
+      const earlier = { ...addendum, addendumId: 'addendum-0' };
+      mockSend
+        .mockResolvedValueOnce({ Item: { ...signedItem, addenda: [earlier] } })
+        .mockResolvedValueOnce({});
+
+      await notesRepository.addAddendum(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        addendum
+      );
+
+      const put = mockSend.mock.calls[1][0].input.TransactItems[1];
+      expect(put.Put.Item.previous.signature).toEqual(signedItem.signature);
+      expect(put.Put.Item.previous.addenda).toEqual([earlier]);
+    });
+
+    it('should throw ConflictError when the note is not signed', async () => {
+      mockSend.mockResolvedValueOnce({ Item: { ...signedItem, signature: undefined } });
+
+      await expect(
+        notesRepository.addAddendum('clinic-abc', 'patient-123', 'note-id', '2024-01-15', addendum)
+      ).rejects.toThrow('Note note-id must be signed before addenda can be added');
+    });
+
+    it('should throw NotFoundError when the note does not exist', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(
+        notesRepository.addAddendum('clinic-abc', 'patient-123', 'note-id', '2024-01-15', addendum)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the transaction is cancelled', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: signedItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(
+        notesRepository.addAddendum('clinic-abc', 'patient-123', 'note-id', '2024-01-15', addendum)
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('reviewCosignature', () => {
+    const pendingItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Follow-up',
+      content: 'Content',
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      createdBy: 'user-nurse',
+      updatedBy: 'user-nurse',
+      version: 1,
+      cosignature: { status: 'pending', requestedAt: '2024-01-15T10:00:00.000Z' },
+      entityType: 'NOTE',
+    };
+    const rejection = {
+      status: 'rejected' as const,
+      reviewedAt: '2024-01-16T10:00:00.000Z',
+      reviewedBy: 'user-doctor',
+      reviewedByName: 'Dr. House',
+      reason: 'Missing pressure settings',
+    };
+
+    it('should record the review, dequeue the note and write a revision', async () => {
+      mockSend.mockResolvedValueOnce({ Item: pendingItem }).mockResolvedValueOnce({});
+
+      const result = await notesRepository.reviewCosignature(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        1,
+        rejection
+      );
+
+      expect(result.cosignature).toEqual({
+        status: 'rejected',
+        requestedAt: '2024-01-15T10:00:00.000Z',
+        reviewedAt: '2024-01-16T10:00:00.000Z',
+        reviewedBy: 'user-doctor',
+        reviewedByName: 'Dr. House',
+        reason: 'Missing pressure settings',
+      });
+      expect(result.version).toBe(2);
+
+      const [update, dequeue, revision] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.ConditionExpression).toContain('cosignature.#status = :pending');
+      expect(update.Update.ExpressionAttributeValues[':cosignature']).toEqual(result.cosignature);
+      expect(dequeue.Delete.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#COSIGN_QUEUE',
+        SK: 'NOTE#2024-01-15T10:00:00.000Z#note-id',
+      });
+      expect(revision.Put.Item).toEqual(
+        expect.objectContaining({
+          SK: 'HISTORY#note-id#0000000002',
+          changedFields: ['cosignature'],
+          changedBy: 'user-doctor',
+        })
+      );
+    });
+
+    it('should refuse to review a note that was signed first', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { ...pendingItem, signature: { signedAt: '2024-01-16T09:00:00.000Z' } },
+      });
+
+      await expect(
+        notesRepository.reviewCosignature('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, rejection)
+      ).rejects.toThrow('Note note-id is signed and can no longer be reviewed');
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only review a note that is still unsigned when written', async () => {
+      mockSend.mockResolvedValueOnce({ Item: pendingItem }).mockResolvedValueOnce({});
+
+      await notesRepository.reviewCosignature('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, rejection);
+
+      expect(mockSend.mock.calls[1][0].input.TransactItems[0].Update.ConditionExpression).toContain(
+        'attribute_not_exists(signature)'
+      );
+    });
+
+    it('should throw ConflictError when the note is not awaiting co-signature', async () => {
+      mockSend.mockResolvedValueOnce({ Item: { ...pendingItem, cosignature: undefined } });
+
+      await expect(
+        notesRepository.reviewCosignature('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, rejection)
+      ).rejects.toThrow('Note note-id is not awaiting co-signature');
+    });
+
+    it('should throw ConflictError on version mismatch', async () => {
+      mockSend.mockResolvedValueOnce({ Item: { ...pendingItem, version: 2 } });
+
+      await expect(
+        notesRepository.reviewCosignature('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, rejection)
+      ).rejects.toThrow('Version conflict: expected 1, current is 2');
+    });
+
+    it('should throw NotFoundError when the note does not exist', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(
+        notesRepository.reviewCosignature('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, rejection)
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the transaction is cancelled', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: pendingItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(
+        notesRepository.reviewCosignature('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 1, rejection)
+      ).rejects.toThrow('Note note-id was modified while being reviewed');
+    });
+  });
+
+  describe('listByClinic', () => {
+    const feedItem = (noteId: string, extra: Record<string, unknown> = {}) => ({
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: `NOTE#2024-01-15#${noteId}`,
+      GSI1PK: 'CLINIC#clinic-abc#NOTES',
+      GSI1SK: `DATE#2024-01-15#NOTE#${noteId}`,
+      noteId,
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Study',
+      content: 'Routine follow-up',
+      version: 1,
+      ...extra,
+    });
+
+    const feedBinding = { clinicId: 'clinic-abc', list: 'clinic-notes', filters: {} };
+    const decode = (cursor: string | undefined) => decodeClinicFeedCursor(cursor ?? '', feedBinding);
+
+    it('should query the clinic feed index newest first with filters', async () => {
+      mockSend.mockResolvedValue({ Items: [feedItem('note-1')] });
+
+      const result = await notesRepository.listByClinic('clinic-abc', {
+        limit: 20,
+        noteType: 'study_result',
+        studyDateFrom: '2024-01-08',
+        studyDateTo: '2024-01-14',
+        createdBy: 'user-456',
+        tag: 'psg',
+      });
+
+      expect(result.items.map((note) => note.noteId)).toEqual(['note-1']);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeUndefined();
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            IndexName: 'GSI1',
+            KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK BETWEEN :skStart AND :skEnd',
+            FilterExpression:
+              'attribute_not_exists(deletedAt) AND noteType = :noteType AND createdBy = :createdBy AND contains(tags, :tag)',
+            ExpressionAttributeValues: {
+              ':pk': 'CLINIC#clinic-abc#NOTES',
+              ':skStart': 'DATE#2024-01-08',
+              ':skEnd': 'DATE#2024-01-14~',
+              ':noteType': 'study_result',
+              ':createdBy': 'user-456',
+              ':tag': 'psg',
+            },
+            ScanIndexForward: false,
+          }),
+        })
+      );
+    });
+
+    it('should keep querying until the page is full and cursor on the last returned note', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [feedItem('note-1')],
+          LastEvaluatedKey: { PK: 'x', SK: 'NOTE#y', GSI1PK: 'CLINIC#clinic-abc#NOTES', GSI1SK: 'z' },
+        })
+        .mockResolvedValueOnce({ Items: [feedItem('note-2'), feedItem('note-3')] });
+
+      const result = await notesRepository.listByClinic('clinic-abc', { limit: 2 });
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(result.items.map((note) => note.noteId)).toEqual(['note-1', 'note-2']);
+      expect(result.hasMore).toBe(true);
+      expect(decode(result.nextCursor)).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+        SK: 'NOTE#2024-01-15#note-2',
+        GSI1PK: 'CLINIC#clinic-abc#NOTES',
+        GSI1SK: 'DATE#2024-01-15#NOTE#note-2',
+      });
+    });
+
+    it('should apply the text query to each note', async () => {
+      mockSend.mockResolvedValue({
+        Items: [
+          feedItem('note-1', { content: 'Central sleep apnea noted' }),
+          feedItem('note-2', { content: 'Sleep hygiene reviewed' }),
+        ],
+      });
+
+      const result = await notesRepository.listByClinic('clinic-abc', {
+        limit: 20,
+        search: { terms: ['sleep'], prefixes: ['apn'], phrases: [] },
+      });
+
+      expect(result.items.map((note) => note.noteId)).toEqual(['note-1']);
+    });
+
+    it('should stop at the read cap and return a cursor to resume from', async () => {
+      const lastEvaluatedKey = {
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-9',
+        SK: 'NOTE#2023-01-01#note-9',
+        GSI1PK: 'CLINIC#clinic-abc#NOTES',
+        GSI1SK: 'DATE#2023-01-01#NOTE#note-9',
+      };
+      mockSend.mockResolvedValue({ Items: [], LastEvaluatedKey: lastEvaluatedKey });
+
+      const result = await notesRepository.listByClinic('clinic-abc', { limit: 20 });
+
+      expect(mockSend).toHaveBeenCalledTimes(10);
+      expect(result.items).toEqual([]);
+      expect(result.hasMore).toBe(true);
+      expect(decode(result.nextCursor)).toEqual(lastEvaluatedKey);
+    });
+
+    it('should resume from a cursor it issued', async () => {
+      const lastKey = {
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+        SK: 'NOTE#2024-01-15#note-1',
+        GSI1PK: 'CLINIC#clinic-abc#NOTES',
+        GSI1SK: 'DATE#2024-01-15#NOTE#note-1',
+      };
+      mockSend.mockResolvedValue({ Items: [] });
+
+      await notesRepository.listByClinic('clinic-abc', {
+        limit: 20,
+        cursor: encodeClinicFeedCursor(lastKey, feedBinding),
+      });
+
+      expect(mockSend.mock.calls[0][0].input.ExclusiveStartKey).toEqual(lastKey);
+    });
+
+    it('should reject cursors issued to another clinic', async () => {
+      const cursor = encodeClinicFeedCursor(
+        {
+          PK: 'CLINIC#clinic-other#PATIENT#patient-1',
+          SK: 'NOTE#2024-01-15#note-1',
+          GSI1PK: 'CLINIC#clinic-other#NOTES',
+          GSI1SK: 'DATE#2024-01-15#NOTE#note-1',
+        },
+        { ...feedBinding, clinicId: 'clinic-other' }
+      );
+
+      await expect(
+        notesRepository.listByClinic('clinic-abc', { limit: 20, cursor })
+      ).rejects.toThrow(ValidationError);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cursor reused with different filters', async () => {
+      mockSend.mockResolvedValue({
+        Items: [feedItem('note-1'), feedItem('note-2')],
+      });
+      const page = await notesRepository.listByClinic('clinic-abc', {
+        limit: 1,
+        noteType: 'study_result',
+      });
+      mockSend.mockClear();
+
+      await expect(
+        notesRepository.listByClinic('clinic-abc', {
+          limit: 1,
+          noteType: 'follow_up',
+          cursor: page.nextCursor,
+        })
+      ).rejects.toThrow('Cursor does not match this query');
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listCosignQueue', () => {
+    const queueItem = {
+      PK: 'CLINIC#clinic-abc#COSIGN_QUEUE',
+      SK: 'NOTE#2024-01-15T10:00:00.000Z#note-1',
+      noteId: 'note-1',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Follow-up',
+      noteType: 'follow_up',
+      createdBy: 'user-nurse',
+      createdByName: 'Nurse Joy',
+      requestedAt: '2024-01-15T10:00:00.000Z',
+      entityType: 'COSIGN_QUEUE_ENTRY',
+    };
+
+    it('should query the clinic queue oldest first', async () => {
+      mockSend.mockResolvedValue({ Items: [queueItem] });
+
+      const result = await notesRepository.listCosignQueue('clinic-abc', { limit: 20 });
+
+      expect(result.items).toEqual([
+        expect.objectContaining({ noteId: 'note-1', patientId: 'patient-123' }),
+      ]);
+      expect(result.hasMore).toBe(false);
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            KeyConditionExpression: 'PK = :pk',
+            ExpressionAttributeValues: { ':pk': 'CLINIC#clinic-abc#COSIGN_QUEUE' },
+            Limit: 21,
+            ScanIndexForward: true,
+          }),
+        })
+      );
+    });
+
+    it('should return a cursor when more entries exist', async () => {
+      mockSend.mockResolvedValue({
+        Items: [queueItem, { ...queueItem, SK: 'NOTE#2024-01-16T10:00:00.000Z#note-2' }],
+      });
+
+      const result = await notesRepository.listCosignQueue('clinic-abc', { limit: 1 });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBeDefined();
+    });
+  });
+
+  describe('listRevisions', () => {
+    const revisionItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'HISTORY#note-id#0000000002',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      version: 2,
+      changedAt: '2024-01-16T10:00:00.000Z',
+      changedBy: 'user-456',
+      changedByName: 'Dr. Test',
+      changedFields: ['title'],
+      previous: {
+        version: 1,
+        studyDate: '2024-01-15',
+        title: 'Original Title',
+        content: 'Original content',
+        tags: [],
+        attachments: [],
+        updatedAt: '2024-01-15T10:00:00.000Z',
+        updatedBy: 'user-123',
+        updatedByName: 'Dr. Smith',
+      },
+      entityType: 'NOTE_REVISION',
+    };
+
+    it('should query revisions for the note in version order', async () => {
+      mockSend.mockResolvedValue({ Items: [revisionItem] });
+
+      const result = await notesRepository.listRevisions('clinic-abc', 'patient-123', 'note-id');
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.version).toBe(2);
+      expect(result[0]?.previous.title).toBe('Original Title');
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            KeyConditionExpression: 'PK = :pk AND begins_with(SK, :skPrefix)',
+            ExpressionAttributeValues: {
+              ':pk': 'CLINIC#clinic-abc#PATIENT#patient-123',
+              ':skPrefix': 'HISTORY#note-id#',
+            },
+            ScanIndexForward: true,
+          }),
+        })
+      );
+    });
+
+    it('should follow pagination until all revisions are read', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Items: [revisionItem], LastEvaluatedKey: { PK: 'pk', SK: 'sk' } })
+        .mockResolvedValueOnce({ Items: [{ ...revisionItem, version: 3 }] });
+
+      const result = await notesRepository.listRevisions('clinic-abc', 'patient-123', 'note-id');
+
+      expect(result.map((r) => r.version)).toEqual([2, 3]);
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ PK: 'pk', SK: 'sk' });
+    });
+  });
+
+  describe('findRevision', () => {
+    it('should get the revision by version key', async () => {
+      mockSend.mockResolvedValue({
+        Item: {
+          noteId: 'note-id',
+          version: 4,
+          changedFields: ['content'],
+          previous: { version: 3 },
+        },
+      });
+
+      const result = await notesRepository.findRevision('clinic-abc', 'patient-123', 'note-id', 4);
+
+      expect(result?.changedFields).toEqual(['content']);
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            Key: {
+              PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+              SK: 'HISTORY#note-id#0000000004',
+            },
+          }),
+        })
+      );
+    });
+
+    it('should return null when revision not found', async () => {
+      mockSend.mockResolvedValue({});
+
+      const result = await notesRepository.findRevision('clinic-abc', 'patient-123', 'note-id', 9);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('softDelete', () => {
+    const liveItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Title',
+      content: 'Content',
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      createdBy: 'user-123',
+      updatedBy: 'user-123',
+      version: 3,
+      entityType: 'NOTE',
+    };
+
+    it('should soft delete the version it read', async () => {
+      mockSend.mockResolvedValueOnce({ Item: liveItem }).mockResolvedValueOnce({});
+
+      await notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456');
+
+      expect(mockSend.mock.calls[0][0].input.ConsistentRead).toBe(true);
+      const items = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(items).toHaveLength(3);
+      expect(items[0].Update).toEqual(
+        expect.objectContaining({
+          Key: {
+            PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+            SK: 'NOTE#2024-01-15#note-id',
+          },
+          UpdateExpression: 'SET deletedAt = :deletedAt, deletedBy = :deletedBy',
+          ConditionExpression: 'attribute_not_exists(deletedAt) AND version = :version',
+          ExpressionAttributeValues: expect.objectContaining({
+            ':deletedBy': 'user-456',
+            ':version': 3,
+          }),
+        })
+      );
+      // The note leaves the counters in the same write
+      expect(items[1].Update.Key.PK).toBe('CLINIC#clinic-abc#PATIENT#patient-123#COUNTS');
+      expect(Object.values(items[1].Update.ExpressionAttributeValues)).toEqual([-1, -1, 1]);
+      // ...and leaves a marker for the search index to remove it
+      expect(items[2].Put.Item).toEqual(
+        expect.objectContaining({
+          PK: 'CLINIC#clinic-abc#PATIENT#patient-123#SEARCH',
+          SK: 'PENDING#note-id',
+          studyDate: '2024-01-15',
+          changeId: expect.any(String),
+        })
+      );
+    });
+
+    it('should remove a pending note from the co-signature queue in the same write', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: {
+            ...liveItem,
+            cosignature: { status: 'pending', requestedAt: '2024-01-15T10:00:00.000Z' },
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      await notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'u');
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      const items = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(items).toHaveLength(4);
+      expect(items[1].Delete.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#COSIGN_QUEUE',
+        SK: 'NOTE#2024-01-15T10:00:00.000Z#note-id',
+      });
+    });
+
+    it('should throw NotFoundError when note not found', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(
+        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
+      ).rejects.toThrow(NotFoundError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundError when note already deleted', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { ...liveItem, deletedAt: '2024-01-20T10:00:00.000Z' },
+      });
+
+      await expect(
+        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the note changes before the delete', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: liveItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(
+        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should propagate other errors', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: liveItem })
+        .mockRejectedValueOnce(new Error('DynamoDB error'));
+
+      await expect(
+        notesRepository.softDelete('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'user-456')
+      ).rejects.toThrow('DynamoDB error');
+    });
+
+    it('should throw VersionConflictError when the note is at another version', async () => {
+      mockSend.mockResolvedValueOnce({ Item: liveItem });
+
+      await expect(
+        notesRepository.softDelete(
+          'clinic-abc',
+          'patient-123',
+          'note-id',
+          '2024-01-15',
+          'user-456',
+          2
+        )
+      ).rejects.toThrow(VersionConflictError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw VersionConflictError when the expected version is gone', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: liveItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(
+        notesRepository.softDelete(
+          'clinic-abc',
+          'patient-123',
+          'note-id',
+          '2024-01-15',
+          'user-456',
+          3
+        )
+      ).rejects.toThrow(VersionConflictError);
+    });
+  });
+
+  describe('findManyByIds', () => {
+    const item = (noteId: string, extra: Record<string, unknown> = {}) => ({
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: `NOTE#2024-01-15#${noteId}`,
+      noteId,
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: noteId,
+      content: 'content',
+      version: 1,
+      ...extra,
+    });
+
+    it('should return notes in the requested order without deleted ones', async () => {
+      mockSend.mockResolvedValueOnce({
+        Responses: {
+          TestTable: [item('note-b'), item('note-gone', { deletedAt: '2024-01-20T10:00:00.000Z' }), item('note-a')],
+        },
+      });
+
+      const result = await notesRepository.findManyByIds('clinic-abc', 'patient-123', [
+        { noteId: 'note-a', studyDate: '2024-01-15' },
+        { noteId: 'note-gone', studyDate: '2024-01-15' },
+        { noteId: 'note-b', studyDate: '2024-01-15' },
+      ]);
+
+      expect(result.map((note) => note.noteId)).toEqual(['note-a', 'note-b']);
+      expect(mockSend.mock.calls[0][0].input.RequestItems.TestTable).toEqual({
+        Keys: [
+          { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#2024-01-15#note-a' },
+          { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#2024-01-15#note-gone' },
+          { PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#2024-01-15#note-b' },
+        ],
+        ConsistentRead: true,
+      });
+    });
+
+    it('should retry unprocessed keys', async () => {
+      const unprocessed = [{ PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'NOTE#2024-01-15#note-b' }];
+      mockSend
+        .mockResolvedValueOnce({
+          Responses: { TestTable: [item('note-a')] },
+          UnprocessedKeys: { TestTable: { Keys: unprocessed } },
+        })
+        .mockResolvedValueOnce({ Responses: { TestTable: [item('note-b')] } });
+
+      const result = await notesRepository.findManyByIds('clinic-abc', 'patient-123', [
+        { noteId: 'note-a', studyDate: '2024-01-15' },
+        { noteId: 'note-b', studyDate: '2024-01-15' },
+      ]);
+
+      expect(result.map((note) => note.noteId)).toEqual(['note-a', 'note-b']);
+      expect(mockSend.mock.calls[1][0].input.RequestItems.TestTable.Keys).toEqual(unprocessed);
+    });
+
+    it('should not call DynamoDB for an empty key list', async () => {
+      const result = await notesRepository.findManyByIds('clinic-abc', 'patient-123', []);
+
+      expect(result).toEqual([]);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findDeletedByIdWithoutStudyDate', () => {
+    const indexKey = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+    };
+
+    it('should only match soft-deleted items', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [indexKey] });
+      mockSend.mockResolvedValueOnce({
+        Item: {
+          noteId: 'note-id',
+          studyDate: '2024-01-15',
+          deletedAt: '2024-01-20T10:00:00.000Z',
+          deletedBy: 'user-admin',
+          version: 1,
+        },
+      });
+
+      const result = await notesRepository.findDeletedByIdWithoutStudyDate(
+        'clinic-abc',
+        'patient-123',
+        'note-id'
+      );
+
+      expect(result?.deletedBy).toBe('user-admin');
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            IndexName: 'GSI2',
+          }),
+        })
+      );
+    });
+
+    it('should return null when the note is live', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [indexKey] });
+      mockSend.mockResolvedValueOnce({ Item: { noteId: 'note-id', version: 1 } });
+
+      const result = await notesRepository.findDeletedByIdWithoutStudyDate(
+        'clinic-abc',
+        'patient-123',
+        'note-id'
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it('should return null when no deleted note matches', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      const result = await notesRepository.findDeletedByIdWithoutStudyDate(
+        'clinic-abc',
+        'patient-123',
+        'note-id'
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('restore', () => {
+    const deletedItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'NOTE#2024-01-15#note-id',
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Title',
+      content: 'Content',
+      attachments: [],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      createdBy: 'user-123',
+      updatedBy: 'user-123',
+      version: 2,
+      deletedAt: '2024-01-20T10:00:00.000Z',
+      deletedBy: 'user-admin',
+      entityType: 'NOTE',
+    };
+
+    it('should clear deletion markers, bump version and record the restorer', async () => {
+      mockSend.mockResolvedValueOnce({ Item: deletedItem }).mockResolvedValueOnce({});
+
+      const result = await notesRepository.restore(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        'user-admin',
+        'Admin Brown'
+      );
+
+      expect(result.deletedAt).toBeUndefined();
+      expect(result.deletedBy).toBeUndefined();
+      expect(result.restoredBy).toBe('user-admin');
+      expect(result.updatedByName).toBe('Admin Brown');
+      expect(result.version).toBe(3);
+
+      const [update, put, counters] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toContain('REMOVE deletedAt, deletedBy');
+      expect(update.Update.ConditionExpression).toBe(
+        'attribute_exists(deletedAt) AND attribute_not_exists(purgingAt) AND ' +
+          'version = :expectedVersion'
+      );
+      expect(put.Put.Item).toEqual(
+        expect.objectContaining({
+          SK: 'HISTORY#note-id#0000000003',
+          changedFields: ['deletedAt'],
+        })
+      );
+      // The restored note is counted again in the same write
+      expect(Object.values(counters.Update.ExpressionAttributeValues)).toEqual([1, 1, 1]);
+    });
+
+    it('should put a pending note back in the co-signature queue', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: {
+            ...deletedItem,
+            cosignature: { status: 'pending', requestedAt: '2024-01-15T10:00:00.000Z' },
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      await notesRepository.restore('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'u', 'n');
+
+      const items = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(items).toHaveLength(5);
+      expect(items[2].Put.Item).toEqual(
+        expect.objectContaining({
+          PK: 'CLINIC#clinic-abc#COSIGN_QUEUE',
+          SK: 'NOTE#2024-01-15T10:00:00.000Z#note-id',
+        })
+      );
+    });
+
+    it('should throw ConflictError when the note is being purged', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { ...deletedItem, purgingAt: '2024-03-15T00:00:00.000Z' },
+      });
+
+      await expect(
+        notesRepository.restore('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'u', 'n')
+      ).rejects.toThrow(ConflictError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundError when the note is not deleted', async () => {
+      mockSend.mockResolvedValueOnce({ Item: { ...deletedItem, deletedAt: undefined } });
+
+      await expect(
+        notesRepository.restore('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'u', 'n')
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ConflictError when the transaction is cancelled', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: deletedItem })
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(
+        notesRepository.restore('clinic-abc', 'patient-123', 'note-id', '2024-01-15', 'u', 'n')
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('claimForPurge', () => {
+    it('should mark the note while it is still deleted as scanned', async () => {
+      mockSend.mockResolvedValue({});
+
+      const claimed = await notesRepository.claimForPurge(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        '2024-01-20T10:00:00.000Z',
+        '2024-03-15T00:00:00.000Z'
+      );
+
+      expect(claimed).toBe(true);
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+        SK: 'NOTE#2024-01-15#note-id',
+      });
+      expect(input.UpdateExpression).toBe('SET purgingAt = if_not_exists(purgingAt, :purgingAt)');
+      expect(input.ConditionExpression).toBe(
+        'attribute_exists(deletedAt) AND deletedAt = :deletedAt'
+      );
+      expect(input.ExpressionAttributeValues[':deletedAt']).toBe('2024-01-20T10:00:00.000Z');
+    });
+
+    it('should return false when the note was restored or deleted again', async () => {
+      mockSend.mockRejectedValue({ name: 'ConditionalCheckFailedException' });
+
+      await expect(
+        notesRepository.claimForPurge(
+          'clinic-abc',
+          'patient-123',
+          'note-id',
+          '2024-01-15',
+          '2024-01-20T10:00:00.000Z',
+          '2024-03-15T00:00:00.000Z'
+        )
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('hardDelete', () => {
+    it('should hard delete a note still deleted as scanned', async () => {
+      mockSend.mockResolvedValue({});
+
+      await notesRepository.hardDelete(
+        'clinic-abc',
+        'patient-123',
+        'note-id',
+        '2024-01-15',
+        '2024-01-20T10:00:00.000Z'
+      );
+
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            TableName: 'TestTable',
+            Key: {
+              PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+              SK: 'NOTE#2024-01-15#note-id',
+            },
+            ConditionExpression: 'attribute_exists(deletedAt) AND deletedAt = :deletedAt',
+            ExpressionAttributeValues: { ':deletedAt': '2024-01-20T10:00:00.000Z' },
+          }),
+        })
+      );
+    });
+
+    it('should throw ConflictError when the note is no longer deleted as scanned', async () => {
+      mockSend.mockRejectedValue({ name: 'ConditionalCheckFailedException' });
+
+      await expect(
+        notesRepository.hardDelete(
+          'clinic-abc',
+          'patient-123',
+          'note-id',
+          '2024-01-15',
+          '2024-01-20T10:00:00.000Z'
+        )
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('hardDeleteRevisions', () => {
+    it('should delete every revision item of the note', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [
+            { noteId: 'note-id', version: 2, previous: { version: 1 } },
+            { noteId: 'note-id', version: 3, previous: { version: 2 } },
+          ],
+        })
+        .mockResolvedValue({});
+
+      const result = await notesRepository.hardDeleteRevisions(
+        'clinic-abc',
+        'patient-123',
+        'note-id'
+      );
+
+      expect(result).toBe(2);
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(mockSend.mock.calls[1][0].input.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+        SK: 'HISTORY#note-id#0000000002',
+      });
+      expect(mockSend.mock.calls[2][0].input.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+        SK: 'HISTORY#note-id#0000000003',
+      });
+    });
+
+    it('should return 0 when the note has no revisions', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      const result = await notesRepository.hardDeleteRevisions(
+        'clinic-abc',
+        'patient-123',
+        'note-id'
+      );
+
+      expect(result).toBe(0);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scanDeleted', () => {
+    it('should scan one page of soft-deleted notes', async () => {
+      mockSend.mockResolvedValue({
+        Items: [
+          {
+            PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+            SK: 'NOTE#2024-01-15#note-id',
+            noteId: 'note-id',
+            clinicId: 'clinic-abc',
+            patientId: 'patient-123',
+            studyDate: '2024-01-15',
+            title: 'Title',
+            content: 'Content',
+            tags: [],
+            attachments: [],
+            createdAt: '2024-01-15T10:00:00.000Z',
+            updatedAt: '2024-01-15T10:00:00.000Z',
+            createdBy: 'user-123',
+            createdByName: 'Dr. Smith',
+            updatedBy: 'user-123',
+            updatedByName: 'Dr. Smith',
+            version: 2,
+            deletedAt: '2024-02-01T10:00:00.000Z',
+            deletedBy: 'user-123',
+            entityType: 'NOTE',
+          },
+        ],
+        LastEvaluatedKey: { PK: 'pk', SK: 'sk' },
+      });
+
+      const result = await notesRepository.scanDeleted({ PK: 'start', SK: 'start' }, 50);
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0]?.deletedAt).toBe('2024-02-01T10:00:00.000Z');
+      expect(result.lastEvaluatedKey).toEqual({ PK: 'pk', SK: 'sk' });
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          input: expect.objectContaining({
+            FilterExpression: 'entityType = :entityType AND attribute_exists(deletedAt)',
+            ExclusiveStartKey: { PK: 'start', SK: 'start' },
+            Limit: 50,
+          }),
+        })
+      );
+    });
+
+    it('should return no cursor on the last page', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+
+      const result = await notesRepository.scanDeleted();
+
+      expect(result.items).toEqual([]);
+      expect(result.lastEvaluatedKey).toBeUndefined();
     });
   });
 });
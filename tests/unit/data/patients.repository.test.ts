@@ -1,4 +1,10 @@
 import * as patientsRepository from '../../../src/data/patients.repository';
+import {
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError,
+  VersionConflictError,
+} from '../../../src/lib/errors';
 
 // Mock the DynamoDB client
 const mockSend = jest.fn();
@@ -7,6 +13,7 @@ jest.mock('../../../src/data/client', () => ({
     send: (...args: unknown[]) => mockSend(...args),
   },
   TABLE_NAME: 'TestTable',
+  CLINIC_PATIENTS_INDEX_NAME: 'GSI1',
 }));
 
 // Mock logger
@@ -60,6 +67,26 @@ describe('patients.repository', () => {
       expect(result.status).toBe('active');
       expect(result.createdAt).toBeDefined();
       expect(result.updatedAt).toBeDefined();
+      expect(result.version).toBe(1);
+    });
+
+    it('should record who registered the patient', async () => {
+      mockSend.mockResolvedValue({});
+
+      const result = await patientsRepository.create({
+        patientId: 'patient-123',
+        clinicId: 'clinic-abc',
+        status: 'active',
+        createdBy: 'user-123',
+      });
+
+      expect(result.createdBy).toBe('user-123');
+      expect(result.updatedBy).toBe('user-123');
+      expect(mockSend.mock.calls[0][0].input.TransactItems[0].Put.Item).toMatchObject({
+        version: 1,
+        createdBy: 'user-123',
+        updatedBy: 'user-123',
+      });
     });
 
     it('should create a patient with minimal fields', async () => {
@@ -104,22 +131,56 @@ describe('patients.repository', () => {
 
       await patientsRepository.create(patient);
 
-      expect(mockSend).toHaveBeenCalledWith(
+      expect(mockSend.mock.calls[0][0].input.TransactItems[0].Put).toEqual(
         expect.objectContaining({
-          input: expect.objectContaining({
-            TableName: 'TestTable',
-            Item: expect.objectContaining({
-              PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
-              SK: 'METADATA',
-              entityType: 'PATIENT',
-              GSI1PK: 'CLINIC#clinic-abc#PATIENTS',
-              GSI1SK: 'PATIENT#patient-123',
-            }),
-            ConditionExpression: 'attribute_not_exists(PK)',
+          TableName: 'TestTable',
+          Item: expect.objectContaining({
+            PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+            SK: 'METADATA',
+            entityType: 'PATIENT',
+            GSI1PK: 'CLINIC#clinic-abc#PATIENTS',
+            GSI1SK: 'PATIENT#patient-123',
           }),
+          ConditionExpression: 'attribute_not_exists(PK)',
         })
       );
     });
+
+    it('should write the search index terms with the patient', async () => {
+      mockSend.mockResolvedValue({});
+
+      await patientsRepository.create({
+        patientId: 'patient-123',
+        clinicId: 'clinic-abc',
+        firstName: 'John',
+        lastName: 'Smith',
+        dateOfBirth: '1980-05-15',
+        insuranceId: 'INS-12345',
+        phone: '555-1234',
+        status: 'active',
+      });
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      const termItems = mockSend.mock.calls[0][0].input.TransactItems.slice(1).map(
+        (item: { Put: { Item: Record<string, unknown> } }) => item.Put.Item
+      );
+      expect(termItems.map((item: { SK: string }) => item.SK)).toEqual([
+        'LAST#smith#patient-123',
+        'LAST_PHONETIC#S530#patient-123',
+        'FIRST#john#patient-123',
+        'FIRST_PHONETIC#J500#patient-123',
+        'DOB#1980-05-15#patient-123',
+        'INSURANCE#ins12345#patient-123',
+        'PHONE#5551234#patient-123',
+      ]);
+      expect(termItems[0]).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT_SEARCH',
+        SK: 'LAST#smith#patient-123',
+        entityType: 'PATIENT_SEARCH_TERM',
+        patientId: 'patient-123',
+        searchTerm: 'LAST#smith',
+      });
+    });
   });
 
   describe('findById', () => {
@@ -208,121 +269,552 @@ describe('patients.repository', () => {
     });
   });
 
-  describe('listByClinic', () => {
-    it('should return all patients for a clinic', async () => {
-      const mockItems = [
+  describe('update', () => {
+    const storedItem = {
+      PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+      SK: 'METADATA',
+      patientId: 'patient-123',
+      clinicId: 'clinic-abc',
+      firstName: 'Jane',
+      lastName: 'Smith',
+      phone: '555-5678',
+      status: 'active',
+      version: 2,
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      entityType: 'PATIENT',
+    };
+
+    it('should set changed fields, remove cleared ones and bump the version', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem }).mockResolvedValueOnce({});
+
+      const result = await patientsRepository.update(
+        'clinic-abc',
+        'patient-123',
+        2,
+        { lastName: 'Jones', phone: null, email: undefined },
+        'user-456'
+      );
+
+      expect(result.lastName).toBe('Jones');
+      expect(result.phone).toBeUndefined();
+      expect(result.version).toBe(3);
+      expect(result.updatedBy).toBe('user-456');
+      const input = mockSend.mock.calls[1][0].input.TransactItems[0].Update;
+      expect(input.Key).toEqual({ PK: 'CLINIC#clinic-abc#PATIENT#patient-123', SK: 'METADATA' });
+      expect(input.UpdateExpression).toBe(
+        'SET updatedAt = :updatedAt, updatedBy = :updatedBy, #version = :version, ' +
+          '#lastName = :lastName REMOVE #phone'
+      );
+      expect(input.ConditionExpression).toBe(
+        'attribute_exists(PK) AND #version = :expectedVersion'
+      );
+      expect(input.ExpressionAttributeValues).toMatchObject({
+        ':updatedBy': 'user-456',
+        ':version': 3,
+        ':expectedVersion': 2,
+        ':lastName': 'Jones',
+      });
+      expect(input.ExpressionAttributeNames).not.toHaveProperty('#email');
+    });
+
+    it('should record who changed the status and why', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: storedItem })
+        .mockResolvedValueOnce({ Attributes: { ...storedItem, status: 'inactive', version: 3 } });
+
+      await patientsRepository.update(
+        'clinic-abc',
+        'patient-123',
+        2,
+        { status: 'inactive', statusReason: 'Moved away' },
+        'user-456'
+      );
+
+      const input = mockSend.mock.calls[1][0].input;
+      expect(input.UpdateExpression).toContain(
+        '#status = :status, statusChangedAt = :updatedAt, statusChangedBy = :updatedBy, ' +
+          'statusReason = :statusReason'
+      );
+      expect(input.ExpressionAttributeValues).toMatchObject({
+        ':status': 'inactive',
+        ':statusReason': 'Moved away',
+      });
+    });
+
+    it('should clear the previous reason on a status change without one', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: { ...storedItem, statusReason: 'Moved away' } })
+        .mockResolvedValueOnce({ Attributes: { ...storedItem, version: 3 } });
+
+      await patientsRepository.update(
+        'clinic-abc',
+        'patient-123',
+        2,
+        { status: 'active' },
+        'user-456'
+      );
+
+      expect(mockSend.mock.calls[1][0].input.UpdateExpression).toContain('REMOVE statusReason');
+    });
+
+    it('should treat a patient stored without a version as version 1', async () => {
+      const legacyItem: Record<string, unknown> = { ...storedItem };
+      delete legacyItem.version;
+      mockSend.mockResolvedValueOnce({ Item: legacyItem }).mockResolvedValueOnce({});
+
+      const result = await patientsRepository.update(
+        'clinic-abc',
+        'patient-123',
+        1,
+        { firstName: 'Janet' },
+        'user-456'
+      );
+
+      expect(result.version).toBe(2);
+      const input = mockSend.mock.calls[1][0].input.TransactItems[0].Update;
+      expect(input.ConditionExpression).toBe(
+        'attribute_exists(PK) AND attribute_not_exists(#version)'
+      );
+      expect(input.ExpressionAttributeValues).not.toHaveProperty(':expectedVersion');
+    });
+
+    it('should throw NotFoundError when the patient does not exist', async () => {
+      mockSend.mockResolvedValueOnce({ Item: undefined });
+
+      await expect(
+        patientsRepository.update('clinic-abc', 'missing', 1, { firstName: 'Jane' }, 'user-456')
+      ).rejects.toThrow(NotFoundError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw VersionConflictError for a stale version', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem });
+
+      const error = await patientsRepository
+        .update('clinic-abc', 'patient-123', 1, { firstName: 'Janet' }, 'user-456')
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error).toMatchObject({
+        expectedVersion: 1,
+        message: 'Version conflict: expected 1, current is 2',
+      });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw VersionConflictError when the patient changes before the write', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem }).mockRejectedValueOnce(
+        Object.assign(new Error('Conditional check failed'), {
+          name: 'ConditionalCheckFailedException',
+        })
+      );
+
+      await expect(
+        patientsRepository.update(
+          'clinic-abc',
+          'patient-123',
+          2,
+          { firstName: 'Janet' },
+          'user-456'
+        )
+      ).rejects.toThrow(VersionConflictError);
+    });
+
+    it('should replace the search index terms of changed fields', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem }).mockResolvedValueOnce({});
+
+      await patientsRepository.update(
+        'clinic-abc',
+        'patient-123',
+        2,
+        { lastName: 'Jones', phone: null },
+        'user-456'
+      );
+
+      const [update, ...termChanges] = mockSend.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-123',
+        SK: 'METADATA',
+      });
+      expect(termChanges).toEqual([
         {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-1',
-          SK: 'METADATA',
-          patientId: 'patient-1',
-          clinicId: 'clinic-abc',
-          firstName: 'John',
-          lastName: 'Doe',
-          createdAt: '2024-01-15T10:00:00.000Z',
-          updatedAt: '2024-01-15T10:00:00.000Z',
-          status: 'active',
-          entityType: 'PATIENT',
+          Delete: {
+            TableName: 'TestTable',
+            Key: { PK: 'CLINIC#clinic-abc#PATIENT_SEARCH', SK: 'LAST#smith#patient-123' },
+          },
         },
         {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-2',
-          SK: 'METADATA',
-          patientId: 'patient-2',
-          clinicId: 'clinic-abc',
-          firstName: 'Jane',
-          lastName: 'Smith',
-          createdAt: '2024-01-16T10:00:00.000Z',
-          updatedAt: '2024-01-16T10:00:00.000Z',
-          status: 'active',
-          entityType: 'PATIENT',
+          Delete: {
+            TableName: 'TestTable',
+            Key: { PK: 'CLINIC#clinic-abc#PATIENT_SEARCH', SK: 'LAST_PHONETIC#S530#patient-123' },
+          },
         },
-      ];
-
-      mockSend.mockResolvedValue({ Items: mockItems });
+        {
+          Delete: {
+            TableName: 'TestTable',
+            Key: { PK: 'CLINIC#clinic-abc#PATIENT_SEARCH', SK: 'PHONE#5555678#patient-123' },
+          },
+        },
+        {
+          Put: {
+            TableName: 'TestTable',
+            Item: expect.objectContaining({ SK: 'LAST#jones#patient-123' }),
+          },
+        },
+        {
+          Put: {
+            TableName: 'TestTable',
+            Item: expect.objectContaining({ SK: 'LAST_PHONETIC#J520#patient-123' }),
+          },
+        },
+      ]);
+    });
 
-      const result = await patientsRepository.listByClinic('clinic-abc');
+    it('should update without a transaction when no searchable field changes', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: storedItem })
+        .mockResolvedValueOnce({ Attributes: { ...storedItem, lastName: 'Smith', version: 3 } });
+
+      await patientsRepository.update(
+        'clinic-abc',
+        'patient-123',
+        2,
+        { lastName: 'Smith', email: 'jane@example.com' },
+        'user-456'
+      );
 
-      expect(result).toHaveLength(2);
-      expect(result[0]!.patientId).toBe('patient-1');
-      expect(result[1]!.patientId).toBe('patient-2');
+      const input = mockSend.mock.calls[1][0].input;
+      expect(input.TransactItems).toBeUndefined();
+      expect(input.ReturnValues).toBe('ALL_NEW');
     });
 
-    it('should return empty array when no patients found', async () => {
-      mockSend.mockResolvedValue({ Items: [] });
+    it('should throw VersionConflictError when the index transaction is cancelled', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem }).mockRejectedValueOnce(
+        Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+        })
+      );
+
+      await expect(
+        patientsRepository.update('clinic-abc', 'patient-123', 2, { lastName: 'Jones' }, 'user-456')
+      ).rejects.toThrow(VersionConflictError);
+    });
 
-      const result = await patientsRepository.listByClinic('clinic-empty');
+    it('should throw VersionConflictError when the patient item condition failed', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem }).mockRejectedValueOnce({
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+      });
 
-      expect(result).toHaveLength(0);
+      await expect(
+        patientsRepository.update('clinic-abc', 'patient-123', 2, { lastName: 'Jones' }, 'user-456')
+      ).rejects.toThrow(VersionConflictError);
     });
 
-    it('should return empty array when Items is undefined', async () => {
-      mockSend.mockResolvedValue({ Items: undefined });
+    it('should retry, not report a version conflict, when a search term collides', async () => {
+      mockSend.mockResolvedValueOnce({ Item: storedItem }).mockRejectedValue({
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'None' }, { Code: 'TransactionConflict' }],
+      });
 
-      const result = await patientsRepository.listByClinic('clinic-abc');
+      await expect(
+        patientsRepository.update('clinic-abc', 'patient-123', 2, { lastName: 'Jones' }, 'user-456')
+      ).rejects.toThrow(TooManyRequestsError);
+      expect(mockSend).toHaveBeenCalledTimes(4);
+    });
+  });
 
-      expect(result).toHaveLength(0);
+  describe('findSearchMatches', () => {
+    it('should query term SKs starting with a prefix', async () => {
+      mockSend.mockResolvedValue({
+        Items: [
+          { patientId: 'patient-1', searchTerm: 'LAST#smith' },
+          { patientId: 'patient-2', searchTerm: 'LAST#smithson' },
+        ],
+      });
+
+      const matches = await patientsRepository.findSearchMatches('clinic-abc', {
+        field: 'LAST',
+        value: 'smi',
+        prefix: true,
+      });
+
+      expect(matches).toEqual([
+        { patientId: 'patient-1', value: 'smith' },
+        { patientId: 'patient-2', value: 'smithson' },
+      ]);
+      expect(mockSend.mock.calls[0][0].input).toMatchObject({
+        TableName: 'TestTable',
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': 'CLINIC#clinic-abc#PATIENT_SEARCH',
+          ':prefix': 'LAST#smi',
+        },
+      });
     });
 
-    it('should use correct filter expression', async () => {
+    it('should match the whole value for an exact alternative', async () => {
       mockSend.mockResolvedValue({ Items: [] });
 
-      await patientsRepository.listByClinic('clinic-xyz');
+      await patientsRepository.findSearchMatches('clinic-abc', {
+        field: 'DOB',
+        value: '1980-05-15',
+        prefix: false,
+      });
 
-      expect(mockSend).toHaveBeenCalledWith(
-        expect.objectContaining({
-          input: expect.objectContaining({
-            TableName: 'TestTable',
-            FilterExpression: 'clinicId = :clinicId AND entityType = :entityType',
-            ExpressionAttributeValues: {
-              ':clinicId': 'clinic-xyz',
-              ':entityType': 'PATIENT',
-            },
-          }),
+      expect(mockSend.mock.calls[0][0].input.ExpressionAttributeValues[':prefix']).toBe(
+        'DOB#1980-05-15#'
+      );
+    });
+
+    it('should follow pages until the match limit', async () => {
+      mockSend.mockImplementation((command: { input: { Limit: number } }) =>
+        Promise.resolve({
+          Items: Array.from({ length: Math.min(command.input.Limit, 400) }, (_, i) => ({
+            patientId: `patient-${i}`,
+            searchTerm: 'LAST#smith',
+          })),
+          LastEvaluatedKey: { PK: 'x', SK: 'y' },
         })
       );
+
+      const matches = await patientsRepository.findSearchMatches('clinic-abc', {
+        field: 'LAST',
+        value: 's',
+        prefix: true,
+      });
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(matches).toHaveLength(1000);
+      expect(mockSend.mock.calls[2][0].input.Limit).toBe(200);
     });
+  });
 
-    it('should handle patients with different statuses', async () => {
-      const mockItems = [
-        {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-1',
-          SK: 'METADATA',
-          patientId: 'patient-1',
-          clinicId: 'clinic-abc',
-          createdAt: '2024-01-15T10:00:00.000Z',
-          updatedAt: '2024-01-15T10:00:00.000Z',
-          status: 'active',
-          entityType: 'PATIENT',
-        },
-        {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-2',
-          SK: 'METADATA',
-          patientId: 'patient-2',
-          clinicId: 'clinic-abc',
-          createdAt: '2024-01-16T10:00:00.000Z',
-          updatedAt: '2024-01-16T10:00:00.000Z',
-          status: 'inactive',
-          entityType: 'PATIENT',
+  describe('findManyByIds', () => {
+    it('should read the patients in the given order and skip missing ones', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Responses: {
+            TestTable: [
+              { patientId: 'patient-2', clinicId: 'clinic-abc', status: 'active' },
+              { patientId: 'patient-1', clinicId: 'clinic-abc', status: 'active' },
+            ],
+          },
+          UnprocessedKeys: {
+            TestTable: { Keys: [{ PK: 'CLINIC#clinic-abc#PATIENT#patient-3', SK: 'METADATA' }] },
+          },
+        })
+        .mockResolvedValueOnce({ Responses: { TestTable: [] } });
+
+      const patients = await patientsRepository.findManyByIds('clinic-abc', [
+        'patient-1',
+        'patient-2',
+        'patient-3',
+      ]);
+
+      expect(patients.map((p) => p.patientId)).toEqual(['patient-1', 'patient-2']);
+      expect(mockSend.mock.calls[0][0].input.RequestItems.TestTable.Keys).toEqual([
+        { PK: 'CLINIC#clinic-abc#PATIENT#patient-1', SK: 'METADATA' },
+        { PK: 'CLINIC#clinic-abc#PATIENT#patient-2', SK: 'METADATA' },
+        { PK: 'CLINIC#clinic-abc#PATIENT#patient-3', SK: 'METADATA' },
+      ]);
+      expect(mockSend.mock.calls[1][0].input.RequestItems.TestTable.Keys).toEqual([
+        { PK: 'CLINIC#clinic-abc#PATIENT#patient-3', SK: 'METADATA' },
+      ]);
+    });
+  });
+
+  describe('search index state', () => {
+    it('should report version 0 for an index never built', async () => {
+      mockSend.mockResolvedValue({ Item: undefined });
+
+      await expect(patientsRepository.getSearchIndexVersion('clinic-abc')).resolves.toBe(0);
+      expect(mockSend.mock.calls[0][0].input.Key).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT_SEARCH',
+        SK: 'STATE',
+      });
+    });
+
+    it('should record the version the index was built with', async () => {
+      mockSend.mockResolvedValue({});
+
+      await patientsRepository.markSearchIndexBuilt('clinic-abc', 1);
+
+      expect(mockSend.mock.calls[0][0].input.Item).toMatchObject({
+        PK: 'CLINIC#clinic-abc#PATIENT_SEARCH',
+        SK: 'STATE',
+        indexVersion: 1,
+      });
+    });
+
+    it('should write the terms of existing patients in batches of 25', async () => {
+      mockSend.mockResolvedValue({});
+      const patients = Array.from({ length: 5 }, (_, i) => ({
+        patientId: `patient-${i}`,
+        clinicId: 'clinic-abc',
+        firstName: 'John',
+        lastName: 'Smith',
+        dateOfBirth: '1980-05-15',
+        insuranceId: 'INS-1',
+        phone: '555-1234',
+        status: 'active' as const,
+        version: 1,
+        createdAt: '2024-01-15T10:00:00.000Z',
+        updatedAt: '2024-01-15T10:00:00.000Z',
+      }));
+
+      await patientsRepository.indexPatients(patients);
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[0][0].input.RequestItems.TestTable).toHaveLength(25);
+      expect(mockSend.mock.calls[1][0].input.RequestItems.TestTable).toHaveLength(10);
+    });
+  });
+
+  describe('listByClinic', () => {
+    function patientItem(patientId: string, status = 'active') {
+      return {
+        PK: `CLINIC#clinic-abc#PATIENT#${patientId}`,
+        SK: 'METADATA',
+        patientId,
+        clinicId: 'clinic-abc',
+        firstName: 'John',
+        lastName: 'Doe',
+        createdAt: '2024-01-15T10:00:00.000Z',
+        updatedAt: '2024-01-15T10:00:00.000Z',
+        status,
+        entityType: 'PATIENT',
+        GSI1PK: 'CLINIC#clinic-abc#PATIENTS',
+        GSI1SK: `PATIENT#${patientId}`,
+      };
+    }
+
+    it('should query the clinic partition of the patient index', async () => {
+      mockSend.mockResolvedValue({ Items: [patientItem('patient-1'), patientItem('patient-2')] });
+
+      const result = await patientsRepository.listByClinic('clinic-abc', {
+        limit: 20,
+        status: 'active',
+      });
+
+      expect(result.items.map((p) => p.patientId)).toEqual(['patient-1', 'patient-2']);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeUndefined();
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(mockSend.mock.calls[0][0].input).toMatchObject({
+        TableName: 'TestTable',
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :skPrefix)',
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':pk': 'CLINIC#clinic-abc#PATIENTS',
+          ':skPrefix': 'PATIENT#',
+          ':status': 'active',
         },
-        {
-          PK: 'CLINIC#clinic-abc#PATIENT#patient-3',
+      });
+    });
+
+    it('should list every status without a filter', async () => {
+      mockSend.mockResolvedValue({
+        Items: [patientItem('patient-1'), patientItem('patient-2', 'archived')],
+      });
+
+      const result = await patientsRepository.listByClinic('clinic-abc', { limit: 20 });
+
+      expect(result.items.map((p) => p.status)).toEqual(['active', 'archived']);
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.FilterExpression).toBeUndefined();
+      expect(input.ExpressionAttributeNames).toBeUndefined();
+    });
+
+    it('should return a cursor that resumes after the last patient of the page', async () => {
+      mockSend.mockResolvedValueOnce({
+        Items: [patientItem('patient-1'), patientItem('patient-2'), patientItem('patient-3')],
+        LastEvaluatedKey: { PK: 'x', SK: 'METADATA', GSI1PK: 'y', GSI1SK: 'PATIENT#patient-3' },
+      });
+
+      const firstPage = await patientsRepository.listByClinic('clinic-abc', {
+        limit: 2,
+        status: 'active',
+      });
+
+      expect(firstPage.items).toHaveLength(2);
+      expect(firstPage.hasMore).toBe(true);
+
+      mockSend.mockResolvedValueOnce({ Items: [patientItem('patient-3')] });
+      const secondPage = await patientsRepository.listByClinic('clinic-abc', {
+        limit: 2,
+        status: 'active',
+        cursor: firstPage.nextCursor,
+      });
+
+      expect(secondPage.items.map((p) => p.patientId)).toEqual(['patient-3']);
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({
+        PK: 'CLINIC#clinic-abc#PATIENT#patient-2',
+        SK: 'METADATA',
+        GSI1PK: 'CLINIC#clinic-abc#PATIENTS',
+        GSI1SK: 'PATIENT#patient-2',
+      });
+    });
+
+    it('should keep querying until the page is full', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [patientItem('patient-1')],
+          LastEvaluatedKey: { GSI1SK: 'PATIENT#patient-5' },
+        })
+        .mockResolvedValueOnce({ Items: [patientItem('patient-9')] });
+
+      const result = await patientsRepository.listByClinic('clinic-abc', {
+        limit: 20,
+        status: 'active',
+      });
+
+      expect(result.items).toHaveLength(2);
+      expect(result.hasMore).toBe(false);
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop after the query cap and return a cursor for the rest', async () => {
+      mockSend.mockResolvedValue({
+        Items: [],
+        LastEvaluatedKey: {
+          PK: 'CLINIC#clinic-abc#PATIENT#patient-1',
           SK: 'METADATA',
-          patientId: 'patient-3',
-          clinicId: 'clinic-abc',
-          createdAt: '2024-01-17T10:00:00.000Z',
-          updatedAt: '2024-01-17T10:00:00.000Z',
-          status: 'archived',
-          entityType: 'PATIENT',
+          GSI1PK: 'CLINIC#clinic-abc#PATIENTS',
+          GSI1SK: 'PATIENT#patient-1',
         },
-      ];
+      });
 
-      mockSend.mockResolvedValue({ Items: mockItems });
+      const result = await patientsRepository.listByClinic('clinic-abc', {
+        limit: 20,
+        status: 'archived',
+      });
 
-      const result = await patientsRepository.listByClinic('clinic-abc');
+      expect(mockSend).toHaveBeenCalledTimes(10);
+      expect(result.items).toHaveLength(0);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBeDefined();
+    });
+
+    it('should reject a cursor issued for another status', async () => {
+      mockSend.mockResolvedValueOnce({
+        Items: [patientItem('patient-1'), patientItem('patient-2')],
+      });
+      const page = await patientsRepository.listByClinic('clinic-abc', {
+        limit: 1,
+        status: 'active',
+      });
 
-      expect(result).toHaveLength(3);
-      expect(result[0]!.status).toBe('active');
-      expect(result[1]!.status).toBe('inactive');
-      expect(result[2]!.status).toBe('archived');
+      await expect(
+        patientsRepository.listByClinic('clinic-abc', {
+          limit: 1,
+          status: 'inactive',
+          cursor: page.nextCursor,
+        })
+      ).rejects.toThrow(ValidationError);
     });
   });
 });
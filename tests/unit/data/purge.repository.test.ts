@@ -0,0 +1,99 @@
+import * as purgeRepository from '../../../src/data/purge.repository';
+
+// Mock the DynamoDB client
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+describe('purge.repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSend.mockResolvedValue({});
+  });
+
+  describe('recordTombstone', () => {
+    const tombstone = {
+      noteId: 'note-id',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      createdAt: '2024-01-15T10:00:00.000Z',
+      createdBy: 'user-123',
+      deletedAt: '2024-02-01T10:00:00.000Z',
+      deletedBy: 'user-123',
+      attachmentIds: ['attach-1'],
+    };
+
+    it('should upsert the tombstone under the clinic tombstone partition', async () => {
+      await purgeRepository.recordTombstone(tombstone, '2024-03-05T00:00:00.000Z', 2, 1);
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.Key).toEqual({ PK: 'CLINIC#clinic-abc#TOMBSTONES', SK: 'NOTE#note-id' });
+      expect(input.UpdateExpression).toContain('purgedAt = if_not_exists(purgedAt, :purgedAt)');
+      expect(input.ExpressionAttributeValues).toEqual(
+        expect.objectContaining({
+          ':noteType': null,
+          ':attachmentIds': ['attach-1'],
+          ':entityType': 'NOTE_TOMBSTONE',
+          ':objectsRemoved': 2,
+          ':revisionsRemoved': 1,
+        })
+      );
+    });
+
+    it('should not store note title or content', async () => {
+      await purgeRepository.recordTombstone(tombstone, '2024-03-05T00:00:00.000Z', 0, 0);
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.UpdateExpression).not.toMatch(/title|content/);
+    });
+  });
+
+  describe('getCheckpoint', () => {
+    it('should return the stored start key', async () => {
+      mockSend.mockResolvedValue({ Item: { exclusiveStartKey: { PK: 'pk', SK: 'sk' } } });
+
+      const result = await purgeRepository.getCheckpoint();
+
+      expect(result).toEqual({ PK: 'pk', SK: 'sk' });
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          Key: { PK: 'PURGE#deleted-notes', SK: 'CHECKPOINT' },
+          ConsistentRead: true,
+        })
+      );
+    });
+
+    it('should return undefined when no checkpoint exists', async () => {
+      const result = await purgeRepository.getCheckpoint();
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('saveCheckpoint', () => {
+    it('should store the start key', async () => {
+      await purgeRepository.saveCheckpoint({ PK: 'pk', SK: 'sk' });
+
+      expect(mockSend.mock.calls[0][0].input.Item).toEqual(
+        expect.objectContaining({
+          PK: 'PURGE#deleted-notes',
+          SK: 'CHECKPOINT',
+          exclusiveStartKey: { PK: 'pk', SK: 'sk' },
+        })
+      );
+    });
+
+    it('should delete the checkpoint when the scan is complete', async () => {
+      await purgeRepository.saveCheckpoint(undefined);
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.Key).toEqual({ PK: 'PURGE#deleted-notes', SK: 'CHECKPOINT' });
+      expect(input.Item).toBeUndefined();
+    });
+  });
+});
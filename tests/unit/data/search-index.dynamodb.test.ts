@@ -0,0 +1,313 @@
+import { dynamoDBSearchIndex } from '../../../src/data/search-index.dynamodb';
+import { ConflictError } from '../../../src/lib/errors';
+import { AnalyzedNote } from '../../../src/lib/text-search';
+
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('dynamoDBSearchIndex', () => {
+  const scope = { clinicId: 'clinic-abc', patientId: 'patient-123' };
+  const pk = 'CLINIC#clinic-abc#PATIENT#patient-123#SEARCH';
+
+  const document: AnalyzedNote = {
+    noteId: 'note-1',
+    studyDate: '2024-01-15',
+    tags: ['psg'],
+    noteType: 'study_result',
+    createdBy: 'user-123',
+    attachmentCount: 1,
+    length: 3,
+    terms: [
+      { term: 'central', frequency: 1, positions: [0] },
+      { term: 'apnea', frequency: 2, positions: [1, 2] },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('putDocument', () => {
+    it('should write postings, the document item and stats for a new note', async () => {
+      mockSend.mockResolvedValueOnce({ Item: undefined }).mockResolvedValue({});
+
+      await dynamoDBSearchIndex.putDocument(scope, document);
+
+      const batch = mockSend.mock.calls[1][0].input.RequestItems.TestTable;
+      expect(batch).toHaveLength(2);
+      expect(batch[0].PutRequest.Item).toEqual({
+        PK: pk,
+        SK: 'TERM#central#note-1',
+        term: 'central',
+        noteId: 'note-1',
+        studyDate: '2024-01-15',
+        tags: ['psg'],
+        noteType: 'study_result',
+        createdBy: 'user-123',
+        attachmentCount: 1,
+        frequency: 1,
+        positions: [0],
+        length: 3,
+        entityType: 'SEARCH_POSTING',
+      });
+
+      // The document item and the stats are written together, once
+      const [documentPut, stats] = mockSend.mock.calls[2][0].input.TransactItems;
+      expect(documentPut.Put.Item).toEqual(
+        expect.objectContaining({ SK: 'DOC#note-1', terms: ['central', 'apnea'], length: 3 })
+      );
+      expect(documentPut.Put.ConditionExpression).toBe('attribute_not_exists(SK)');
+      expect(stats.Update.Key).toEqual({ PK: pk, SK: 'STATS' });
+      expect(stats.Update.ExpressionAttributeValues).toEqual({ ':documents': 1, ':length': 3 });
+    });
+
+    it('should delete postings for terms no longer in the note', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: {
+            PK: pk,
+            SK: 'DOC#note-1',
+            terms: ['obstructive', 'apnea'],
+            length: 2,
+            documentHash: 'old',
+          },
+        })
+        .mockResolvedValue({});
+
+      await dynamoDBSearchIndex.putDocument(scope, document);
+
+      const batch = mockSend.mock.calls[1][0].input.RequestItems.TestTable;
+      expect(batch[0]).toEqual({
+        DeleteRequest: { Key: { PK: pk, SK: 'TERM#obstructive#note-1' } },
+      });
+      const [documentPut, stats] = mockSend.mock.calls[2][0].input.TransactItems;
+      expect(documentPut.Put.ConditionExpression).toBe('documentHash = :previousHash');
+      expect(documentPut.Put.ExpressionAttributeValues).toEqual({ ':previousHash': 'old' });
+      expect(stats.Update.ExpressionAttributeValues).toEqual({ ':documents': 0, ':length': 1 });
+    });
+
+    it('should fail without counting when another writer changed the document', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce({ name: 'TransactionCanceledException' });
+
+      await expect(dynamoDBSearchIndex.putDocument(scope, document)).rejects.toThrow(ConflictError);
+    });
+
+    it('should skip writes when the indexed content is unchanged', async () => {
+      mockSend.mockResolvedValueOnce({ Item: undefined }).mockResolvedValue({});
+      await dynamoDBSearchIndex.putDocument(scope, document);
+      const documentItem = mockSend.mock.calls[2][0].input.TransactItems[0].Put.Item;
+
+      mockSend.mockReset();
+      mockSend.mockResolvedValueOnce({ Item: documentItem });
+      await dynamoDBSearchIndex.putDocument(scope, document);
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry unprocessed items', async () => {
+      const unprocessed = [{ PutRequest: { Item: { PK: pk, SK: 'DOC#note-1' } } }];
+      mockSend
+        .mockResolvedValueOnce({ Item: undefined })
+        .mockResolvedValueOnce({ UnprocessedItems: { TestTable: unprocessed } })
+        .mockResolvedValue({});
+
+      await dynamoDBSearchIndex.putDocument(scope, document);
+
+      expect(mockSend.mock.calls[2][0].input.RequestItems.TestTable).toEqual(unprocessed);
+    });
+  });
+
+  describe('removeDocument', () => {
+    it('should delete every posting and the document item', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Item: { PK: pk, SK: 'DOC#note-1', terms: ['apnea'], length: 4, documentHash: 'h' },
+        })
+        .mockResolvedValue({});
+
+      await dynamoDBSearchIndex.removeDocument(scope, 'note-1');
+
+      expect(mockSend.mock.calls[1][0].input.RequestItems.TestTable).toEqual([
+        { DeleteRequest: { Key: { PK: pk, SK: 'TERM#apnea#note-1' } } },
+      ]);
+      const [documentDelete, stats] = mockSend.mock.calls[2][0].input.TransactItems;
+      expect(documentDelete.Delete).toEqual(
+        expect.objectContaining({
+          Key: { PK: pk, SK: 'DOC#note-1' },
+          ConditionExpression: 'documentHash = :previousHash',
+          ExpressionAttributeValues: { ':previousHash': 'h' },
+        })
+      );
+      expect(stats.Update.ExpressionAttributeValues).toEqual({
+        ':documents': -1,
+        ':length': -4,
+      });
+    });
+
+    it('should do nothing for a note that was never indexed', async () => {
+      mockSend.mockResolvedValueOnce({ Item: undefined });
+
+      await dynamoDBSearchIndex.removeDocument(scope, 'note-1');
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findPostings', () => {
+    it('should query exact terms with the separator and follow pagination', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [
+            {
+              term: 'apnea',
+              noteId: 'note-1',
+              studyDate: '2024-01-15',
+              frequency: 1,
+              positions: [4],
+              length: 9,
+            },
+          ],
+          LastEvaluatedKey: { PK: pk, SK: 'TERM#apnea#note-1' },
+        })
+        .mockResolvedValueOnce({
+          Items: [
+            {
+              term: 'apnea',
+              noteId: 'note-2',
+              studyDate: '2024-01-16',
+              frequency: 2,
+              positions: [1, 5],
+              length: 7,
+            },
+          ],
+        });
+
+      const postings = await dynamoDBSearchIndex.findPostings(scope, 'apnea', false);
+
+      expect(postings.map((posting) => posting.noteId)).toEqual(['note-1', 'note-2']);
+      expect(postings[0]?.tags).toEqual([]);
+      expect(mockSend.mock.calls[0][0].input.ExpressionAttributeValues).toEqual({
+        ':pk': pk,
+        ':sk': 'TERM#apnea#',
+      });
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({
+        PK: pk,
+        SK: 'TERM#apnea#note-1',
+      });
+    });
+
+    it('should drop the separator for prefix lookups', async () => {
+      mockSend.mockResolvedValueOnce({ Items: [] });
+
+      await dynamoDBSearchIndex.findPostings(scope, 'titr', true);
+
+      expect(mockSend.mock.calls[0][0].input.ExpressionAttributeValues[':sk']).toBe('TERM#titr');
+    });
+  });
+
+  describe('getStats', () => {
+    it('should default to an uninitialized empty index', async () => {
+      mockSend.mockResolvedValueOnce({ Item: undefined });
+
+      await expect(dynamoDBSearchIndex.getStats(scope)).resolves.toEqual({
+        documentCount: 0,
+        totalLength: 0,
+        initialized: false,
+        version: 1,
+        building: false,
+      });
+    });
+
+    it('should report a build whose lease has not lapsed', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      mockSend
+        .mockResolvedValueOnce({ Item: { buildExpiresAt: now + 30 } })
+        .mockResolvedValueOnce({ Item: { buildExpiresAt: now - 30 } });
+
+      await expect(dynamoDBSearchIndex.getStats(scope)).resolves.toHaveProperty('building', true);
+      await expect(dynamoDBSearchIndex.getStats(scope)).resolves.toHaveProperty('building', false);
+    });
+
+    it('should report the version the index was built with', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { documentCount: 2, totalLength: 10, initialized: true, indexVersion: 2 },
+      });
+
+      await expect(dynamoDBSearchIndex.getStats(scope)).resolves.toEqual(
+        expect.objectContaining({ initialized: true, version: 2 })
+      );
+    });
+  });
+
+  describe('markInitialized', () => {
+    it('should flag the stats item with the index version', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await dynamoDBSearchIndex.markInitialized(scope, 2);
+
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          Key: { PK: pk, SK: 'STATS' },
+          UpdateExpression:
+            'SET initialized = :initialized, indexVersion = :version, initializedAt = :now ' +
+            'REMOVE buildExpiresAt',
+          ExpressionAttributeValues: expect.objectContaining({ ':version': 2 }),
+        })
+      );
+    });
+  });
+
+  describe('claimBuild', () => {
+    it('should take the lease unless another build holds it', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(dynamoDBSearchIndex.claimBuild(scope, 60)).resolves.toBe(true);
+
+      const input = mockSend.mock.calls[0][0].input;
+      expect(input.Key).toEqual({ PK: pk, SK: 'STATS' });
+      expect(input.ConditionExpression).toBe(
+        'attribute_not_exists(buildExpiresAt) OR buildExpiresAt < :now'
+      );
+      expect(input.ExpressionAttributeValues[':expiresAt']).toBe(
+        input.ExpressionAttributeValues[':now'] + 60
+      );
+    });
+
+    it('should return false while another build holds the lease', async () => {
+      mockSend.mockRejectedValueOnce({ name: 'ConditionalCheckFailedException' });
+
+      await expect(dynamoDBSearchIndex.claimBuild(scope, 60)).resolves.toBe(false);
+    });
+  });
+
+  describe('releaseBuild', () => {
+    it('should remove the lease', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await dynamoDBSearchIndex.releaseBuild(scope);
+
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          Key: { PK: pk, SK: 'STATS' },
+          UpdateExpression: 'REMOVE buildExpiresAt',
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { buildPendingWrite, clear, find, list } from '../../../src/data/search-pending.repository';
+import { createMockNote } from '../../fixtures/notes';
+
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'change-1'),
+}));
+
+describe('searchPendingRepository', () => {
+  const scope = { clinicId: 'clinic-abc', patientId: 'patient-123' };
+  const pk = 'CLINIC#clinic-abc#PATIENT#patient-123#SEARCH';
+  const change = { noteId: 'note-1', studyDate: '2024-01-15', changeId: 'change-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildPendingWrite', () => {
+    it('should put a marker with a fresh changeId in the search partition', () => {
+      const write = buildPendingWrite(createMockNote({ noteId: 'note-1' }));
+
+      expect(write.Put).toEqual({
+        TableName: 'TestTable',
+        Item: {
+          PK: pk,
+          SK: 'PENDING#note-1',
+          noteId: 'note-1',
+          studyDate: '2024-01-15',
+          changeId: 'change-1',
+          entityType: 'SEARCH_PENDING',
+          createdAt: expect.any(String),
+        },
+      });
+    });
+  });
+
+  describe('find', () => {
+    it('should read the marker of one note consistently', async () => {
+      mockSend.mockResolvedValueOnce({
+        Item: { PK: pk, SK: 'PENDING#note-1', entityType: 'SEARCH_PENDING', ...change },
+      });
+
+      await expect(find(scope, 'note-1')).resolves.toEqual(change);
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        TableName: 'TestTable',
+        Key: { PK: pk, SK: 'PENDING#note-1' },
+        ConsistentRead: true,
+      });
+    });
+
+    it('should return undefined when nothing is pending', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(find(scope, 'note-1')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('list', () => {
+    it('should query every marker of the patient across pages', async () => {
+      const second = { noteId: 'note-2', studyDate: '2024-02-01', changeId: 'change-2' };
+      mockSend
+        .mockResolvedValueOnce({ Items: [change], LastEvaluatedKey: { PK: pk, SK: 'x' } })
+        .mockResolvedValueOnce({ Items: [second] });
+
+      await expect(list(scope)).resolves.toEqual([change, second]);
+      expect(mockSend.mock.calls[0][0].input).toEqual(
+        expect.objectContaining({
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+          ExpressionAttributeValues: { ':pk': pk, ':prefix': 'PENDING#' },
+          ConsistentRead: true,
+        })
+      );
+      expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ PK: pk, SK: 'x' });
+    });
+  });
+
+  describe('clear', () => {
+    it('should delete the marker only if no later write replaced it', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await clear(scope, change);
+
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        TableName: 'TestTable',
+        Key: { PK: pk, SK: 'PENDING#note-1' },
+        ConditionExpression: 'changeId = :changeId',
+        ExpressionAttributeValues: { ':changeId': 'change-1' },
+      });
+    });
+
+    it('should leave a replaced marker in place', async () => {
+      mockSend.mockRejectedValueOnce({ name: 'ConditionalCheckFailedException' });
+
+      await expect(clear(scope, change)).resolves.toBeUndefined();
+    });
+
+    it('should propagate other errors', async () => {
+      mockSend.mockRejectedValueOnce(new Error('DynamoDB error'));
+
+      await expect(clear(scope, change)).rejects.toThrow('DynamoDB error');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  cancellationCodes,
+  isConditionFailure,
+  sendTransaction,
+} from '../../../src/data/transactions';
+import { TooManyRequestsError } from '../../../src/lib/errors';
+
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+function cancelled(...codes: string[]) {
+  return {
+    name: 'TransactionCanceledException',
+    CancellationReasons: codes.map((Code) => ({ Code })),
+  };
+}
+
+describe('transactions', () => {
+  const input = {
+    TransactItems: [{ Put: { TableName: 'TestTable', Item: { PK: 'a', SK: 'b' } } }],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('cancellationCodes', () => {
+    it('should list the reason of each item', () => {
+      expect(cancellationCodes(cancelled('None', 'TransactionConflict'))).toEqual([
+        'None',
+        'TransactionConflict',
+      ]);
+    });
+
+    it('should be empty for other errors', () => {
+      expect(cancellationCodes({ name: 'ConditionalCheckFailedException' })).toEqual([]);
+    });
+  });
+
+  describe('isConditionFailure', () => {
+    it('should be true for a failed condition on any item', () => {
+      expect(isConditionFailure(cancelled('None', 'ConditionalCheckFailed'))).toBe(true);
+    });
+
+    it('should only look at the given item when an index is passed', () => {
+      expect(isConditionFailure(cancelled('None', 'ConditionalCheckFailed'), 0)).toBe(false);
+      expect(isConditionFailure(cancelled('ConditionalCheckFailed', 'None'), 0)).toBe(true);
+    });
+
+    it('should be false for a transaction conflict', () => {
+      expect(isConditionFailure(cancelled('None', 'TransactionConflict'))).toBe(false);
+    });
+
+    it('should be true for a cancellation without reasons', () => {
+      expect(isConditionFailure({ name: 'TransactionCanceledException' })).toBe(true);
+    });
+  });
+
+  describe('sendTransaction', () => {
+    it('should retry a transaction that collided with a concurrent one', async () => {
+      mockSend
+        .mockRejectedValueOnce(cancelled('None', 'TransactionConflict'))
+        .mockResolvedValueOnce({});
+
+      await sendTransaction(input);
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[1][0].input).toEqual(input);
+    });
+
+    it('should throw TooManyRequestsError when the collisions persist', async () => {
+      mockSend.mockRejectedValue(cancelled('None', 'TransactionConflict'));
+
+      await expect(sendTransaction(input)).rejects.toThrow(TooManyRequestsError);
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry a failed condition', async () => {
+      const err = cancelled('ConditionalCheckFailed', 'TransactionConflict');
+      mockSend.mockRejectedValueOnce(err);
+
+      await expect(sendTransaction(input)).rejects.toBe(err);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+});
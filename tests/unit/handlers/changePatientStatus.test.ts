@@ -0,0 +1,109 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/changePatientStatus';
+import * as patientsService from '../../../src/services/patients.service';
+import { ConflictError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/patients.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedPatientsService = patientsService as jest.Mocked<typeof patientsService>;
+
+describe('changePatientStatus handler', () => {
+  const patient: patientsService.PatientDetailDTO = {
+    patientId: 'patient-123',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    dateOfBirth: '1985-03-20',
+    status: 'inactive',
+    version: 3,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+  };
+
+  function createMockEvent(
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers,
+      pathParameters: { patientId: 'patient-123' },
+      body: body === undefined ? null : JSON.stringify(body),
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: '/patients/patient-123/status',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123/status',
+      rawQueryString: '',
+      routeKey: 'POST /patients/{patientId}/status',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should change the status and return the new ETag', async () => {
+    mockedPatientsService.changePatientStatus.mockResolvedValue(patient);
+
+    const result = await handler(
+      createMockEvent({ status: 'inactive', reason: 'Moved away', version: 2 })
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['ETag']).toBe('"3"');
+    expect(mockedPatientsService.changePatientStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      'patient-123',
+      { status: 'inactive', reason: 'Moved away', version: 2 }
+    );
+  });
+
+  it('should take the expected version from If-Match', async () => {
+    mockedPatientsService.changePatientStatus.mockResolvedValue(patient);
+
+    await handler(createMockEvent({ status: 'archived' }, { 'if-match': '"2"' }));
+
+    expect(mockedPatientsService.changePatientStatus).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      { status: 'archived', version: 2 }
+    );
+  });
+
+  it('should return 400 for an unknown status', async () => {
+    const result = await handler(createMockEvent({ status: 'deceased', version: 2 }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedPatientsService.changePatientStatus).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for a transition that is not allowed', async () => {
+    mockedPatientsService.changePatientStatus.mockRejectedValue(
+      new ConflictError('Cannot change patient status from archived to inactive')
+    );
+
+    const result = await handler(createMockEvent({ status: 'inactive', version: 2 }));
+
+    expect(result.statusCode).toBe(409);
+  });
+});
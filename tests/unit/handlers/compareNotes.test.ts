@@ -0,0 +1,117 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/compareNotes';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError, ForbiddenError } from '../../../src/lib/errors';
+import { buildNoteComparison } from '../../../src/lib/note-compare';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNote } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('compareNotes handler', () => {
+  const leftNoteId = '550e8400-e29b-41d4-a716-446655440000';
+  const rightNoteId = '550e8400-e29b-41d4-a716-446655440001';
+
+  function createMockEvent(
+    queryParams?: Record<string, string>,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: { patientId: 'patient-123' },
+      queryStringParameters: queryParams ?? { left: leftNoteId, right: rightNoteId },
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/patients/patient-123/notes/compare',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123/notes/compare',
+      rawQueryString: `left=${leftNoteId}&right=${rightNoteId}`,
+      routeKey: 'GET /patients/{patientId}/notes/compare',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should compare two notes', async () => {
+    const comparison = buildNoteComparison(
+      createMockNote({ noteId: leftNoteId }),
+      createMockNote({ noteId: rightNoteId, title: 'Follow-up' })
+    );
+    mockedNotesService.compareNotes.mockResolvedValue(comparison);
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body as string);
+    expect(body.data.changedFields).toEqual(['title']);
+    expect(mockedNotesService.compareNotes).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      'patient-123',
+      leftNoteId,
+      rightNoteId
+    );
+  });
+
+  it('should return 400 when a note id is missing', async () => {
+    const result = await handler(createMockEvent({ left: leftNoteId }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.compareNotes).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when a note id is not a UUID', async () => {
+    const result = await handler(createMockEvent({ left: leftNoteId, right: 'note-2' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 400 when both sides are the same note', async () => {
+    const result = await handler(createMockEvent({ left: leftNoteId, right: leftNoteId }));
+
+    expect(result.statusCode).toBe(400);
+    const body = JSON.parse(result.body as string);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 404 when a note is not found', async () => {
+    mockedNotesService.compareNotes.mockRejectedValue(new NotFoundError('Note', rightNoteId));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.compareNotes.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,119 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/cosignNote';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError, ForbiddenError, ConflictError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('cosignNote handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(
+    body: unknown,
+    pathParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId },
+      body: body ? JSON.stringify(body) : null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: `/patients/patient-123/notes/${validNoteId}/cosign`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}/cosign`,
+      rawQueryString: '',
+      routeKey: 'POST /patients/{patientId}/notes/{noteId}/cosign',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should co-sign the note and return it', async () => {
+    mockedNotesService.cosignNote.mockResolvedValue(
+      createMockNoteDTO({
+        noteId: validNoteId,
+        version: 3,
+        cosignature: {
+          status: 'cosigned',
+          requestedAt: '2024-01-15T10:00:00.000Z',
+          reviewedAt: '2024-01-16T10:00:00.000Z',
+          reviewedBy: 'user-123',
+          reviewedByName: 'Dr. Smith',
+        },
+      })
+    );
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.cosignature.status).toBe('cosigned');
+    expect(mockedNotesService.cosignNote).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      'patient-123',
+      validNoteId,
+      { version: 2 }
+    );
+  });
+
+  it('should return 400 when version is missing', async () => {
+    const result = await handler(createMockEvent({}));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.cosignNote).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the note is not awaiting co-signature', async () => {
+    mockedNotesService.cosignNote.mockRejectedValue(
+      new ConflictError(`Note ${validNoteId} is not awaiting co-signature`)
+    );
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(409);
+  });
+
+  it('should return 404 when note not found', async () => {
+    mockedNotesService.cosignNote.mockRejectedValue(new NotFoundError('Note', validNoteId));
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.cosignNote.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:cosign')
+    );
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -23,6 +23,21 @@ jest.mock('../../../src/lib/rate-limiter', () => ({
   enforceRateLimitByIp: jest.fn().mockResolvedValue(undefined),
 }));
 
+// Idempotency records
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+function conditionalCheckFailed(): Error {
+  return Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+}
+
 const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
 
 describe('createNote handler', () => {
@@ -221,6 +236,27 @@ describe('createNote handler', () => {
     );
   });
 
+  it('should accept a templateId in place of title and content', async () => {
+    mockedNotesService.createNote.mockResolvedValue(createMockNoteDTO());
+    const body = { studyDate: '2024-01-15', templateId: '550e8400-e29b-41d4-a716-446655440000' };
+
+    const result = await handler(createMockEvent(body));
+
+    expect(result.statusCode).toBe(201);
+    expect(mockedNotesService.createNote).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      body
+    );
+  });
+
+  it('should return 400 without a title or a templateId', async () => {
+    const result = await handler(createMockEvent({ studyDate: '2024-01-15', content: 'Content' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.createNote).not.toHaveBeenCalled();
+  });
+
   it('should handle service throwing ValidationError', async () => {
     mockedNotesService.createNote.mockRejectedValue(
       new ValidationError('Invalid note data')
@@ -238,4 +274,63 @@ describe('createNote handler', () => {
     const responseBody = JSON.parse(result.body as string);
     expect(responseBody.error.message).toBe('Invalid note data');
   });
+
+  describe('Idempotency-Key', () => {
+    const body = { studyDate: '2024-01-15', title: 'Sleep Study', content: 'Findings' };
+
+    function withKey(
+      event: APIGatewayProxyEventV2WithJWTAuthorizer,
+      key = 'retry-key-1'
+    ): APIGatewayProxyEventV2WithJWTAuthorizer {
+      event.headers['idempotency-key'] = key;
+      return event;
+    }
+
+    it('should create the note once and replay the response for a retry', async () => {
+      mockedNotesService.createNote.mockResolvedValue(createMockNoteDTO({ noteId: 'note-1' }));
+      mockSend.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      const first = await handler(withKey(createMockEvent(body)));
+
+      const { requestHash } = mockSend.mock.calls[0][0].input.Item;
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { status: 'COMPLETED', requestHash, statusCode: 201, body: first.body },
+      });
+
+      const retry = await handler(withKey(createMockEvent(body)));
+
+      expect(mockedNotesService.createNote).toHaveBeenCalledTimes(1);
+      expect(retry.statusCode).toBe(201);
+      expect(retry.body).toBe(first.body);
+      expect(retry.headers?.['Idempotent-Replayed']).toBe('true');
+    });
+
+    it('should return 422 when the key is reused with a different body', async () => {
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { status: 'COMPLETED', requestHash: 'other', statusCode: 201, body: '{}' },
+      });
+
+      const result = await handler(withKey(createMockEvent({ ...body, title: 'Other' })));
+
+      expect(result.statusCode).toBe(422);
+      expect(mockedNotesService.createNote).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed key', async () => {
+      const result = await handler(withKey(createMockEvent(body), 'has spaces'));
+
+      expect(result.statusCode).toBe(400);
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(mockedNotesService.createNote).not.toHaveBeenCalled();
+    });
+
+    it('should not touch DynamoDB without a key', async () => {
+      mockedNotesService.createNote.mockResolvedValue(createMockNoteDTO());
+
+      const result = await handler(createMockEvent(body));
+
+      expect(result.statusCode).toBe(201);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
 });
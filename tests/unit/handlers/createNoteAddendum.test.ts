@@ -0,0 +1,127 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/createNoteAddendum';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError, ForbiddenError, ConflictError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('createNoteAddendum handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(
+    body: unknown,
+    pathParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId },
+      body: body ? JSON.stringify(body) : null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: `/patients/patient-123/notes/${validNoteId}/addenda`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}/addenda`,
+      rawQueryString: '',
+      routeKey: 'POST /patients/{patientId}/notes/{noteId}/addenda',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add an addendum and return the note with 201', async () => {
+    mockedNotesService.addNoteAddendum.mockResolvedValue(
+      createMockNoteDTO({
+        noteId: validNoteId,
+        addenda: [
+          {
+            addendumId: 'addendum-1',
+            content: 'Corrected AHI to 18.2',
+            signedAt: '2024-01-17T10:00:00.000Z',
+            signedBy: 'user-123',
+            signedByName: 'Dr. Smith',
+            contentHash: 'b'.repeat(64),
+          },
+        ],
+      })
+    );
+
+    const result = await handler(createMockEvent({ content: 'Corrected AHI to 18.2' }));
+
+    expect(result.statusCode).toBe(201);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.addenda).toHaveLength(1);
+    expect(mockedNotesService.addNoteAddendum).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      'patient-123',
+      validNoteId,
+      { content: 'Corrected AHI to 18.2' }
+    );
+  });
+
+  it('should return 400 when content is empty', async () => {
+    const result = await handler(createMockEvent({ content: '' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.addNoteAddendum).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when body is missing', async () => {
+    const result = await handler(createMockEvent(null));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 409 when the note is not signed', async () => {
+    mockedNotesService.addNoteAddendum.mockRejectedValue(
+      new ConflictError(`Note ${validNoteId} must be signed before addenda can be added`)
+    );
+
+    const result = await handler(createMockEvent({ content: 'More findings' }));
+
+    expect(result.statusCode).toBe(409);
+  });
+
+  it('should return 404 when note not found', async () => {
+    mockedNotesService.addNoteAddendum.mockRejectedValue(new NotFoundError('Note', validNoteId));
+
+    const result = await handler(createMockEvent({ content: 'More findings' }));
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.addNoteAddendum.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:write')
+    );
+
+    const result = await handler(createMockEvent({ content: 'More findings' }));
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,122 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/createNoteTemplate';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
+import { ForbiddenError, ValidationError } from '../../../src/lib/errors';
+import { NoteTemplateDTO } from '../../../src/types';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/note-templates.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedService = noteTemplatesService as jest.Mocked<typeof noteTemplatesService>;
+
+describe('createNoteTemplate handler', () => {
+  const templateId = '550e8400-e29b-41d4-a716-446655440000';
+  const templateDTO: NoteTemplateDTO = {
+    templateId,
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}}.',
+    tags: ['psg'],
+    variables: ['patient.fullName', 'note.studyDate'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    createdBy: 'admin-123',
+    version: 1,
+  };
+
+  function createMockEvent(
+    body?: unknown,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: undefined,
+      queryStringParameters: undefined,
+      body: body === undefined ? null : JSON.stringify(body),
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: '/templates',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/templates',
+      routeKey: 'POST /templates',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const input = {
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}}.',
+  };
+
+  it('should create the template', async () => {
+    mockedService.createTemplate.mockResolvedValue(templateDTO);
+
+    const result = await handler(createMockEvent(input));
+
+    expect(result.statusCode).toBe(201);
+    const body = JSON.parse(result.body as string);
+    expect(body.data.templateId).toBe(templateId);
+    expect(mockedService.createTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      input
+    );
+  });
+
+  it('should return 400 when the body is missing', async () => {
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedService.createTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when content is missing', async () => {
+    const result = await handler(createMockEvent({ noteType: 'study_result', name: 'PSG' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 400 for unknown placeholders', async () => {
+    mockedService.createTemplate.mockRejectedValue(
+      new ValidationError('Unknown template variables: patient.mrn')
+    );
+
+    const result = await handler(createMockEvent({ ...input, content: '{{patient.mrn}}' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 403 for users who cannot manage templates', async () => {
+    mockedService.createTemplate.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(createMockEvent(input));
+
+    expect(result.statusCode).toBe(403);
+  });
+});
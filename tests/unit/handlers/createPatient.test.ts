@@ -0,0 +1,129 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/createPatient';
+import * as patientsService from '../../../src/services/patients.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/patients.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedPatientsService = patientsService as jest.Mocked<typeof patientsService>;
+
+describe('createPatient handler', () => {
+  const patient: patientsService.PatientDetailDTO = {
+    patientId: 'patient-123',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    dateOfBirth: '1985-03-20',
+    status: 'active',
+    version: 1,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+  };
+
+  function createMockEvent(body: unknown): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: undefined,
+      body: body === undefined ? null : JSON.stringify(body),
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: '/patients',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients',
+      rawQueryString: '',
+      routeKey: 'POST /patients',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should register the patient and return its ETag', async () => {
+    mockedPatientsService.createPatient.mockResolvedValue(patient);
+
+    const result = await handler(
+      createMockEvent({
+        firstName: ' Jane ',
+        lastName: 'Smith',
+        dateOfBirth: '1985-03-20',
+        email: 'Jane.Smith@Example.com',
+        phone: '+1 (555) 555-0100',
+      })
+    );
+
+    expect(result.statusCode).toBe(201);
+    expect(result.headers?.['ETag']).toBe('"1"');
+    const body = JSON.parse(result.body as string);
+    expect(body.data.patientId).toBe('patient-123');
+    expect(mockedPatientsService.createPatient).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      {
+        firstName: 'Jane',
+        lastName: 'Smith',
+        dateOfBirth: '1985-03-20',
+        email: 'jane.smith@example.com',
+        phone: '+1 (555) 555-0100',
+      }
+    );
+  });
+
+  it('should return 400 when body is missing', async () => {
+    const result = await handler(createMockEvent(undefined));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedPatientsService.createPatient).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid phone number', async () => {
+    const result = await handler(
+      createMockEvent({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        dateOfBirth: '1985-03-20',
+        phone: 'call me',
+      })
+    );
+
+    expect(result.statusCode).toBe(400);
+    const body = JSON.parse(result.body as string);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockedPatientsService.createPatient).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when a required field is missing', async () => {
+    const result = await handler(createMockEvent({ firstName: 'Jane', lastName: 'Smith' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedPatientsService.createPatient.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(
+      createMockEvent({ firstName: 'Jane', lastName: 'Smith', dateOfBirth: '1985-03-20' })
+    );
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -1,7 +1,7 @@
 import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { handler } from '../../../src/handlers/deleteNote';
 import * as notesService from '../../../src/services/notes.service';
-import { NotFoundError, ForbiddenError } from '../../../src/lib/errors';
+import { NotFoundError, ForbiddenError, VersionConflictError } from '../../../src/lib/errors';
 import { createMockJWTClaims } from '../../fixtures/auth';
 
 // Mock dependencies
@@ -137,7 +137,8 @@ describe('deleteNote handler', () => {
         userId: 'user-123',
       }),
       'patient-xyz',
-      validNoteId
+      validNoteId,
+      undefined
     );
   });
 
@@ -152,4 +153,30 @@ describe('deleteNote handler', () => {
     const responseBody = JSON.parse(result.body as string);
     expect(responseBody.error.code).toBe('INTERNAL_ERROR');
   });
+
+  it('should pass the If-Match version to the service', async () => {
+    mockedNotesService.deleteNote.mockResolvedValue(undefined);
+    const event = createMockEvent();
+    event.headers['if-match'] = '"3"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(204);
+    expect(mockedNotesService.deleteNote).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      validNoteId,
+      3
+    );
+  });
+
+  it('should return 412 when the note changed since If-Match was read', async () => {
+    mockedNotesService.deleteNote.mockRejectedValue(new VersionConflictError(3, 4));
+    const event = createMockEvent();
+    event.headers['if-match'] = '"3"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(412);
+  });
 });
@@ -0,0 +1,83 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/deleteNoteTemplate';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
+import { ForbiddenError, NotFoundError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/note-templates.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedService = noteTemplatesService as jest.Mocked<typeof noteTemplatesService>;
+
+describe('deleteNoteTemplate handler', () => {
+  const templateId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: { templateId },
+      queryStringParameters: undefined,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'DELETE',
+          path: `/templates/${templateId}`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/templates/${templateId}`,
+      routeKey: 'DELETE /templates/{templateId}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should delete the template', async () => {
+    mockedService.deleteTemplate.mockResolvedValue(undefined);
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(204);
+    expect(mockedService.deleteTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      templateId
+    );
+  });
+
+  it('should return 404 when the template is not found', async () => {
+    mockedService.deleteTemplate.mockRejectedValue(new NotFoundError('Note template', templateId));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 403 for users who cannot manage templates', async () => {
+    mockedService.deleteTemplate.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,108 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/getComplianceReport';
+import * as complianceService from '../../../src/services/compliance.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { buildComplianceReport } from '../../../src/lib/compliance';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/compliance.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedComplianceService = complianceService as jest.Mocked<typeof complianceService>;
+
+describe('getComplianceReport handler', () => {
+  function createMockEvent(
+    queryParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: { patientId: 'patient-123' },
+      queryStringParameters: queryParams,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/patients/patient-123/compliance',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123/compliance',
+      rawQueryString: '',
+      routeKey: 'GET /patients/{patientId}/compliance',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the compliance report for the range', async () => {
+    const report = buildComplianceReport('patient-123', '2024-03-01', '2024-03-30', []);
+    mockedComplianceService.getComplianceReport.mockResolvedValue(report);
+
+    const result = await handler(createMockEvent({ from: '2024-03-01', to: '2024-03-30' }));
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body as string);
+    expect(body.data.status).toBe('fail');
+    expect(mockedComplianceService.getComplianceReport).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      'patient-123',
+      { from: '2024-03-01', to: '2024-03-30' }
+    );
+  });
+
+  it('should leave the range to the service when omitted', async () => {
+    mockedComplianceService.getComplianceReport.mockResolvedValue(
+      buildComplianceReport('patient-123', '2024-01-02', '2024-03-31', [])
+    );
+
+    await handler(createMockEvent());
+
+    expect(mockedComplianceService.getComplianceReport).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      {}
+    );
+  });
+
+  it('should return 400 for an invalid date', async () => {
+    const result = await handler(createMockEvent({ from: '2024/03/01' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedComplianceService.getComplianceReport).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a date that is not on the calendar', async () => {
+    const result = await handler(createMockEvent({ from: '2024-13-45' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedComplianceService.getComplianceReport).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedComplianceService.getComplianceReport.mockRejectedValue(
+      new ForbiddenError('Missing scope')
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -169,4 +169,42 @@ describe('getNote handler', () => {
       tags: ['sleep'],
     });
   });
+
+  it('should return the version as an ETag', async () => {
+    mockedNotesService.getNote.mockResolvedValue(
+      createMockNoteDTO({ noteId: validNoteId, version: 4 })
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['ETag']).toBe('"4"');
+  });
+
+  it('should return 304 when If-None-Match names the current version', async () => {
+    mockedNotesService.getNote.mockResolvedValue(
+      createMockNoteDTO({ noteId: validNoteId, version: 4 })
+    );
+    const event = createMockEvent();
+    event.headers['if-none-match'] = '"4"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(304);
+    expect(result.body).toBeUndefined();
+    expect(result.headers?.['ETag']).toBe('"4"');
+  });
+
+  it('should return the note when If-None-Match names an older version', async () => {
+    mockedNotesService.getNote.mockResolvedValue(
+      createMockNoteDTO({ noteId: validNoteId, version: 5 })
+    );
+    const event = createMockEvent();
+    event.headers['if-none-match'] = '"4"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['ETag']).toBe('"5"');
+  });
 });
@@ -0,0 +1,99 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/getNoteTemplate';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
+import { NotFoundError } from '../../../src/lib/errors';
+import { NoteTemplateDTO } from '../../../src/types';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/note-templates.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedService = noteTemplatesService as jest.Mocked<typeof noteTemplatesService>;
+
+describe('getNoteTemplate handler', () => {
+  const templateId = '550e8400-e29b-41d4-a716-446655440000';
+  const templateDTO: NoteTemplateDTO = {
+    templateId,
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}}.',
+    tags: ['psg'],
+    variables: ['patient.fullName', 'note.studyDate'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    createdBy: 'admin-123',
+    version: 1,
+  };
+
+  function createMockEvent(
+    pathParams?: Record<string, string>,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { templateId },
+      queryStringParameters: undefined,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: `/templates/${templateId}`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/templates/${templateId}`,
+      routeKey: 'GET /templates/{templateId}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the template', async () => {
+    mockedService.getTemplate.mockResolvedValue(templateDTO);
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body as string);
+    expect(body.data).toEqual(templateDTO);
+    expect(mockedService.getTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      templateId
+    );
+  });
+
+  it('should return 400 when the template id is not a UUID', async () => {
+    const result = await handler(createMockEvent({ templateId: 'template-1' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedService.getTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the template is not found', async () => {
+    mockedService.getTemplate.mockRejectedValue(new NotFoundError('Note template', templateId));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,103 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/getNoteVersion';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('getNoteVersion handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(pathParams?: Record<string, string>): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId, version: '1' },
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: `/patients/patient-123/notes/${validNoteId}/versions/1`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}/versions/1`,
+      rawQueryString: '',
+      routeKey: 'GET /patients/{patientId}/notes/{noteId}/versions/{version}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the requested version', async () => {
+    mockedNotesService.getNoteVersion.mockResolvedValue({
+      noteId: validNoteId,
+      patientId: 'patient-123',
+      studyDate: '2024-01-15',
+      title: 'Original Title',
+      content: 'Original content',
+      tags: [],
+      attachments: [],
+      addenda: [],
+      version: 1,
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      updatedBy: 'user-123',
+      updatedByName: 'Dr. Smith',
+      changedFields: [],
+      current: false,
+    });
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.title).toBe('Original Title');
+    expect(mockedNotesService.getNoteVersion).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      validNoteId,
+      1
+    );
+  });
+
+  it('should return 400 when version is not a positive integer', async () => {
+    const result = await handler(
+      createMockEvent({ patientId: 'patient-123', noteId: validNoteId, version: 'latest' })
+    );
+
+    expect(result.statusCode).toBe(400);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 404 when version not found', async () => {
+    mockedNotesService.getNoteVersion.mockRejectedValue(
+      new NotFoundError('Note version', `${validNoteId}@1`)
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+});
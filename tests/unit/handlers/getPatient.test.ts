@@ -0,0 +1,95 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/getPatient';
+import * as patientsService from '../../../src/services/patients.service';
+import { NotFoundError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/patients.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedPatientsService = patientsService as jest.Mocked<typeof patientsService>;
+
+describe('getPatient handler', () => {
+  const patient: patientsService.PatientDetailDTO = {
+    patientId: 'patient-123',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    dateOfBirth: '1985-03-20',
+    status: 'active',
+    version: 4,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+  };
+
+  function createMockEvent(
+    headers: Record<string, string> = {}
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers,
+      pathParameters: { patientId: 'patient-123' },
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/patients/patient-123',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123',
+      rawQueryString: '',
+      routeKey: 'GET /patients/{patientId}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the patient with its version as an ETag', async () => {
+    mockedPatientsService.getPatient.mockResolvedValue(patient);
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['ETag']).toBe('"4"');
+    const body = JSON.parse(result.body as string);
+    expect(body.data).toEqual(patient);
+    expect(mockedPatientsService.getPatient).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      'patient-123'
+    );
+  });
+
+  it('should return 304 when If-None-Match names the current version', async () => {
+    mockedPatientsService.getPatient.mockResolvedValue(patient);
+
+    const result = await handler(createMockEvent({ 'if-none-match': '"4"' }));
+
+    expect(result.statusCode).toBe(304);
+    expect(result.headers?.['ETag']).toBe('"4"');
+  });
+
+  it('should return 404 when the patient does not exist', async () => {
+    mockedPatientsService.getPatient.mockRejectedValue(new NotFoundError('Patient', 'patient-123'));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,132 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/getPatientTrends';
+import * as trendsService from '../../../src/services/trends.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { PatientTrendsDTO } from '../../../src/types';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/trends.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedTrendsService = trendsService as jest.Mocked<typeof trendsService>;
+
+describe('getPatientTrends handler', () => {
+  const trends: PatientTrendsDTO = {
+    patientId: 'patient-123',
+    studyCount: 2,
+    metrics: [
+      {
+        metric: 'ahi',
+        unit: 'events/h',
+        points: [
+          { noteId: 'note-1', studyDate: '2024-01-01', value: 10 },
+          { noteId: 'note-2', studyDate: '2024-06-01', value: 20, change: 10 },
+        ],
+        first: 10,
+        latest: 20,
+        change: 10,
+        percentChange: 100,
+        slopePerYear: 24.2,
+        direction: 'worsening',
+        significantWorsening: true,
+      },
+    ],
+    worsening: ['ahi'],
+    latestOsaSeverity: 'moderate',
+  };
+
+  function createMockEvent(
+    queryParams?: Record<string, string>,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: { patientId: 'patient-123' },
+      queryStringParameters: queryParams,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/patients/patient-123/trends',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123/trends',
+      rawQueryString: '',
+      routeKey: 'GET /patients/{patientId}/trends',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the patient trends', async () => {
+    mockedTrendsService.getPatientTrends.mockResolvedValue(trends);
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body as string);
+    expect(body.data).toEqual(trends);
+    expect(mockedTrendsService.getPatientTrends).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      'patient-123',
+      {}
+    );
+  });
+
+  it('should pass the study date range', async () => {
+    mockedTrendsService.getPatientTrends.mockResolvedValue(trends);
+
+    await handler(createMockEvent({ studyDateFrom: '2024-01-01', studyDateTo: '2024-12-31' }));
+
+    expect(mockedTrendsService.getPatientTrends).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      { studyDateFrom: '2024-01-01', studyDateTo: '2024-12-31' }
+    );
+  });
+
+  it('should return 400 for an invalid date', async () => {
+    const result = await handler(createMockEvent({ studyDateFrom: '01/01/2024' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedTrendsService.getPatientTrends).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when the range is reversed', async () => {
+    const result = await handler(
+      createMockEvent({ studyDateFrom: '2024-12-31', studyDateTo: '2024-01-01' })
+    );
+
+    expect(result.statusCode).toBe(400);
+    const body = JSON.parse(result.body as string);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedTrendsService.getPatientTrends.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,167 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/importCompliance';
+import * as complianceService from '../../../src/services/compliance.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/compliance.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedComplianceService = complianceService as jest.Mocked<typeof complianceService>;
+
+describe('importCompliance handler', () => {
+  const importResult = {
+    patientId: 'patient-123',
+    imported: 2,
+    from: '2024-03-01',
+    to: '2024-03-02',
+  };
+
+  function createMockEvent(
+    body: string | null,
+    headers: Record<string, string> = { 'content-type': 'application/json' },
+    isBase64Encoded = false
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers,
+      pathParameters: { patientId: 'patient-123' },
+      body,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: '/patients/patient-123/compliance',
+        },
+      },
+      isBase64Encoded,
+      rawPath: '/patients/patient-123/compliance',
+      rawQueryString: '',
+      routeKey: 'POST /patients/{patientId}/compliance',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedComplianceService.importCompliance.mockResolvedValue(importResult);
+  });
+
+  it('should import JSON records', async () => {
+    const records = [
+      { date: '2024-03-01', usageMinutes: 300, residualAhi: 1.5, leak: 8, pressure: 10 },
+      { date: '2024-03-02', usageMinutes: 0 },
+    ];
+
+    const result = await handler(createMockEvent(JSON.stringify({ records })));
+
+    expect(result.statusCode).toBe(201);
+    const body = JSON.parse(result.body as string);
+    expect(body.data).toEqual(importResult);
+    expect(mockedComplianceService.importCompliance).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      'patient-123',
+      records
+    );
+  });
+
+  it('should import CSV records', async () => {
+    const csv = 'date,usageMinutes,residualAhi\n2024-03-01,300,1.5\n2024-03-02,0,\n';
+
+    const result = await handler(createMockEvent(csv, { 'Content-Type': 'text/csv' }));
+
+    expect(result.statusCode).toBe(201);
+    expect(mockedComplianceService.importCompliance).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      [
+        { date: '2024-03-01', usageMinutes: 300, residualAhi: 1.5 },
+        { date: '2024-03-02', usageMinutes: 0 },
+      ]
+    );
+  });
+
+  it('should decode a base64-encoded CSV body', async () => {
+    const csv = Buffer.from('date,usageMinutes\n2024-03-01,300').toString('base64');
+
+    const result = await handler(
+      createMockEvent(csv, { 'content-type': 'text/csv; charset=utf-8' }, true)
+    );
+
+    expect(result.statusCode).toBe(201);
+    expect(mockedComplianceService.importCompliance).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      [{ date: '2024-03-01', usageMinutes: 300 }]
+    );
+  });
+
+  it('should return 400 when body is missing', async () => {
+    const result = await handler(createMockEvent(null));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedComplianceService.importCompliance).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for invalid CSV values', async () => {
+    const result = await handler(
+      createMockEvent('date,usageMinutes\n2024-03-01,n/a', { 'content-type': 'text/csv' })
+    );
+
+    expect(result.statusCode).toBe(400);
+    const body = JSON.parse(result.body as string);
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 400 for a CSV night that is not a calendar date', async () => {
+    const result = await handler(
+      createMockEvent('date,usageMinutes\n2024-02-30,300', { 'content-type': 'text/csv' })
+    );
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedComplianceService.importCompliance).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a CSV without the required columns', async () => {
+    const result = await handler(
+      createMockEvent('date,leak\n2024-03-01,10', { 'content-type': 'text/csv' })
+    );
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 400 when a night appears twice', async () => {
+    const records = [
+      { date: '2024-03-01', usageMinutes: 300 },
+      { date: '2024-03-01', usageMinutes: 200 },
+    ];
+
+    const result = await handler(createMockEvent(JSON.stringify({ records })));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedComplianceService.importCompliance).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedComplianceService.importCompliance.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(
+      createMockEvent(JSON.stringify({ records: [{ date: '2024-03-01', usageMinutes: 300 }] }))
+    );
+
+    expect(result.statusCode).toBe(403);
+  });
+});
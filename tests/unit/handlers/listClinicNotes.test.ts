@@ -0,0 +1,129 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/listClinicNotes';
+import * as notesService from '../../../src/services/notes.service';
+import { ForbiddenError, ValidationError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('listClinicNotes handler', () => {
+  function createMockEvent(
+    queryParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: {},
+      queryStringParameters: queryParams,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/notes',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/notes',
+      rawQueryString: '',
+      routeKey: 'GET /notes',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return notes across the clinic', async () => {
+    mockedNotesService.listClinicNotes.mockResolvedValue({
+      items: [
+        createMockNoteDTO({ patientId: 'patient-1' }),
+        createMockNoteDTO({ patientId: 'patient-2' }),
+      ],
+      hasMore: false,
+    });
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.items).toHaveLength(2);
+    expect(mockedNotesService.listClinicNotes).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      { limit: 20 }
+    );
+  });
+
+  it('should pass filters through', async () => {
+    mockedNotesService.listClinicNotes.mockResolvedValue({ items: [], hasMore: false });
+
+    await handler(
+      createMockEvent({
+        noteType: 'study_result',
+        studyDateFrom: '2024-01-08',
+        studyDateTo: '2024-01-14',
+        createdBy: 'user-456',
+        tag: 'psg',
+        q: 'apnea',
+        cursor: 'abc',
+        limit: '5',
+      })
+    );
+
+    expect(mockedNotesService.listClinicNotes).toHaveBeenCalledWith(expect.anything(), {
+      noteType: 'study_result',
+      studyDateFrom: '2024-01-08',
+      studyDateTo: '2024-01-14',
+      createdBy: 'user-456',
+      tag: 'psg',
+      q: 'apnea',
+      cursor: 'abc',
+      limit: 5,
+    });
+  });
+
+  it('should return 400 for an invalid date filter', async () => {
+    const result = await handler(createMockEvent({ studyDateFrom: 'last-week' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.listClinicNotes).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a query without searchable terms', async () => {
+    mockedNotesService.listClinicNotes.mockRejectedValue(
+      new ValidationError('Search query has no searchable terms')
+    );
+
+    const result = await handler(createMockEvent({ q: '!!' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.listClinicNotes.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:read')
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,111 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/listCosignQueue';
+import * as notesService from '../../../src/services/notes.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('listCosignQueue handler', () => {
+  function createMockEvent(
+    queryParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: {},
+      queryStringParameters: queryParams,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims({ 'cognito:groups': ['doctor'] }) as unknown as Record<
+              string,
+              unknown
+            >,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/cosign-queue',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/cosign-queue',
+      rawQueryString: '',
+      routeKey: 'GET /cosign-queue',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the pending notes for the clinic', async () => {
+    mockedNotesService.listCosignQueue.mockResolvedValue({
+      items: [
+        {
+          noteId: 'note-1',
+          patientId: 'patient-123',
+          studyDate: '2024-01-15',
+          title: 'Follow-up',
+          noteType: 'follow_up',
+          createdBy: 'user-nurse',
+          createdByName: 'Nurse Joy',
+          requestedAt: '2024-01-15T10:00:00.000Z',
+        },
+      ],
+      hasMore: false,
+    });
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.items).toHaveLength(1);
+    expect(mockedNotesService.listCosignQueue).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      { limit: 20 }
+    );
+  });
+
+  it('should pass cursor and limit through', async () => {
+    mockedNotesService.listCosignQueue.mockResolvedValue({ items: [], hasMore: false });
+
+    await handler(createMockEvent({ cursor: 'abc', limit: '5' }));
+
+    expect(mockedNotesService.listCosignQueue).toHaveBeenCalledWith(expect.anything(), {
+      cursor: 'abc',
+      limit: 5,
+    });
+  });
+
+  it('should return 400 when limit is out of range', async () => {
+    const result = await handler(createMockEvent({ limit: '500' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.listCosignQueue.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:cosign')
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,99 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/listDeletedNotes';
+import * as notesService from '../../../src/services/notes.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('listDeletedNotes handler', () => {
+  function createMockEvent(
+    queryParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: { patientId: 'patient-123' },
+      queryStringParameters: queryParams,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims({ 'cognito:groups': ['admin'] }) as unknown as Record<
+              string,
+              unknown
+            >,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/patients/patient-123/notes/deleted',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123/notes/deleted',
+      rawQueryString: '',
+      routeKey: 'GET /patients/{patientId}/notes/deleted',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return a paginated list of deleted notes', async () => {
+    mockedNotesService.listDeletedNotes.mockResolvedValue({
+      items: [
+        {
+          ...createMockNoteDTO(),
+          deletedAt: '2024-01-20T10:00:00.000Z',
+          deletedBy: 'user-admin',
+        },
+      ],
+      nextCursor: 'next-cursor',
+      hasMore: true,
+    });
+
+    const result = await handler(createMockEvent({ limit: '5', cursor: 'abc' }));
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.items[0].deletedBy).toBe('user-admin');
+    expect(responseBody.data.hasMore).toBe(true);
+    expect(mockedNotesService.listDeletedNotes).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      { limit: 5, cursor: 'abc' }
+    );
+  });
+
+  it('should return 400 for an invalid limit', async () => {
+    const result = await handler(createMockEvent({ limit: '0' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.listDeletedNotes.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:delete')
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -0,0 +1,107 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/listNoteTemplates';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { NoteTemplateDTO } from '../../../src/types';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/note-templates.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedService = noteTemplatesService as jest.Mocked<typeof noteTemplatesService>;
+
+describe('listNoteTemplates handler', () => {
+  const templateId = '550e8400-e29b-41d4-a716-446655440000';
+  const templateDTO: NoteTemplateDTO = {
+    templateId,
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}}.',
+    tags: ['psg'],
+    variables: ['patient.fullName', 'note.studyDate'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    createdBy: 'admin-123',
+    version: 1,
+  };
+
+  function createMockEvent(
+    queryParams?: Record<string, string>,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: undefined,
+      queryStringParameters: queryParams,
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: '/templates',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/templates',
+      routeKey: 'GET /templates',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the templates', async () => {
+    mockedService.listTemplates.mockResolvedValue([templateDTO]);
+
+    const result = await handler(createMockEvent({ noteType: 'study_result' }));
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body as string);
+    expect(body.data).toEqual([templateDTO]);
+    expect(mockedService.listTemplates).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      { noteType: 'study_result' }
+    );
+  });
+
+  it('should list every note type without a filter', async () => {
+    mockedService.listTemplates.mockResolvedValue([]);
+
+    await handler(createMockEvent());
+
+    expect(mockedService.listTemplates).toHaveBeenCalledWith(expect.anything(), {});
+  });
+
+  it('should return 400 for a note type containing #', async () => {
+    const result = await handler(createMockEvent({ noteType: 'study#result' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedService.listTemplates).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedService.listTemplates.mockRejectedValue(new ForbiddenError('Missing scope'));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+});
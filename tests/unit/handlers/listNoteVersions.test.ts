@@ -0,0 +1,91 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/listNoteVersions';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('listNoteVersions handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(pathParams?: Record<string, string>): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId },
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'GET',
+          path: `/patients/patient-123/notes/${validNoteId}/versions`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}/versions`,
+      rawQueryString: '',
+      routeKey: 'GET /patients/{patientId}/notes/{noteId}/versions',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the version history wrapped in items', async () => {
+    mockedNotesService.listNoteVersions.mockResolvedValue([
+      {
+        version: 2,
+        updatedAt: '2024-01-16T10:00:00.000Z',
+        updatedBy: 'user-456',
+        updatedByName: 'Dr. Test',
+        changedFields: ['title'],
+        current: true,
+      },
+    ]);
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.items).toHaveLength(1);
+    expect(responseBody.data.items[0].changedFields).toEqual(['title']);
+    expect(mockedNotesService.listNoteVersions).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      'patient-123',
+      validNoteId
+    );
+  });
+
+  it('should return 400 when noteId is invalid UUID', async () => {
+    const result = await handler(createMockEvent({ patientId: 'patient-123', noteId: 'bad' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 404 when note not found', async () => {
+    mockedNotesService.listNoteVersions.mockRejectedValue(new NotFoundError('Note', validNoteId));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+});
@@ -120,6 +120,65 @@ describe('listNotes handler', () => {
     );
   });
 
+  it('should parse sort and list filters', async () => {
+    mockedNotesService.listNotes.mockResolvedValue({
+      items: [],
+      hasMore: false,
+    });
+
+    const queryParams = {
+      sort: '-updatedAt',
+      noteType: 'follow_up',
+      createdBy: 'user-456',
+      tags: 'psg,cpap',
+      tagMatch: 'all',
+      hasAttachments: 'true',
+    };
+
+    await handler(createMockEvent(undefined, queryParams));
+
+    expect(mockedNotesService.listNotes).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      expect.objectContaining({
+        sort: '-updatedAt',
+        noteType: 'follow_up',
+        createdBy: 'user-456',
+        tags: ['psg', 'cpap'],
+        tagMatch: 'all',
+        hasAttachments: true,
+      })
+    );
+  });
+
+  it('should return the total and facets when includeCounts is set', async () => {
+    const facets = { noteType: { follow_up: 3 }, tag: { psg: 1 }, year: { '2024': 3 } };
+    mockedNotesService.listNotes.mockResolvedValue({
+      items: [],
+      hasMore: false,
+      total: 3,
+      facets,
+    });
+
+    const result = await handler(createMockEvent(undefined, { includeCounts: 'true' }));
+
+    expect(mockedNotesService.listNotes).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      expect.objectContaining({ includeCounts: true })
+    );
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.total).toBe(3);
+    expect(responseBody.data.facets).toEqual(facets);
+  });
+
+  it('should return 400 when sort is combined with q', async () => {
+    const result = await handler(createMockEvent(undefined, { sort: 'updatedAt', q: 'apnea' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.listNotes).not.toHaveBeenCalled();
+  });
+
   it('should use default limit of 20', async () => {
     mockedNotesService.listNotes.mockResolvedValue({
       items: [],
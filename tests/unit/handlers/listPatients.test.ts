@@ -21,12 +21,14 @@ const mockedPatientsService = patientsService as jest.Mocked<typeof patientsServ
 
 describe('listPatients handler', () => {
   function createMockEvent(
-    claims?: Record<string, unknown>
+    claims?: Record<string, unknown>,
+    queryParams?: Record<string, string>
   ): APIGatewayProxyEventV2WithJWTAuthorizer {
     const jwtClaims = claims ?? createMockJWTClaims();
     return {
       headers: {},
       pathParameters: {},
+      queryStringParameters: queryParams,
       body: null,
       requestContext: {
         authorizer: {
@@ -66,7 +68,7 @@ describe('listPatients handler', () => {
         status: 'active',
       },
     ];
-    mockedPatientsService.listPatients.mockResolvedValue(mockPatients);
+    mockedPatientsService.listPatients.mockResolvedValue({ items: mockPatients, hasMore: false });
 
     const result = await handler(createMockEvent());
 
@@ -78,7 +80,7 @@ describe('listPatients handler', () => {
   });
 
   it('should return empty array when no patients', async () => {
-    mockedPatientsService.listPatients.mockResolvedValue([]);
+    mockedPatientsService.listPatients.mockResolvedValue({ items: [], hasMore: false });
 
     const result = await handler(createMockEvent());
 
@@ -109,7 +111,7 @@ describe('listPatients handler', () => {
   });
 
   it('should include correlation ID in response headers', async () => {
-    mockedPatientsService.listPatients.mockResolvedValue([]);
+    mockedPatientsService.listPatients.mockResolvedValue({ items: [], hasMore: false });
 
     const event = createMockEvent();
     event.headers['x-correlation-id'] = 'test-correlation-id';
@@ -120,7 +122,7 @@ describe('listPatients handler', () => {
   });
 
   it('should pass auth context to service', async () => {
-    mockedPatientsService.listPatients.mockResolvedValue([]);
+    mockedPatientsService.listPatients.mockResolvedValue({ items: [], hasMore: false });
 
     await handler(createMockEvent());
 
@@ -128,10 +130,68 @@ describe('listPatients handler', () => {
       expect.objectContaining({
         clinicId: 'clinic-abc',
         userId: 'user-123',
-      })
+      }),
+      { limit: 20, status: 'active' }
     );
   });
 
+  it('should pass the cursor, limit and status to the service', async () => {
+    mockedPatientsService.listPatients.mockResolvedValue({
+      items: [],
+      nextCursor: 'next-cursor',
+      hasMore: true,
+    });
+
+    const result = await handler(
+      createMockEvent(undefined, { cursor: 'abc', limit: '5', status: 'all' })
+    );
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data).toEqual({ items: [], nextCursor: 'next-cursor', hasMore: true });
+    expect(mockedPatientsService.listPatients).toHaveBeenCalledWith(expect.anything(), {
+      cursor: 'abc',
+      limit: 5,
+      status: 'all',
+    });
+  });
+
+  it.each<Record<string, string>>([{ status: 'deleted' }, { limit: '0' }, { limit: '101' }])(
+    'should return 400 for invalid query %p',
+    async (queryParams) => {
+      const result = await handler(createMockEvent(undefined, queryParams));
+
+      expect(result.statusCode).toBe(400);
+      expect(mockedPatientsService.listPatients).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should pass search parameters to the service', async () => {
+    mockedPatientsService.listPatients.mockResolvedValue({ items: [], hasMore: false, total: 0 });
+
+    const result = await handler(
+      createMockEvent(undefined, { q: 'smith', dateOfBirth: '1980-05-15', phone: '555-1234' })
+    );
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.total).toBe(0);
+    expect(mockedPatientsService.listPatients).toHaveBeenCalledWith(expect.anything(), {
+      limit: 20,
+      status: 'active',
+      q: 'smith',
+      dateOfBirth: '1980-05-15',
+      phone: '555-1234',
+    });
+  });
+
+  it('should return 400 for an invalid date of birth', async () => {
+    const result = await handler(createMockEvent(undefined, { dateOfBirth: '1980-5-15' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedPatientsService.listPatients).not.toHaveBeenCalled();
+  });
+
   it('should handle unexpected errors', async () => {
     mockedPatientsService.listPatients.mockRejectedValue(
       new Error('Database connection failed')
@@ -157,7 +217,7 @@ describe('listPatients handler', () => {
         status: 'active',
       },
     ];
-    mockedPatientsService.listPatients.mockResolvedValue(mockPatients);
+    mockedPatientsService.listPatients.mockResolvedValue({ items: mockPatients, hasMore: false });
 
     const result = await handler(createMockEvent());
 
@@ -0,0 +1,160 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/patchNote';
+import * as notesService from '../../../src/services/notes.service';
+import { ConflictError, VersionConflictError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('patchNote handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(
+    body: unknown,
+    pathParams?: Record<string, string>,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: { 'content-type': 'application/merge-patch+json' },
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId },
+      body: body ? JSON.stringify(body) : null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'PATCH',
+          path: `/patients/patient-123/notes/${validNoteId}`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}`,
+      rawQueryString: '',
+      routeKey: 'PATCH /patients/{patientId}/notes/{noteId}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should apply a merge patch', async () => {
+    mockedNotesService.patchNote.mockResolvedValue(
+      createMockNoteDTO({ noteId: validNoteId, tags: [], noteType: undefined, version: 3 })
+    );
+
+    const result = await handler(createMockEvent({ noteType: null, tags: null, version: 2 }));
+
+    expect(result.statusCode).toBe(200);
+    expect(mockedNotesService.patchNote).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: expect.any(String) }),
+      'patient-123',
+      validNoteId,
+      { noteType: null, tags: null, version: 2 }
+    );
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.tags).toEqual([]);
+    expect(responseBody.data.version).toBe(3);
+  });
+
+  it('should return 400 when body is missing', async () => {
+    const result = await handler(createMockEvent(null));
+
+    expect(result.statusCode).toBe(400);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should return 400 when a required member is set to null', async () => {
+    const result = await handler(createMockEvent({ title: null, version: 1 }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.patchNote).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when version is missing', async () => {
+    const result = await handler(createMockEvent({ title: 'Updated Title' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 409 when version conflict', async () => {
+    mockedNotesService.patchNote.mockRejectedValue(
+      new ConflictError('Version conflict: expected 1, current is 2')
+    );
+
+    const result = await handler(createMockEvent({ title: 'Updated Title', version: 1 }));
+
+    expect(result.statusCode).toBe(409);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.error.code).toBe('CONFLICT');
+  });
+
+  it('should accept the expected version as If-Match', async () => {
+    mockedNotesService.patchNote.mockResolvedValue(
+      createMockNoteDTO({ noteId: validNoteId, version: 5 })
+    );
+    const event = createMockEvent({ tags: null });
+    event.headers['if-match'] = '"4"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['ETag']).toBe('"5"');
+    expect(mockedNotesService.patchNote).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      validNoteId,
+      { tags: null, version: 4, autoMerge: false }
+    );
+  });
+
+  it('should return 412 when the If-Match version is stale', async () => {
+    mockedNotesService.patchNote.mockRejectedValue(new VersionConflictError(4, 5));
+    const event = createMockEvent({ tags: null });
+    event.headers['if-match'] = '"4"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(412);
+  });
+
+  it('should return 412 rather than auto-merge a stale If-Match version', async () => {
+    mockedNotesService.patchNote.mockImplementation(async (_auth, _patientId, _noteId, input) => {
+      if (input.autoMerge) {
+        return createMockNoteDTO({ noteId: validNoteId, version: 6 });
+      }
+      throw new VersionConflictError(4, 5);
+    });
+    const event = createMockEvent({ tags: null, autoMerge: true });
+    event.headers['if-match'] = '"4"';
+
+    const result = await handler(event);
+
+    expect(result.statusCode).toBe(412);
+    expect(mockedNotesService.patchNote).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      validNoteId,
+      { tags: null, version: 4, autoMerge: false }
+    );
+  });
+});
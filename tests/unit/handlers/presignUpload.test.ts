@@ -22,6 +22,21 @@ jest.mock('../../../src/lib/rate-limiter', () => ({
   enforceRateLimitByIp: jest.fn().mockResolvedValue(undefined),
 }));
 
+// Idempotency records
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+function conditionalCheckFailed(): Error {
+  return Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+}
+
 const mockedAttachmentsService = attachmentsService as jest.Mocked<typeof attachmentsService>;
 
 describe('presignUpload handler', () => {
@@ -263,7 +278,81 @@ describe('presignUpload handler', () => {
         fileName: 'study.pdf',
         contentType: 'application/pdf',
         sizeBytes: 2048,
-      })
+      }),
+      undefined
     );
   });
+
+  describe('Idempotency-Key', () => {
+    const body = { fileName: 'study.pdf', contentType: 'application/pdf', sizeBytes: 2048 };
+
+    function withKey(
+      event: APIGatewayProxyEventV2WithJWTAuthorizer
+    ): APIGatewayProxyEventV2WithJWTAuthorizer {
+      event.headers['idempotency-key'] = 'presign-key-1';
+      return event;
+    }
+
+    it('should re-sign the first attachment for a retry', async () => {
+      mockedAttachmentsService.generatePresignedUploadUrl
+        .mockResolvedValueOnce({
+          uploadUrl: 'https://s3.amazonaws.com/presigned-url',
+          s3Key: 'path/to/file',
+          attachmentId: 'attach-id',
+          expiresIn: 900,
+        })
+        .mockResolvedValueOnce({
+          uploadUrl: 'https://s3.amazonaws.com/fresh-presigned-url',
+          s3Key: 'path/to/file',
+          attachmentId: 'attach-id',
+          expiresIn: 900,
+        });
+      mockSend.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      await handler(withKey(createMockEvent(body)));
+
+      // Only the attachment is stored, not the URL that expires
+      const { requestHash } = mockSend.mock.calls[0][0].input.Item;
+      const stored = mockSend.mock.calls[1][0].input.ExpressionAttributeValues[':body'];
+      expect(stored).toBe('attach-id');
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { status: 'COMPLETED', requestHash, statusCode: 200, body: stored },
+      });
+
+      const retry = await handler(withKey(createMockEvent(body)));
+
+      expect(mockedAttachmentsService.generatePresignedUploadUrl).toHaveBeenLastCalledWith(
+        expect.anything(),
+        'patient-123',
+        validNoteId,
+        body,
+        'attach-id'
+      );
+      expect(retry.statusCode).toBe(200);
+      expect(retry.headers?.['Idempotent-Replayed']).toBe('true');
+      const retryBody = JSON.parse(retry.body as string);
+      expect(retryBody.data.attachmentId).toBe('attach-id');
+      expect(retryBody.data.uploadUrl).toBe('https://s3.amazonaws.com/fresh-presigned-url');
+    });
+
+    it('should return 409 while the first request is still in progress', async () => {
+      mockSend.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+      mockedAttachmentsService.generatePresignedUploadUrl.mockResolvedValue({
+        uploadUrl: 'https://s3.amazonaws.com/presigned-url',
+        s3Key: 'path/to/file',
+        attachmentId: 'attach-id',
+        expiresIn: 900,
+      });
+      await handler(withKey(createMockEvent(body)));
+      const { requestHash } = mockSend.mock.calls[0][0].input.Item;
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { status: 'IN_PROGRESS', requestHash },
+      });
+
+      const result = await handler(withKey(createMockEvent(body)));
+
+      expect(result.statusCode).toBe(409);
+      expect(mockedAttachmentsService.generatePresignedUploadUrl).toHaveBeenCalledTimes(1);
+    });
+  });
 });
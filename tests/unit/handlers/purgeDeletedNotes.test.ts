@@ -0,0 +1,71 @@
+import type { Context, ScheduledEvent } from 'aws-lambda';
+import { handler } from '../../../src/handlers/purgeDeletedNotes';
+import * as purgeService from '../../../src/services/purge.service';
+
+// Mock dependencies
+jest.mock('../../../src/services/purge.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedPurgeService = purgeService as jest.Mocked<typeof purgeService>;
+
+describe('purgeDeletedNotes handler', () => {
+  const event = { time: '2024-03-15T00:00:00Z' } as ScheduledEvent;
+
+  function createMockContext(remainingMs: number): Context {
+    return {
+      awsRequestId: 'request-123',
+      getRemainingTimeInMillis: () => remainingMs,
+    } as unknown as Context;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should run the purge and return its summary', async () => {
+    const summary = {
+      scanned: 3,
+      purged: 2,
+      retained: 1,
+      skipped: 0,
+      failed: 0,
+      completed: true,
+    };
+    mockedPurgeService.purgeDeletedNotes.mockResolvedValue(summary);
+
+    const result = await handler(event, createMockContext(800000));
+
+    expect(result).toEqual(summary);
+  });
+
+  it('should stop paging when the invocation is close to timing out', async () => {
+    mockedPurgeService.purgeDeletedNotes.mockResolvedValue({
+      scanned: 0,
+      purged: 0,
+      retained: 0,
+      skipped: 0,
+      failed: 0,
+      completed: false,
+    });
+
+    await handler(event, createMockContext(30000));
+
+    const options = mockedPurgeService.purgeDeletedNotes.mock.calls[0]?.[0];
+    expect(options?.shouldContinue?.()).toBe(false);
+  });
+
+  it('should propagate unexpected errors', async () => {
+    mockedPurgeService.purgeDeletedNotes.mockRejectedValue(new Error('DynamoDB unavailable'));
+
+    await expect(handler(event, createMockContext(800000))).rejects.toThrow('DynamoDB unavailable');
+  });
+});
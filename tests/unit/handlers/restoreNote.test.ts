@@ -0,0 +1,97 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/restoreNote';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError, ForbiddenError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('restoreNote handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(pathParams?: Record<string, string>): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId },
+      body: null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims({ 'cognito:groups': ['admin'] }) as unknown as Record<
+              string,
+              unknown
+            >,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: `/patients/patient-123/notes/${validNoteId}/restore`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}/restore`,
+      rawQueryString: '',
+      routeKey: 'POST /patients/{patientId}/notes/{noteId}/restore',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should restore a note and return it', async () => {
+    mockedNotesService.restoreNote.mockResolvedValue(
+      createMockNoteDTO({ noteId: validNoteId, version: 3 })
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.version).toBe(3);
+    expect(mockedNotesService.restoreNote).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      'patient-123',
+      validNoteId
+    );
+  });
+
+  it('should return 404 when there is no deleted note to restore', async () => {
+    mockedNotesService.restoreNote.mockRejectedValue(new NotFoundError('Deleted note', validNoteId));
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.restoreNote.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:delete')
+    );
+
+    const result = await handler(createMockEvent());
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('should return 400 when noteId is invalid UUID', async () => {
+    const result = await handler(createMockEvent({ patientId: 'patient-123', noteId: 'bad' }));
+
+    expect(result.statusCode).toBe(400);
+  });
+});
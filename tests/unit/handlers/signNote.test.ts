@@ -0,0 +1,124 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/signNote';
+import * as notesService from '../../../src/services/notes.service';
+import { NotFoundError, ForbiddenError, ConflictError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+import { createMockNoteDTO } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/services/notes.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedNotesService = notesService as jest.Mocked<typeof notesService>;
+
+describe('signNote handler', () => {
+  const validNoteId = '550e8400-e29b-41d4-a716-446655440000';
+
+  function createMockEvent(
+    body: unknown,
+    pathParams?: Record<string, string>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers: {},
+      pathParameters: pathParams ?? { patientId: 'patient-123', noteId: validNoteId },
+      body: body ? JSON.stringify(body) : null,
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'POST',
+          path: `/patients/patient-123/notes/${validNoteId}/sign`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/patients/patient-123/notes/${validNoteId}/sign`,
+      rawQueryString: '',
+      routeKey: 'POST /patients/{patientId}/notes/{noteId}/sign',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should sign the note and return it', async () => {
+    mockedNotesService.signNote.mockResolvedValue(
+      createMockNoteDTO({
+        noteId: validNoteId,
+        version: 3,
+        signature: {
+          signedAt: '2024-01-16T10:00:00.000Z',
+          signedBy: 'user-123',
+          signedByName: 'Dr. Smith',
+          contentHash: 'a'.repeat(64),
+        },
+      })
+    );
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(200);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.data.signature.signedBy).toBe('user-123');
+    expect(mockedNotesService.signNote).toHaveBeenCalledWith(
+      expect.objectContaining({ clinicId: 'clinic-abc' }),
+      'patient-123',
+      validNoteId,
+      { version: 2 }
+    );
+  });
+
+  it('should return 400 when body is missing', async () => {
+    const result = await handler(createMockEvent(null));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 400 when version is missing', async () => {
+    const result = await handler(createMockEvent({}));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedNotesService.signNote).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the note is already signed', async () => {
+    mockedNotesService.signNote.mockRejectedValue(
+      new ConflictError(`Note ${validNoteId} is already signed`)
+    );
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(409);
+  });
+
+  it('should return 404 when note not found', async () => {
+    mockedNotesService.signNote.mockRejectedValue(new NotFoundError('Note', validNoteId));
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 403 when user lacks permission', async () => {
+    mockedNotesService.signNote.mockRejectedValue(
+      new ForbiddenError('Missing required permission: notes:write')
+    );
+
+    const result = await handler(createMockEvent({ version: 2 }));
+
+    expect(result.statusCode).toBe(403);
+  });
+});
@@ -1,7 +1,13 @@
 import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
 import { handler } from '../../../src/handlers/updateNote';
 import * as notesService from '../../../src/services/notes.service';
-import { NotFoundError, ForbiddenError, ConflictError, ValidationError } from '../../../src/lib/errors';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+  VersionConflictError,
+} from '../../../src/lib/errors';
 import { createMockJWTClaims } from '../../fixtures/auth';
 import { createMockNoteDTO } from '../../fixtures/notes';
 
@@ -188,6 +194,26 @@ describe('updateNote handler', () => {
     expect(responseBody.error.code).toBe('CONFLICT');
   });
 
+  it('should return the current copy and diff with a version conflict', async () => {
+    const current = createMockNoteDTO({ noteId: validNoteId, version: 2 });
+    const conflict = { expectedVersion: 1, current, fields: [], mergeable: true };
+    mockedNotesService.updateNote.mockRejectedValue(new VersionConflictError(1, 2, conflict));
+
+    const body = { content: 'Updated content', version: 1, autoMerge: false };
+
+    const result = await handler(createMockEvent(body));
+
+    expect(result.statusCode).toBe(409);
+    const responseBody = JSON.parse(result.body as string);
+    expect(responseBody.error.details).toEqual(conflict);
+    expect(mockedNotesService.updateNote).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      validNoteId,
+      body
+    );
+  });
+
   it('should return 401 when JWT claims are missing', async () => {
     const body = {
       title: 'Updated Title',
@@ -279,4 +305,79 @@ describe('updateNote handler', () => {
 
     expect(result.statusCode).toBe(400);
   });
+
+  describe('If-Match', () => {
+    function withIfMatch(
+      event: APIGatewayProxyEventV2WithJWTAuthorizer,
+      value: string
+    ): APIGatewayProxyEventV2WithJWTAuthorizer {
+      event.headers['if-match'] = value;
+      return event;
+    }
+
+    it('should take the expected version from If-Match and return the new ETag', async () => {
+      mockedNotesService.updateNote.mockResolvedValue(
+        createMockNoteDTO({ noteId: validNoteId, version: 3 })
+      );
+
+      const result = await handler(withIfMatch(createMockEvent({ title: 'Updated' }), '"2"'));
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['ETag']).toBe('"3"');
+      expect(mockedNotesService.updateNote).toHaveBeenCalledWith(
+        expect.anything(),
+        'patient-123',
+        validNoteId,
+        { title: 'Updated', version: 2, autoMerge: false }
+      );
+    });
+
+    it('should return 412 instead of 409 on a version mismatch', async () => {
+      mockedNotesService.updateNote.mockRejectedValue(new VersionConflictError(2, 3));
+
+      const result = await handler(withIfMatch(createMockEvent({ title: 'Updated' }), '"2"'));
+
+      expect(result.statusCode).toBe(412);
+      const responseBody = JSON.parse(result.body as string);
+      expect(responseBody.error.code).toBe('PRECONDITION_FAILED');
+    });
+
+    it('should return 412 rather than auto-merge a stale If-Match version', async () => {
+      mockedNotesService.updateNote.mockImplementation(
+        async (_auth, _patientId, _noteId, input) => {
+          if (input.autoMerge) {
+            return createMockNoteDTO({ noteId: validNoteId, version: 4 });
+          }
+          throw new VersionConflictError(2, 3);
+        }
+      );
+
+      const result = await handler(
+        withIfMatch(createMockEvent({ title: 'Updated', autoMerge: true }), '"2"')
+      );
+
+      expect(result.statusCode).toBe(412);
+      expect(mockedNotesService.updateNote).toHaveBeenCalledWith(
+        expect.anything(),
+        'patient-123',
+        validNoteId,
+        { title: 'Updated', version: 2, autoMerge: false }
+      );
+    });
+
+    it('should return 400 when If-Match and version disagree', async () => {
+      const result = await handler(
+        withIfMatch(createMockEvent({ title: 'Updated', version: 1 }), '"2"')
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(mockedNotesService.updateNote).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed If-Match', async () => {
+      const result = await handler(withIfMatch(createMockEvent({ title: 'Updated' }), '*'));
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/updateNoteTemplate';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
+import { NotFoundError, VersionConflictError } from '../../../src/lib/errors';
+import { NoteTemplateDTO } from '../../../src/types';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/note-templates.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedService = noteTemplatesService as jest.Mocked<typeof noteTemplatesService>;
+
+describe('updateNoteTemplate handler', () => {
+  const templateId = '550e8400-e29b-41d4-a716-446655440000';
+  const templateDTO: NoteTemplateDTO = {
+    templateId,
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}}.',
+    tags: ['psg'],
+    variables: ['patient.fullName', 'note.studyDate'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    createdBy: 'admin-123',
+    version: 1,
+  };
+
+  function createMockEvent(
+    body?: unknown,
+    claims?: Record<string, unknown>
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    const jwtClaims = claims ?? createMockJWTClaims();
+    return {
+      headers: {},
+      pathParameters: { templateId },
+      queryStringParameters: undefined,
+      body: body === undefined ? null : JSON.stringify(body),
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: jwtClaims as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'PUT',
+          path: `/templates/${templateId}`,
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: `/templates/${templateId}`,
+      routeKey: 'PUT /templates/{templateId}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update the template', async () => {
+    mockedService.updateTemplate.mockResolvedValue({ ...templateDTO, name: 'PSG', version: 2 });
+
+    const result = await handler(createMockEvent({ name: 'PSG', title: null, version: 1 }));
+
+    expect(result.statusCode).toBe(200);
+    const body = JSON.parse(result.body as string);
+    expect(body.data.version).toBe(2);
+    expect(mockedService.updateTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      templateId,
+      { name: 'PSG', title: null, version: 1 }
+    );
+  });
+
+  it('should return 400 when the version is missing', async () => {
+    const result = await handler(createMockEvent({ name: 'PSG' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedService.updateTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the template is not found', async () => {
+    mockedService.updateTemplate.mockRejectedValue(new NotFoundError('Note template', templateId));
+
+    const result = await handler(createMockEvent({ name: 'PSG', version: 1 }));
+
+    expect(result.statusCode).toBe(404);
+  });
+
+  it('should return 409 on a version conflict', async () => {
+    mockedService.updateTemplate.mockRejectedValue(new VersionConflictError(1, 2));
+
+    const result = await handler(createMockEvent({ name: 'PSG', version: 1 }));
+
+    expect(result.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,136 @@
+import type { APIGatewayProxyEventV2WithJWTAuthorizer } from 'aws-lambda';
+import { handler } from '../../../src/handlers/updatePatient';
+import * as patientsService from '../../../src/services/patients.service';
+import { ConflictError, VersionConflictError } from '../../../src/lib/errors';
+import { createMockJWTClaims } from '../../fixtures/auth';
+
+// Mock dependencies
+jest.mock('../../../src/services/patients.service');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+    setCorrelationId: jest.fn(),
+  },
+}));
+
+const mockedPatientsService = patientsService as jest.Mocked<typeof patientsService>;
+
+describe('updatePatient handler', () => {
+  const patient: patientsService.PatientDetailDTO = {
+    patientId: 'patient-123',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    dateOfBirth: '1985-03-20',
+    status: 'active',
+    version: 3,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+  };
+
+  function createMockEvent(
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): APIGatewayProxyEventV2WithJWTAuthorizer {
+    return {
+      headers,
+      pathParameters: { patientId: 'patient-123' },
+      body: body === undefined ? null : JSON.stringify(body),
+      requestContext: {
+        authorizer: {
+          jwt: {
+            claims: createMockJWTClaims() as unknown as Record<string, unknown>,
+          },
+        },
+        http: {
+          method: 'PUT',
+          path: '/patients/patient-123',
+        },
+      },
+      isBase64Encoded: false,
+      rawPath: '/patients/patient-123',
+      rawQueryString: '',
+      routeKey: 'PUT /patients/{patientId}',
+      version: '2.0',
+    } as unknown as APIGatewayProxyEventV2WithJWTAuthorizer;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update the patient and return the new ETag', async () => {
+    mockedPatientsService.updatePatient.mockResolvedValue(patient);
+
+    const result = await handler(createMockEvent({ lastName: 'Smith', phone: null, version: 2 }));
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers?.['ETag']).toBe('"3"');
+    expect(mockedPatientsService.updatePatient).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123' }),
+      'patient-123',
+      { lastName: 'Smith', phone: null, version: 2 }
+    );
+  });
+
+  it('should take the expected version from If-Match', async () => {
+    mockedPatientsService.updatePatient.mockResolvedValue(patient);
+
+    const result = await handler(createMockEvent({ firstName: 'Janet' }, { 'if-match': '"2"' }));
+
+    expect(result.statusCode).toBe(200);
+    expect(mockedPatientsService.updatePatient).toHaveBeenCalledWith(
+      expect.anything(),
+      'patient-123',
+      { firstName: 'Janet', version: 2 }
+    );
+  });
+
+  it('should return 412 instead of 409 on a version mismatch with If-Match', async () => {
+    mockedPatientsService.updatePatient.mockRejectedValue(new VersionConflictError(2, 3));
+
+    const result = await handler(createMockEvent({ firstName: 'Janet' }, { 'if-match': '"2"' }));
+
+    expect(result.statusCode).toBe(412);
+  });
+
+  it('should return 409 on a stale body version', async () => {
+    mockedPatientsService.updatePatient.mockRejectedValue(new VersionConflictError(2, 3));
+
+    const result = await handler(createMockEvent({ firstName: 'Janet', version: 2 }));
+
+    expect(result.statusCode).toBe(409);
+  });
+
+  it('should return 409 for an archived patient', async () => {
+    mockedPatientsService.updatePatient.mockRejectedValue(
+      new ConflictError('Archived patients cannot be edited; reactivate the patient first')
+    );
+
+    const result = await handler(createMockEvent({ firstName: 'Janet', version: 2 }));
+
+    expect(result.statusCode).toBe(409);
+  });
+
+  it('should return 400 when neither version nor If-Match is sent', async () => {
+    const result = await handler(createMockEvent({ firstName: 'Janet' }));
+
+    expect(result.statusCode).toBe(400);
+    expect(mockedPatientsService.updatePatient).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when a required field is cleared', async () => {
+    const result = await handler(createMockEvent({ lastName: null, version: 2 }));
+
+    expect(result.statusCode).toBe(400);
+  });
+
+  it('should return 400 for an invalid email', async () => {
+    const result = await handler(createMockEvent({ email: 'not-an-email', version: 2 }));
+
+    expect(result.statusCode).toBe(400);
+  });
+});
@@ -58,7 +58,32 @@ describe('extractAuthContext', () => {
     expect(result.scopes).toContain(Scope.NOTES_READ);
     expect(result.scopes).toContain(Scope.NOTES_WRITE);
     expect(result.scopes).toContain(Scope.NOTES_DELETE);
+    expect(result.scopes).toContain(Scope.NOTES_COSIGN);
     expect(result.scopes).toContain(Scope.ATTACHMENTS_WRITE);
+    expect(result.scopes).toContain(Scope.TEMPLATES_WRITE);
+    expect(result.scopes).toContain(Scope.PATIENTS_READ);
+    expect(result.scopes).toContain(Scope.PATIENTS_WRITE);
+  });
+
+  it('should grant co-sign permission to doctor group', () => {
+    const claims = createMockJWTClaims({ 'cognito:groups': ['doctor'], scope: '' });
+    const event = createMockEvent(claims);
+
+    const result = extractAuthContext(event);
+
+    expect(result.scopes).toContain(Scope.NOTES_WRITE);
+    expect(result.scopes).toContain(Scope.NOTES_COSIGN);
+    expect(result.scopes).not.toContain(Scope.NOTES_DELETE);
+  });
+
+  it('should not grant co-sign permission to nurse group', () => {
+    const claims = createMockJWTClaims({ 'cognito:groups': ['nurse'], scope: '' });
+    const event = createMockEvent(claims);
+
+    const result = extractAuthContext(event);
+
+    expect(result.scopes).toContain(Scope.NOTES_WRITE);
+    expect(result.scopes).not.toContain(Scope.NOTES_COSIGN);
   });
 
   it('should grant read/write permissions to clinician group', () => {
@@ -71,6 +96,22 @@ describe('extractAuthContext', () => {
     expect(result.scopes).toContain(Scope.NOTES_WRITE);
     expect(result.scopes).toContain(Scope.ATTACHMENTS_WRITE);
     expect(result.scopes).not.toContain(Scope.NOTES_DELETE);
+    expect(result.scopes).not.toContain(Scope.NOTES_COSIGN);
+    expect(result.scopes).not.toContain(Scope.TEMPLATES_WRITE);
+    expect(result.scopes).toContain(Scope.PATIENTS_READ);
+    expect(result.scopes).not.toContain(Scope.PATIENTS_WRITE);
+  });
+
+  it('should grant patient management without note writes to receptionist group', () => {
+    const claims = createMockJWTClaims({ 'cognito:groups': ['receptionist'], scope: '' });
+    const event = createMockEvent(claims);
+
+    const result = extractAuthContext(event);
+
+    expect(result.scopes).toContain(Scope.PATIENTS_READ);
+    expect(result.scopes).toContain(Scope.PATIENTS_WRITE);
+    expect(result.scopes).toContain(Scope.NOTES_READ);
+    expect(result.scopes).not.toContain(Scope.NOTES_WRITE);
   });
 
   it('should parse scopes from scope string', () => {
@@ -0,0 +1,180 @@
+import {
+  addDays,
+  buildComplianceReport,
+  parseComplianceCsv,
+  resolveComplianceRange,
+} from '../../../src/lib/compliance';
+import { ValidationError } from '../../../src/lib/errors';
+import { ComplianceRecord } from '../../../src/types';
+
+describe('compliance', () => {
+  /** One record per night from `from`, with the given usage minutes */
+  function nights(from: string, usage: number[]): ComplianceRecord[] {
+    return usage.map((usageMinutes, i) => ({ date: addDays(from, i), usageMinutes }));
+  }
+
+  describe('addDays', () => {
+    it('should move across month and year ends', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+  });
+
+  describe('parseComplianceCsv', () => {
+    it('should read records by header, converting numbers', () => {
+      const csv = [
+        'Date,Usage Minutes,residual_ahi,Leak,Pressure,Mask',
+        '2024-03-01,412,2.1,12.5,9.8,nasal',
+        '"2024-03-02",  95 ,,,,nasal',
+        '',
+      ].join('\r\n');
+
+      expect(parseComplianceCsv(csv)).toEqual([
+        { date: '2024-03-01', usageMinutes: 412, residualAhi: 2.1, leak: 12.5, pressure: 9.8 },
+        { date: '2024-03-02', usageMinutes: 95 },
+      ]);
+    });
+
+    it('should keep values that are not numbers for validation', () => {
+      expect(parseComplianceCsv('date,usageMinutes\n2024-03-01,n/a')).toEqual([
+        { date: '2024-03-01', usageMinutes: 'n/a' },
+      ]);
+    });
+
+    it('should require the date and usageMinutes columns', () => {
+      expect(() => parseComplianceCsv('date,leak\n2024-03-01,10')).toThrow(
+        'CSV header must include date and usageMinutes columns'
+      );
+    });
+
+    it('should reject a row with the wrong number of fields', () => {
+      expect(() => parseComplianceCsv('date,usageMinutes\n2024-03-01,300\n2024-03-02')).toThrow(
+        'CSV line 3 has 1 fields, expected 2'
+      );
+    });
+  });
+
+  describe('resolveComplianceRange', () => {
+    it('should default to the 90 nights ending today', () => {
+      expect(resolveComplianceRange({}, '2024-03-31')).toEqual({
+        from: '2024-01-02',
+        to: '2024-03-31',
+      });
+      expect(resolveComplianceRange({ to: '2024-01-31' }, '2024-03-31').from).toBe('2023-11-03');
+    });
+
+    it('should keep an explicit range', () => {
+      expect(
+        resolveComplianceRange({ from: '2024-01-01', to: '2024-01-31' }, '2024-03-31')
+      ).toEqual({ from: '2024-01-01', to: '2024-01-31' });
+    });
+
+    it('should reject a reversed range or one over 366 nights', () => {
+      expect(() => resolveComplianceRange({ from: '2024-04-01' }, '2024-03-31')).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        resolveComplianceRange({ from: '2023-01-01', to: '2024-01-01' }, '2024-03-31')
+      ).not.toThrow();
+      expect(() =>
+        resolveComplianceRange({ from: '2023-01-01', to: '2024-01-02' }, '2024-03-31')
+      ).toThrow('The range cannot be longer than 366 nights');
+    });
+  });
+
+  describe('buildComplianceReport', () => {
+    it('should pass when 21 of 30 nights have at least 4 hours of use', () => {
+      const records = nights('2024-03-01', [
+        ...Array<number>(21).fill(240),
+        ...Array<number>(9).fill(239),
+      ]);
+
+      const report = buildComplianceReport('patient-123', '2024-03-01', '2024-03-30', records);
+
+      expect(report.status).toBe('pass');
+      expect(report.windows).toEqual([
+        {
+          start: '2024-03-01',
+          end: '2024-03-30',
+          nightsUsed: 21,
+          percentUsed: 70,
+          compliant: true,
+        },
+      ]);
+      expect(report.criteria).toEqual({
+        minUsageMinutes: 240,
+        minPercentNights: 70,
+        windowDays: 30,
+      });
+    });
+
+    it('should count nights without a record as unused', () => {
+      const records = nights('2024-03-01', Array<number>(20).fill(300));
+
+      const report = buildComplianceReport('patient-123', '2024-03-01', '2024-03-30', records);
+
+      expect(report.status).toBe('fail');
+      expect(report.bestWindow?.nightsUsed).toBe(20);
+      expect(report.summary).toEqual({
+        nights: 30,
+        nightsWithData: 20,
+        nightsUsed: 20,
+        percentUsed: 66.7,
+        averageUsageMinutes: 200,
+      });
+    });
+
+    it('should find a compliant window anywhere in the range', () => {
+      // 10 poor nights, then 30 good ones
+      const records = nights('2024-01-01', [
+        ...Array<number>(10).fill(60),
+        ...Array<number>(30).fill(420),
+      ]);
+
+      const report = buildComplianceReport('patient-123', '2024-01-01', '2024-02-09', records);
+
+      expect(report.windows).toHaveLength(11);
+      expect(report.windows[0]).toMatchObject({ nightsUsed: 20, compliant: false });
+      expect(report.bestWindow).toMatchObject({
+        start: '2024-01-11',
+        end: '2024-02-09',
+        nightsUsed: 30,
+        percentUsed: 100,
+      });
+      expect(report.status).toBe('pass');
+    });
+
+    it('should report insufficient data for a range under 30 nights', () => {
+      const report = buildComplianceReport(
+        'patient-123',
+        '2024-03-01',
+        '2024-03-10',
+        nights('2024-03-01', Array<number>(10).fill(480))
+      );
+
+      expect(report.status).toBe('insufficient_data');
+      expect(report.windows).toEqual([]);
+      expect(report.bestWindow).toBeUndefined();
+      expect(report.summary.percentUsed).toBe(100);
+    });
+
+    it('should average the therapy values over the nights that have them', () => {
+      const records: ComplianceRecord[] = [
+        { date: '2024-03-02', usageMinutes: 300, residualAhi: 2, leak: 10, pressure: 9 },
+        { date: '2024-03-01', usageMinutes: 360, residualAhi: 3.5, pressure: 10 },
+        { date: '2024-04-01', usageMinutes: 500, residualAhi: 40 },
+      ];
+
+      const report = buildComplianceReport('patient-123', '2024-03-01', '2024-03-02', records);
+
+      expect(report.records.map((record) => record.date)).toEqual(['2024-03-01', '2024-03-02']);
+      expect(report.summary).toMatchObject({
+        averageUsageMinutes: 330,
+        averageResidualAhi: 2.8,
+        averageLeak: 10,
+        averagePressure: 9.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
+import {
+  buildETag,
+  getETagHeader,
+  getIfMatchVersion,
+  matchesIfNoneMatch,
+  resolveExpectedVersion,
+  withPrecondition,
+} from '../../../src/lib/conditional-request';
+import {
+  NotFoundError,
+  PreconditionFailedError,
+  ValidationError,
+  VersionConflictError,
+} from '../../../src/lib/errors';
+
+describe('conditional-request', () => {
+  function eventWith(headers: Record<string, string>): APIGatewayProxyEventV2 {
+    return { headers } as unknown as APIGatewayProxyEventV2;
+  }
+
+  describe('buildETag', () => {
+    it('should quote the version', () => {
+      expect(buildETag(3)).toBe('"3"');
+      expect(getETagHeader(3)).toEqual({ ETag: '"3"' });
+    });
+  });
+
+  describe('getIfMatchVersion', () => {
+    it('should return the version of a strong ETag', () => {
+      expect(getIfMatchVersion(eventWith({ 'if-match': '"7"' }))).toBe(7);
+      expect(getIfMatchVersion(eventWith({ 'If-Match': ' "2" ' }))).toBe(2);
+    });
+
+    it('should return undefined without the header', () => {
+      expect(getIfMatchVersion(eventWith({}))).toBeUndefined();
+    });
+
+    it.each([
+      ['a wildcard', '*'],
+      ['a weak ETag', 'W/"3"'],
+      ['a list', '"3", "4"'],
+      ['an unquoted version', '3'],
+    ])('should reject %s', (_name, value) => {
+      expect(() => getIfMatchVersion(eventWith({ 'if-match': value }))).toThrow(ValidationError);
+    });
+  });
+
+  describe('matchesIfNoneMatch', () => {
+    it('should match the current version, weak or strong, alone or in a list', () => {
+      expect(matchesIfNoneMatch(eventWith({ 'if-none-match': '"3"' }), 3)).toBe(true);
+      expect(matchesIfNoneMatch(eventWith({ 'if-none-match': 'W/"3"' }), 3)).toBe(true);
+      expect(matchesIfNoneMatch(eventWith({ 'If-None-Match': '"1", "3"' }), 3)).toBe(true);
+      expect(matchesIfNoneMatch(eventWith({ 'if-none-match': '*' }), 3)).toBe(true);
+    });
+
+    it('should not match another version or a malformed value', () => {
+      expect(matchesIfNoneMatch(eventWith({ 'if-none-match': '"2"' }), 3)).toBe(false);
+      expect(matchesIfNoneMatch(eventWith({ 'if-none-match': '3' }), 3)).toBe(false);
+      expect(matchesIfNoneMatch(eventWith({}), 3)).toBe(false);
+    });
+  });
+
+  describe('resolveExpectedVersion', () => {
+    it('should take the version from either source', () => {
+      expect(resolveExpectedVersion(4, undefined)).toBe(4);
+      expect(resolveExpectedVersion(undefined, 5)).toBe(5);
+      expect(resolveExpectedVersion(6, 6)).toBe(6);
+    });
+
+    it('should reject a missing or contradictory version', () => {
+      expect(() => resolveExpectedVersion(undefined, undefined)).toThrow(ValidationError);
+      expect(() => resolveExpectedVersion(2, 3)).toThrow('If-Match and version do not match');
+    });
+  });
+
+  describe('withPrecondition', () => {
+    it('should turn a version conflict into 412 for If-Match requests', async () => {
+      const write = () => Promise.reject(new VersionConflictError(2, 3));
+
+      await expect(withPrecondition(2, write)).rejects.toThrow(PreconditionFailedError);
+      await expect(withPrecondition(2, write)).rejects.toThrow(
+        'Version conflict: expected 2, current is 3'
+      );
+    });
+
+    it('should keep the conflict details', async () => {
+      const details = { mergeable: false };
+
+      await expect(
+        withPrecondition(2, () => Promise.reject(new VersionConflictError(2, 3, details)))
+      ).rejects.toMatchObject({ statusCode: 412, details });
+    });
+
+    it('should keep the 409 when the version came from the body', async () => {
+      await expect(
+        withPrecondition(undefined, () => Promise.reject(new VersionConflictError(2, 3)))
+      ).rejects.toThrow(VersionConflictError);
+    });
+
+    it('should pass other errors and results through', async () => {
+      await expect(
+        withPrecondition(2, () => Promise.reject(new NotFoundError('Note', 'n1')))
+      ).rejects.toThrow(NotFoundError);
+      await expect(withPrecondition(2, () => Promise.resolve('ok'))).resolves.toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { computeAddendumContentHash, computeNoteContentHash } from '../../../src/lib/content-hash';
+import { createMockNote } from '../../fixtures/notes';
+
+describe('content-hash', () => {
+  describe('computeNoteContentHash', () => {
+    it('should return a SHA-256 hex digest', () => {
+      const result = computeNoteContentHash(createMockNote({ noteId: 'note-123' }));
+
+      expect(result).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should be stable for the same content', () => {
+      const note = createMockNote({ noteId: 'note-123' });
+
+      expect(computeNoteContentHash(note)).toBe(computeNoteContentHash({ ...note }));
+    });
+
+    it('should ignore audit fields', () => {
+      const note = createMockNote({ noteId: 'note-123' });
+
+      expect(
+        computeNoteContentHash({ ...note, updatedAt: '2030-01-01T00:00:00.000Z', version: 9 })
+      ).toBe(computeNoteContentHash(note));
+    });
+
+    it('should change when clinical content changes', () => {
+      const note = createMockNote({ noteId: 'note-123' });
+
+      expect(computeNoteContentHash({ ...note, content: 'Different' })).not.toBe(
+        computeNoteContentHash(note)
+      );
+      expect(computeNoteContentHash({ ...note, tags: ['other'] })).not.toBe(
+        computeNoteContentHash(note)
+      );
+    });
+
+    it('should include study metrics regardless of their key order', () => {
+      const note = createMockNote({ noteId: 'note-123' });
+      const withMetrics = { ...note, studyMetrics: { ahi: 22, oxygenNadir: 84 } };
+
+      expect(computeNoteContentHash(withMetrics)).not.toBe(computeNoteContentHash(note));
+      expect(computeNoteContentHash({ ...note, studyMetrics: { oxygenNadir: 84, ahi: 22 } })).toBe(
+        computeNoteContentHash(withMetrics)
+      );
+    });
+  });
+
+  describe('computeAddendumContentHash', () => {
+    it('should bind the addendum to the signed note hash', () => {
+      const first = computeAddendumContentHash('a'.repeat(64), 'Corrected AHI');
+      const second = computeAddendumContentHash('b'.repeat(64), 'Corrected AHI');
+
+      expect(first).toMatch(/^[a-f0-9]{64}$/);
+      expect(first).not.toBe(second);
+    });
+  });
+});
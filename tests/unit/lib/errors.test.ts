@@ -5,6 +5,9 @@ import {
   ForbiddenError,
   UnauthorizedError,
   ConflictError,
+  UnprocessableEntityError,
+  VersionConflictError,
+  PreconditionFailedError,
   InternalError,
   isAppError,
 } from '../../../src/lib/errors';
@@ -171,6 +174,55 @@ describe('ConflictError', () => {
   });
 });
 
+describe('VersionConflictError', () => {
+  it('should be a 409 conflict naming both versions', () => {
+    const error = new VersionConflictError(2, 3);
+
+    expect(error.message).toBe('Version conflict: expected 2, current is 3');
+    expect(error.statusCode).toBe(409);
+    expect(error.code).toBe('CONFLICT');
+    expect(error.expectedVersion).toBe(2);
+    expect(error).toBeInstanceOf(ConflictError);
+  });
+
+  it('should omit an unknown current version', () => {
+    expect(new VersionConflictError(2).message).toBe('Version conflict: expected 2');
+  });
+
+  it('should carry conflict details', () => {
+    const error = new VersionConflictError(2, 3, { mergeable: true });
+
+    expect(error.details).toEqual({ mergeable: true });
+  });
+});
+
+describe('PreconditionFailedError', () => {
+  it('should create a 412 error', () => {
+    const error = new PreconditionFailedError('Version conflict: expected 2');
+
+    expect(error.statusCode).toBe(412);
+    expect(error.code).toBe('PRECONDITION_FAILED');
+    expect(error).toBeInstanceOf(AppError);
+  });
+
+  it('should carry details', () => {
+    expect(new PreconditionFailedError('Version conflict', { fields: [] }).details).toEqual({
+      fields: [],
+    });
+  });
+});
+
+describe('UnprocessableEntityError', () => {
+  it('should create a 422 error with message', () => {
+    const error = new UnprocessableEntityError('Idempotency-Key reused');
+
+    expect(error.message).toBe('Idempotency-Key reused');
+    expect(error.statusCode).toBe(422);
+    expect(error.code).toBe('UNPROCESSABLE_ENTITY');
+    expect(error).toBeInstanceOf(AppError);
+  });
+});
+
 describe('InternalError', () => {
   it('should create an internal error with default message', () => {
     const error = new InternalError();
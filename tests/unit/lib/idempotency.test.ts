@@ -0,0 +1,216 @@
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
+import { ConflictError, UnprocessableEntityError, ValidationError } from '../../../src/lib/errors';
+
+// Mock DynamoDB client
+const mockSend = jest.fn();
+jest.mock('../../../src/data/client', () => ({
+  docClient: {
+    send: (...args: unknown[]) => mockSend(...args),
+  },
+  TABLE_NAME: 'TestTable',
+}));
+
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  IDEMPOTENCY_LOCK_SECONDS,
+  IDEMPOTENCY_TTL_SECONDS,
+  getIdempotencyKey,
+  withIdempotency,
+} from '../../../src/lib/idempotency';
+import { logger } from '../../../src/lib/logger';
+import { created } from '../../../src/lib/response';
+
+function conditionalCheckFailed(): Error {
+  return Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+}
+
+describe('idempotency', () => {
+  const request = {
+    clinicId: 'clinic-123',
+    userId: 'user-123',
+    operation: 'createNote',
+    key: 'retry-key-1',
+    fingerprint: { patientId: 'patient-123', input: { title: 'PSG' } },
+  };
+  const key = { PK: 'IDEMPOTENCY#clinic-123#user-123', SK: 'createNote#retry-key-1' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getIdempotencyKey', () => {
+    function eventWith(headers: Record<string, string>): APIGatewayProxyEventV2 {
+      return { headers } as unknown as APIGatewayProxyEventV2;
+    }
+
+    it('should read the header in either case', () => {
+      expect(getIdempotencyKey(eventWith({ 'idempotency-key': 'abc' }))).toBe('abc');
+      expect(getIdempotencyKey(eventWith({ 'Idempotency-Key': 'def' }))).toBe('def');
+    });
+
+    it('should return undefined when the header is absent', () => {
+      expect(getIdempotencyKey(eventWith({}))).toBeUndefined();
+    });
+
+    it.each([
+      ['empty', ''],
+      ['containing spaces', 'retry key'],
+      ['longer than 255 characters', 'k'.repeat(256)],
+    ])('should reject a key %s', (_name, value) => {
+      expect(() => getIdempotencyKey(eventWith({ 'idempotency-key': value }))).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('withIdempotency', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should run the request directly without a key', async () => {
+      const execute = jest.fn().mockResolvedValue(created({ noteId: 'note-1' }));
+
+      const response = await withIdempotency(undefined, execute);
+
+      expect(response.statusCode).toBe(201);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should claim the key, run the request and store its response', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      mockSend.mockResolvedValue({});
+      const first = created({ noteId: 'note-1' });
+
+      const response = await withIdempotency(request, () => Promise.resolve(first));
+
+      expect(response).toBe(first);
+      const claim = mockSend.mock.calls[0][0].input;
+      expect(claim.Item).toEqual({
+        ...key,
+        status: 'IN_PROGRESS',
+        requestHash: expect.any(String),
+        lockedUntil: 1_700_000_000 + IDEMPOTENCY_LOCK_SECONDS,
+        ttl: 1_700_000_000 + IDEMPOTENCY_TTL_SECONDS,
+      });
+      expect(claim.ConditionExpression).toContain('attribute_not_exists(PK)');
+      const store = mockSend.mock.calls[1][0].input;
+      expect(store.Key).toEqual(key);
+      expect(store.ExpressionAttributeValues).toEqual({
+        ':completed': 'COMPLETED',
+        ':statusCode': 201,
+        ':body': first.body,
+      });
+    });
+
+    it('should replay the stored response for an identical retry', async () => {
+      mockSend.mockResolvedValueOnce({});
+      mockSend.mockResolvedValueOnce({});
+      const first = created({ noteId: 'note-1' });
+      await withIdempotency(request, () => Promise.resolve(first));
+      const requestHash = mockSend.mock.calls[0][0].input.Item.requestHash as string;
+
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { ...key, status: 'COMPLETED', requestHash, statusCode: 201, body: first.body },
+      });
+      const execute = jest.fn();
+
+      const replayed = await withIdempotency(request, execute, { 'x-correlation-id': 'corr-2' });
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(replayed.statusCode).toBe(201);
+      expect(replayed.body).toBe(first.body);
+      expect(replayed.headers).toEqual(
+        expect.objectContaining({ 'x-correlation-id': 'corr-2', 'Idempotent-Replayed': 'true' })
+      );
+    });
+
+    it('should store what refresh keeps and rebuild the response on a replay', async () => {
+      const refresh = {
+        store: jest.fn().mockReturnValue('note-1'),
+        rebuild: jest.fn().mockResolvedValue(created({ noteId: 'note-1', url: 'fresh' })),
+      };
+      const first = created({ noteId: 'note-1', url: 'stale' });
+      mockSend.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+      await withIdempotency({ ...request, refresh }, () => Promise.resolve(first));
+
+      expect(refresh.store).toHaveBeenCalledWith(first.body);
+      expect(mockSend.mock.calls[1][0].input.ExpressionAttributeValues[':body']).toBe('note-1');
+
+      const requestHash = mockSend.mock.calls[0][0].input.Item.requestHash as string;
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { ...key, status: 'COMPLETED', requestHash, statusCode: 201, body: 'note-1' },
+      });
+      const execute = jest.fn();
+
+      const replayed = await withIdempotency({ ...request, refresh }, execute);
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(refresh.rebuild).toHaveBeenCalledWith('note-1');
+      expect(JSON.parse(replayed.body as string).data.url).toBe('fresh');
+      expect(replayed.headers).toEqual(expect.objectContaining({ 'Idempotent-Replayed': 'true' }));
+    });
+
+    it('should reject the key for a different request', async () => {
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { ...key, status: 'COMPLETED', requestHash: 'other', statusCode: 201, body: '{}' },
+      });
+      const execute = jest.fn();
+
+      await expect(withIdempotency(request, execute)).rejects.toThrow(UnprocessableEntityError);
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('should report a request that is still in progress', async () => {
+      mockSend.mockResolvedValueOnce({});
+      mockSend.mockResolvedValueOnce({});
+      await withIdempotency(request, () => Promise.resolve(created({})));
+      const requestHash = mockSend.mock.calls[0][0].input.Item.requestHash as string;
+
+      mockSend.mockRejectedValueOnce(conditionalCheckFailed()).mockResolvedValueOnce({
+        Item: { ...key, status: 'IN_PROGRESS', requestHash },
+      });
+
+      await expect(withIdempotency(request, jest.fn())).rejects.toThrow(ConflictError);
+    });
+
+    it('should release the key when the request fails', async () => {
+      mockSend.mockResolvedValue({});
+
+      await expect(
+        withIdempotency(request, () => Promise.reject(new ValidationError('bad')))
+      ).rejects.toThrow(ValidationError);
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(mockSend.mock.calls[1][0].constructor.name).toBe('DeleteCommand');
+      expect(mockSend.mock.calls[1][0].input.Key).toEqual(key);
+    });
+
+    it('should return the response when storing it fails', async () => {
+      mockSend.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('throttled'));
+      const first = created({ noteId: 'note-1' });
+
+      await expect(withIdempotency(request, () => Promise.resolve(first))).resolves.toBe(first);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to store idempotent response',
+        expect.any(Error),
+        { operation: 'createNote' }
+      );
+    });
+
+    it('should propagate unexpected claim errors', async () => {
+      mockSend.mockRejectedValueOnce(new Error('network down'));
+
+      await expect(withIdempotency(request, jest.fn())).rejects.toThrow('network down');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { buildNoteComparison } from '../../../src/lib/note-compare';
+import { createMockAttachment, createMockNote } from '../../fixtures/notes';
+
+describe('note-compare', () => {
+  describe('buildNoteComparison', () => {
+    it('should describe the changes from the left note to the right one', () => {
+      const report = createMockAttachment({ fileName: 'report.pdf' });
+      const left = createMockNote({
+        studyDate: '2024-01-15',
+        title: 'Diagnostic PSG',
+        content: 'AHI 32.\nPlan: titration.',
+        noteType: 'study_result',
+        tags: ['psg', 'osa'],
+        attachments: [report, createMockAttachment({ fileName: 'hypnogram.png' })],
+      });
+      const right = createMockNote({
+        studyDate: '2024-03-02',
+        title: 'Titration PSG',
+        content: 'AHI 4 on CPAP.\nPlan: titration.',
+        noteType: 'study_result',
+        tags: ['osa', 'cpap'],
+        attachments: [{ ...report, id: 'copied' }],
+      });
+
+      const comparison = buildNoteComparison(left, right);
+
+      expect(comparison.changedFields).toEqual([
+        'studyDate',
+        'title',
+        'content',
+        'tags',
+        'attachments',
+      ]);
+      expect(comparison.title.words).toEqual([
+        { type: 'removed', text: 'Diagnostic' },
+        { type: 'added', text: 'Titration' },
+        { type: 'equal', text: ' PSG' },
+      ]);
+      expect(comparison.content.lines).toEqual([
+        { type: 'removed', lines: ['AHI 32.'] },
+        { type: 'added', lines: ['AHI 4 on CPAP.'] },
+        { type: 'equal', lines: ['Plan: titration.'] },
+      ]);
+      expect(comparison.noteType).toEqual({
+        changed: false,
+        left: 'study_result',
+        right: 'study_result',
+      });
+      expect(comparison.tags).toEqual({ added: ['cpap'], removed: ['psg'], unchanged: ['osa'] });
+      expect(comparison.attachments.removed.map((a) => a.fileName)).toEqual(['hypnogram.png']);
+      expect(comparison.attachments.unchanged).toEqual([{ ...report, id: 'copied' }]);
+      expect(comparison.left.noteId).toBe(left.noteId);
+      expect(comparison.right.noteId).toBe(right.noteId);
+    });
+
+    it('should report no changes between identical notes', () => {
+      const note = createMockNote({ tags: ['psg'] });
+
+      const comparison = buildNoteComparison(note, { ...note, noteId: 'other' });
+
+      expect(comparison.changedFields).toEqual([]);
+      expect(comparison.content).toEqual({
+        changed: false,
+        lines: [{ type: 'equal', lines: [note.content] }],
+        words: [{ type: 'equal', text: note.content }],
+      });
+    });
+
+    it('should treat a missing note type or tags as empty', () => {
+      const comparison = buildNoteComparison(
+        createMockNote({ noteType: 'follow_up' }),
+        createMockNote({ tags: ['cpap'] })
+      );
+
+      expect(comparison.changedFields).toEqual(['noteType', 'tags']);
+      expect(comparison.noteType).toEqual({ changed: true, left: 'follow_up', right: undefined });
+      expect(comparison.tags.added).toEqual(['cpap']);
+    });
+
+    it('should compare study metrics with their severity', () => {
+      const comparison = buildNoteComparison(
+        createMockNote({ noteType: 'study_result', studyMetrics: { ahi: 32 } }),
+        createMockNote({ noteType: 'study_result', studyMetrics: { ahi: 4 } })
+      );
+
+      expect(comparison.changedFields).toEqual(['studyMetrics']);
+      expect(comparison.studyMetrics).toEqual({
+        changed: true,
+        left: { ahi: 32, osaSeverity: 'severe' },
+        right: { ahi: 4, osaSeverity: 'normal' },
+      });
+    });
+  });
+});
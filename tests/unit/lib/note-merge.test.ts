@@ -0,0 +1,161 @@
+import { mergeNoteUpdate } from '../../../src/lib/note-merge';
+import { createMockNote } from '../../fixtures/notes';
+
+describe('note-merge', () => {
+  const base = {
+    studyDate: '2024-01-15',
+    title: 'Sleep Study Results',
+    content: 'Findings\nDiagnosis\nPlan',
+    noteType: undefined,
+    tags: ['psg'],
+    attachments: [],
+  };
+
+  describe('mergeNoteUpdate', () => {
+    it('should keep changes made on one side only', () => {
+      const current = createMockNote({ ...base, tags: ['psg', 'titration'], version: 3 });
+
+      const merge = mergeNoteUpdate(base, { title: 'PSG Results', version: 2 }, current);
+
+      expect(merge.fields).toEqual([
+        {
+          field: 'title',
+          result: 'yours',
+          base: base.title,
+          yours: 'PSG Results',
+          current: base.title,
+        },
+        { field: 'tags', result: 'current', base: ['psg'], current: ['psg', 'titration'] },
+      ]);
+      expect(merge.changes).toEqual({ title: 'PSG Results' });
+      expect(merge.mergeable).toBe(true);
+    });
+
+    it('should treat missing study metrics as null and keep removing them', () => {
+      const current = createMockNote({ ...base, studyMetrics: { ahi: 12 } });
+
+      const merge = mergeNoteUpdate(
+        { ...base, studyMetrics: { ahi: 12 } },
+        { studyMetrics: null, version: 2 },
+        current
+      );
+
+      expect(merge.fields).toEqual([
+        {
+          field: 'studyMetrics',
+          result: 'yours',
+          base: { ahi: 12 },
+          yours: null,
+          current: { ahi: 12 },
+        },
+      ]);
+      expect(merge.changes).toEqual({ studyMetrics: null });
+    });
+
+    it('should compare study metrics regardless of key order', () => {
+      const current = createMockNote({ ...base, studyMetrics: { odi: 15, ahi: 12 } });
+
+      const merge = mergeNoteUpdate(
+        { ...base, studyMetrics: { ahi: 12, odi: 15 } },
+        { studyMetrics: { odi: 15, ahi: 12 }, title: 'PSG Results', version: 2 },
+        current
+      );
+
+      expect(merge.fields.map((field) => field.field)).toEqual(['title']);
+      expect(merge.mergeable).toBe(true);
+    });
+
+    it('should merge content edited on separate lines', () => {
+      const current = createMockNote({ ...base, content: 'Findings: AHI 22\nDiagnosis\nPlan' });
+
+      const merge = mergeNoteUpdate(
+        base,
+        { content: 'Findings\nDiagnosis\nPlan: CPAP', version: 2 },
+        current
+      );
+
+      expect(merge.fields[0]).toMatchObject({
+        field: 'content',
+        result: 'merged',
+        merged: 'Findings: AHI 22\nDiagnosis\nPlan: CPAP',
+      });
+      expect(merge.changes).toEqual({ content: 'Findings: AHI 22\nDiagnosis\nPlan: CPAP' });
+      expect(merge.content?.yours).toEqual([
+        { type: 'equal', lines: ['Findings', 'Diagnosis'] },
+        { type: 'removed', lines: ['Plan'] },
+        { type: 'added', lines: ['Plan: CPAP'] },
+      ]);
+      expect(merge.content?.current?.[0]).toEqual({ type: 'removed', lines: ['Findings'] });
+      expect(merge.mergeable).toBe(true);
+    });
+
+    it('should report overlapping changes as conflicts', () => {
+      const current = createMockNote({
+        ...base,
+        noteType: 'follow_up',
+        content: 'Findings\nDiagnosis: CSA\nPlan',
+      });
+
+      const merge = mergeNoteUpdate(
+        base,
+        { noteType: 'study_result', content: 'Findings\nDiagnosis: OSA\nPlan', version: 2 },
+        current
+      );
+
+      expect(merge.fields.map(({ field, result }) => [field, result])).toEqual([
+        ['content', 'conflict'],
+        ['noteType', 'conflict'],
+      ]);
+      expect(merge.content?.conflicts).toEqual([
+        {
+          baseLine: 2,
+          base: ['Diagnosis'],
+          yours: ['Diagnosis: OSA'],
+          current: ['Diagnosis: CSA'],
+        },
+      ]);
+      expect(merge.mergeable).toBe(false);
+    });
+
+    it('should treat the same change on both sides as agreed', () => {
+      const current = createMockNote({ ...base, noteType: 'follow_up' });
+
+      const merge = mergeNoteUpdate(base, { noteType: 'follow_up', version: 2 }, current);
+
+      expect(merge.fields).toEqual([
+        { field: 'noteType', result: 'same', base: null, yours: 'follow_up', current: 'follow_up' },
+      ]);
+      expect(merge.changes).toEqual({});
+    });
+
+    it('should conflict on differing fields whose base is not known', () => {
+      const current = createMockNote({ ...base, title: 'Titration Results' });
+
+      const merge = mergeNoteUpdate(
+        {},
+        { title: 'PSG Results', studyDate: base.studyDate, version: 2 },
+        current
+      );
+
+      expect(merge.fields).toEqual([
+        { field: 'title', result: 'conflict', yours: 'PSG Results', current: 'Titration Results' },
+      ]);
+      expect(merge.content).toBeUndefined();
+    });
+
+    it('should diff content against the current copy when the base is not known', () => {
+      const current = createMockNote({ ...base });
+
+      const merge = mergeNoteUpdate({}, { content: 'Findings\nPlan', version: 2 }, current);
+
+      expect(merge.content).toEqual({
+        yours: [
+          { type: 'equal', lines: ['Findings'] },
+          { type: 'removed', lines: ['Diagnosis'] },
+          { type: 'equal', lines: ['Plan'] },
+        ],
+        conflicts: [],
+      });
+    });
+  });
+});
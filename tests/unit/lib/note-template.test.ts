@@ -0,0 +1,55 @@
+import { ValidationError } from '../../../src/lib/errors';
+import {
+  TEMPLATE_VARIABLES,
+  assertKnownVariables,
+  findTemplateVariables,
+  renderTemplate,
+} from '../../../src/lib/note-template';
+
+describe('note-template', () => {
+  describe('findTemplateVariables', () => {
+    it('should list each placeholder once, in order', () => {
+      expect(
+        findTemplateVariables(
+          'PSG - {{patient.fullName}}',
+          'Study of {{ note.studyDate }} for {{patient.fullName}} at {{clinic.name}}'
+        )
+      ).toEqual(['patient.fullName', 'note.studyDate', 'clinic.name']);
+    });
+
+    it('should ignore text that is not a placeholder', () => {
+      expect(findTemplateVariables('{patient.name} {{ }} plain text')).toEqual([]);
+    });
+  });
+
+  describe('assertKnownVariables', () => {
+    it('should accept the supported placeholders', () => {
+      const text = TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(' ');
+
+      expect(() => assertKnownVariables(text)).not.toThrow();
+    });
+
+    it('should name the unknown placeholders', () => {
+      expect(() => assertKnownVariables('{{patient.ssn}}', '{{clinic.name}} {{mrn}}')).toThrow(
+        'Unknown template variables: patient.ssn, mrn'
+      );
+      expect(() => assertKnownVariables('{{mrn}}')).toThrow(ValidationError);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill in the values', () => {
+      expect(
+        renderTemplate('{{patient.fullName}} ({{ patient.dateOfBirth }}), {{clinic.name}}', {
+          'patient.fullName': 'Jane Doe',
+          'patient.dateOfBirth': '1980-04-02',
+          'clinic.name': 'Metro Sleep',
+        })
+      ).toBe('Jane Doe (1980-04-02), Metro Sleep');
+    });
+
+    it('should leave missing values empty and unknown placeholders as they are', () => {
+      expect(renderTemplate('DOB: {{patient.dateOfBirth}} {{other}}', {})).toBe('DOB:  {{other}}');
+    });
+  });
+});
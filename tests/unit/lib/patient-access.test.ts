@@ -28,6 +28,7 @@ describe('assertPatientAccess', () => {
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       status: 'active',
+      version: 1,
     });
 
     await expect(assertPatientAccess(auth, 'patient-123')).resolves.toBeUndefined();
@@ -69,6 +70,7 @@ describe('assertPatientAccess', () => {
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       status: 'active',
+      version: 1,
     });
 
     await assertPatientAccess(auth, 'patient-789');
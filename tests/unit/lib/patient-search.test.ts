@@ -0,0 +1,171 @@
+import {
+  buildPatientSearchTerms,
+  hasPatientSearchCriteria,
+  matchWeight,
+  parsePatientSearch,
+  patientSortName,
+  soundex,
+} from '../../../src/lib/patient-search';
+import { ValidationError } from '../../../src/lib/errors';
+
+describe('patient-search', () => {
+  describe('soundex', () => {
+    it.each([
+      ['Smith', 'S530'],
+      ['Smyth', 'S530'],
+      ['Robert', 'R163'],
+      ['Rupert', 'R163'],
+      ['Ashcraft', 'A261'],
+      ['Pfister', 'P236'],
+      ['Tymczak', 'T522'],
+      ['Lee', 'L000'],
+    ])('should code %s as %s', (name, code) => {
+      expect(soundex(name)).toBe(code);
+    });
+
+    it('should ignore case, accents and punctuation', () => {
+      expect(soundex("o'Bríen")).toBe(soundex('OBrien'));
+    });
+
+    it('should return an empty code without letters', () => {
+      expect(soundex('123')).toBe('');
+    });
+  });
+
+  describe('buildPatientSearchTerms', () => {
+    it('should index names, date of birth, insurance ID and phone', () => {
+      expect(
+        buildPatientSearchTerms({
+          firstName: 'Mary',
+          lastName: "O'Brien",
+          dateOfBirth: '1975-02-28',
+          insuranceId: 'BC-778 21',
+          phone: '+1 (555) 010-2030',
+        })
+      ).toEqual([
+        'LAST#obrien',
+        'LAST_PHONETIC#O165',
+        'FIRST#mary',
+        'FIRST_PHONETIC#M600',
+        'DOB#1975-02-28',
+        'INSURANCE#bc77821',
+        'PHONE#15550102030',
+        'PHONE#5550102030',
+      ]);
+    });
+
+    it('should also index each word of a name of several words', () => {
+      expect(buildPatientSearchTerms({ lastName: 'Garcia-Lopez' })).toEqual([
+        'LAST#garcialopez',
+        'LAST_PHONETIC#G624',
+        'LAST#garcia',
+        'LAST_PHONETIC#G620',
+        'LAST#lopez',
+        'LAST_PHONETIC#L120',
+      ]);
+    });
+
+    it('should return no terms for a patient without searchable fields', () => {
+      expect(buildPatientSearchTerms({})).toEqual([]);
+    });
+  });
+
+  describe('parsePatientSearch', () => {
+    it('should turn each word of q into a clause', () => {
+      const clauses = parsePatientSearch({ q: 'Smith jo' });
+
+      expect(clauses).toEqual([
+        [
+          { field: 'LAST', value: 'smith', prefix: true },
+          { field: 'FIRST', value: 'smith', prefix: true },
+          { field: 'LAST_PHONETIC', value: 'S530', prefix: false },
+          { field: 'FIRST_PHONETIC', value: 'S530', prefix: false },
+          { field: 'INSURANCE', value: 'smith', prefix: true },
+        ],
+        [
+          { field: 'LAST', value: 'jo', prefix: true },
+          { field: 'FIRST', value: 'jo', prefix: true },
+          { field: 'INSURANCE', value: 'jo', prefix: true },
+        ],
+      ]);
+    });
+
+    it('should recognize a date of birth and a phone number in q', () => {
+      const [dob, phone] = parsePatientSearch({ q: '1975-02-28 555-0102' });
+
+      expect(dob).toEqual([{ field: 'DOB', value: '1975-02-28', prefix: false }]);
+      expect(phone).toEqual([
+        { field: 'PHONE', value: '5550102', prefix: true },
+        { field: 'INSURANCE', value: '5550102', prefix: true },
+      ]);
+    });
+
+    it('should build one clause per structured filter', () => {
+      const clauses = parsePatientSearch({
+        lastName: 'Smyth',
+        dateOfBirth: '1975-02-28',
+        insuranceId: 'BC-778',
+        phone: '(555) 010',
+      });
+
+      expect(clauses).toEqual([
+        [
+          { field: 'LAST', value: 'smyth', prefix: true },
+          { field: 'LAST_PHONETIC', value: 'S530', prefix: false },
+        ],
+        [{ field: 'DOB', value: '1975-02-28', prefix: false }],
+        [{ field: 'INSURANCE', value: 'bc778', prefix: true }],
+        [{ field: 'PHONE', value: '555010', prefix: true }],
+      ]);
+    });
+
+    it('should not match short name fragments phonetically', () => {
+      expect(parsePatientSearch({ lastName: 'Sm' })).toEqual([
+        [{ field: 'LAST', value: 'sm', prefix: true }],
+      ]);
+    });
+
+    it('should reject a phone search with too few digits', () => {
+      expect(() => parsePatientSearch({ phone: '55' })).toThrow(ValidationError);
+    });
+
+    it('should reject a search without searchable terms', () => {
+      expect(() => parsePatientSearch({ q: '--- ...' })).toThrow(ValidationError);
+    });
+
+    it('should reject too many terms', () => {
+      expect(() => parsePatientSearch({ q: 'a b c d e f g' })).toThrow(
+        'Patient search supports at most 6 terms'
+      );
+    });
+  });
+
+  describe('hasPatientSearchCriteria', () => {
+    it('should detect any search parameter', () => {
+      expect(hasPatientSearchCriteria({})).toBe(false);
+      expect(hasPatientSearchCriteria({ phone: '5550102' })).toBe(true);
+    });
+  });
+
+  describe('matchWeight', () => {
+    it('should rank exact over prefix over phonetic matches', () => {
+      const prefix = { field: 'LAST' as const, value: 'smith', prefix: true };
+
+      expect(matchWeight(prefix, 'smith')).toBe(3);
+      expect(matchWeight(prefix, 'smithson')).toBe(2);
+      expect(matchWeight({ field: 'LAST_PHONETIC', value: 'S530', prefix: false }, 'S530')).toBe(1);
+    });
+  });
+
+  describe('patientSortName', () => {
+    it('should order by last name, then first name, ignoring case', () => {
+      const names = [
+        patientSortName({ firstName: 'b', lastName: 'Smith' }),
+        patientSortName({ firstName: 'A', lastName: 'smith' }),
+        patientSortName({ firstName: 'Z', lastName: 'Jones' }),
+      ];
+
+      expect([...names].sort()).toEqual([names[2], names[1], names[0]]);
+    });
+  });
+});
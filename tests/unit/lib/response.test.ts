@@ -1,6 +1,22 @@
 import { ZodError, ZodIssue, ZodIssueCode } from 'zod';
-import { success, created, noContent, error, redirect } from '../../../src/lib/response';
-import { ValidationError, NotFoundError, ForbiddenError, UnauthorizedError, InternalError } from '../../../src/lib/errors';
+import {
+  success,
+  created,
+  noContent,
+  notModified,
+  error,
+  redirect,
+  replay,
+} from '../../../src/lib/response';
+import {
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  UnauthorizedError,
+  InternalError,
+  VersionConflictError,
+  PreconditionFailedError,
+} from '../../../src/lib/errors';
 
 // Mock the logger to avoid console output during tests
 jest.mock('../../../src/lib/logger', () => ({
@@ -112,6 +128,33 @@ describe('response utilities', () => {
     });
   });
 
+  describe('notModified', () => {
+    it('should return a 304 with validator headers and no body', () => {
+      const result = notModified({ ETag: '"3"' });
+
+      expect(result.statusCode).toBe(304);
+      expect(result.body).toBeUndefined();
+      expect(result.headers).toEqual(expect.objectContaining({ ETag: '"3"' }));
+    });
+  });
+
+  describe('replay', () => {
+    it('should send a serialized body unchanged with default headers', () => {
+      const body = JSON.stringify({ data: { noteId: 'note-1' } });
+
+      const result = replay(201, body, { 'x-correlation-id': 'corr-1' });
+
+      expect(result.statusCode).toBe(201);
+      expect(result.body).toBe(body);
+      expect(result.headers).toEqual(
+        expect.objectContaining({
+          'Content-Type': 'application/json',
+          'x-correlation-id': 'corr-1',
+        })
+      );
+    });
+  });
+
   describe('error', () => {
     it('should handle ZodError', () => {
       const zodIssues: ZodIssue[] = [
@@ -154,6 +197,18 @@ describe('response utilities', () => {
       expect(body.error.details).toBeUndefined();
     });
 
+    it('should include the details of a version conflict', () => {
+      const conflict = error(new VersionConflictError(2, 3, { mergeable: true }));
+      const precondition = error(
+        new PreconditionFailedError('Version conflict', { mergeable: false })
+      );
+
+      expect(conflict.statusCode).toBe(409);
+      expect(JSON.parse(conflict.body as string).error.details).toEqual({ mergeable: true });
+      expect(precondition.statusCode).toBe(412);
+      expect(JSON.parse(precondition.body as string).error.details).toEqual({ mergeable: false });
+    });
+
     it('should handle NotFoundError', () => {
       const notFoundError = new NotFoundError('Note', 'note-123');
       const result = error(notFoundError);
@@ -0,0 +1,137 @@
+import { buildStudyTrends } from '../../../src/lib/study-trends';
+import { MetricTrendDTO, StudyMetrics, TrendMetric } from '../../../src/types';
+import { createMockNote } from '../../fixtures/notes';
+
+describe('study-trends', () => {
+  function study(noteId: string, studyDate: string, studyMetrics?: StudyMetrics) {
+    return createMockNote({ noteId, studyDate, noteType: 'study_result', studyMetrics });
+  }
+
+  function trendOf(metrics: MetricTrendDTO[], metric: TrendMetric): MetricTrendDTO {
+    const trend = metrics.find((item) => item.metric === metric);
+    if (!trend) {
+      throw new Error(`No trend for ${metric}`);
+    }
+    return trend;
+  }
+
+  it('should build a time series with changes between studies, oldest first', () => {
+    const { metrics } = buildStudyTrends([
+      study('note-3', '2024-07-01', { ahi: 12 }),
+      study('note-1', '2024-01-01', { ahi: 30 }),
+      study('note-2', '2024-04-01', { ahi: 18.5 }),
+    ]);
+
+    const ahi = trendOf(metrics, 'ahi');
+    expect(ahi.unit).toBe('events/h');
+    expect(ahi.points).toEqual([
+      { noteId: 'note-1', studyDate: '2024-01-01', value: 30 },
+      { noteId: 'note-2', studyDate: '2024-04-01', value: 18.5, change: -11.5 },
+      { noteId: 'note-3', studyDate: '2024-07-01', value: 12, change: -6.5 },
+    ]);
+    expect(ahi).toMatchObject({ first: 30, latest: 12, change: -18, percentChange: -60 });
+    expect(ahi.direction).toBe('improving');
+    expect(ahi.significantWorsening).toBe(false);
+  });
+
+  it('should fit a least-squares slope per year over the study dates', () => {
+    const { metrics } = buildStudyTrends([
+      study('note-1', '2023-01-01', { odi: 10 }),
+      study('note-2', '2024-01-01', { odi: 20 }),
+      study('note-3', '2025-01-01', { odi: 30 }),
+    ]);
+
+    expect(trendOf(metrics, 'odi').slopePerYear).toBeCloseTo(10, 0);
+  });
+
+  it('should leave out the slope when every study is on the same day', () => {
+    const { metrics } = buildStudyTrends([
+      study('note-1', '2024-01-01', { ahi: 10 }),
+      study('note-2', '2024-01-01', { ahi: 12 }),
+    ]);
+
+    expect(trendOf(metrics, 'ahi').slopePerYear).toBeUndefined();
+  });
+
+  it('should flag significant worsening at the latest study', () => {
+    const { metrics, worsening } = buildStudyTrends([
+      study('note-1', '2024-01-01', { ahi: 8, oxygenNadir: 90, sleepEfficiency: 85 }),
+      study('note-2', '2024-06-01', { ahi: 16, oxygenNadir: 84, sleepEfficiency: 80 }),
+    ]);
+
+    expect(trendOf(metrics, 'ahi')).toMatchObject({
+      direction: 'worsening',
+      significantWorsening: true,
+      percentChange: 100,
+    });
+    // A lower nadir is worse
+    expect(trendOf(metrics, 'oxygenNadir')).toMatchObject({
+      direction: 'worsening',
+      significantWorsening: true,
+    });
+    // Below the 10-point threshold
+    expect(trendOf(metrics, 'sleepEfficiency')).toMatchObject({
+      direction: 'stable',
+      significantWorsening: false,
+    });
+    expect(worsening).toEqual(['ahi', 'oxygenNadir']);
+  });
+
+  it('should compare only the latest two studies for significant worsening', () => {
+    const { metrics } = buildStudyTrends([
+      study('note-1', '2024-01-01', { ahi: 10 }),
+      study('note-2', '2024-03-01', { ahi: 25 }),
+      study('note-3', '2024-06-01', { ahi: 24 }),
+    ]);
+
+    expect(trendOf(metrics, 'ahi')).toMatchObject({
+      direction: 'worsening',
+      significantWorsening: false,
+    });
+  });
+
+  it('should skip studies without the metric', () => {
+    const { metrics } = buildStudyTrends([
+      study('note-1', '2024-01-01', { ahi: 20, odi: 15 }),
+      study('note-2', '2024-03-01', { ahi: 10 }),
+      study('note-3', '2024-06-01'),
+    ]);
+
+    expect(trendOf(metrics, 'ahi').points).toHaveLength(2);
+    expect(trendOf(metrics, 'odi')).toMatchObject({
+      first: 15,
+      latest: 15,
+      change: 0,
+      direction: 'insufficient_data',
+      significantWorsening: false,
+    });
+    expect(trendOf(metrics, 'sleepEfficiency')).toEqual({
+      metric: 'sleepEfficiency',
+      unit: '%',
+      points: [],
+      direction: 'insufficient_data',
+      significantWorsening: false,
+    });
+  });
+
+  it('should leave out the percent change from a first value of 0', () => {
+    const { metrics } = buildStudyTrends([
+      study('note-1', '2024-01-01', { odi: 0 }),
+      study('note-2', '2024-06-01', { odi: 6 }),
+    ]);
+
+    const odi = trendOf(metrics, 'odi');
+    expect(odi.change).toBe(6);
+    expect(odi.percentChange).toBeUndefined();
+  });
+
+  it('should classify the OSA severity of the latest AHI', () => {
+    expect(
+      buildStudyTrends([
+        study('note-1', '2024-01-01', { ahi: 35 }),
+        study('note-2', '2024-06-01', { ahi: 7 }),
+      ]).latestOsaSeverity
+    ).toBe('mild');
+    expect(buildStudyTrends([]).latestOsaSeverity).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { diffLines, diffWords, mergeLines, splitLines } from '../../../src/lib/text-diff';
+
+describe('text-diff', () => {
+  describe('splitLines', () => {
+    it('should split on newlines and treat empty text as no lines', () => {
+      expect(splitLines('a\nb')).toEqual(['a', 'b']);
+      expect(splitLines('')).toEqual([]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should report a replaced line between unchanged ones', () => {
+      expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+        { type: 'equal', lines: ['a'] },
+        { type: 'removed', lines: ['b'] },
+        { type: 'added', lines: ['B'] },
+        { type: 'equal', lines: ['c'] },
+      ]);
+    });
+
+    it('should find lines kept in the middle of a change', () => {
+      expect(diffLines('x\na\ny\nb', 'a\nz\nb')).toEqual([
+        { type: 'removed', lines: ['x'] },
+        { type: 'equal', lines: ['a'] },
+        { type: 'removed', lines: ['y'] },
+        { type: 'added', lines: ['z'] },
+        { type: 'equal', lines: ['b'] },
+      ]);
+    });
+
+    it('should handle empty texts', () => {
+      expect(diffLines('', 'a')).toEqual([{ type: 'added', lines: ['a'] }]);
+      expect(diffLines('a', '')).toEqual([{ type: 'removed', lines: ['a'] }]);
+      expect(diffLines('', '')).toEqual([]);
+    });
+
+    it('should return a single equal run for identical texts', () => {
+      expect(diffLines('a\nb', 'a\nb')).toEqual([{ type: 'equal', lines: ['a', 'b'] }]);
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should diff words and keep the whitespace between them', () => {
+      expect(diffWords('AHI 32 events/h', 'AHI 4 events/h on CPAP')).toEqual([
+        { type: 'equal', text: 'AHI ' },
+        { type: 'removed', text: '32' },
+        { type: 'added', text: '4' },
+        { type: 'equal', text: ' events/h' },
+        { type: 'added', text: ' on CPAP' },
+      ]);
+    });
+
+    it('should rebuild both texts from the runs', () => {
+      const from = 'Mild OSA.\nCPAP  advised.';
+      const to = 'Moderate OSA.\nCPAP started.';
+      const hunks = diffWords(from, to);
+
+      const join = (type: string): string =>
+        hunks
+          .filter((hunk) => hunk.type === 'equal' || hunk.type === type)
+          .map((hunk) => hunk.text)
+          .join('');
+
+      expect(join('removed')).toBe(from);
+      expect(join('added')).toBe(to);
+    });
+  });
+
+  describe('mergeLines', () => {
+    const base = 'Findings\nDiagnosis\nPlan';
+
+    it('should combine changes to separate lines', () => {
+      expect(
+        mergeLines(base, 'Findings\nDiagnosis\nPlan: CPAP', 'Findings: AHI 22\nDiagnosis\nPlan')
+      ).toEqual({
+        merged: 'Findings: AHI 22\nDiagnosis\nPlan: CPAP',
+        conflicts: [],
+      });
+    });
+
+    it('should keep lines added on either side', () => {
+      expect(mergeLines(base, 'Intro\n' + base, base + '\nFollow-up')).toEqual({
+        merged: 'Intro\nFindings\nDiagnosis\nPlan\nFollow-up',
+        conflicts: [],
+      });
+    });
+
+    it('should accept the same change made on both sides', () => {
+      const changed = 'Findings\nDiagnosis: OSA\nPlan';
+
+      expect(mergeLines(base, changed, changed)).toEqual({ merged: changed, conflicts: [] });
+    });
+
+    it('should report different changes to the same line as a conflict', () => {
+      expect(
+        mergeLines(base, 'Findings\nDiagnosis: OSA\nPlan', 'Findings\nDiagnosis: CSA\nPlan')
+      ).toEqual({
+        conflicts: [
+          {
+            baseLine: 2,
+            base: ['Diagnosis'],
+            yours: ['Diagnosis: OSA'],
+            current: ['Diagnosis: CSA'],
+          },
+        ],
+      });
+    });
+
+    it('should report lines inserted at the same place on both sides', () => {
+      const result = mergeLines(
+        base,
+        'Findings\nA\nDiagnosis\nPlan',
+        'Findings\nB\nDiagnosis\nPlan'
+      );
+
+      expect(result.merged).toBeUndefined();
+      expect(result.conflicts).toEqual([{ baseLine: 1, base: [], yours: ['A'], current: ['B'] }]);
+    });
+  });
+});
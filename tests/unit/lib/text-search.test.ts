@@ -0,0 +1,136 @@
+import {
+  TITLE_WEIGHT,
+  analyzeNote,
+  buildSnippet,
+  isEmptySearchQuery,
+  matchesPhrase,
+  matchesSearchQuery,
+  normalizeTerm,
+  parseSearchQuery,
+  tokenize,
+} from '../../../src/lib/text-search';
+import { createMockNote } from '../../fixtures/notes';
+
+describe('text-search', () => {
+  describe('normalizeTerm', () => {
+    it('should lowercase and strip diacritics', () => {
+      expect(normalizeTerm('Apnéa')).toBe('apnea');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should split on punctuation and keep character offsets', () => {
+      const tokens = tokenize('AHI: 32/hr, O2-nadir 81%');
+
+      expect(tokens.map((token) => token.term)).toEqual(['ahi', '32', 'hr', 'o2', 'nadir', '81']);
+      expect(tokens[3]).toEqual({ term: 'o2', start: 12, end: 14, position: 3 });
+    });
+
+    it('should return no tokens for punctuation only', () => {
+      expect(tokenize('--- ...')).toEqual([]);
+    });
+  });
+
+  describe('analyzeNote', () => {
+    it('should weight title occurrences and count document length', () => {
+      const analyzed = analyzeNote(
+        createMockNote({
+          noteId: 'note-1',
+          title: 'Apnea follow-up',
+          content: 'Apnea improved on CPAP.',
+          tags: ['cpap'],
+        })
+      );
+
+      const apnea = analyzed.terms.find((entry) => entry.term === 'apnea');
+      expect(apnea?.frequency).toBe(TITLE_WEIGHT + 1);
+      expect(analyzed.length).toBe(7);
+      expect(analyzed.tags).toEqual(['cpap']);
+      expect(analyzed.noteId).toBe('note-1');
+    });
+
+    it('should keep a gap between title and content positions', () => {
+      const analyzed = analyzeNote(createMockNote({ title: 'Sleep', content: 'study results' }));
+      const positions = new Map(analyzed.terms.map((entry) => [entry.term, entry.positions]));
+
+      expect(matchesPhrase(['sleep', 'study'], positions)).toBe(false);
+      expect(matchesPhrase(['study', 'results'], positions)).toBe(true);
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should separate terms, prefixes and phrases', () => {
+      expect(parseSearchQuery('apnea titr* "central sleep apnea"')).toEqual({
+        terms: ['apnea'],
+        prefixes: ['titr'],
+        phrases: [['central', 'sleep', 'apnea']],
+      });
+    });
+
+    it('should treat a one-word phrase as a term and ignore short prefixes', () => {
+      expect(parseSearchQuery('"CPAP" a*')).toEqual({
+        terms: ['cpap', 'a'],
+        prefixes: [],
+        phrases: [],
+      });
+    });
+
+    it('should split compound words into terms', () => {
+      expect(parseSearchQuery('follow-up').terms).toEqual(['follow', 'up']);
+    });
+
+    it('should report queries without searchable terms as empty', () => {
+      expect(isEmptySearchQuery(parseSearchQuery('"" ***'))).toBe(true);
+      expect(isEmptySearchQuery(parseSearchQuery('apnea'))).toBe(false);
+    });
+  });
+
+  describe('matchesSearchQuery', () => {
+    const note = createMockNote({
+      title: 'PSG review',
+      content: 'Findings consistent with central sleep apnea; titration advised.',
+    });
+
+    it('should require every clause to match', () => {
+      expect(matchesSearchQuery(parseSearchQuery('psg titr* "central sleep"'), note)).toBe(true);
+      expect(matchesSearchQuery(parseSearchQuery('psg insomnia'), note)).toBe(false);
+    });
+
+    it('should not match phrases out of order', () => {
+      expect(matchesSearchQuery(parseSearchQuery('"sleep central"'), note)).toBe(false);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should highlight every match inside the window', () => {
+      const snippet = buildSnippet('Severe apnea; apnea worse supine.', (term) => term === 'apnea');
+
+      expect(snippet?.text).toBe('Severe apnea; apnea worse supine.');
+      expect(snippet?.highlights).toEqual([
+        { start: 7, end: 12 },
+        { start: 14, end: 19 },
+      ]);
+    });
+
+    it('should trim long text around the first match with ellipses', () => {
+      const text = `${'word '.repeat(60)}titration ${'more '.repeat(60)}`;
+      const snippet = buildSnippet(text, (term) => term === 'titration', 80);
+
+      expect(snippet?.text.startsWith('…')).toBe(true);
+      expect(snippet?.text.endsWith('…')).toBe(true);
+      const [highlight] = snippet?.highlights ?? [];
+      expect(snippet?.text.slice(highlight?.start, highlight?.end)).toBe('titration');
+    });
+
+    it('should flatten newlines without shifting highlights', () => {
+      const snippet = buildSnippet('Plan:\nstart CPAP', (term) => term === 'cpap');
+
+      expect(snippet?.text).toBe('Plan: start CPAP');
+      expect(snippet?.highlights).toEqual([{ start: 12, end: 16 }]);
+    });
+
+    it('should return undefined when nothing matches', () => {
+      expect(buildSnippet('No findings', (term) => term === 'apnea')).toBeUndefined();
+    });
+  });
+});
@@ -68,6 +68,22 @@ describe('attachmentsService', () => {
       expect(result.expiresIn).toBe(900); // 15 minutes
     });
 
+    it('should sign a fresh URL for an attachment presigned earlier', async () => {
+      const input = { fileName: 'report.pdf', contentType: 'application/pdf', sizeBytes: 1024 };
+
+      const result = await attachmentsService.generatePresignedUploadUrl(
+        createMockAuthContext(),
+        'patient-123',
+        'note-456',
+        input,
+        'attachment-earlier'
+      );
+
+      expect(result.attachmentId).toBe('attachment-earlier');
+      expect(result.s3Key).toContain('attachment-earlier');
+      expect(mockGetSignedUrl).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw ForbiddenError when user lacks ATTACHMENTS_WRITE scope', async () => {
       const auth = createReadOnlyAuthContext();
       const input = {
@@ -0,0 +1,125 @@
+import * as complianceService from '../../../src/services/compliance.service';
+import * as complianceRepository from '../../../src/data/compliance.repository';
+import * as patientAccess from '../../../src/lib/patient-access';
+import { ForbiddenError, ValidationError } from '../../../src/lib/errors';
+import { createMockAuthContext, createReadOnlyAuthContext } from '../../fixtures/auth';
+
+jest.mock('../../../src/data/compliance.repository');
+jest.mock('../../../src/lib/patient-access');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedRepository = complianceRepository as jest.Mocked<typeof complianceRepository>;
+const mockedPatientAccess = patientAccess as jest.Mocked<typeof patientAccess>;
+
+describe('complianceService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPatientAccess.assertPatientAccess.mockResolvedValue(undefined);
+  });
+
+  describe('importCompliance', () => {
+    it('should store the records and report the nights covered', async () => {
+      const auth = createMockAuthContext();
+      const records = [
+        { date: '2024-03-05', usageMinutes: 300 },
+        { date: '2024-03-01', usageMinutes: 420, residualAhi: 1.2 },
+      ];
+      mockedRepository.putMany.mockResolvedValue(undefined);
+
+      const result = await complianceService.importCompliance(auth, 'patient-123', records);
+
+      expect(result).toEqual({
+        patientId: 'patient-123',
+        imported: 2,
+        from: '2024-03-01',
+        to: '2024-03-05',
+      });
+      expect(mockedPatientAccess.assertPatientAccess).toHaveBeenCalledWith(auth, 'patient-123');
+      expect(mockedRepository.putMany).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        records,
+        auth.userId
+      );
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_WRITE scope', async () => {
+      await expect(
+        complianceService.importCompliance(createReadOnlyAuthContext(), 'patient-123', [
+          { date: '2024-03-01', usageMinutes: 300 },
+        ])
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.putMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getComplianceReport', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report on the requested range', async () => {
+      const auth = createReadOnlyAuthContext();
+      mockedRepository.listByDateRange.mockResolvedValue(
+        Array.from({ length: 30 }, (_, i) => ({
+          date: `2024-03-${String(i + 1).padStart(2, '0')}`,
+          usageMinutes: 300,
+        }))
+      );
+
+      const result = await complianceService.getComplianceReport(auth, 'patient-123', {
+        from: '2024-03-01',
+        to: '2024-03-30',
+      });
+
+      expect(result.status).toBe('pass');
+      expect(result.summary.nightsUsed).toBe(30);
+      expect(mockedRepository.listByDateRange).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        '2024-03-01',
+        '2024-03-30'
+      );
+    });
+
+    it('should default to the 90 nights ending today', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-31T12:00:00.000Z') });
+      mockedRepository.listByDateRange.mockResolvedValue([]);
+
+      const result = await complianceService.getComplianceReport(
+        createMockAuthContext(),
+        'patient-123',
+        {}
+      );
+
+      expect(result).toMatchObject({ from: '2024-01-02', to: '2024-03-31', status: 'fail' });
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(
+        complianceService.getComplianceReport(createMockAuthContext(), 'patient-123', {
+          from: '2024-03-31',
+          to: '2024-03-01',
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockedRepository.listByDateRange).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_READ scope', async () => {
+      await expect(
+        complianceService.getComplianceReport(
+          createMockAuthContext({ scopes: [] }),
+          'patient-123',
+          {}
+        )
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedPatientAccess.assertPatientAccess).not.toHaveBeenCalled();
+    });
+  });
+});
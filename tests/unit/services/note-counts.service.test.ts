@@ -0,0 +1,89 @@
+import * as noteCountsService from '../../../src/services/note-counts.service';
+import * as noteCountsRepository from '../../../src/data/note-counts.repository';
+import * as notesRepository from '../../../src/data/notes.repository';
+import { ValidationError } from '../../../src/lib/errors';
+import { createMockNote } from '../../fixtures/notes';
+
+jest.mock('../../../src/data/note-counts.repository');
+jest.mock('../../../src/data/notes.repository');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedCountsRepository = noteCountsRepository as jest.Mocked<typeof noteCountsRepository>;
+const mockedNotesRepository = notesRepository as jest.Mocked<typeof notesRepository>;
+
+describe('noteCountsService', () => {
+  const counts = {
+    total: 5,
+    facets: {
+      noteType: { study_result: 3, follow_up: 2 },
+      tag: { psg: 4, cpap: 1 },
+      year: { '2024': 5 },
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('countNotes', () => {
+    beforeEach(() => {
+      mockedCountsRepository.get.mockResolvedValue({ counts, changeCount: 5 });
+    });
+
+    it.each([
+      ['no filters', {}, 5],
+      ['a noteType', { noteType: 'study_result' }, 3],
+      ['a tag', { tag: 'psg' }, 4],
+      ['a single tags entry', { tags: ['cpap'], tagMatch: 'all' as const }, 1],
+      ['an unused tag', { tag: 'mslt' }, 0],
+    ])('should answer %s from the counters', async (_name, filters, total) => {
+      const result = await noteCountsService.countNotes('clinic-abc', 'patient-123', filters);
+
+      expect(result).toEqual({ total, facets: counts.facets });
+    });
+
+    it.each([
+      ['a date range', { studyDateFrom: '2024-01-01' }],
+      ['an author', { createdBy: 'user-123' }],
+      ['attachments', { hasAttachments: false }],
+      ['noteType and tag', { noteType: 'study_result', tag: 'psg' }],
+      ['several tags', { tags: ['psg', 'cpap'] }],
+    ])('should reject counting %s', async (_name, filters) => {
+      await expect(
+        noteCountsService.countNotes('clinic-abc', 'patient-123', filters)
+      ).rejects.toThrow(ValidationError);
+      expect(mockedNotesRepository.list).not.toHaveBeenCalled();
+    });
+
+    it('should build missing counters from the notes', async () => {
+      const first = createMockNote({ noteId: 'note-1' });
+      const second = createMockNote({ noteId: 'note-2', studyDate: '2023-05-01' });
+      mockedCountsRepository.get.mockResolvedValueOnce({ counts: undefined, changeCount: 2 });
+      mockedCountsRepository.replace.mockResolvedValueOnce(counts);
+      mockedNotesRepository.list
+        .mockResolvedValueOnce({ items: [first], nextCursor: 'cursor-1', hasMore: true })
+        .mockResolvedValueOnce({ items: [second], hasMore: false });
+
+      const result = await noteCountsService.countNotes('clinic-abc', 'patient-123', {});
+
+      expect(mockedNotesRepository.list).toHaveBeenNthCalledWith(2, 'clinic-abc', 'patient-123', {
+        cursor: 'cursor-1',
+        limit: 100,
+        attributes: ['noteType', 'tags'],
+      });
+      expect(mockedCountsRepository.replace).toHaveBeenCalledWith(
+        'clinic-abc',
+        'patient-123',
+        [first, second],
+        2
+      );
+      expect(result.total).toBe(5);
+    });
+  });
+});
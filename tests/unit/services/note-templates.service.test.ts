@@ -0,0 +1,233 @@
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  VersionConflictError,
+} from '../../../src/lib/errors';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
+import * as noteTemplatesRepository from '../../../src/data/note-templates.repository';
+import * as clinicsRepository from '../../../src/data/clinics.repository';
+import * as patientsRepository from '../../../src/data/patients.repository';
+import { createAdminAuthContext, createMockAuthContext } from '../../fixtures/auth';
+import { createMockNoteTemplate } from '../../fixtures/notes';
+
+jest.mock('../../../src/data/note-templates.repository');
+jest.mock('../../../src/data/clinics.repository');
+jest.mock('../../../src/data/patients.repository');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedRepository = noteTemplatesRepository as jest.Mocked<typeof noteTemplatesRepository>;
+const mockedClinicsRepository = clinicsRepository as jest.Mocked<typeof clinicsRepository>;
+const mockedPatientsRepository = patientsRepository as jest.Mocked<typeof patientsRepository>;
+
+describe('noteTemplatesService', () => {
+  const template = createMockNoteTemplate({ templateId: 'template-1' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listTemplates', () => {
+    it('should return the clinic templates with their placeholders', async () => {
+      mockedRepository.list.mockResolvedValueOnce([template]);
+
+      const result = await noteTemplatesService.listTemplates(createMockAuthContext(), {
+        noteType: 'study_result',
+      });
+
+      expect(mockedRepository.list).toHaveBeenCalledWith('clinic-abc', 'study_result');
+      expect(result).toEqual([
+        expect.objectContaining({
+          templateId: 'template-1',
+          variables: ['patient.fullName', 'note.studyDate', 'clinic.name'],
+        }),
+      ]);
+      expect(result[0]).not.toHaveProperty('clinicId');
+    });
+  });
+
+  describe('getTemplate', () => {
+    it('should throw NotFoundError for a template outside the clinic', async () => {
+      mockedRepository.findById.mockResolvedValueOnce(null);
+
+      await expect(
+        noteTemplatesService.getTemplate(createMockAuthContext(), 'template-1')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('createTemplate', () => {
+    const input = { noteType: 'study_result', name: 'PSG', content: 'For {{patient.fullName}}' };
+
+    it('should create the template as the admin', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.create.mockResolvedValueOnce(template);
+
+      await noteTemplatesService.createTemplate(auth, input);
+
+      expect(mockedRepository.create).toHaveBeenCalledWith(auth.clinicId, auth.userId, input);
+    });
+
+    it('should require templates:write', async () => {
+      await expect(
+        noteTemplatesService.createTemplate(createMockAuthContext(), input)
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown placeholders', async () => {
+      await expect(
+        noteTemplatesService.createTemplate(createAdminAuthContext(), {
+          ...input,
+          title: '{{patient.mrn}}',
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should update the current version', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findById.mockResolvedValueOnce(template);
+      mockedRepository.update.mockResolvedValueOnce({ ...template, name: 'PSG', version: 2 });
+
+      const result = await noteTemplatesService.updateTemplate(auth, 'template-1', {
+        name: 'PSG',
+        version: 1,
+      });
+
+      expect(result.version).toBe(2);
+      expect(mockedRepository.update).toHaveBeenCalledWith(template, auth.userId, {
+        name: 'PSG',
+        version: 1,
+      });
+    });
+
+    it('should throw VersionConflictError for an outdated version', async () => {
+      mockedRepository.findById.mockResolvedValueOnce({ ...template, version: 3 });
+
+      await expect(
+        noteTemplatesService.updateTemplate(createAdminAuthContext(), 'template-1', {
+          name: 'PSG',
+          version: 2,
+        })
+      ).rejects.toThrow(VersionConflictError);
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should remove the template', async () => {
+      mockedRepository.findById.mockResolvedValueOnce(template);
+
+      await noteTemplatesService.deleteTemplate(createAdminAuthContext(), 'template-1');
+
+      expect(mockedRepository.remove).toHaveBeenCalledWith(template);
+    });
+
+    it('should require templates:write', async () => {
+      await expect(
+        noteTemplatesService.deleteTemplate(createMockAuthContext(), 'template-1')
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('applyTemplate', () => {
+    const auth = createMockAuthContext();
+
+    beforeEach(() => {
+      mockedRepository.findById.mockResolvedValue(template);
+      mockedPatientsRepository.findById.mockResolvedValue({
+        patientId: 'patient-123',
+        clinicId: 'clinic-abc',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        status: 'active',
+        version: 1,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      });
+      mockedClinicsRepository.findById.mockResolvedValue({
+        clinicId: 'clinic-abc',
+        name: 'Metro Sleep',
+        status: 'active',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should pass a request without a template through', async () => {
+      const request = { studyDate: '2024-01-15', title: 'PSG', content: 'Findings' };
+
+      await expect(
+        noteTemplatesService.applyTemplate(auth, 'patient-123', request)
+      ).resolves.toEqual(request);
+      expect(mockedRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should require title and content without a template', async () => {
+      await expect(
+        noteTemplatesService.applyTemplate(auth, 'patient-123', { studyDate: '2024-01-15' })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should fill the note from the template and the patient and clinic records', async () => {
+      const result = await noteTemplatesService.applyTemplate(auth, 'patient-123', {
+        studyDate: '2024-01-15',
+        templateId: 'template-1',
+      });
+
+      expect(result).toEqual({
+        studyDate: '2024-01-15',
+        title: 'PSG - Jane Doe',
+        content: 'Study of 2024-01-15 for Jane Doe at Metro Sleep.',
+        noteType: 'study_result',
+        tags: ['psg'],
+      });
+      expect(mockedPatientsRepository.findById).toHaveBeenCalledWith('clinic-abc', 'patient-123');
+    });
+
+    it('should keep the fields sent with the request', async () => {
+      const result = await noteTemplatesService.applyTemplate(auth, 'patient-123', {
+        studyDate: '2024-01-15',
+        templateId: 'template-1',
+        title: 'Split-night PSG',
+        tags: [],
+      });
+
+      expect(result.title).toBe('Split-night PSG');
+      expect(result.tags).toEqual([]);
+      expect(result.content).toContain('Jane Doe');
+    });
+
+    it('should use the template name without a title and leave missing values empty', async () => {
+      mockedRepository.findById.mockResolvedValueOnce({ ...template, title: undefined });
+      mockedPatientsRepository.findById.mockResolvedValueOnce(null);
+
+      const result = await noteTemplatesService.applyTemplate(auth, 'patient-123', {
+        studyDate: '2024-01-15',
+        templateId: 'template-1',
+      });
+
+      expect(result.title).toBe('PSG results');
+      expect(result.content).toBe('Study of 2024-01-15 for  at Metro Sleep.');
+    });
+
+    it('should throw NotFoundError for an unknown template', async () => {
+      mockedRepository.findById.mockResolvedValueOnce(null);
+
+      await expect(
+        noteTemplatesService.applyTemplate(auth, 'patient-123', {
+          studyDate: '2024-01-15',
+          templateId: 'missing',
+        })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
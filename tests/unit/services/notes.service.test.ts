@@ -1,13 +1,26 @@
 import { Scope } from '../../../src/types/auth';
-import { ForbiddenError, NotFoundError } from '../../../src/lib/errors';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  VersionConflictError,
+} from '../../../src/lib/errors';
 import * as notesService from '../../../src/services/notes.service';
 import * as notesRepository from '../../../src/data/notes.repository';
 import * as patientAccess from '../../../src/lib/patient-access';
+import * as searchService from '../../../src/services/search.service';
+import * as noteCountsService from '../../../src/services/note-counts.service';
+import * as noteTemplatesService from '../../../src/services/note-templates.service';
 import { createMockAuthContext, createAdminAuthContext, createReadOnlyAuthContext } from '../../fixtures/auth';
 import { createMockNote, createMockCreateNoteInput, createMockUpdateNoteInput } from '../../fixtures/notes';
+import { CreateNoteInput, NoteConflictDTO, toNoteDTO, toNoteSnapshot } from '../../../src/types';
 
 jest.mock('../../../src/data/notes.repository');
 jest.mock('../../../src/lib/patient-access');
+jest.mock('../../../src/services/search.service');
+jest.mock('../../../src/services/note-counts.service');
+jest.mock('../../../src/services/note-templates.service');
 jest.mock('../../../src/lib/logger', () => ({
   logger: {
     info: jest.fn(),
@@ -21,11 +34,32 @@ const mockedPatientAccess = patientAccess as jest.Mocked<typeof patientAccess>;
 
 const mockedRepository = notesRepository as jest.Mocked<typeof notesRepository>;
 
+const mockedSearchService = searchService as jest.Mocked<typeof searchService>;
+
+const mockedNoteCountsService = noteCountsService as jest.Mocked<typeof noteCountsService>;
+
+const mockedNoteTemplatesService = noteTemplatesService as jest.Mocked<typeof noteTemplatesService>;
+
+const PENDING_COSIGNATURE = {
+  status: 'pending' as const,
+  requestedAt: '2024-01-15T10:00:00.000Z',
+};
+
+const SIGNATURE = {
+  signedAt: '2024-01-16T10:00:00.000Z',
+  signedBy: 'user-123',
+  signedByName: 'Dr. Smith',
+  contentHash: 'a'.repeat(64),
+};
+
 describe('notesService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     // By default, allow patient access
     mockedPatientAccess.assertPatientAccess.mockResolvedValue(undefined);
+    mockedNoteTemplatesService.applyTemplate.mockImplementation((_auth, _patientId, request) =>
+      Promise.resolve(request as CreateNoteInput)
+    );
   });
 
   describe('createNote', () => {
@@ -44,7 +78,26 @@ describe('notesService', () => {
         'patient-123',
         auth.userId,
         auth.username,
-        input
+        input,
+        true
+      );
+      expect(mockedSearchService.syncNoteIndex).toHaveBeenCalledWith(mockNote);
+    });
+
+    it('should not require a co-signature when the author can co-sign', async () => {
+      const auth = createAdminAuthContext();
+      const input = createMockCreateNoteInput();
+      mockedRepository.create.mockResolvedValue(createMockNote());
+
+      await notesService.createNote(auth, 'patient-123', input);
+
+      expect(mockedRepository.create).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        auth.userId,
+        auth.username,
+        input,
+        false
       );
     });
 
@@ -74,6 +127,50 @@ describe('notesService', () => {
       expect(result).not.toHaveProperty('updatedBy');
     });
 
+    it('should create the note from the filled-in template', async () => {
+      const auth = createMockAuthContext();
+      const request = { studyDate: '2024-01-15', templateId: 'template-1' };
+      const input = createMockCreateNoteInput({ title: 'PSG - Jane Doe', noteType: 'study_result' });
+      mockedNoteTemplatesService.applyTemplate.mockResolvedValueOnce(input);
+      mockedRepository.create.mockResolvedValue(createMockNote());
+
+      await notesService.createNote(auth, 'patient-123', request);
+
+      expect(mockedNoteTemplatesService.applyTemplate).toHaveBeenCalledWith(
+        auth,
+        'patient-123',
+        request
+      );
+      expect(mockedRepository.create).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        auth.userId,
+        auth.username,
+        input,
+        true
+      );
+    });
+
+    it('should only accept study metrics on study_result notes', async () => {
+      const auth = createMockAuthContext();
+      const studyMetrics = { ahi: 18 };
+      mockedRepository.create.mockResolvedValue(createMockNote());
+
+      await expect(
+        notesService.createNote(
+          auth,
+          'patient-123',
+          createMockCreateNoteInput({ noteType: 'follow_up', studyMetrics })
+        )
+      ).rejects.toThrow('studyMetrics are only allowed on study_result notes');
+      await notesService.createNote(
+        auth,
+        'patient-123',
+        createMockCreateNoteInput({ noteType: 'study_result', studyMetrics })
+      );
+      expect(mockedRepository.create).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw ForbiddenError when patient not in clinic', async () => {
       const auth = createMockAuthContext();
       const input = createMockCreateNoteInput();
@@ -166,6 +263,91 @@ describe('notesService', () => {
       );
     });
 
+    it('should pass sort and filters to repository', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.list.mockResolvedValue({
+        items: [],
+        hasMore: false,
+      });
+
+      await notesService.listNotes(auth, 'patient-123', {
+        sort: 'updatedAt',
+        noteType: 'follow_up',
+        createdBy: 'user-456',
+        tags: ['psg', 'cpap'],
+        tagMatch: 'all',
+        hasAttachments: true,
+      });
+
+      expect(mockedRepository.list).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        expect.objectContaining({
+          sort: 'updatedAt',
+          noteType: 'follow_up',
+          createdBy: 'user-456',
+          tags: ['psg', 'cpap'],
+          tagMatch: 'all',
+          hasAttachments: true,
+        })
+      );
+    });
+
+    it('should project and shape the summary view', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-1', content: 'Short note.' });
+      mockedRepository.list.mockResolvedValue({ items: [note], hasMore: false });
+
+      const result = await notesService.listNotes(auth, 'patient-123', { view: 'summary' });
+
+      expect(mockedRepository.list).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        expect.objectContaining({ attributes: expect.arrayContaining(['title', 'content']) })
+      );
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({ noteId: 'note-1', excerpt: 'Short note.', attachmentCount: 0 })
+      );
+      expect(result.items[0]).not.toHaveProperty('content');
+    });
+
+    it('should read and return only the requested fields', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-1', title: 'PSG review' });
+      mockedRepository.list.mockResolvedValue({ items: [note], hasMore: false });
+
+      const result = await notesService.listNotes(auth, 'patient-123', {
+        fields: ['title', 'excerpt'],
+      });
+
+      expect(mockedRepository.list).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        expect.objectContaining({ attributes: ['title', 'content'] })
+      );
+      expect(result.items).toEqual([
+        { noteId: 'note-1', title: 'PSG review', excerpt: note.content },
+      ]);
+    });
+
+    it('should shape search hits with the requested fields', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-1' });
+      mockedSearchService.searchNotes.mockResolvedValue({
+        items: [{ note, score: 1.5 }],
+        hasMore: false,
+      });
+
+      const result = await notesService.listNotes(auth, 'patient-123', {
+        q: 'apnea',
+        fields: ['title'],
+      });
+
+      expect(result.items).toEqual([
+        { noteId: 'note-1', title: note.title, search: { score: 1.5, snippet: undefined } },
+      ]);
+    });
+
     it('should use default limit of 20', async () => {
       const auth = createMockAuthContext();
       mockedRepository.list.mockResolvedValue({
@@ -181,6 +363,115 @@ describe('notesService', () => {
         expect.objectContaining({ limit: 20 })
       );
     });
+
+    it('should delegate q to the search service and return ranked hits', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-1' });
+      const snippet = {
+        field: 'content' as const,
+        text: 'moderate sleep apnea',
+        highlights: [{ start: 15, end: 20 }],
+      };
+      mockedSearchService.searchNotes.mockResolvedValue({
+        items: [{ note, score: 2.5, snippet }],
+        nextCursor: 'search-cursor',
+        hasMore: true,
+      });
+
+      const result = await notesService.listNotes(auth, 'patient-123', {
+        q: 'apnea',
+        limit: 5,
+        cursor: 'previous',
+        tag: 'sleep',
+      });
+
+      expect(mockedSearchService.searchNotes).toHaveBeenCalledWith(auth.clinicId, 'patient-123', {
+        q: 'apnea',
+        limit: 5,
+        cursor: 'previous',
+        studyDateFrom: undefined,
+        studyDateTo: undefined,
+        noteType: undefined,
+        createdBy: undefined,
+        tag: 'sleep',
+        tags: undefined,
+        tagMatch: undefined,
+        hasAttachments: undefined,
+      });
+      expect(mockedRepository.list).not.toHaveBeenCalled();
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({ noteId: 'note-1', search: { score: 2.5, snippet } })
+      );
+      expect(result.nextCursor).toBe('search-cursor');
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should add the total and facets when counts are requested', async () => {
+      const auth = createMockAuthContext();
+      const facets = { noteType: { study_result: 4 }, tag: { psg: 2 }, year: { '2024': 4 } };
+      mockedRepository.list.mockResolvedValue({ items: [], hasMore: false });
+      mockedNoteCountsService.countNotes.mockResolvedValue({ total: 2, facets });
+
+      const result = await notesService.listNotes(auth, 'patient-123', {
+        tag: 'psg',
+        includeCounts: true,
+      });
+
+      expect(mockedNoteCountsService.countNotes).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        expect.objectContaining({ tag: 'psg' })
+      );
+      expect(result).toEqual({ items: [], hasMore: false, total: 2, facets });
+    });
+
+    it('should reject filters that cannot be counted before listing', async () => {
+      const auth = createMockAuthContext();
+      mockedNoteCountsService.countNotes.mockRejectedValue(new ValidationError('not countable'));
+
+      await expect(
+        notesService.listNotes(auth, 'patient-123', {
+          createdBy: 'user-123',
+          includeCounts: true,
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockedRepository.list).not.toHaveBeenCalled();
+    });
+
+    it('should not count unless asked', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.list.mockResolvedValue({ items: [], hasMore: false });
+
+      const result = await notesService.listNotes(auth, 'patient-123', {});
+
+      expect(mockedNoteCountsService.countNotes).not.toHaveBeenCalled();
+      expect(result).not.toHaveProperty('total');
+    });
+
+    it('should take the total of a search from the ranked matches', async () => {
+      const auth = createMockAuthContext();
+      const facets = { noteType: {}, tag: {}, year: { '2024': 9 } };
+      mockedSearchService.searchNotes.mockResolvedValue({ items: [], hasMore: false, total: 3 });
+      mockedNoteCountsService.countNotes.mockResolvedValue({ total: 9, facets });
+
+      const result = await notesService.listNotes(auth, 'patient-123', {
+        q: 'apnea',
+        includeCounts: true,
+      });
+
+      expect(result.total).toBe(3);
+      expect(result.facets).toEqual(facets);
+    });
+
+    it('should check patient access before searching', async () => {
+      const auth = createMockAuthContext();
+      mockedPatientAccess.assertPatientAccess.mockRejectedValue(new ForbiddenError());
+
+      await expect(
+        notesService.listNotes(auth, 'patient-123', { q: 'apnea' })
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedSearchService.searchNotes).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateNote', () => {
@@ -196,6 +487,7 @@ describe('notesService', () => {
       const result = await notesService.updateNote(auth, 'patient-123', 'note-123', input);
 
       expect(result.version).toBe(2);
+      expect(mockedSearchService.syncNoteIndex).toHaveBeenCalledWith(updatedNote);
       expect(mockedRepository.update).toHaveBeenCalledWith(
         auth.clinicId,
         'patient-123',
@@ -207,6 +499,24 @@ describe('notesService', () => {
       );
     });
 
+    it('should keep study_result as the type of a note with study metrics', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteType: 'study_result', studyMetrics: { ahi: 18 } })
+      );
+      mockedRepository.update.mockResolvedValue(createMockNote());
+
+      await expect(
+        notesService.updateNote(auth, 'patient-123', 'note-123', { noteType: null, version: 1 })
+      ).rejects.toThrow(ValidationError);
+      await notesService.updateNote(auth, 'patient-123', 'note-123', {
+        noteType: null,
+        studyMetrics: null,
+        version: 1,
+      });
+      expect(mockedRepository.update).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw NotFoundError when note does not exist', async () => {
       const auth = createMockAuthContext();
       const input = createMockUpdateNoteInput();
@@ -223,40 +533,1019 @@ describe('notesService', () => {
       await expect(notesService.updateNote(auth, 'patient-123', 'note-123', input))
         .rejects.toThrow(ForbiddenError);
     });
+
+    it('should reject edits to a signed note', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123', signature: SIGNATURE })
+      );
+
+      await expect(
+        notesService.updateNote(auth, 'patient-123', 'note-123', createMockUpdateNoteInput())
+      ).rejects.toThrow('Note note-123 is signed and can no longer be edited; add an addendum instead');
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+
+    describe('version conflicts', () => {
+      const baseContent = 'Findings: moderate OSA.\nDiagnosis: OSA.\nPlan: CPAP titration.';
+      const baseNote = createMockNote({ noteId: 'note-123', content: baseContent, version: 1 });
+      const currentNote = {
+        ...baseNote,
+        title: 'Titration Results',
+        content: 'Findings: moderate OSA, AHI 22.\nDiagnosis: OSA.\nPlan: CPAP titration.',
+        version: 2,
+      };
+
+      beforeEach(() => {
+        mockedRepository.findByIdWithoutStudyDate
+          .mockResolvedValueOnce(baseNote)
+          .mockResolvedValueOnce(currentNote);
+        mockedRepository.update.mockRejectedValueOnce(new VersionConflictError(1, 2));
+        mockedRepository.findRevision.mockResolvedValue({
+          noteId: 'note-123',
+          clinicId: baseNote.clinicId,
+          patientId: baseNote.patientId,
+          version: 2,
+          changedAt: currentNote.updatedAt,
+          changedBy: 'user-456',
+          changedByName: 'Dr. Jones',
+          changedFields: ['title', 'content'],
+          previous: toNoteSnapshot(baseNote),
+        });
+      });
+
+      it('should reject with the current copy and a three-way diff', async () => {
+        const auth = createMockAuthContext();
+        const input = { content: 'Findings: moderate OSA.\nDiagnosis: OSA.\nPlan: CPAP at 9 cmH2O.', version: 1 };
+
+        const err = await notesService
+          .updateNote(auth, 'patient-123', 'note-123', input)
+          .catch((e: unknown) => e);
+
+        expect(err).toBeInstanceOf(VersionConflictError);
+        const details = (err as VersionConflictError).details as NoteConflictDTO;
+        expect(mockedRepository.findRevision).toHaveBeenCalledWith(
+          auth.clinicId,
+          'patient-123',
+          'note-123',
+          2
+        );
+        expect(details.expectedVersion).toBe(1);
+        expect(details.current).toEqual(toNoteDTO(currentNote));
+        expect(details.fields.map(({ field, result }) => [field, result])).toEqual([
+          ['title', 'current'],
+          ['content', 'merged'],
+        ]);
+        expect(details.mergeable).toBe(true);
+        expect(mockedRepository.update).toHaveBeenCalledTimes(1);
+      });
+
+      it('should apply non-overlapping changes on top of the current note with autoMerge', async () => {
+        const auth = createMockAuthContext();
+        const merged = { ...currentNote, version: 3 };
+        mockedRepository.update.mockResolvedValueOnce(merged);
+
+        const result = await notesService.updateNote(auth, 'patient-123', 'note-123', {
+          content: 'Findings: moderate OSA.\nDiagnosis: OSA.\nPlan: CPAP at 9 cmH2O.',
+          version: 1,
+          autoMerge: true,
+        });
+
+        expect(result.version).toBe(3);
+        expect(mockedRepository.update).toHaveBeenLastCalledWith(
+          auth.clinicId,
+          'patient-123',
+          'note-123',
+          currentNote.studyDate,
+          auth.userId,
+          auth.username,
+          {
+            content: 'Findings: moderate OSA, AHI 22.\nDiagnosis: OSA.\nPlan: CPAP at 9 cmH2O.',
+            version: 2,
+          }
+        );
+      });
+
+      it('should not auto-merge overlapping changes', async () => {
+        const auth = createMockAuthContext();
+
+        const err = await notesService
+          .updateNote(auth, 'patient-123', 'note-123', {
+            title: 'PSG Results',
+            version: 1,
+            autoMerge: true,
+          })
+          .catch((e: unknown) => e);
+
+        expect(err).toBeInstanceOf(VersionConflictError);
+        const details = (err as VersionConflictError).details as NoteConflictDTO;
+        expect(details.fields[0]).toEqual({
+          field: 'title',
+          result: 'conflict',
+          base: baseNote.title,
+          yours: 'PSG Results',
+          current: 'Titration Results',
+        });
+        expect(details.mergeable).toBe(false);
+        expect(mockedRepository.update).toHaveBeenCalledTimes(1);
+      });
+
+      it('should prefer the base sent by the client', async () => {
+        const auth = createMockAuthContext();
+        mockedRepository.findRevision.mockResolvedValue(null);
+
+        const err = await notesService
+          .updateNote(auth, 'patient-123', 'note-123', {
+            title: 'Titration Results',
+            version: 1,
+            base: { title: 'Sleep Study Results' },
+          })
+          .catch((e: unknown) => e);
+
+        const details = (err as VersionConflictError).details as NoteConflictDTO;
+        expect(details.fields).toEqual([
+          {
+            field: 'title',
+            result: 'same',
+            base: 'Sleep Study Results',
+            yours: 'Titration Results',
+            current: 'Titration Results',
+          },
+        ]);
+      });
+    });
   });
 
-  describe('deleteNote', () => {
-    it('should soft delete an existing note', async () => {
-      const auth = createAdminAuthContext();
-      const existingNote = createMockNote({ noteId: 'note-123' });
+  describe('compareNotes', () => {
+    it('should compare two notes of the patient', async () => {
+      const auth = createMockAuthContext();
+      const left = createMockNote({ noteId: 'note-1', tags: ['psg'] });
+      const right = createMockNote({ noteId: 'note-2', tags: ['psg', 'cpap'] });
+      mockedRepository.findByIdWithoutStudyDate
+        .mockResolvedValueOnce(left)
+        .mockResolvedValueOnce(right);
+
+      const result = await notesService.compareNotes(auth, 'patient-123', 'note-1', 'note-2');
+
+      expect(result.left.noteId).toBe('note-1');
+      expect(result.right.noteId).toBe('note-2');
+      expect(result.changedFields).toEqual(['tags']);
+      expect(mockedPatientAccess.assertPatientAccess).toHaveBeenCalledWith(auth, 'patient-123');
+      expect(mockedRepository.findByIdWithoutStudyDate).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-2'
+      );
+    });
+
+    it('should throw NotFoundError naming the missing note', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate
+        .mockResolvedValueOnce(createMockNote({ noteId: 'note-1' }))
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        notesService.compareNotes(auth, 'patient-123', 'note-1', 'note-2')
+      ).rejects.toThrow('Note not found: note-2');
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_READ scope', async () => {
+      const auth = createMockAuthContext({ scopes: [] });
+
+      await expect(
+        notesService.compareNotes(auth, 'patient-123', 'note-1', 'note-2')
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.findByIdWithoutStudyDate).not.toHaveBeenCalled();
+    });
+  });
 
+  describe('cosignNote', () => {
+    it('should co-sign a pending note', async () => {
+      const auth = createAdminAuthContext();
+      const existingNote = createMockNote({
+        noteId: 'note-123',
+        version: 2,
+        cosignature: PENDING_COSIGNATURE,
+      });
       mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
-      mockedRepository.softDelete.mockResolvedValue();
+      mockedRepository.reviewCosignature.mockImplementation(
+        async (_c, _p, _n, _d, _v, review) => ({
+          ...existingNote,
+          cosignature: { ...PENDING_COSIGNATURE, ...review },
+          version: 3,
+        })
+      );
 
-      await notesService.deleteNote(auth, 'patient-123', 'note-123');
+      const result = await notesService.cosignNote(auth, 'patient-123', 'note-123', {
+        version: 2,
+      });
 
-      expect(mockedRepository.softDelete).toHaveBeenCalledWith(
+      expect(result.cosignature?.status).toBe('cosigned');
+      expect(mockedRepository.reviewCosignature).toHaveBeenCalledWith(
         auth.clinicId,
         'patient-123',
         'note-123',
         existingNote.studyDate,
-        auth.userId
+        2,
+        expect.objectContaining({
+          status: 'cosigned',
+          reviewedBy: auth.userId,
+          reviewedByName: auth.username,
+        })
       );
     });
 
+    it('should throw ForbiddenError when user lacks NOTES_COSIGN scope', async () => {
+      const auth = createMockAuthContext();
+
+      await expect(
+        notesService.cosignNote(auth, 'patient-123', 'note-123', { version: 1 })
+      ).rejects.toThrow('Missing required permission: notes:cosign');
+      expect(mockedRepository.reviewCosignature).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundError when note does not exist', async () => {
       const auth = createAdminAuthContext();
       mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(null);
 
-      await expect(notesService.deleteNote(auth, 'patient-123', 'note-123'))
-        .rejects.toThrow(NotFoundError);
+      await expect(
+        notesService.cosignNote(auth, 'patient-123', 'note-123', { version: 1 })
+      ).rejects.toThrow(NotFoundError);
     });
+  });
 
-    it('should throw ForbiddenError when user lacks NOTES_DELETE scope', async () => {
-      const auth = createMockAuthContext({ scopes: [Scope.NOTES_READ, Scope.NOTES_WRITE] });
+  describe('rejectCosign', () => {
+    it('should return the note to its author with the reviewer comment', async () => {
+      const auth = createAdminAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123', cosignature: PENDING_COSIGNATURE });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.reviewCosignature.mockImplementation(
+        async (_c, _p, _n, _d, _v, review) => ({
+          ...existingNote,
+          cosignature: { ...PENDING_COSIGNATURE, ...review },
+          version: 2,
+        })
+      );
 
-      await expect(notesService.deleteNote(auth, 'patient-123', 'note-123'))
-        .rejects.toThrow(ForbiddenError);
+      const result = await notesService.rejectCosign(auth, 'patient-123', 'note-123', {
+        version: 1,
+        reason: 'Please document the titration pressure',
+      });
+
+      expect(result.cosignature).toEqual(
+        expect.objectContaining({
+          status: 'rejected',
+          reason: 'Please document the titration pressure',
+          reviewedBy: auth.userId,
+        })
+      );
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_COSIGN scope', async () => {
+      const auth = createMockAuthContext();
+
+      await expect(
+        notesService.rejectCosign(auth, 'patient-123', 'note-123', { version: 1, reason: 'No' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('listCosignQueue', () => {
+    it('should list pending notes for the caller clinic', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.listCosignQueue.mockResolvedValue({
+        items: [
+          {
+            noteId: 'note-123',
+            clinicId: 'clinic-abc',
+            patientId: 'patient-123',
+            studyDate: '2024-01-15',
+            title: 'Follow-up',
+            noteType: 'follow_up',
+            createdBy: 'user-nurse',
+            createdByName: 'Nurse Joy',
+            requestedAt: '2024-01-15T10:00:00.000Z',
+          },
+        ],
+        nextCursor: 'next',
+        hasMore: true,
+      });
+
+      const result = await notesService.listCosignQueue(auth, { limit: 10 });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0]).not.toHaveProperty('clinicId');
+      expect(result.nextCursor).toBe('next');
+      expect(mockedRepository.listCosignQueue).toHaveBeenCalledWith('clinic-abc', {
+        cursor: undefined,
+        limit: 10,
+      });
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_COSIGN scope', async () => {
+      const auth = createMockAuthContext();
+
+      await expect(notesService.listCosignQueue(auth, {})).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('listClinicNotes', () => {
+    it('should list notes across the caller clinic without a patient check', async () => {
+      const auth = createReadOnlyAuthContext();
+      mockedRepository.listByClinic.mockResolvedValue({
+        items: [createMockNote({ patientId: 'patient-1' }), createMockNote({ patientId: 'patient-2' })],
+        nextCursor: 'next',
+        hasMore: true,
+      });
+
+      const result = await notesService.listClinicNotes(auth, {
+        limit: 10,
+        noteType: 'study_result',
+        studyDateFrom: '2024-01-08',
+        createdBy: 'user-456',
+      });
+
+      expect(result.items.map((note) => note.patientId)).toEqual(['patient-1', 'patient-2']);
+      expect(result.items[0]).not.toHaveProperty('clinicId');
+      expect(result.nextCursor).toBe('next');
+      expect(mockedPatientAccess.assertPatientAccess).not.toHaveBeenCalled();
+      expect(mockedRepository.listByClinic).toHaveBeenCalledWith('clinic-abc', {
+        cursor: undefined,
+        limit: 10,
+        noteType: 'study_result',
+        studyDateFrom: '2024-01-08',
+        studyDateTo: undefined,
+        createdBy: 'user-456',
+        tag: undefined,
+        search: undefined,
+      });
+    });
+
+    it('should parse the text query', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.listByClinic.mockResolvedValue({ items: [], hasMore: false });
+
+      await notesService.listClinicNotes(auth, { q: 'titr* "sleep apnea"' });
+
+      expect(mockedRepository.listByClinic).toHaveBeenCalledWith(
+        'clinic-abc',
+        expect.objectContaining({
+          limit: 20,
+          search: { terms: [], prefixes: ['titr'], phrases: [['sleep', 'apnea']] },
+        })
+      );
+    });
+
+    it('should reject a query without searchable terms', async () => {
+      const auth = createMockAuthContext();
+
+      await expect(notesService.listClinicNotes(auth, { q: '!!' })).rejects.toThrow(ValidationError);
+      expect(mockedRepository.listByClinic).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_READ scope', async () => {
+      const auth = createMockAuthContext({ scopes: [] });
+
+      await expect(notesService.listClinicNotes(auth, {})).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('patchNote', () => {
+    it('should map null list members to empty lists', async () => {
+      const auth = createMockAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123', version: 3 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.update.mockResolvedValue({ ...existingNote, tags: [], version: 4 });
+
+      await notesService.patchNote(auth, 'patient-123', 'note-123', {
+        noteType: null,
+        tags: null,
+        attachments: null,
+        version: 3,
+      });
+
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        auth.username,
+        { noteType: null, tags: [], attachments: [], version: 3 }
+      );
+    });
+
+    it('should leave absent members out of the update', async () => {
+      const auth = createMockAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123', version: 1 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.update.mockResolvedValue({ ...existingNote, version: 2 });
+
+      await notesService.patchNote(auth, 'patient-123', 'note-123', {
+        title: 'Renamed',
+        version: 1,
+      });
+
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        auth.username,
+        { title: 'Renamed', version: 1 }
+      );
+    });
+
+    it('should patch one study metric and keep the others', async () => {
+      const auth = createMockAuthContext();
+      const existingNote = createMockNote({
+        noteId: 'note-123',
+        noteType: 'study_result',
+        studyMetrics: { ahi: 22.4, rdi: 25, oxygenNadir: 84 },
+        version: 2,
+      });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.update.mockResolvedValue({ ...existingNote, version: 3 });
+
+      await notesService.patchNote(auth, 'patient-123', 'note-123', {
+        studyMetrics: { oxygenNadir: 86, rdi: null },
+        version: 2,
+      });
+
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        auth.username,
+        {
+          studyMetrics: { ahi: 22.4, oxygenNadir: 86 },
+          version: 2,
+        }
+      );
+    });
+
+    it('should remove study metrics once the patch removes the last one', async () => {
+      const auth = createMockAuthContext();
+      const existingNote = createMockNote({
+        noteId: 'note-123',
+        noteType: 'study_result',
+        studyMetrics: { ahi: 22.4 },
+        version: 2,
+      });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.update.mockResolvedValue({ ...existingNote, version: 3 });
+
+      await notesService.patchNote(auth, 'patient-123', 'note-123', {
+        studyMetrics: { ahi: null },
+        version: 2,
+      });
+
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        auth.username,
+        {
+          studyMetrics: null,
+          version: 2,
+        }
+      );
+    });
+
+    it('should patch the metrics of the version the patch was written against', async () => {
+      const auth = createMockAuthContext();
+      const existingNote = createMockNote({
+        noteId: 'note-123',
+        noteType: 'study_result',
+        studyMetrics: { ahi: 30, oxygenNadir: 84 },
+        version: 3,
+      });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.findRevision.mockResolvedValue({
+        noteId: 'note-123',
+        clinicId: existingNote.clinicId,
+        patientId: existingNote.patientId,
+        version: 3,
+        changedAt: existingNote.updatedAt,
+        changedBy: 'user-456',
+        changedByName: 'Dr. Jones',
+        changedFields: ['studyMetrics'],
+        previous: toNoteSnapshot({
+          ...existingNote,
+          studyMetrics: { ahi: 22.4, oxygenNadir: 84 },
+          version: 2,
+        }),
+      });
+      mockedRepository.update.mockResolvedValue({ ...existingNote, version: 4 });
+
+      await notesService.patchNote(auth, 'patient-123', 'note-123', {
+        studyMetrics: { oxygenNadir: 86 },
+        version: 2,
+      });
+
+      expect(mockedRepository.findRevision).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        3
+      );
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        auth.username,
+        {
+          studyMetrics: { ahi: 22.4, oxygenNadir: 86 },
+          version: 2,
+        }
+      );
+    });
+
+    it('should reject a metrics patch that leaves rdi below ahi', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({
+          noteId: 'note-123',
+          noteType: 'study_result',
+          studyMetrics: { ahi: 22.4, rdi: 25 },
+          version: 2,
+        })
+      );
+
+      await expect(
+        notesService.patchNote(auth, 'patient-123', 'note-123', {
+          studyMetrics: { ahi: 30 },
+          version: 2,
+        })
+      ).rejects.toThrow('rdi cannot be lower than ahi');
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the same scopes as updateNote', async () => {
+      const auth = createReadOnlyAuthContext();
+
+      await expect(
+        notesService.patchNote(auth, 'patient-123', 'note-123', { title: 'x', version: 1 })
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signNote', () => {
+    it('should sign the current version with a hash of its content', async () => {
+      const auth = createAdminAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123', version: 2 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.sign.mockImplementation(async (_c, _p, _n, _d, _v, signature) => ({
+        ...existingNote,
+        signature,
+        version: 3,
+      }));
+
+      const result = await notesService.signNote(auth, 'patient-123', 'note-123', { version: 2 });
+
+      expect(result.version).toBe(3);
+      expect(result.signature).toEqual(
+        expect.objectContaining({
+          signedBy: auth.userId,
+          signedByName: auth.username,
+          contentHash: expect.stringMatching(/^[a-f0-9]{64}$/),
+        })
+      );
+      expect(mockedRepository.sign).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        2,
+        expect.any(Object)
+      );
+    });
+
+    it('should throw ConflictError when the version is stale', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123', version: 3 })
+      );
+
+      await expect(
+        notesService.signNote(auth, 'patient-123', 'note-123', { version: 2 })
+      ).rejects.toThrow('Version conflict: expected 2, current is 3');
+      expect(mockedRepository.sign).not.toHaveBeenCalled();
+    });
+
+    it.each(['pending', 'rejected'] as const)(
+      'should throw ConflictError while the co-signature is %s',
+      async (status) => {
+        const auth = createAdminAuthContext();
+        mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+          createMockNote({
+            noteId: 'note-123',
+            cosignature: { status, requestedAt: '2024-01-15T10:00:00.000Z' },
+          })
+        );
+
+        await expect(
+          notesService.signNote(auth, 'patient-123', 'note-123', { version: 1 })
+        ).rejects.toThrow('Note note-123 must be co-signed before it can be signed');
+        expect(mockedRepository.sign).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should throw ConflictError when the note is already signed', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123', signature: SIGNATURE })
+      );
+
+      await expect(
+        notesService.signNote(auth, 'patient-123', 'note-123', { version: 1 })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError when note does not exist', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(null);
+
+      await expect(
+        notesService.signNote(auth, 'patient-123', 'note-123', { version: 1 })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_WRITE scope', async () => {
+      const auth = createReadOnlyAuthContext();
+
+      await expect(
+        notesService.signNote(auth, 'patient-123', 'note-123', { version: 1 })
+      ).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should throw ForbiddenError for a nurse, who can write but not sign notes', async () => {
+      const auth = createMockAuthContext({
+        scopes: [Scope.NOTES_READ, Scope.NOTES_WRITE, Scope.ATTACHMENTS_WRITE, Scope.PATIENTS_READ],
+      });
+
+      await expect(
+        notesService.signNote(auth, 'patient-123', 'note-123', { version: 1 })
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.findByIdWithoutStudyDate).not.toHaveBeenCalled();
+      expect(mockedRepository.sign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addNoteAddendum', () => {
+    it('should append a signed addendum to a signed note', async () => {
+      const auth = createMockAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123', signature: SIGNATURE, version: 2 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.addAddendum.mockImplementation(async (_c, _p, _n, _d, addendum) => ({
+        ...existingNote,
+        addenda: [addendum],
+        version: 3,
+      }));
+
+      const result = await notesService.addNoteAddendum(auth, 'patient-123', 'note-123', {
+        content: 'Corrected AHI to 18.2',
+      });
+
+      expect(result.addenda).toHaveLength(1);
+      expect(result.addenda[0]).toEqual(
+        expect.objectContaining({
+          content: 'Corrected AHI to 18.2',
+          signedBy: auth.userId,
+          signedByName: auth.username,
+          contentHash: expect.stringMatching(/^[a-f0-9]{64}$/),
+        })
+      );
+    });
+
+    it('should throw ConflictError when the note is not signed', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123' })
+      );
+
+      await expect(
+        notesService.addNoteAddendum(auth, 'patient-123', 'note-123', { content: 'More' })
+      ).rejects.toThrow('Note note-123 must be signed before addenda can be added');
+      expect(mockedRepository.addAddendum).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when note does not exist', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(null);
+
+      await expect(
+        notesService.addNoteAddendum(auth, 'patient-123', 'note-123', { content: 'More' })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_WRITE scope', async () => {
+      const auth = createReadOnlyAuthContext();
+
+      await expect(
+        notesService.addNoteAddendum(auth, 'patient-123', 'note-123', { content: 'More' })
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('deleteNote', () => {
+    it('should soft delete an existing note', async () => {
+      const auth = createAdminAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123' });
+
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.softDelete.mockResolvedValue();
+
+      await notesService.deleteNote(auth, 'patient-123', 'note-123');
+
+      expect(mockedRepository.softDelete).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        undefined
+      );
+      expect(mockedSearchService.syncNoteIndex).toHaveBeenCalledWith(existingNote);
+    });
+
+    it('should pass the expected version to the conditional delete', async () => {
+      const auth = createAdminAuthContext();
+      const existingNote = createMockNote({ noteId: 'note-123', version: 3 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(existingNote);
+      mockedRepository.softDelete.mockResolvedValue();
+
+      await notesService.deleteNote(auth, 'patient-123', 'note-123', 3);
+
+      expect(mockedRepository.softDelete).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        existingNote.studyDate,
+        auth.userId,
+        3
+      );
+    });
+
+    it('should reject a delete of a note at another version', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123', version: 4 })
+      );
+
+      await expect(notesService.deleteNote(auth, 'patient-123', 'note-123', 3)).rejects.toThrow(
+        VersionConflictError
+      );
+      expect(mockedRepository.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when note does not exist', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(null);
+
+      await expect(notesService.deleteNote(auth, 'patient-123', 'note-123'))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_DELETE scope', async () => {
+      const auth = createMockAuthContext({ scopes: [Scope.NOTES_READ, Scope.NOTES_WRITE] });
+
+      await expect(notesService.deleteNote(auth, 'patient-123', 'note-123'))
+        .rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('listDeletedNotes', () => {
+    it('should list deleted notes with deletion markers', async () => {
+      const auth = createAdminAuthContext();
+      const deletedNote = createMockNote({
+        deletedAt: '2024-01-20T10:00:00.000Z',
+        deletedBy: 'user-admin',
+      });
+      mockedRepository.list.mockResolvedValue({
+        items: [deletedNote],
+        nextCursor: 'next',
+        hasMore: true,
+      });
+
+      const result = await notesService.listDeletedNotes(auth, 'patient-123', { limit: 10 });
+
+      expect(result.items[0]?.deletedBy).toBe('user-admin');
+      expect(result.nextCursor).toBe('next');
+      expect(mockedRepository.list).toHaveBeenCalledWith(auth.clinicId, 'patient-123', {
+        cursor: undefined,
+        limit: 10,
+        deleted: true,
+      });
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_DELETE scope', async () => {
+      const auth = createMockAuthContext();
+
+      await expect(notesService.listDeletedNotes(auth, 'patient-123', {}))
+        .rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('restoreNote', () => {
+    it('should restore a deleted note', async () => {
+      const auth = createAdminAuthContext();
+      const deletedNote = createMockNote({ noteId: 'note-123', deletedAt: '2024-01-20T10:00:00.000Z' });
+      const restoredNote = { ...deletedNote, deletedAt: undefined, version: 2 };
+      mockedRepository.findDeletedByIdWithoutStudyDate.mockResolvedValue(deletedNote);
+      mockedRepository.restore.mockResolvedValue(restoredNote);
+
+      const result = await notesService.restoreNote(auth, 'patient-123', 'note-123');
+
+      expect(result.version).toBe(2);
+      expect(mockedRepository.restore).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        deletedNote.studyDate,
+        auth.userId,
+        auth.username
+      );
+      expect(mockedSearchService.syncNoteIndex).toHaveBeenCalledWith(restoredNote);
+    });
+
+    it('should throw NotFoundError when no deleted note exists', async () => {
+      const auth = createAdminAuthContext();
+      mockedRepository.findDeletedByIdWithoutStudyDate.mockResolvedValue(null);
+
+      await expect(notesService.restoreNote(auth, 'patient-123', 'note-123'))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_DELETE scope', async () => {
+      const auth = createMockAuthContext();
+
+      await expect(notesService.restoreNote(auth, 'patient-123', 'note-123'))
+        .rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.restore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listNoteVersions', () => {
+    const previousSnapshot = {
+      version: 1,
+      studyDate: '2024-01-15',
+      title: 'Original Title',
+      content: 'Original content',
+      tags: [],
+      attachments: [],
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      updatedBy: 'user-123',
+      updatedByName: 'Dr. Smith',
+    };
+
+    it('should list current and historical versions newest first', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-123', version: 2, updatedBy: 'user-456' });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(note);
+      mockedRepository.listRevisions.mockResolvedValue([
+        {
+          noteId: 'note-123',
+          clinicId: 'clinic-abc',
+          patientId: 'patient-123',
+          version: 2,
+          changedAt: '2024-01-16T10:00:00.000Z',
+          changedBy: 'user-456',
+          changedByName: 'Dr. Test',
+          changedFields: ['title'],
+          previous: previousSnapshot,
+        },
+      ]);
+
+      const result = await notesService.listNoteVersions(auth, 'patient-123', 'note-123');
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          version: 2,
+          updatedBy: 'user-456',
+          changedFields: ['title'],
+          current: true,
+        }),
+        expect.objectContaining({
+          version: 1,
+          updatedBy: 'user-123',
+          changedFields: [],
+          current: false,
+        }),
+      ]);
+    });
+
+    it('should leave changedFields undefined for versions that predate history', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-123', version: 3 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(note);
+      mockedRepository.listRevisions.mockResolvedValue([]);
+
+      const result = await notesService.listNoteVersions(auth, 'patient-123', 'note-123');
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.changedFields).toBeUndefined();
+    });
+
+    it('should throw NotFoundError when note does not exist', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(null);
+
+      await expect(notesService.listNoteVersions(auth, 'patient-123', 'note-123'))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_READ scope', async () => {
+      const auth = createMockAuthContext({ scopes: [] });
+
+      await expect(notesService.listNoteVersions(auth, 'patient-123', 'note-123'))
+        .rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('getNoteVersion', () => {
+    const revision = {
+      noteId: 'note-123',
+      clinicId: 'clinic-abc',
+      patientId: 'patient-123',
+      version: 2,
+      changedAt: '2024-01-16T10:00:00.000Z',
+      changedBy: 'user-456',
+      changedByName: 'Dr. Test',
+      changedFields: ['content'],
+      previous: {
+        version: 1,
+        studyDate: '2024-01-15',
+        title: 'Title',
+        content: 'Original content',
+        tags: [],
+        attachments: [],
+        updatedAt: '2024-01-15T10:00:00.000Z',
+        updatedBy: 'user-123',
+        updatedByName: 'Dr. Smith',
+      },
+    };
+
+    it('should return the live note for the current version', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-123', version: 2, content: 'New content' });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(note);
+      mockedRepository.findRevision.mockResolvedValue(revision);
+
+      const result = await notesService.getNoteVersion(auth, 'patient-123', 'note-123', 2);
+
+      expect(result.content).toBe('New content');
+      expect(result.current).toBe(true);
+      expect(result.changedFields).toEqual(['content']);
+    });
+
+    it('should return the snapshot stored on the successor revision', async () => {
+      const auth = createMockAuthContext();
+      const note = createMockNote({ noteId: 'note-123', version: 2 });
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(note);
+      mockedRepository.findRevision.mockResolvedValue(revision);
+
+      const result = await notesService.getNoteVersion(auth, 'patient-123', 'note-123', 1);
+
+      expect(result.version).toBe(1);
+      expect(result.content).toBe('Original content');
+      expect(result.updatedBy).toBe('user-123');
+      expect(result.current).toBe(false);
+      expect(mockedRepository.findRevision).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        'note-123',
+        2
+      );
+    });
+
+    it('should throw NotFoundError for a version newer than the note', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123', version: 2 })
+      );
+
+      await expect(notesService.getNoteVersion(auth, 'patient-123', 'note-123', 5))
+        .rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError when no snapshot was recorded', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.findByIdWithoutStudyDate.mockResolvedValue(
+        createMockNote({ noteId: 'note-123', version: 4 })
+      );
+      mockedRepository.findRevision.mockResolvedValue(null);
+
+      await expect(notesService.getNoteVersion(auth, 'patient-123', 'note-123', 2))
+        .rejects.toThrow('Note version not found: note-123@2');
     });
   });
 });
@@ -1,7 +1,17 @@
-import { ForbiddenError } from '../../../src/lib/errors';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../../src/lib/errors';
 import * as patientsService from '../../../src/services/patients.service';
 import * as patientsRepository from '../../../src/data/patients.repository';
-import { createMockAuthContext, createReadOnlyAuthContext } from '../../fixtures/auth';
+import {
+  createMockAuthContext,
+  createReadOnlyAuthContext,
+  createReceptionistAuthContext,
+} from '../../fixtures/auth';
+import { Scope } from '../../../src/types/auth';
 
 // Mock dependencies
 jest.mock('../../../src/data/patients.repository');
@@ -24,7 +34,7 @@ describe('patientsService', () => {
 
   describe('listPatients', () => {
     it('should return active patients for a clinic', async () => {
-      const auth = createMockAuthContext({ clinicId: 'clinic-abc' });
+      const auth = createReceptionistAuthContext({ clinicId: 'clinic-abc' });
       const mockPatients: patientsRepository.Patient[] = [
         {
           patientId: 'patient-1',
@@ -32,6 +42,7 @@ describe('patientsService', () => {
           firstName: 'John',
           lastName: 'Doe',
           status: 'active',
+          version: 1,
           createdAt: '2024-01-15T10:00:00.000Z',
           updatedAt: '2024-01-15T10:00:00.000Z',
         },
@@ -41,83 +52,94 @@ describe('patientsService', () => {
           firstName: 'Jane',
           lastName: 'Smith',
           status: 'active',
+          version: 1,
           createdAt: '2024-01-16T10:00:00.000Z',
           updatedAt: '2024-01-16T10:00:00.000Z',
         },
       ];
 
-      mockedRepository.listByClinic.mockResolvedValue(mockPatients);
+      mockedRepository.listByClinic.mockResolvedValue({ items: mockPatients, hasMore: false });
 
       const result = await patientsService.listPatients(auth);
 
-      expect(result).toHaveLength(2);
-      expect(result[0]!.patientId).toBe('patient-1');
-      expect(result[1]!.patientId).toBe('patient-2');
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0]!.patientId).toBe('patient-1');
+      expect(result.items[1]!.patientId).toBe('patient-2');
     });
 
-    it('should filter out inactive patients', async () => {
-      const auth = createMockAuthContext({ clinicId: 'clinic-abc' });
-      const mockPatients: patientsRepository.Patient[] = [
-        {
-          patientId: 'patient-1',
-          clinicId: 'clinic-abc',
-          firstName: 'John',
-          status: 'active',
-          createdAt: '2024-01-15T10:00:00.000Z',
-          updatedAt: '2024-01-15T10:00:00.000Z',
-        },
-        {
-          patientId: 'patient-2',
-          clinicId: 'clinic-abc',
-          firstName: 'Jane',
-          status: 'inactive',
-          createdAt: '2024-01-16T10:00:00.000Z',
-          updatedAt: '2024-01-16T10:00:00.000Z',
-        },
-        {
-          patientId: 'patient-3',
-          clinicId: 'clinic-abc',
-          firstName: 'Bob',
-          status: 'archived',
-          createdAt: '2024-01-17T10:00:00.000Z',
-          updatedAt: '2024-01-17T10:00:00.000Z',
-        },
-      ];
-
-      mockedRepository.listByClinic.mockResolvedValue(mockPatients);
+    it('should list active patients by default', async () => {
+      const auth = createReceptionistAuthContext({ clinicId: 'clinic-abc' });
+      mockedRepository.listByClinic.mockResolvedValue({
+        items: [],
+        nextCursor: 'next-cursor',
+        hasMore: true,
+      });
 
       const result = await patientsService.listPatients(auth);
 
-      expect(result).toHaveLength(1);
-      expect(result[0]!.patientId).toBe('patient-1');
+      expect(result).toEqual({ items: [], nextCursor: 'next-cursor', hasMore: true });
+      expect(mockedRepository.listByClinic).toHaveBeenCalledWith('clinic-abc', {
+        cursor: undefined,
+        limit: 20,
+        status: 'active',
+      });
+    });
+
+    it('should pass the cursor, limit and status filter to the repository', async () => {
+      const auth = createReceptionistAuthContext();
+      mockedRepository.listByClinic.mockResolvedValue({ items: [], hasMore: false });
+
+      await patientsService.listPatients(auth, { cursor: 'abc', limit: 5, status: 'archived' });
+
+      expect(mockedRepository.listByClinic).toHaveBeenCalledWith(auth.clinicId, {
+        cursor: 'abc',
+        limit: 5,
+        status: 'archived',
+      });
     });
 
-    it('should throw ForbiddenError when user lacks NOTES_READ scope', async () => {
-      const auth = createMockAuthContext({ scopes: [] });
+    it('should list every status for status=all', async () => {
+      const auth = createReceptionistAuthContext();
+      mockedRepository.listByClinic.mockResolvedValue({ items: [], hasMore: false });
+
+      await patientsService.listPatients(auth, { status: 'all' });
+
+      expect(mockedRepository.listByClinic).toHaveBeenCalledWith(auth.clinicId, {
+        cursor: undefined,
+        limit: 20,
+        status: undefined,
+      });
+    });
+
+    it('should throw ForbiddenError when user lacks PATIENTS_READ scope', async () => {
+      const auth = createReceptionistAuthContext({ scopes: [] });
 
       await expect(patientsService.listPatients(auth)).rejects.toThrow(ForbiddenError);
     });
 
     it('should return empty array when no patients found', async () => {
-      const auth = createMockAuthContext();
-      mockedRepository.listByClinic.mockResolvedValue([]);
+      const auth = createReceptionistAuthContext();
+      mockedRepository.listByClinic.mockResolvedValue({ items: [], hasMore: false });
 
       const result = await patientsService.listPatients(auth);
 
-      expect(result).toHaveLength(0);
+      expect(result.items).toHaveLength(0);
     });
 
     it('should call repository with correct clinic ID', async () => {
-      const auth = createMockAuthContext({ clinicId: 'clinic-xyz' });
-      mockedRepository.listByClinic.mockResolvedValue([]);
+      const auth = createReceptionistAuthContext({ clinicId: 'clinic-xyz' });
+      mockedRepository.listByClinic.mockResolvedValue({ items: [], hasMore: false });
 
       await patientsService.listPatients(auth);
 
-      expect(mockedRepository.listByClinic).toHaveBeenCalledWith('clinic-xyz');
+      expect(mockedRepository.listByClinic).toHaveBeenCalledWith(
+        'clinic-xyz',
+        expect.objectContaining({ status: 'active' })
+      );
     });
 
     it('should return PatientDTO without sensitive clinic data', async () => {
-      const auth = createMockAuthContext();
+      const auth = createReceptionistAuthContext();
       const mockPatients: patientsRepository.Patient[] = [
         {
           patientId: 'patient-1',
@@ -132,16 +154,17 @@ describe('patientsService', () => {
           insuranceProvider: 'Blue Cross',
           insuranceId: 'BC-123',
           status: 'active',
+          version: 1,
           createdAt: '2024-01-15T10:00:00.000Z',
           updatedAt: '2024-01-15T10:00:00.000Z',
         },
       ];
 
-      mockedRepository.listByClinic.mockResolvedValue(mockPatients);
+      mockedRepository.listByClinic.mockResolvedValue({ items: mockPatients, hasMore: false });
 
       const result = await patientsService.listPatients(auth);
 
-      expect(result[0]).toEqual({
+      expect(result.items[0]).toEqual({
         patientId: 'patient-1',
         firstName: 'John',
         lastName: 'Doe',
@@ -152,40 +175,444 @@ describe('patientsService', () => {
         status: 'active',
       });
       // Should not include clinicId, address, insurance in DTO
-      expect(result[0]).not.toHaveProperty('clinicId');
-      expect(result[0]).not.toHaveProperty('address');
-      expect(result[0]).not.toHaveProperty('insuranceProvider');
-      expect(result[0]).not.toHaveProperty('insuranceId');
-      expect(result[0]).not.toHaveProperty('createdAt');
-      expect(result[0]).not.toHaveProperty('updatedAt');
+      expect(result.items[0]).not.toHaveProperty('clinicId');
+      expect(result.items[0]).not.toHaveProperty('address');
+      expect(result.items[0]).not.toHaveProperty('insuranceProvider');
+      expect(result.items[0]).not.toHaveProperty('insuranceId');
+      expect(result.items[0]).not.toHaveProperty('createdAt');
+      expect(result.items[0]).not.toHaveProperty('updatedAt');
     });
 
-    it('should allow users with NOTES_READ scope', async () => {
-      const auth = createReadOnlyAuthContext();
-      mockedRepository.listByClinic.mockResolvedValue([]);
+    it('should allow users with only the PATIENTS_READ scope', async () => {
+      const auth = createMockAuthContext({ scopes: [Scope.PATIENTS_READ] });
+      mockedRepository.listByClinic.mockResolvedValue({ items: [], hasMore: false });
 
-      await expect(patientsService.listPatients(auth)).resolves.toEqual([]);
+      await expect(patientsService.listPatients(auth)).resolves.toEqual({
+        items: [],
+        nextCursor: undefined,
+        hasMore: false,
+      });
+    });
+
+    it('should throw ForbiddenError for users with only the NOTES_READ scope', async () => {
+      await expect(patientsService.listPatients(createReadOnlyAuthContext())).rejects.toThrow(
+        ForbiddenError
+      );
+      expect(mockedRepository.listByClinic).not.toHaveBeenCalled();
     });
 
     it('should handle patients with minimal data', async () => {
-      const auth = createMockAuthContext();
+      const auth = createReceptionistAuthContext();
       const mockPatients: patientsRepository.Patient[] = [
         {
           patientId: 'patient-1',
           clinicId: 'clinic-abc',
           status: 'active',
+          version: 1,
           createdAt: '2024-01-15T10:00:00.000Z',
           updatedAt: '2024-01-15T10:00:00.000Z',
         },
       ];
 
-      mockedRepository.listByClinic.mockResolvedValue(mockPatients);
+      mockedRepository.listByClinic.mockResolvedValue({ items: mockPatients, hasMore: false });
 
       const result = await patientsService.listPatients(auth);
 
-      expect(result[0]!.patientId).toBe('patient-1');
-      expect(result[0]!.firstName).toBeUndefined();
-      expect(result[0]!.lastName).toBeUndefined();
+      expect(result.items[0]!.patientId).toBe('patient-1');
+      expect(result.items[0]!.firstName).toBeUndefined();
+      expect(result.items[0]!.lastName).toBeUndefined();
+    });
+  });
+
+  describe('listPatients with search criteria', () => {
+    function searchPatient(
+      patientId: string,
+      firstName: string,
+      lastName: string,
+      status: patientsRepository.PatientStatus = 'active'
+    ): patientsRepository.Patient {
+      return {
+        patientId,
+        clinicId: 'clinic-abc',
+        firstName,
+        lastName,
+        status,
+        version: 1,
+        createdAt: '2024-01-15T10:00:00.000Z',
+        updatedAt: '2024-01-15T10:00:00.000Z',
+      };
+    }
+
+    const patients = [
+      searchPatient('patient-1', 'John', 'Smith'),
+      searchPatient('patient-2', 'Anna', 'Smithson'),
+      searchPatient('patient-3', 'Mary', 'Smyth'),
+      searchPatient('patient-4', 'Jo', 'Smith', 'archived'),
+    ];
+
+    // Index matches by `{field}#{value}`, the way the index stores them
+    const indexMatches: Record<string, patientsRepository.PatientSearchMatch[]> = {
+      'LAST#smi': [
+        { patientId: 'patient-1', value: 'smith' },
+        { patientId: 'patient-2', value: 'smithson' },
+        { patientId: 'patient-4', value: 'smith' },
+      ],
+      'LAST#smith': [
+        { patientId: 'patient-1', value: 'smith' },
+        { patientId: 'patient-2', value: 'smithson' },
+        { patientId: 'patient-4', value: 'smith' },
+      ],
+      'LAST_PHONETIC#S530': [
+        { patientId: 'patient-1', value: 'S530' },
+        { patientId: 'patient-3', value: 'S530' },
+        { patientId: 'patient-4', value: 'S530' },
+      ],
+      'FIRST#jo': [
+        { patientId: 'patient-1', value: 'john' },
+        { patientId: 'patient-4', value: 'jo' },
+      ],
+    };
+
+    beforeEach(() => {
+      mockedRepository.getSearchIndexVersion.mockResolvedValue(
+        patientsService.PATIENT_SEARCH_INDEX_VERSION
+      );
+      mockedRepository.findSearchMatches.mockImplementation(async (_clinicId, alternative) => {
+        return indexMatches[`${alternative.field}#${alternative.value}`] ?? [];
+      });
+      mockedRepository.findManyByIds.mockImplementation(async (_clinicId, patientIds) =>
+        patients.filter((patient) => patientIds.includes(patient.patientId))
+      );
+    });
+
+    it('should rank exact, then prefix, then phonetic name matches', async () => {
+      const auth = createReceptionistAuthContext({ clinicId: 'clinic-abc' });
+
+      const result = await patientsService.listPatients(auth, { lastName: 'Smith' });
+
+      expect(result.items.map((p) => p.patientId)).toEqual(['patient-1', 'patient-2', 'patient-3']);
+      expect(result.total).toBe(3);
+      expect(result.hasMore).toBe(false);
+      expect(mockedRepository.listByClinic).not.toHaveBeenCalled();
+      expect(mockedRepository.findSearchMatches).toHaveBeenCalledWith('clinic-abc', {
+        field: 'LAST_PHONETIC',
+        value: 'S530',
+        prefix: false,
+      });
+    });
+
+    it('should only return patients matching every term', async () => {
+      const auth = createReceptionistAuthContext();
+
+      const result = await patientsService.listPatients(auth, { q: 'smi jo', status: 'all' });
+
+      expect(result.items.map((p) => p.patientId)).toEqual(['patient-4', 'patient-1']);
+    });
+
+    it('should filter by status before paginating', async () => {
+      const auth = createReceptionistAuthContext();
+
+      const active = await patientsService.listPatients(auth, { lastName: 'Smith' });
+      const archived = await patientsService.listPatients(auth, {
+        lastName: 'Smith',
+        status: 'archived',
+      });
+
+      expect(active.items.map((p) => p.patientId)).not.toContain('patient-4');
+      expect(archived.items.map((p) => p.patientId)).toEqual(['patient-4']);
+      expect(archived.total).toBe(1);
+    });
+
+    it('should page through the ranked results with a cursor', async () => {
+      const auth = createReceptionistAuthContext();
+
+      const firstPage = await patientsService.listPatients(auth, { lastName: 'Smith', limit: 2 });
+      expect(firstPage.items.map((p) => p.patientId)).toEqual(['patient-1', 'patient-2']);
+      expect(firstPage.hasMore).toBe(true);
+
+      const secondPage = await patientsService.listPatients(auth, {
+        lastName: 'Smith',
+        limit: 2,
+        cursor: firstPage.nextCursor,
+      });
+      expect(secondPage.items.map((p) => p.patientId)).toEqual(['patient-3']);
+      expect(secondPage.hasMore).toBe(false);
+      expect(secondPage.nextCursor).toBeUndefined();
+    });
+
+    it('should reject a cursor issued for another search', async () => {
+      const auth = createReceptionistAuthContext();
+      const page = await patientsService.listPatients(auth, { lastName: 'Smith', limit: 1 });
+
+      await expect(
+        patientsService.listPatients(auth, { lastName: 'Smyth', limit: 1, cursor: page.nextCursor })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should index existing patients on the first search of the clinic', async () => {
+      const auth = createReceptionistAuthContext({ clinicId: 'clinic-abc' });
+      mockedRepository.getSearchIndexVersion.mockResolvedValue(0);
+      mockedRepository.listByClinic
+        .mockResolvedValueOnce({ items: patients.slice(0, 2), nextCursor: 'next', hasMore: true })
+        .mockResolvedValueOnce({ items: patients.slice(2), hasMore: false });
+
+      await patientsService.listPatients(auth, { lastName: 'Smith' });
+
+      expect(mockedRepository.listByClinic).toHaveBeenNthCalledWith(2, 'clinic-abc', {
+        cursor: 'next',
+        limit: 100,
+      });
+      expect(mockedRepository.indexPatients).toHaveBeenCalledTimes(2);
+      expect(mockedRepository.markSearchIndexBuilt).toHaveBeenCalledWith(
+        'clinic-abc',
+        patientsService.PATIENT_SEARCH_INDEX_VERSION
+      );
+    });
+
+    it('should not rebuild an index that is up to date', async () => {
+      await patientsService.listPatients(createReceptionistAuthContext(), { phone: '555-1234' });
+
+      expect(mockedRepository.indexPatients).not.toHaveBeenCalled();
+      expect(mockedRepository.markSearchIndexBuilt).not.toHaveBeenCalled();
+    });
+
+    it("should only search the user's clinic", async () => {
+      const auth = createReceptionistAuthContext({ clinicId: 'clinic-xyz' });
+
+      await patientsService.listPatients(auth, { q: 'smith' });
+
+      expect(mockedRepository.getSearchIndexVersion).toHaveBeenCalledWith('clinic-xyz');
+      for (const [clinicId] of mockedRepository.findSearchMatches.mock.calls) {
+        expect(clinicId).toBe('clinic-xyz');
+      }
+      expect(mockedRepository.findManyByIds).toHaveBeenCalledWith('clinic-xyz', expect.any(Array));
+    });
+
+    it('should reject a search without searchable terms', async () => {
+      await expect(
+        patientsService.listPatients(createReceptionistAuthContext(), { q: '...' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockedRepository.findSearchMatches).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError without PATIENTS_READ scope', async () => {
+      const auth = createReceptionistAuthContext({ scopes: [] });
+
+      await expect(patientsService.listPatients(auth, { q: 'smith' })).rejects.toThrow(
+        ForbiddenError
+      );
+    });
+  });
+
+  const storedPatient: patientsRepository.Patient = {
+    patientId: 'patient-123',
+    clinicId: 'clinic-abc',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    dateOfBirth: '1985-03-20',
+    phone: '555-5678',
+    address: '1 Main St',
+    status: 'active',
+    version: 2,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-16T10:00:00.000Z',
+    createdBy: 'user-1',
+    updatedBy: 'user-2',
+  };
+
+  describe('createPatient', () => {
+    it('should register an active patient in the clinic', async () => {
+      const auth = createReceptionistAuthContext();
+      mockedRepository.create.mockImplementation((patient) =>
+        Promise.resolve({
+          ...patient,
+          version: 1,
+          createdAt: '2024-01-15T10:00:00.000Z',
+          updatedAt: '2024-01-15T10:00:00.000Z',
+        })
+      );
+
+      const result = await patientsService.createPatient(auth, {
+        firstName: 'Jane',
+        lastName: 'Smith',
+        dateOfBirth: '1985-03-20',
+        insuranceId: 'INS-1',
+      });
+
+      expect(mockedRepository.create).toHaveBeenCalledWith({
+        patientId: expect.any(String),
+        clinicId: auth.clinicId,
+        firstName: 'Jane',
+        lastName: 'Smith',
+        dateOfBirth: '1985-03-20',
+        insuranceId: 'INS-1',
+        status: 'active',
+        createdBy: auth.userId,
+      });
+      expect(result).toMatchObject({
+        firstName: 'Jane',
+        insuranceId: 'INS-1',
+        status: 'active',
+        version: 1,
+        createdBy: auth.userId,
+      });
+      expect(result).not.toHaveProperty('clinicId');
+    });
+
+    it('should throw ForbiddenError when user lacks PATIENTS_WRITE scope', async () => {
+      await expect(
+        patientsService.createPatient(createMockAuthContext(), {
+          firstName: 'Jane',
+          lastName: 'Smith',
+          dateOfBirth: '1985-03-20',
+        })
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPatient', () => {
+    it('should return the patient with address, insurance and version', async () => {
+      const auth = createReceptionistAuthContext();
+      mockedRepository.findById.mockResolvedValue(storedPatient);
+
+      const result = await patientsService.getPatient(auth, 'patient-123');
+
+      expect(result).toMatchObject({
+        patientId: 'patient-123',
+        address: '1 Main St',
+        version: 2,
+        updatedBy: 'user-2',
+      });
+      expect(mockedRepository.findById).toHaveBeenCalledWith(auth.clinicId, 'patient-123');
+    });
+
+    it('should throw NotFoundError when the patient is not in the clinic', async () => {
+      mockedRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        patientsService.getPatient(createReceptionistAuthContext(), 'patient-999')
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ForbiddenError when user lacks PATIENTS_READ scope', async () => {
+      await expect(
+        patientsService.getPatient(createReadOnlyAuthContext(), 'patient-123')
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+
+  describe('updatePatient', () => {
+    it('should apply the changes at the expected version', async () => {
+      const auth = createReceptionistAuthContext();
+      mockedRepository.findById.mockResolvedValue(storedPatient);
+      mockedRepository.update.mockResolvedValue({
+        ...storedPatient,
+        lastName: 'Jones',
+        phone: undefined,
+        version: 3,
+      });
+
+      const result = await patientsService.updatePatient(auth, 'patient-123', {
+        lastName: 'Jones',
+        phone: null,
+        version: 2,
+      });
+
+      expect(result.version).toBe(3);
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        2,
+        { lastName: 'Jones', phone: null },
+        auth.userId
+      );
+    });
+
+    it('should refuse to edit an archived patient', async () => {
+      mockedRepository.findById.mockResolvedValue({ ...storedPatient, status: 'archived' });
+
+      await expect(
+        patientsService.updatePatient(createReceptionistAuthContext(), 'patient-123', {
+          firstName: 'Janet',
+          version: 2,
+        })
+      ).rejects.toThrow(ConflictError);
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError when user lacks PATIENTS_WRITE scope', async () => {
+      await expect(
+        patientsService.updatePatient(createMockAuthContext(), 'patient-123', {
+          firstName: 'Janet',
+          version: 2,
+        })
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePatientStatus', () => {
+    it('should move the patient to the new status with the reason', async () => {
+      const auth = createReceptionistAuthContext();
+      mockedRepository.findById.mockResolvedValue(storedPatient);
+      mockedRepository.update.mockResolvedValue({
+        ...storedPatient,
+        status: 'inactive',
+        statusReason: 'Moved away',
+        version: 3,
+      });
+
+      const result = await patientsService.changePatientStatus(auth, 'patient-123', {
+        status: 'inactive',
+        reason: 'Moved away',
+        version: 2,
+      });
+
+      expect(result).toMatchObject({ status: 'inactive', statusReason: 'Moved away' });
+      expect(mockedRepository.update).toHaveBeenCalledWith(
+        auth.clinicId,
+        'patient-123',
+        2,
+        { status: 'inactive', statusReason: 'Moved away' },
+        auth.userId
+      );
+    });
+
+    it('should reactivate an archived patient', async () => {
+      mockedRepository.findById.mockResolvedValue({ ...storedPatient, status: 'archived' });
+      mockedRepository.update.mockResolvedValue({ ...storedPatient, version: 3 });
+
+      await expect(
+        patientsService.changePatientStatus(createReceptionistAuthContext(), 'patient-123', {
+          status: 'active',
+          version: 2,
+        })
+      ).resolves.toMatchObject({ status: 'active' });
+    });
+
+    it.each([
+      ['archived', 'inactive'],
+      ['active', 'active'],
+    ] as const)('should reject a change from %s to %s', async (from, to) => {
+      mockedRepository.findById.mockResolvedValue({ ...storedPatient, status: from });
+
+      await expect(
+        patientsService.changePatientStatus(createReceptionistAuthContext(), 'patient-123', {
+          status: to,
+          version: 2,
+        })
+      ).rejects.toThrow(`Cannot change patient status from ${from} to ${to}`);
+      expect(mockedRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenError when user lacks PATIENTS_WRITE scope', async () => {
+      await expect(
+        patientsService.changePatientStatus(createMockAuthContext(), 'patient-123', {
+          status: 'inactive',
+          version: 2,
+        })
+      ).rejects.toThrow(ForbiddenError);
     });
   });
 });
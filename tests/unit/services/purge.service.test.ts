@@ -0,0 +1,229 @@
+import * as purgeService from '../../../src/services/purge.service';
+import * as notesRepository from '../../../src/data/notes.repository';
+import * as clinicsRepository from '../../../src/data/clinics.repository';
+import * as attachmentsRepository from '../../../src/data/attachments.repository';
+import * as purgeRepository from '../../../src/data/purge.repository';
+import { createMockNote, createMockAttachment } from '../../fixtures/notes';
+
+// Mock dependencies
+jest.mock('../../../src/data/notes.repository');
+jest.mock('../../../src/data/clinics.repository');
+jest.mock('../../../src/data/attachments.repository');
+jest.mock('../../../src/data/purge.repository');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn(),
+  },
+}));
+
+const mockedNotesRepository = notesRepository as jest.Mocked<typeof notesRepository>;
+const mockedClinicsRepository = clinicsRepository as jest.Mocked<typeof clinicsRepository>;
+const mockedAttachmentsRepository = attachmentsRepository as jest.Mocked<
+  typeof attachmentsRepository
+>;
+const mockedPurgeRepository = purgeRepository as jest.Mocked<typeof purgeRepository>;
+
+describe('purgeService', () => {
+  const now = new Date('2024-03-15T00:00:00.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPurgeRepository.getCheckpoint.mockResolvedValue(undefined);
+    mockedClinicsRepository.findById.mockResolvedValue(null);
+    mockedAttachmentsRepository.deleteNoteObjects.mockResolvedValue(0);
+    mockedNotesRepository.hardDeleteRevisions.mockResolvedValue(0);
+    mockedNotesRepository.claimForPurge.mockResolvedValue(true);
+  });
+
+  describe('purgeDeletedNotes', () => {
+    it('should purge notes deleted longer ago than the default retention', async () => {
+      const note = createMockNote({
+        noteId: 'expired-note',
+        deletedAt: '2024-01-01T00:00:00.000Z',
+        deletedBy: 'user-123',
+        attachments: [createMockAttachment({ id: 'attach-1' })],
+      });
+      mockedNotesRepository.scanDeleted.mockResolvedValue({ items: [note] });
+      mockedAttachmentsRepository.deleteNoteObjects.mockResolvedValue(2);
+      mockedNotesRepository.hardDeleteRevisions.mockResolvedValue(3);
+
+      const result = await purgeService.purgeDeletedNotes({ now });
+
+      expect(result).toEqual({
+        scanned: 1,
+        purged: 1,
+        retained: 0,
+        skipped: 0,
+        failed: 0,
+        completed: true,
+      });
+      expect(mockedNotesRepository.claimForPurge).toHaveBeenCalledWith(
+        'clinic-abc',
+        'patient-123',
+        'expired-note',
+        '2024-01-15',
+        '2024-01-01T00:00:00.000Z',
+        '2024-03-15T00:00:00.000Z'
+      );
+      expect(mockedAttachmentsRepository.deleteNoteObjects).toHaveBeenCalledWith(
+        'clinic-abc',
+        'patient-123',
+        'expired-note'
+      );
+      expect(mockedPurgeRepository.recordTombstone).toHaveBeenCalledWith(
+        expect.objectContaining({
+          noteId: 'expired-note',
+          deletedAt: '2024-01-01T00:00:00.000Z',
+          attachmentIds: ['attach-1'],
+        }),
+        '2024-03-15T00:00:00.000Z',
+        2,
+        3
+      );
+      expect(mockedNotesRepository.hardDelete).toHaveBeenCalledWith(
+        'clinic-abc',
+        'patient-123',
+        'expired-note',
+        '2024-01-15',
+        '2024-01-01T00:00:00.000Z'
+      );
+      expect(mockedPurgeRepository.saveCheckpoint).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should keep notes still inside the retention period', async () => {
+      const note = createMockNote({ deletedAt: '2024-03-01T00:00:00.000Z', deletedBy: 'user-123' });
+      mockedNotesRepository.scanDeleted.mockResolvedValue({ items: [note] });
+
+      const result = await purgeService.purgeDeletedNotes({ now });
+
+      expect(result.retained).toBe(1);
+      expect(result.purged).toBe(0);
+      expect(mockedNotesRepository.hardDelete).not.toHaveBeenCalled();
+    });
+
+    it('should apply the clinic retention setting', async () => {
+      const note = createMockNote({ deletedAt: '2024-03-01T00:00:00.000Z', deletedBy: 'user-123' });
+      mockedNotesRepository.scanDeleted.mockResolvedValue({ items: [note, { ...note }] });
+      mockedClinicsRepository.findById.mockResolvedValue({
+        clinicId: 'clinic-abc',
+        name: 'Test Clinic',
+        deletedNoteRetentionDays: 7,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        status: 'active',
+      });
+
+      const result = await purgeService.purgeDeletedNotes({ now });
+
+      expect(result.purged).toBe(2);
+      expect(mockedClinicsRepository.findById).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove attachments and revisions before the note item', async () => {
+      const calls: string[] = [];
+      mockedNotesRepository.claimForPurge.mockImplementation(async () => {
+        calls.push('claim');
+        return true;
+      });
+      mockedNotesRepository.scanDeleted.mockResolvedValue({
+        items: [createMockNote({ deletedAt: '2024-01-01T00:00:00.000Z', deletedBy: 'user-123' })],
+      });
+      mockedAttachmentsRepository.deleteNoteObjects.mockImplementation(async () => {
+        calls.push('objects');
+        return 0;
+      });
+      mockedNotesRepository.hardDeleteRevisions.mockImplementation(async () => {
+        calls.push('revisions');
+        return 0;
+      });
+      mockedPurgeRepository.recordTombstone.mockImplementation(async () => {
+        calls.push('tombstone');
+      });
+      mockedNotesRepository.hardDelete.mockImplementation(async () => {
+        calls.push('note');
+      });
+
+      await purgeService.purgeDeletedNotes({ now });
+
+      expect(calls).toEqual(['claim', 'objects', 'revisions', 'tombstone', 'note']);
+    });
+
+    it('should skip a note restored or deleted again since the scan', async () => {
+      mockedNotesRepository.scanDeleted.mockResolvedValue({
+        items: [createMockNote({ deletedAt: '2024-01-01T00:00:00.000Z', deletedBy: 'user-123' })],
+      });
+      mockedNotesRepository.claimForPurge.mockResolvedValue(false);
+
+      const result = await purgeService.purgeDeletedNotes({ now });
+
+      expect(result).toEqual(expect.objectContaining({ scanned: 1, purged: 0, skipped: 1 }));
+      expect(mockedAttachmentsRepository.deleteNoteObjects).not.toHaveBeenCalled();
+      expect(mockedNotesRepository.hardDeleteRevisions).not.toHaveBeenCalled();
+      expect(mockedPurgeRepository.recordTombstone).not.toHaveBeenCalled();
+      expect(mockedNotesRepository.hardDelete).not.toHaveBeenCalled();
+    });
+
+    it('should count a failed note and carry on with the rest', async () => {
+      mockedNotesRepository.scanDeleted.mockResolvedValue({
+        items: [
+          createMockNote({ noteId: 'bad', deletedAt: '2024-01-01T00:00:00.000Z' }),
+          createMockNote({ noteId: 'good', deletedAt: '2024-01-01T00:00:00.000Z' }),
+        ],
+      });
+      mockedAttachmentsRepository.deleteNoteObjects.mockRejectedValueOnce(new Error('S3 down'));
+
+      const result = await purgeService.purgeDeletedNotes({ now });
+
+      expect(result.failed).toBe(1);
+      expect(result.purged).toBe(1);
+      expect(mockedNotesRepository.hardDelete).toHaveBeenCalledTimes(1);
+      expect(mockedNotesRepository.hardDelete).toHaveBeenCalledWith(
+        'clinic-abc',
+        'patient-123',
+        'good',
+        '2024-01-15',
+        '2024-01-01T00:00:00.000Z'
+      );
+    });
+
+    it('should resume from the stored checkpoint and save progress after each page', async () => {
+      mockedPurgeRepository.getCheckpoint.mockResolvedValue({ PK: 'a', SK: 'a' });
+      mockedNotesRepository.scanDeleted
+        .mockResolvedValueOnce({ items: [], lastEvaluatedKey: { PK: 'b', SK: 'b' } })
+        .mockResolvedValueOnce({ items: [] });
+
+      const result = await purgeService.purgeDeletedNotes({ now, pageSize: 25 });
+
+      expect(result.completed).toBe(true);
+      expect(mockedNotesRepository.scanDeleted).toHaveBeenNthCalledWith(
+        1,
+        { PK: 'a', SK: 'a' },
+        25
+      );
+      expect(mockedNotesRepository.scanDeleted).toHaveBeenNthCalledWith(
+        2,
+        { PK: 'b', SK: 'b' },
+        25
+      );
+      expect(mockedPurgeRepository.saveCheckpoint).toHaveBeenNthCalledWith(1, { PK: 'b', SK: 'b' });
+      expect(mockedPurgeRepository.saveCheckpoint).toHaveBeenNthCalledWith(2, undefined);
+    });
+
+    it('should stop early when told to and leave the checkpoint in place', async () => {
+      mockedNotesRepository.scanDeleted.mockResolvedValue({
+        items: [],
+        lastEvaluatedKey: { PK: 'b', SK: 'b' },
+      });
+
+      const result = await purgeService.purgeDeletedNotes({ now, shouldContinue: () => false });
+
+      expect(result.completed).toBe(false);
+      expect(mockedNotesRepository.scanDeleted).toHaveBeenCalledTimes(1);
+      expect(mockedPurgeRepository.saveCheckpoint).toHaveBeenCalledWith({ PK: 'b', SK: 'b' });
+    });
+  });
+});
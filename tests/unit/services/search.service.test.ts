@@ -0,0 +1,497 @@
+import * as searchService from '../../../src/services/search.service';
+import * as notesRepository from '../../../src/data/notes.repository';
+import * as searchPendingRepository from '../../../src/data/search-pending.repository';
+import { PendingIndexChange } from '../../../src/data/search-pending.repository';
+import {
+  SEARCH_INDEX_VERSION,
+  setSearchIndex,
+  SearchIndexBackend,
+} from '../../../src/data/search-index';
+import { createInMemorySearchIndex } from '../../../src/data/search-index.memory';
+import { TooManyRequestsError, ValidationError } from '../../../src/lib/errors';
+import { analyzeNote } from '../../../src/lib/text-search';
+import { Note } from '../../../src/types';
+import { createMockAttachment, createMockNote } from '../../fixtures/notes';
+
+jest.mock('../../../src/data/notes.repository');
+jest.mock('../../../src/data/search-pending.repository');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    setContext: jest.fn(),
+  },
+}));
+
+const mockedRepository = notesRepository as jest.Mocked<typeof notesRepository>;
+const mockedPendingRepository = searchPendingRepository as jest.Mocked<
+  typeof searchPendingRepository
+>;
+
+describe('searchService', () => {
+  let index: SearchIndexBackend;
+  let stored: Map<string, Note>;
+  let pending: Map<string, PendingIndexChange>;
+
+  const scope = { clinicId: 'clinic-abc', patientId: 'patient-123' };
+
+  /** Stands in for a note write: the note is stored with its pending marker */
+  function writeNote(note: Note): void {
+    stored.set(note.noteId, note);
+    pending.set(note.noteId, {
+      noteId: note.noteId,
+      studyDate: note.studyDate,
+      changeId: `change-${pending.size}`,
+    });
+  }
+
+  async function addNotes(...notes: Note[]): Promise<void> {
+    for (const note of notes) {
+      writeNote(note);
+      await searchService.syncNoteIndex(note);
+    }
+  }
+
+  function noteIds(items: { note: Note }[]): string[] {
+    return items.map((item) => item.note.noteId);
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    index = createInMemorySearchIndex();
+    setSearchIndex(index);
+    await index.markInitialized(scope, SEARCH_INDEX_VERSION);
+
+    stored = new Map();
+    pending = new Map();
+    mockedRepository.findById.mockImplementation((_clinicId, _patientId, noteId) =>
+      Promise.resolve(stored.get(noteId) ?? null)
+    );
+    mockedPendingRepository.find.mockImplementation((_scope, noteId) =>
+      Promise.resolve(pending.get(noteId))
+    );
+    mockedPendingRepository.list.mockImplementation(() => Promise.resolve([...pending.values()]));
+    mockedPendingRepository.clear.mockImplementation((_scope, change) => {
+      if (pending.get(change.noteId)?.changeId === change.changeId) {
+        pending.delete(change.noteId);
+      }
+      return Promise.resolve();
+    });
+    mockedRepository.findManyByIds.mockImplementation((_clinicId, _patientId, keys) =>
+      Promise.resolve(
+        keys.map((key) => stored.get(key.noteId)).filter((note): note is Note => !!note)
+      )
+    );
+  });
+
+  afterAll(() => {
+    setSearchIndex(undefined);
+  });
+
+  describe('searchNotes', () => {
+    it('should require every term to match', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'both', content: 'Severe apnea, started CPAP.' }),
+        createMockNote({ noteId: 'apnea-only', content: 'Mild apnea.' }),
+        createMockNote({ noteId: 'cpap-only', content: 'CPAP mask refit.' })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea cpap',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['both']);
+    });
+
+    it('should rank notes with more and title matches first', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'passing', title: 'Visit', content: 'Insomnia noted once.' }),
+        createMockNote({
+          noteId: 'focused',
+          title: 'Insomnia review',
+          content: 'Insomnia persists; insomnia diary reviewed.',
+        })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'insomnia',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['focused', 'passing']);
+      expect(result.items[0]?.score).toBeGreaterThan(result.items[1]?.score ?? Infinity);
+    });
+
+    it('should match phrases only when the words are adjacent', async () => {
+      await addNotes(
+        createMockNote({
+          noteId: 'phrase',
+          content: 'Findings consistent with central sleep apnea.',
+        }),
+        createMockNote({ noteId: 'scattered', content: 'Sleep was poor; apnea is central.' })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: '"central sleep apnea"',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['phrase']);
+    });
+
+    it('should match prefixes against every expansion', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'titration', content: 'CPAP titration completed.' }),
+        createMockNote({ noteId: 'titrated', content: 'Pressure titrated to 9.' }),
+        createMockNote({ noteId: 'other', content: 'Title only mention.' })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'titra*',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items).sort()).toEqual(['titrated', 'titration']);
+    });
+
+    it('should return highlighted snippets', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'note-1', content: 'Patient reports loud snoring nightly.' })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'snoring',
+        limit: 10,
+      });
+
+      const snippet = result.items[0]?.snippet;
+      expect(snippet?.field).toBe('content');
+      const [highlight] = snippet?.highlights ?? [];
+      expect(snippet?.text.slice(highlight?.start, highlight?.end)).toBe('snoring');
+    });
+
+    it('should fall back to a title snippet', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'note-1', title: 'Narcolepsy screen', content: 'MSLT ordered.' })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'narcolepsy',
+        limit: 10,
+      });
+
+      expect(result.items[0]?.snippet?.field).toBe('title');
+    });
+
+    it('should page through every match exactly once', async () => {
+      const notes = Array.from({ length: 7 }, (_, i) =>
+        createMockNote({
+          noteId: `note-${i}`,
+          studyDate: `2024-01-0${i + 1}`,
+          content: `Follow-up visit ${i}: apnea ${'stable '.repeat(i)}`,
+        })
+      );
+      await addNotes(...notes);
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await searchService.searchNotes('clinic-abc', 'patient-123', {
+          q: 'apnea',
+          limit: 3,
+          cursor,
+        });
+        seen.push(...noteIds(page.items));
+        expect(page.total).toBe(7);
+        cursor = page.nextCursor;
+        pages++;
+        expect(page.hasMore).toBe(cursor !== undefined);
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect([...seen].sort()).toEqual(notes.map((note) => note.noteId).sort());
+      expect(new Set(seen).size).toBe(7);
+    });
+
+    it('should reject a cursor from a different query', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'note-1', content: 'apnea insomnia' }),
+        createMockNote({ noteId: 'note-2', content: 'apnea insomnia' })
+      );
+      const page = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 1,
+      });
+
+      await expect(
+        searchService.searchNotes('clinic-abc', 'patient-123', {
+          q: 'insomnia',
+          limit: 1,
+          cursor: page.nextCursor,
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should apply studyDate and tag filters before paginating', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'old', studyDate: '2023-05-01', content: 'apnea', tags: ['psg'] }),
+        createMockNote({
+          noteId: 'new-psg',
+          studyDate: '2024-05-01',
+          content: 'apnea',
+          tags: ['psg'],
+        }),
+        createMockNote({
+          noteId: 'new-hst',
+          studyDate: '2024-06-01',
+          content: 'apnea',
+          tags: ['hst'],
+        })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 1,
+        studyDateFrom: '2024-01-01',
+        tag: 'psg',
+      });
+
+      expect(noteIds(result.items)).toEqual(['new-psg']);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeUndefined();
+    });
+
+    it('should apply noteType, author, multi-tag and attachment filters', async () => {
+      await addNotes(
+        createMockNote({
+          noteId: 'study',
+          noteType: 'study_result',
+          content: 'apnea',
+          tags: ['psg', 'cpap'],
+          attachments: [createMockAttachment()],
+        }),
+        createMockNote({
+          noteId: 'follow-up',
+          noteType: 'follow_up',
+          createdBy: 'user-456',
+          content: 'apnea',
+          tags: ['cpap'],
+        })
+      );
+
+      const search = (filters: Partial<searchService.SearchNotesOptions>) =>
+        searchService
+          .searchNotes('clinic-abc', 'patient-123', { q: 'apnea', limit: 10, ...filters })
+          .then((result) => noteIds(result.items).sort());
+
+      await expect(search({ noteType: 'follow_up' })).resolves.toEqual(['follow-up']);
+      await expect(search({ createdBy: 'user-456' })).resolves.toEqual(['follow-up']);
+      await expect(search({ tags: ['psg', 'cpap'] })).resolves.toEqual(['follow-up', 'study']);
+      await expect(search({ tags: ['psg', 'cpap'], tagMatch: 'all' })).resolves.toEqual(['study']);
+      await expect(search({ hasAttachments: true })).resolves.toEqual(['study']);
+      await expect(search({ hasAttachments: false })).resolves.toEqual(['follow-up']);
+    });
+
+    it('should never return notes of another patient', async () => {
+      await addNotes(
+        createMockNote({ noteId: 'mine', content: 'apnea' }),
+        createMockNote({ noteId: 'theirs', patientId: 'patient-999', content: 'apnea' })
+      );
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['mine']);
+      expect(mockedRepository.findManyByIds).toHaveBeenCalledWith('clinic-abc', 'patient-123', [
+        expect.objectContaining({ noteId: 'mine' }),
+      ]);
+    });
+
+    it('should drop notes removed from the index', async () => {
+      const note = createMockNote({ noteId: 'note-1', content: 'apnea' });
+      await addNotes(note);
+      writeNote(note);
+      stored.delete(note.noteId);
+      await searchService.syncNoteIndex(note);
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 10,
+      });
+
+      expect(result.items).toEqual([]);
+    });
+
+    it('should reflect edits after re-indexing', async () => {
+      const note = createMockNote({ noteId: 'note-1', content: 'apnea' });
+      await addNotes(note);
+      await addNotes({ ...note, content: 'insomnia' });
+
+      const apnea = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 10,
+      });
+      const insomnia = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'insomnia',
+        limit: 10,
+      });
+
+      expect(apnea.items).toEqual([]);
+      expect(noteIds(insomnia.items)).toEqual(['note-1']);
+    });
+
+    it('should build the index from existing notes on first search', async () => {
+      index = createInMemorySearchIndex();
+      setSearchIndex(index);
+      const existing = createMockNote({ noteId: 'legacy', content: 'Legacy apnea note' });
+      stored.set(existing.noteId, existing);
+      mockedRepository.list.mockResolvedValue({ items: [existing], hasMore: false });
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'legacy',
+        limit: 10,
+      });
+
+      expect(mockedRepository.list).toHaveBeenCalledWith('clinic-abc', 'patient-123', {
+        cursor: undefined,
+        limit: 100,
+      });
+      expect(noteIds(result.items)).toEqual(['legacy']);
+      expect((await index.getStats(scope)).initialized).toBe(true);
+    });
+
+    it('should rebuild an index built by an older version', async () => {
+      const existing = createMockNote({
+        noteId: 'typed',
+        noteType: 'consultation',
+        content: 'apnea',
+      });
+      stored.set(existing.noteId, existing);
+      await index.putDocument(scope, { ...analyzeNote(existing), noteType: undefined });
+      await index.markInitialized(scope, SEARCH_INDEX_VERSION - 1);
+      mockedRepository.list.mockResolvedValue({ items: [existing], hasMore: false });
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 10,
+        noteType: 'consultation',
+      });
+
+      expect(noteIds(result.items)).toEqual(['typed']);
+      expect((await index.getStats(scope)).version).toBe(SEARCH_INDEX_VERSION);
+    });
+
+    it('should reject queries without searchable terms', async () => {
+      await expect(
+        searchService.searchNotes('clinic-abc', 'patient-123', { q: '"" !!', limit: 10 })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should apply changes left pending before searching', async () => {
+      const note = createMockNote({ noteId: 'note-1', content: 'apnea' });
+      writeNote(note);
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['note-1']);
+      expect(result.total).toBe(1);
+      expect(pending.size).toBe(0);
+    });
+
+    it('should search even when a pending change cannot be applied yet', async () => {
+      await addNotes(createMockNote({ noteId: 'note-1', content: 'apnea' }));
+      writeNote(createMockNote({ noteId: 'note-2', content: 'apnea' }));
+      mockedRepository.findById.mockRejectedValueOnce(new Error('throttled'));
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'apnea',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['note-1']);
+      expect([...pending.keys()]).toEqual(['note-2']);
+    });
+
+    it('should ask callers to retry while another caller builds the index', async () => {
+      index = createInMemorySearchIndex();
+      setSearchIndex(index);
+      await index.claimBuild(scope, 60);
+
+      await expect(
+        searchService.searchNotes('clinic-abc', 'patient-123', { q: 'apnea', limit: 10 })
+      ).rejects.toThrow(TooManyRequestsError);
+      expect(mockedRepository.list).not.toHaveBeenCalled();
+    });
+
+    it('should apply writes made during a build once the notes are listed', async () => {
+      index = createInMemorySearchIndex();
+      setSearchIndex(index);
+      const listed = createMockNote({ noteId: 'note-1', content: 'apnea' });
+      stored.set(listed.noteId, listed);
+      mockedRepository.list.mockImplementation(async () => {
+        // Edited while the build lists it; applying the edit leaves its marker to the build
+        const edited = { ...listed, content: 'insomnia' };
+        writeNote(edited);
+        await searchService.syncNoteIndex(edited);
+        expect(pending.size).toBe(1);
+        return { items: [listed], hasMore: false };
+      });
+
+      const result = await searchService.searchNotes('clinic-abc', 'patient-123', {
+        q: 'insomnia',
+        limit: 10,
+      });
+
+      expect(noteIds(result.items)).toEqual(['note-1']);
+      expect(pending.size).toBe(0);
+      expect((await index.getStats(scope)).building).toBe(false);
+    });
+
+    it('should release the build lease when the build fails', async () => {
+      index = createInMemorySearchIndex();
+      setSearchIndex(index);
+      mockedRepository.list.mockRejectedValueOnce(new Error('throttled'));
+
+      await expect(
+        searchService.searchNotes('clinic-abc', 'patient-123', { q: 'apnea', limit: 10 })
+      ).rejects.toThrow('throttled');
+      expect((await index.getStats(scope)).building).toBe(false);
+    });
+  });
+
+  describe('syncNoteIndex', () => {
+    it('should clear the marker once the change is indexed', async () => {
+      await addNotes(createMockNote({ noteId: 'note-1', content: 'apnea' }));
+
+      expect(pending.size).toBe(0);
+      expect(mockedRepository.findById).toHaveBeenCalledWith(
+        'clinic-abc',
+        'patient-123',
+        'note-1',
+        '2024-01-15',
+        true
+      );
+    });
+
+    it('should log failures and leave the marker for the next search', async () => {
+      setSearchIndex({
+        ...createInMemorySearchIndex(),
+        putDocument: jest.fn().mockRejectedValue(new Error('throttled')),
+      });
+      const note = createMockNote();
+      writeNote(note);
+
+      await expect(searchService.syncNoteIndex(note)).resolves.toBeUndefined();
+      expect(pending.has(note.noteId)).toBe(true);
+      expect(mockedPendingRepository.clear).not.toHaveBeenCalled();
+    });
+  });
+});
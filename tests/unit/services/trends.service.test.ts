@@ -0,0 +1,121 @@
+import * as trendsService from '../../../src/services/trends.service';
+import * as notesRepository from '../../../src/data/notes.repository';
+import * as patientAccess from '../../../src/lib/patient-access';
+import { ForbiddenError } from '../../../src/lib/errors';
+import { createMockAuthContext } from '../../fixtures/auth';
+import { createMockNote } from '../../fixtures/notes';
+
+jest.mock('../../../src/data/notes.repository');
+jest.mock('../../../src/lib/patient-access');
+jest.mock('../../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedRepository = notesRepository as jest.Mocked<typeof notesRepository>;
+const mockedPatientAccess = patientAccess as jest.Mocked<typeof patientAccess>;
+
+describe('trendsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedPatientAccess.assertPatientAccess.mockResolvedValue(undefined);
+  });
+
+  describe('getPatientTrends', () => {
+    it('should read every page of study results in the range, oldest first', async () => {
+      const auth = createMockAuthContext();
+      mockedRepository.list
+        .mockResolvedValueOnce({
+          items: [
+            createMockNote({
+              noteId: 'note-1',
+              studyDate: '2024-01-01',
+              studyMetrics: { ahi: 10 },
+            }),
+          ],
+          nextCursor: 'cursor-1',
+          hasMore: true,
+        })
+        .mockResolvedValueOnce({
+          items: [
+            createMockNote({
+              noteId: 'note-2',
+              studyDate: '2024-06-01',
+              studyMetrics: { ahi: 20 },
+            }),
+          ],
+          hasMore: false,
+        });
+
+      const result = await trendsService.getPatientTrends(auth, 'patient-123', {
+        studyDateFrom: '2024-01-01',
+        studyDateTo: '2024-12-31',
+      });
+
+      expect(mockedPatientAccess.assertPatientAccess).toHaveBeenCalledWith(auth, 'patient-123');
+      expect(mockedRepository.list).toHaveBeenCalledTimes(2);
+      expect(mockedRepository.list).toHaveBeenNthCalledWith(1, auth.clinicId, 'patient-123', {
+        cursor: undefined,
+        limit: 100,
+        sort: 'studyDate',
+        noteType: 'study_result',
+        studyDateFrom: '2024-01-01',
+        studyDateTo: '2024-12-31',
+        attributes: ['studyDate', 'studyMetrics'],
+      });
+      expect(mockedRepository.list).toHaveBeenNthCalledWith(
+        2,
+        auth.clinicId,
+        'patient-123',
+        expect.objectContaining({ cursor: 'cursor-1' })
+      );
+      expect(result.patientId).toBe('patient-123');
+      expect(result.studyCount).toBe(2);
+      expect(result.worsening).toEqual(['ahi']);
+      expect(result.latestOsaSeverity).toBe('moderate');
+      expect(result.metrics.map((trend) => trend.metric)).toEqual([
+        'ahi',
+        'odi',
+        'oxygenNadir',
+        'sleepEfficiency',
+      ]);
+    });
+
+    it('should return empty trends when the patient has no study results', async () => {
+      mockedRepository.list.mockResolvedValue({ items: [], hasMore: false });
+
+      const result = await trendsService.getPatientTrends(
+        createMockAuthContext(),
+        'patient-123',
+        {}
+      );
+
+      expect(result.studyCount).toBe(0);
+      expect(result.worsening).toEqual([]);
+      expect(result.metrics.every((trend) => trend.direction === 'insufficient_data')).toBe(true);
+    });
+
+    it('should throw ForbiddenError when user lacks NOTES_READ scope', async () => {
+      const auth = createMockAuthContext({ scopes: [] });
+
+      await expect(trendsService.getPatientTrends(auth, 'patient-123', {})).rejects.toThrow(
+        ForbiddenError
+      );
+      expect(mockedRepository.list).not.toHaveBeenCalled();
+    });
+
+    it('should propagate patient access errors', async () => {
+      mockedPatientAccess.assertPatientAccess.mockRejectedValue(
+        new ForbiddenError('Patient not found or access denied')
+      );
+
+      await expect(
+        trendsService.getPatientTrends(createMockAuthContext(), 'patient-999', {})
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockedRepository.list).not.toHaveBeenCalled();
+    });
+  });
+});
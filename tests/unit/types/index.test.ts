@@ -1,5 +1,13 @@
-import { toNoteDTO, Note, NoteDTO } from '../../../src/types';
-import { createMockNote } from '../../fixtures/notes';
+import {
+  buildNoteExcerpt,
+  classifyOsaSeverity,
+  toNoteDTO,
+  toNoteFieldsDTO,
+  toNoteSummaryDTO,
+  Note,
+  NoteDTO,
+} from '../../../src/types';
+import { createMockAttachment, createMockNote } from '../../fixtures/notes';
 
 describe('toNoteDTO', () => {
   it('should convert Note to NoteDTO with all fields', () => {
@@ -103,6 +111,21 @@ describe('toNoteDTO', () => {
     expect(result.tags).toBeUndefined();
   });
 
+  it('should include signature and default addenda to an empty array', () => {
+    const signature = {
+      signedAt: '2024-01-16T10:00:00.000Z',
+      signedBy: 'user-123',
+      signedByName: 'Dr. Smith',
+      contentHash: 'a'.repeat(64),
+    };
+    const note = createMockNote({ signature, addenda: undefined });
+
+    const result = toNoteDTO(note);
+
+    expect(result.signature).toEqual(signature);
+    expect(result.addenda).toEqual([]);
+  });
+
   it('should handle note with empty attachments array', () => {
     const note = createMockNote({ attachments: [] });
 
@@ -185,3 +208,97 @@ describe('toNoteDTO', () => {
     expect(result).toHaveProperty('version');
   });
 });
+
+describe('classifyOsaSeverity', () => {
+  it.each([
+    [0, 'normal'],
+    [4.9, 'normal'],
+    [5, 'mild'],
+    [14.9, 'mild'],
+    [15, 'moderate'],
+    [29.9, 'moderate'],
+    [30, 'severe'],
+    [85, 'severe'],
+  ])('should classify an AHI of %p as %s', (ahi, severity) => {
+    expect(classifyOsaSeverity(ahi)).toBe(severity);
+  });
+
+  it('should add the severity to the note DTO when there is an AHI', () => {
+    const withAhi = createMockNote({
+      noteType: 'study_result',
+      studyMetrics: { ahi: 22, odi: 18 },
+    });
+    const withoutAhi = createMockNote({ noteType: 'study_result', studyMetrics: { odi: 18 } });
+
+    expect(toNoteDTO(withAhi).studyMetrics).toEqual({ ahi: 22, odi: 18, osaSeverity: 'moderate' });
+    expect(toNoteDTO(withoutAhi).studyMetrics).toEqual({ odi: 18 });
+    expect(toNoteDTO(createMockNote()).studyMetrics).toBeUndefined();
+  });
+});
+
+describe('buildNoteExcerpt', () => {
+  it('should return short content unchanged apart from whitespace', () => {
+    expect(buildNoteExcerpt('AHI 32.\n\nStart CPAP.')).toBe('AHI 32. Start CPAP.');
+  });
+
+  it('should cut long content at a word boundary with an ellipsis', () => {
+    const excerpt = buildNoteExcerpt('Moderate obstructive sleep apnea', 20);
+
+    expect(excerpt).toBe('Moderate obstructive…');
+  });
+
+  it('should cut a single long word mid-word', () => {
+    expect(buildNoteExcerpt('a'.repeat(30), 10)).toBe(`${'a'.repeat(10)}…`);
+  });
+});
+
+describe('toNoteSummaryDTO', () => {
+  it('should keep list fields and replace content and attachments', () => {
+    const note = createMockNote({
+      noteId: 'note-1',
+      noteType: 'follow_up',
+      tags: ['cpap'],
+      content: 'Compliance good. '.repeat(30),
+      attachments: [createMockAttachment()],
+    });
+
+    const result = toNoteSummaryDTO(note);
+
+    expect(result).toEqual({
+      noteId: 'note-1',
+      patientId: note.patientId,
+      studyDate: note.studyDate,
+      title: note.title,
+      noteType: 'follow_up',
+      tags: ['cpap'],
+      excerpt: expect.stringMatching(/^Compliance good\. .*…$/),
+      attachmentCount: 1,
+      createdBy: note.createdBy,
+      createdByName: note.createdByName,
+      updatedAt: note.updatedAt,
+      version: note.version,
+    });
+    expect(result.excerpt.length).toBeLessThanOrEqual(201);
+  });
+});
+
+describe('toNoteFieldsDTO', () => {
+  it('should return only the requested fields plus noteId', () => {
+    const note = createMockNote({ noteId: 'note-1', title: 'PSG review' });
+
+    expect(toNoteFieldsDTO(note, ['title', 'studyDate'])).toEqual({
+      noteId: 'note-1',
+      title: 'PSG review',
+      studyDate: note.studyDate,
+    });
+  });
+
+  it('should derive excerpt from content', () => {
+    const note = createMockNote({ content: 'Short note.' });
+
+    expect(toNoteFieldsDTO(note, ['excerpt'])).toEqual({
+      noteId: note.noteId,
+      excerpt: 'Short note.',
+    });
+  });
+});
@@ -1,11 +1,33 @@
 import { ZodError } from 'zod';
 import {
   createNoteSchema,
+  studyMetricsSchema,
   updateNoteSchema,
+  patchNoteSchema,
+  signNoteSchema,
+  createAddendumSchema,
+  cosignNoteSchema,
+  rejectCosignSchema,
+  listCosignQueueQuerySchema,
   listNotesQuerySchema,
+  listClinicNotesQuerySchema,
+  listDeletedNotesQuerySchema,
+  compareNotesQuerySchema,
+  patientTrendsQuerySchema,
+  importComplianceSchema,
+  complianceReportQuerySchema,
+  createNoteTemplateSchema,
+  updateNoteTemplateSchema,
+  listNoteTemplatesQuerySchema,
+  templatePathParametersSchema,
+  createPatientSchema,
+  listPatientsQuerySchema,
+  updatePatientSchema,
+  changePatientStatusSchema,
   presignUploadSchema,
   pathParametersSchema,
   notePathParametersSchema,
+  noteVersionPathParametersSchema,
   attachmentPathParametersSchema,
   attachmentSchema,
 } from '../../../src/types/schemas';
@@ -114,6 +136,64 @@ describe('createNoteSchema', () => {
 
     expect(() => createNoteSchema.parse(input)).toThrow(ZodError);
   });
+
+  it('should let a template supply the title and content', () => {
+    const input = {
+      studyDate: '2024-01-15',
+      templateId: '550e8400-e29b-41d4-a716-446655440000',
+    };
+
+    expect(createNoteSchema.parse(input)).toEqual(input);
+  });
+
+  it('should require title and content without a template', () => {
+    expect(() => createNoteSchema.parse({ studyDate: '2024-01-15', title: 'Title' })).toThrow(
+      'title and content are required unless a templateId is given'
+    );
+    expect(() =>
+      createNoteSchema.parse({ studyDate: '2024-01-15', templateId: 'template-1' })
+    ).toThrow(ZodError);
+  });
+});
+
+describe('studyMetricsSchema', () => {
+  const metrics = {
+    ahi: 22.4,
+    rdi: 27.1,
+    odi: 18.9,
+    oxygenNadir: 81,
+    sleepEfficiency: 78.5,
+    totalSleepTimeMinutes: 372,
+  };
+
+  it('should accept a full set of metrics', () => {
+    expect(studyMetricsSchema.parse(metrics)).toEqual(metrics);
+  });
+
+  it.each([
+    ['a negative AHI', { ahi: -1 }],
+    ['an oxygen nadir below 30%', { oxygenNadir: 12 }],
+    ['a sleep efficiency over 100%', { sleepEfficiency: 101 }],
+    ['more than a day of sleep', { totalSleepTimeMinutes: 1441 }],
+    ['an RDI below the AHI', { ahi: 20, rdi: 15 }],
+    ['no metrics', {}],
+  ])('should reject %s', (_name, input) => {
+    expect(() => studyMetricsSchema.parse(input)).toThrow(ZodError);
+  });
+
+  it('should be optional on create and removable on update', () => {
+    const note = { studyDate: '2024-01-15', title: 'PSG', content: 'Findings' };
+
+    expect(createNoteSchema.parse({ ...note, studyMetrics: { ahi: 3 } })).toEqual({
+      ...note,
+      studyMetrics: { ahi: 3 },
+    });
+    expect(() => createNoteSchema.parse({ ...note, studyMetrics: null })).toThrow(ZodError);
+    expect(updateNoteSchema.parse({ studyMetrics: null, version: 2 })).toEqual({
+      studyMetrics: null,
+      version: 2,
+    });
+  });
 });
 
 describe('updateNoteSchema', () => {
@@ -129,12 +209,13 @@ describe('updateNoteSchema', () => {
     expect(result).toEqual(input);
   });
 
-  it('should require version field', () => {
+  it('should leave version optional for If-Match requests', () => {
     const input = {
       title: 'Updated Title',
     };
 
-    expect(() => updateNoteSchema.parse(input)).toThrow(ZodError);
+    expect(updateNoteSchema.parse(input).version).toBeUndefined();
+    expect(() => updateNoteSchema.parse({ ...input, version: 0 })).toThrow(ZodError);
   });
 
   it('should allow partial updates with only title', () => {
@@ -166,6 +247,148 @@ describe('updateNoteSchema', () => {
 
     expect(() => updateNoteSchema.parse(input)).toThrow(ZodError);
   });
+
+  it('should accept a new studyDate', () => {
+    const result = updateNoteSchema.parse({ studyDate: '2024-01-14', version: 2 });
+
+    expect(result.studyDate).toBe('2024-01-14');
+  });
+
+  it('should reject an invalid studyDate', () => {
+    expect(() => updateNoteSchema.parse({ studyDate: '01/14/2024', version: 2 })).toThrow(ZodError);
+  });
+
+  it('should accept null noteType to clear it', () => {
+    expect(updateNoteSchema.parse({ noteType: null, version: 1 }).noteType).toBeNull();
+  });
+
+  it('should accept an empty tags array', () => {
+    expect(updateNoteSchema.parse({ tags: [], version: 1 }).tags).toEqual([]);
+  });
+
+  it('should reject null tags', () => {
+    expect(() => updateNoteSchema.parse({ tags: null, version: 1 })).toThrow(ZodError);
+  });
+
+  it('should accept a merge base and autoMerge', () => {
+    const input = {
+      content: 'Plan: CPAP',
+      version: 1,
+      base: { content: '', noteType: null, tags: [] },
+      autoMerge: true,
+    };
+
+    expect(updateNoteSchema.parse(input)).toEqual(input);
+  });
+
+  it('should reject a non-boolean autoMerge', () => {
+    expect(() => updateNoteSchema.parse({ version: 1, autoMerge: 'true' })).toThrow(ZodError);
+  });
+});
+
+describe('patchNoteSchema', () => {
+  it('should accept null for optional members', () => {
+    const result = patchNoteSchema.parse({
+      noteType: null,
+      tags: null,
+      attachments: null,
+      version: 4,
+    });
+
+    expect(result).toEqual({ noteType: null, tags: null, attachments: null, version: 4 });
+  });
+
+  it('should reject null for required members', () => {
+    expect(() => patchNoteSchema.parse({ title: null, version: 1 })).toThrow(ZodError);
+    expect(() => patchNoteSchema.parse({ content: null, version: 1 })).toThrow(ZodError);
+    expect(() => patchNoteSchema.parse({ studyDate: null, version: 1 })).toThrow(ZodError);
+  });
+
+  it('should leave version optional for If-Match requests', () => {
+    expect(patchNoteSchema.parse({ title: 'Title' }).version).toBeUndefined();
+  });
+
+  it('should accept null for single study metrics', () => {
+    const result = patchNoteSchema.parse({ studyMetrics: { rdi: null, ahi: 12 }, version: 2 });
+
+    expect(result.studyMetrics).toEqual({ rdi: null, ahi: 12 });
+  });
+
+  it('should reject a study metrics patch with rdi below ahi', () => {
+    expect(() =>
+      patchNoteSchema.parse({ studyMetrics: { ahi: 20, rdi: 10 }, version: 2 })
+    ).toThrow(ZodError);
+  });
+});
+
+describe('signNoteSchema', () => {
+  it('should validate a version', () => {
+    expect(signNoteSchema.parse({ version: 3 })).toEqual({ version: 3 });
+  });
+
+  it('should require a positive version', () => {
+    expect(() => signNoteSchema.parse({})).toThrow(ZodError);
+    expect(() => signNoteSchema.parse({ version: 0 })).toThrow(ZodError);
+  });
+});
+
+describe('createAddendumSchema', () => {
+  it('should validate addendum content', () => {
+    const result = createAddendumSchema.parse({ content: 'Corrected AHI to 18.2' });
+
+    expect(result.content).toBe('Corrected AHI to 18.2');
+  });
+
+  it('should reject empty content', () => {
+    expect(() => createAddendumSchema.parse({ content: '' })).toThrow(ZodError);
+  });
+
+  it('should reject content over 50000 characters', () => {
+    expect(() => createAddendumSchema.parse({ content: 'a'.repeat(50001) })).toThrow(ZodError);
+  });
+});
+
+describe('cosignNoteSchema', () => {
+  it('should validate a version', () => {
+    expect(cosignNoteSchema.parse({ version: 2 })).toEqual({ version: 2 });
+  });
+
+  it('should require a version', () => {
+    expect(() => cosignNoteSchema.parse({})).toThrow(ZodError);
+  });
+});
+
+describe('rejectCosignSchema', () => {
+  it('should validate a version and reason', () => {
+    const input = { version: 2, reason: 'Missing pressure settings' };
+
+    expect(rejectCosignSchema.parse(input)).toEqual(input);
+  });
+
+  it('should require a reason', () => {
+    expect(() => rejectCosignSchema.parse({ version: 2 })).toThrow(ZodError);
+    expect(() => rejectCosignSchema.parse({ version: 2, reason: '' })).toThrow(ZodError);
+  });
+
+  it('should reject reasons over 2000 characters', () => {
+    expect(() => rejectCosignSchema.parse({ version: 2, reason: 'a'.repeat(2001) })).toThrow(
+      ZodError
+    );
+  });
+});
+
+describe('listCosignQueueQuerySchema', () => {
+  it('should apply the default limit', () => {
+    expect(listCosignQueueQuerySchema.parse({})).toEqual({ limit: 20 });
+  });
+
+  it('should coerce limit from a string', () => {
+    expect(listCosignQueueQuerySchema.parse({ limit: '5' }).limit).toBe(5);
+  });
+
+  it('should reject limit over 100', () => {
+    expect(() => listCosignQueueQuerySchema.parse({ limit: '101' })).toThrow(ZodError);
+  });
 });
 
 describe('listNotesQuerySchema', () => {
@@ -224,6 +447,286 @@ describe('listNotesQuerySchema', () => {
   });
 });
 
+describe('listClinicNotesQuerySchema', () => {
+  it('should apply the default limit', () => {
+    expect(listClinicNotesQuerySchema.parse({})).toEqual({ limit: 20 });
+  });
+
+  it('should accept every filter', () => {
+    const input = {
+      noteType: 'study_result',
+      studyDateFrom: '2024-01-08',
+      studyDateTo: '2024-01-14',
+      createdBy: 'user-456',
+      tag: 'psg',
+      q: 'apnea',
+    };
+
+    expect(listClinicNotesQuerySchema.parse(input)).toEqual({ ...input, limit: 20 });
+  });
+
+  it('should reject malformed study dates', () => {
+    expect(() => listClinicNotesQuerySchema.parse({ studyDateTo: '01/14/2024' })).toThrow(ZodError);
+  });
+
+  it('should reject an empty noteType', () => {
+    expect(() => listClinicNotesQuerySchema.parse({ noteType: '' })).toThrow(ZodError);
+  });
+});
+
+describe('listDeletedNotesQuerySchema', () => {
+  it('should default limit to 20', () => {
+    expect(listDeletedNotesQuerySchema.parse({}).limit).toBe(20);
+  });
+
+  it('should reject limit greater than 100', () => {
+    expect(() => listDeletedNotesQuerySchema.parse({ limit: '101' })).toThrow(ZodError);
+  });
+});
+
+describe('compareNotesQuerySchema', () => {
+  const left = '550e8400-e29b-41d4-a716-446655440000';
+  const right = '550e8400-e29b-41d4-a716-446655440001';
+
+  it('should accept two note ids', () => {
+    expect(compareNotesQuerySchema.parse({ left, right })).toEqual({ left, right });
+  });
+
+  it('should require both note ids as UUIDs', () => {
+    expect(() => compareNotesQuerySchema.parse({ left })).toThrow(ZodError);
+    expect(() => compareNotesQuerySchema.parse({ left, right: 'note-2' })).toThrow(ZodError);
+  });
+
+  it('should reject comparing a note with itself', () => {
+    expect(() => compareNotesQuerySchema.parse({ left, right: left })).toThrow(
+      'left and right must be different notes'
+    );
+  });
+});
+
+describe('importComplianceSchema', () => {
+  it('should accept nightly records with optional therapy values', () => {
+    const input = {
+      records: [
+        { date: '2024-03-01', usageMinutes: 412, residualAhi: 2.1, leak: 12.5, pressure: 9.8 },
+        { date: '2024-03-02', usageMinutes: 0 },
+      ],
+    };
+
+    expect(importComplianceSchema.parse(input)).toEqual(input);
+  });
+
+  it('should reject out-of-range values', () => {
+    expect(() =>
+      importComplianceSchema.parse({ records: [{ date: '2024-03-01', usageMinutes: 1441 }] })
+    ).toThrow(ZodError);
+    expect(() =>
+      importComplianceSchema.parse({
+        records: [{ date: '2024-03-01', usageMinutes: 300, pressure: 31 }],
+      })
+    ).toThrow(ZodError);
+  });
+
+  it('should require at least one record and unique nights', () => {
+    expect(() => importComplianceSchema.parse({ records: [] })).toThrow(ZodError);
+    expect(() =>
+      importComplianceSchema.parse({
+        records: [
+          { date: '2024-03-01', usageMinutes: 300 },
+          { date: '2024-03-01', usageMinutes: 200 },
+        ],
+      })
+    ).toThrow('Each night may appear only once');
+  });
+
+  it('should reject nights that are not calendar dates', () => {
+    for (const date of ['2024-13-01', '2024-02-30', '2023-02-29']) {
+      expect(() =>
+        importComplianceSchema.parse({ records: [{ date, usageMinutes: 300 }] })
+      ).toThrow('Must be a real calendar date');
+    }
+  });
+});
+
+describe('complianceReportQuerySchema', () => {
+  it('should accept an optional date range', () => {
+    expect(complianceReportQuerySchema.parse({})).toEqual({});
+    expect(complianceReportQuerySchema.parse({ from: '2024-01-01', to: '2024-03-31' })).toEqual({
+      from: '2024-01-01',
+      to: '2024-03-31',
+    });
+    expect(() => complianceReportQuerySchema.parse({ to: '2024-3-31' })).toThrow(ZodError);
+  });
+
+  it('should reject dates that are not calendar dates', () => {
+    expect(() => complianceReportQuerySchema.parse({ from: '2024-13-45' })).toThrow(
+      'Must be a real calendar date'
+    );
+    expect(() => complianceReportQuerySchema.parse({ to: '2024-00-10' })).toThrow(ZodError);
+    expect(() => complianceReportQuerySchema.parse({ to: '2024-02-30' })).toThrow(ZodError);
+    expect(complianceReportQuerySchema.parse({ to: '2024-02-29' })).toEqual({ to: '2024-02-29' });
+  });
+});
+
+describe('patientTrendsQuerySchema', () => {
+  it('should accept an optional study date range', () => {
+    expect(patientTrendsQuerySchema.parse({})).toEqual({});
+    expect(
+      patientTrendsQuerySchema.parse({ studyDateFrom: '2024-01-01', studyDateTo: '2024-01-01' })
+    ).toEqual({ studyDateFrom: '2024-01-01', studyDateTo: '2024-01-01' });
+  });
+
+  it('should reject malformed or reversed dates', () => {
+    expect(() => patientTrendsQuerySchema.parse({ studyDateTo: '2024-1-1' })).toThrow(ZodError);
+    expect(() =>
+      patientTrendsQuerySchema.parse({ studyDateFrom: '2024-06-01', studyDateTo: '2024-01-01' })
+    ).toThrow('studyDateFrom must not be after studyDateTo');
+  });
+});
+
+describe('note template schemas', () => {
+  const template = {
+    noteType: 'study_result',
+    name: 'PSG results',
+    title: 'PSG - {{patient.fullName}}',
+    content: 'Study of {{note.studyDate}}.',
+    tags: ['psg'],
+  };
+
+  it('should accept a template', () => {
+    expect(createNoteTemplateSchema.parse(template)).toEqual(template);
+  });
+
+  it('should require a note type without #, a name and content', () => {
+    expect(() => createNoteTemplateSchema.parse({ ...template, noteType: 'a#b' })).toThrow(
+      'Must not contain #'
+    );
+    expect(() => createNoteTemplateSchema.parse({ ...template, name: '' })).toThrow(ZodError);
+    expect(() => createNoteTemplateSchema.parse({ ...template, content: undefined })).toThrow(
+      ZodError
+    );
+  });
+
+  it('should require a version to update and allow removing the title', () => {
+    expect(updateNoteTemplateSchema.parse({ title: null, version: 2 })).toEqual({
+      title: null,
+      version: 2,
+    });
+    expect(() => updateNoteTemplateSchema.parse({ name: 'PSG' })).toThrow(ZodError);
+  });
+
+  it('should validate the query and path parameters', () => {
+    expect(listNoteTemplatesQuerySchema.parse({})).toEqual({});
+    expect(() => listNoteTemplatesQuerySchema.parse({ noteType: '' })).toThrow(ZodError);
+    expect(() => templatePathParametersSchema.parse({ templateId: 'template-1' })).toThrow(
+      ZodError
+    );
+  });
+});
+
+describe('patient schemas', () => {
+  const patient = { firstName: 'Jane', lastName: 'Smith', dateOfBirth: '1985-03-20' };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should trim names and normalize the email', () => {
+    expect(
+      createPatientSchema.parse({
+        ...patient,
+        firstName: '  Jane ',
+        email: ' Jane.Smith@Example.COM ',
+      })
+    ).toEqual({ ...patient, email: 'jane.smith@example.com' });
+  });
+
+  it('should require names and date of birth', () => {
+    expect(() => createPatientSchema.parse({ ...patient, firstName: '  ' })).toThrow(ZodError);
+    expect(() => createPatientSchema.parse({ firstName: 'Jane', lastName: 'Smith' })).toThrow(
+      ZodError
+    );
+  });
+
+  it.each(['+1 (312) 555-3003', '312.555.3003', '0049 30 1234567'])(
+    'should accept phone number %s',
+    (phone) => {
+      expect(createPatientSchema.parse({ ...patient, phone }).phone).toBe(phone);
+    }
+  );
+
+  it.each(['555-12', 'call me', '+1 312 555 3003 ext 4', '1234567890123456'])(
+    'should reject phone number %s',
+    (phone) => {
+      expect(() => createPatientSchema.parse({ ...patient, phone })).toThrow(ZodError);
+    }
+  );
+
+  it('should reject an invalid email', () => {
+    expect(() => createPatientSchema.parse({ ...patient, email: 'jane@' })).toThrow(ZodError);
+  });
+
+  it('should only accept real dates of birth between 1900 and today', () => {
+    jest.useFakeTimers({ now: new Date('2024-06-15T12:00:00.000Z') });
+
+    expect(createPatientSchema.parse({ ...patient, dateOfBirth: '2024-06-15' })).toBeDefined();
+    for (const dateOfBirth of ['2024-06-16', '1899-12-31', '2023-02-29', '1985/03/20']) {
+      expect(() => createPatientSchema.parse({ ...patient, dateOfBirth })).toThrow(ZodError);
+    }
+  });
+
+  it('should allow clearing optional fields but not required ones on update', () => {
+    expect(updatePatientSchema.parse({ phone: null, insuranceId: null, version: 2 })).toEqual({
+      phone: null,
+      insuranceId: null,
+      version: 2,
+    });
+    expect(() => updatePatientSchema.parse({ lastName: null })).toThrow(ZodError);
+    expect(() => updatePatientSchema.parse({ version: 0 })).toThrow(ZodError);
+  });
+
+  it('should validate status changes', () => {
+    expect(changePatientStatusSchema.parse({ status: 'archived', reason: ' Deceased ' })).toEqual({
+      status: 'archived',
+      reason: 'Deceased',
+    });
+    expect(() => changePatientStatusSchema.parse({ status: 'deleted' })).toThrow(ZodError);
+  });
+
+  it('should default the patient list to 20 active patients', () => {
+    expect(listPatientsQuerySchema.parse({})).toEqual({ limit: 20, status: 'active' });
+    expect(listPatientsQuerySchema.parse({ limit: '50', status: 'all' })).toEqual({
+      limit: 50,
+      status: 'all',
+    });
+    expect(() => listPatientsQuerySchema.parse({ limit: '101' })).toThrow(ZodError);
+    expect(() => listPatientsQuerySchema.parse({ status: 'deleted' })).toThrow(ZodError);
+  });
+
+  it('should validate patient search parameters', () => {
+    expect(
+      listPatientsQuerySchema.parse({
+        q: ' smith jo ',
+        lastName: 'Smith',
+        dateOfBirth: '1980-05-15',
+        insuranceId: 'INS-1',
+        phone: '(555) 123-4567',
+      })
+    ).toEqual({
+      limit: 20,
+      status: 'active',
+      q: 'smith jo',
+      lastName: 'Smith',
+      dateOfBirth: '1980-05-15',
+      insuranceId: 'INS-1',
+      phone: '(555) 123-4567',
+    });
+    expect(() => listPatientsQuerySchema.parse({ q: '  ' })).toThrow(ZodError);
+    expect(() => listPatientsQuerySchema.parse({ dateOfBirth: '05/15/1980' })).toThrow(ZodError);
+    expect(() => listPatientsQuerySchema.parse({ phone: 'call me' })).toThrow(ZodError);
+  });
+});
+
 describe('presignUploadSchema', () => {
   it('should validate valid presign input', () => {
     const input = {
@@ -323,6 +826,28 @@ describe('notePathParametersSchema', () => {
   });
 });
 
+describe('noteVersionPathParametersSchema', () => {
+  it('should coerce version to a number', () => {
+    const result = noteVersionPathParametersSchema.parse({
+      patientId: 'patient-123',
+      noteId: '550e8400-e29b-41d4-a716-446655440000',
+      version: '3',
+    });
+
+    expect(result.version).toBe(3);
+  });
+
+  it('should reject version 0', () => {
+    expect(() =>
+      noteVersionPathParametersSchema.parse({
+        patientId: 'patient-123',
+        noteId: '550e8400-e29b-41d4-a716-446655440000',
+        version: '0',
+      })
+    ).toThrow(ZodError);
+  });
+});
+
 describe('attachmentPathParametersSchema', () => {
   it('should validate valid attachment path parameters', () => {
     const input = {
@@ -623,4 +1148,64 @@ describe('listNotesQuerySchema - additional tests', () => {
 
     expect(() => listNotesQuerySchema.parse(input)).toThrow(ZodError);
   });
+
+  it('should validate sort and filter parameters', () => {
+    const input = {
+      sort: 'updatedAt',
+      noteType: 'study_result',
+      createdBy: 'user-123',
+      tags: 'psg, cpap',
+      tagMatch: 'all',
+      hasAttachments: 'false',
+    };
+
+    const result = listNotesQuerySchema.parse(input);
+
+    expect(result.sort).toBe('updatedAt');
+    expect(result.noteType).toBe('study_result');
+    expect(result.createdBy).toBe('user-123');
+    expect(result.tags).toEqual(['psg', 'cpap']);
+    expect(result.tagMatch).toBe('all');
+    expect(result.hasAttachments).toBe(false);
+  });
+
+  it.each([
+    ['unknown sort field', { sort: 'title' }],
+    ['unknown tagMatch', { tagMatch: 'some' }],
+    ['empty tag in tags', { tags: 'psg,,cpap' }],
+    ['more than 20 tags', { tags: Array.from({ length: 21 }, (_, i) => `t${i}`).join(',') }],
+    ['non-boolean hasAttachments', { hasAttachments: 'yes' }],
+  ])('should reject %s', (_name, input) => {
+    expect(() => listNotesQuerySchema.parse(input)).toThrow(ZodError);
+  });
+
+  it('should validate view and fields parameters', () => {
+    expect(listNotesQuerySchema.parse({ view: 'summary' }).view).toBe('summary');
+    expect(listNotesQuerySchema.parse({ fields: 'title, studyDate,excerpt' }).fields).toEqual([
+      'title',
+      'studyDate',
+      'excerpt',
+    ]);
+  });
+
+  it.each([
+    ['unknown view', { view: 'compact' }],
+    ['unknown field', { fields: 'title,clinicId' }],
+    ['empty fields', { fields: '' }],
+    ['fields with view=summary', { view: 'summary', fields: 'title' }],
+  ])('should reject %s', (_name, input) => {
+    expect(() => listNotesQuerySchema.parse(input)).toThrow(ZodError);
+  });
+
+  it('should parse includeCounts as a boolean', () => {
+    expect(listNotesQuerySchema.parse({ includeCounts: 'true' }).includeCounts).toBe(true);
+    expect(listNotesQuerySchema.parse({ includeCounts: 'false' }).includeCounts).toBe(false);
+    expect(() => listNotesQuerySchema.parse({ includeCounts: '1' })).toThrow(ZodError);
+  });
+
+  it('should reject sort combined with a search query', () => {
+    const input = { q: 'apnea', sort: '-studyDate' };
+
+    expect(() => listNotesQuerySchema.parse(input)).toThrow(ZodError);
+  });
 });